@@ -3,16 +3,25 @@
  * These types are used across both projects to ensure consistency
  */
 
-export type Phase = "registration" | "lottery" | "purchase" | "completed";
+export type Phase =
+  | "upcoming"
+  | "registration"
+  | "lottery"
+  | "purchase"
+  | "completed"
+  | "cancelled";
 
 export type UserStatus =
   | "not_registered"
+  | "pending_payment"
   | "registered"
   | "winner"
   | "backup_winner"
   | "loser"
   | "purchased"
-  | "expired";
+  | "expired"
+  | "cancelled"
+  | "disqualified";
 
 export type LoyaltyTier = "bronze" | "silver" | "gold";
 
@@ -42,6 +51,28 @@ export type GeoFence = GeoFenceRadius | GeoFencePolygon;
 
 export type GeoFenceMode = "exclusive" | "bonus";
 
+/**
+ * Remaining stock for one variant of a multi-SKU drop (sent to clients)
+ */
+export interface VariantStock {
+  id: string;
+  label: string;
+  inventory: number; // Remaining (unsold)
+  initialInventory: number;
+  reserved?: number; // Held for winners checking out
+}
+
+/**
+ * Inventory breakdown during the purchase window
+ * total = available + reserved + sold
+ */
+export interface InventoryCounts {
+  total: number;
+  available: number; // Neither held nor sold
+  reserved: number; // Held for winners between startPurchase and purchase/expiry
+  sold: number;
+}
+
 /**
  * Ticket pricing info returned to clients
  */
@@ -59,10 +90,32 @@ export interface BotValidation {
   fingerprint: string; // FingerprintJS Pro visitorId
   fingerprintConfidence: number; // 0-100
   timingMs: number; // Time from page load to registration
-  powSolution: string; // Argon2 hash solution
+  powSolution: string; // Nonce solving the PoW challenge
   powChallenge: string; // Original challenge
 }
 
+/**
+ * Proof-of-work hash function, negotiated per challenge
+ * - "sha256": SHA256(challenge + nonce), difficulty = leading zero hex digits
+ * - "scrypt": scrypt(challenge + nonce, challenge), difficulty = leading zero bits
+ */
+export type PowScheme = "sha256" | "scrypt";
+
+export interface ScryptParams {
+  N: number; // CPU/memory cost (power of 2); memory = 128 * N * r bytes
+  r: number; // Block size
+  p: number; // Parallelization
+  keyLength: number; // Output bytes
+}
+
+export interface PowChallenge {
+  challenge: string;
+  scheme: PowScheme;
+  difficulty: number;
+  scrypt?: ScryptParams; // Present when scheme is "scrypt"
+  timestamp: number;
+}
+
 // ============================================================================
 // Queue (Token Sequencing) Types
 // ============================================================================
@@ -144,6 +197,16 @@ export interface QueueStatusResponse {
 // SSE Event Types
 // ============================================================================
 
+/**
+ * SSE event sent to users who asked to be reminded when registration opens
+ */
+export interface ReminderSSEEvent {
+  type: "registration_open";
+  dropId: string;
+  registrationEnd: number;
+  serverTime: number;
+}
+
 /**
  * SSE Event types - unified structure used by both frontend and backend
  */
@@ -157,7 +220,10 @@ export interface SSEEvent {
   initialInventory?: number; // Initial inventory (for display purposes)
   winnerCount?: number; // Number of winners selected
   ticketPricing?: TicketPricing; // Ticket pricing configuration
+  variants?: VariantStock[]; // Multi-SKU: per-variant remaining stock
+  inventoryCounts?: InventoryCounts; // Held vs sold breakdown
   // Timing info (for synchronized countdown)
+  registrationStart?: number; // Unix timestamp ms - when registration opens
   registrationEnd?: number; // Unix timestamp ms
   purchaseEnd?: number; // Unix timestamp ms - when purchase window closes
   serverTime?: number; // Server's current time for clock sync
@@ -173,8 +239,12 @@ export interface SSEEvent {
   backupPosition?: number; // Position in backup queue
   backupsAhead?: number; // Number of backups ahead in queue
   promoted?: boolean; // True when backup is promoted to winner
+  paymentError?: string; // Why a pending registration was released
+  variantId?: string; // Multi-SKU: variant allocated to a winner
   // Lottery verification
   lotteryCommitment?: string; // Published commitment hash
+  // Cancellation
+  cancelReason?: string; // Set on the terminal event of a cancelled drop
   // Loyalty info
   loyaltyTier?: LoyaltyTier;
   loyaltyMultiplier?: number;
@@ -0,0 +1,167 @@
+/**
+ * Admin authentication middleware
+ *
+ * Accepts either the master ADMIN_SECRET (all scopes) or a scoped API key
+ * from ADMIN_API_KEYS, sent as `Authorization: Bearer <key>` or `X-Admin-Key`.
+ * The authenticated key name is attached to the context for the audit trail.
+ */
+
+import crypto from "node:crypto";
+import type { Context, MiddlewareHandler } from "hono";
+import { config } from "../../lib/config.js";
+import {
+  createErrorResponse,
+  ErrorCodes,
+  forbidden,
+  unauthorized,
+} from "../../lib/errors.js";
+import { createLogger } from "../../lib/logger.js";
+
+const logger = createLogger("admin-auth");
+
+/**
+ * Scopes that can be granted to admin API keys
+ */
+export const ADMIN_SCOPES = [
+  "drops.create",
+  "drops.update",
+  "drops.lottery",
+  "drops.promote",
+  "drops.cancel",
+  "drops.close",
+  "drops.disqualify",
+  "drops.simulate",
+  "inventory.read",
+  "audit.read",
+  "blocklist.read",
+  "blocklist.write",
+  "models.read",
+  "models.write",
+] as const;
+
+export type AdminScope = (typeof ADMIN_SCOPES)[number];
+
+/**
+ * Context variables set by admin auth middleware
+ */
+export interface AdminAuthVariables {
+  adminActor: string;
+}
+
+interface AdminKey {
+  name: string;
+  keyHash: Buffer;
+  scopes: Set<AdminScope>;
+}
+
+/**
+ * Hash a key so comparisons are constant-time and length-independent
+ */
+function hashKey(key: string): Buffer {
+  return crypto.createHash("sha256").update(key).digest();
+}
+
+/**
+ * Parse ADMIN_API_KEYS entries ("name:key:scope|scope")
+ * Malformed entries and unknown scopes are skipped with a warning.
+ */
+function parseAdminKeys(entries: readonly string[]): AdminKey[] {
+  const keys: AdminKey[] = [];
+
+  for (const entry of entries) {
+    const [name, key, scopeList] = entry.trim().split(":");
+    if (!name || !key || !scopeList) {
+      logger.warn({ name }, "Ignoring malformed ADMIN_API_KEYS entry");
+      continue;
+    }
+
+    const scopes = new Set<AdminScope>();
+    for (const scope of scopeList.split("|")) {
+      if ((ADMIN_SCOPES as readonly string[]).includes(scope)) {
+        scopes.add(scope as AdminScope);
+      } else {
+        logger.warn({ name, scope }, "Ignoring unknown admin scope");
+      }
+    }
+
+    keys.push({ name, keyHash: hashKey(key), scopes });
+  }
+
+  // Master secret grants every scope
+  if (config.security.adminSecret) {
+    keys.push({
+      name: "admin",
+      keyHash: hashKey(config.security.adminSecret),
+      scopes: new Set(ADMIN_SCOPES),
+    });
+  }
+
+  return keys;
+}
+
+const adminKeys = parseAdminKeys(config.security.adminApiKeys);
+
+/**
+ * Extract the presented admin credential from request headers
+ */
+function getPresentedKey(c: Context): string | undefined {
+  const authHeader = c.req.header("authorization");
+  if (authHeader?.toLowerCase().startsWith("bearer ")) {
+    return authHeader.slice(7).trim() || undefined;
+  }
+  return c.req.header("x-admin-key") || undefined;
+}
+
+/**
+ * Find the admin key matching a presented credential
+ * Compares every configured key so timing doesn't reveal which one matched.
+ */
+function findAdminKey(presented: string): AdminKey | undefined {
+  const presentedHash = hashKey(presented);
+  let match: AdminKey | undefined;
+  for (const key of adminKeys) {
+    if (crypto.timingSafeEqual(key.keyHash, presentedHash) && !match) {
+      match = key;
+    }
+  }
+  return match;
+}
+
+/**
+ * Require an admin credential holding the given scope
+ */
+export function requireAdmin(scope: AdminScope): MiddlewareHandler {
+  return async (c, next) => {
+    if (adminKeys.length === 0) {
+      return c.json(
+        createErrorResponse(
+          "Admin API disabled - ADMIN_SECRET not configured",
+          ErrorCodes.SERVICE_UNAVAILABLE
+        ),
+        503
+      );
+    }
+
+    const presented = getPresentedKey(c);
+    if (!presented) {
+      return unauthorized(c, "Admin credentials required");
+    }
+
+    const key = findAdminKey(presented);
+    if (!key) {
+      logger.warn({ path: c.req.path }, "Rejected invalid admin credentials");
+      return unauthorized(c, "Invalid admin credentials");
+    }
+
+    if (!key.scopes.has(scope)) {
+      logger.warn(
+        { actor: key.name, scope, path: c.req.path },
+        "Admin key missing required scope"
+      );
+      return forbidden(c, `Admin key lacks scope: ${scope}`);
+    }
+
+    c.set("adminActor", key.name);
+    await next();
+  };
+}
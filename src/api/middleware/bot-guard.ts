@@ -1,7 +1,13 @@
 import type { Context, Next } from "hono";
 import { calculateTrustScore } from "../../lib/fingerprint.js";
+import { extractFeatures } from "../../lib/ml/feature-extractor.js";
+import { getMLService } from "../../lib/ml/ml-service.js";
+import { getTrainingCollector } from "../../lib/ml/training-collector.js";
+import { hashIpForQueue, recordTrustScore } from "../../lib/nats-kv.js";
 import { verifyPow } from "../../lib/pow.js";
 import type { BotValidationRequest } from "../../lib/types.js";
+import type { QueueBehaviorSignals } from "../../../shared/types.js";
+import { getClientIp } from "./rate-limit.js";
 
 /**
  * Bot guard middleware that validates requests before allowing registration
@@ -29,10 +35,12 @@ export async function botGuard(c: Context, next: Next) {
     return c.json({ error: "Bot validation required" }, 400);
   }
 
-  // Verify PoW first (now async with NATS KV)
+  // Verify PoW first (now async with NATS KV); the challenge must have been
+  // issued for this drop and fingerprint
   const powValid = await verifyPow(
     botValidation.powChallenge,
-    botValidation.powSolution
+    botValidation.powSolution,
+    { dropId: c.req.param("id"), fingerprint: botValidation.fingerprint }
   );
 
   if (!powValid) {
@@ -43,8 +51,37 @@ export async function botGuard(c: Context, next: Next) {
   // This is set by queueGuard middleware when queue is enabled
   const behaviorScore = c.get("behaviorScore") as number | undefined;
 
-  // Calculate trust score with PoW result and optional behavior score
-  const result = await calculateTrustScore(botValidation, powValid, behaviorScore);
+  // Isolation Forest over the request and queue behavior signals
+  // (neutral fallback when no model is loaded)
+  const features = extractFeatures(
+    body.behaviorSignals as QueueBehaviorSignals | undefined,
+    botValidation
+  );
+  const mlService = await getMLService();
+  const mlResult = await mlService.score(features);
+
+  // Calculate trust score with PoW result, optional behavior score and ML
+  const result = await calculateTrustScore(
+    botValidation,
+    powValid,
+    behaviorScore,
+    { result: mlResult, weight: mlService.getWeight() }
+  );
+
+  // Sampled for offline model training (allowed and rejected alike)
+  getTrainingCollector().record(features, result);
+
+  // Remembered for a day to set the PoW difficulty of this requester's next
+  // challenges. Best-effort: a NATS outage must not block registration
+  try {
+    await recordTrustScore(
+      result.trustScore,
+      hashIpForQueue(getClientIp(c)),
+      botValidation.fingerprint
+    );
+  } catch {
+    // Difficulty falls back to the base level without history
+  }
 
   if (!result.allowed) {
     return c.json(
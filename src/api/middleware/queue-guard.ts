@@ -22,6 +22,7 @@ import {
 import { callRestate } from "../../lib/restate-client.js";
 import { createLogger } from "../../lib/logger.js";
 import type { QueueBehaviorSignals } from "../../../shared/types.js";
+import type { ParticipantIdentity } from "../../lib/types.js";
 
 const logger = createLogger("queue-guard");
 
@@ -32,6 +33,7 @@ export interface QueueGuardVariables {
   queueToken: string;
   queueTokenValid: boolean;
   behaviorScore: number;
+  queueIdentity?: ParticipantIdentity; // Fingerprint and IP hash bound to the token
 }
 
 /**
@@ -223,6 +225,11 @@ export async function queueGuard(c: Context, next: Next) {
   c.set("queueTokenValid", true);
   c.set("behaviorScore", behaviorResult.score);
   c.set("parsedBody", body);
+  const queueIdentity: ParticipantIdentity = {
+    fingerprint: token.fingerprint,
+    ipHash: token.ipHash,
+  };
+  c.set("queueIdentity", queueIdentity);
 
   await next();
 }
@@ -12,9 +12,9 @@ import { config } from "../../lib/config.js";
 const SKIP_RATE_LIMIT = process.env.SKIP_RATE_LIMIT === "true";
 
 /**
- * Extract client IP from request headers
+ * Extract client IP from request headers (exported for use in routes)
  */
-function getClientIp(c: Context): string {
+export function getClientIp(c: Context): string {
   return (
     c.req.header("x-forwarded-for")?.split(",")[0]?.trim() ||
     c.req.header("x-real-ip") ||
@@ -0,0 +1,800 @@
+/**
+ * Admin API routes for drop lifecycle management
+ *
+ * Every route requires an admin credential with the matching scope
+ * (see admin-auth middleware) and every mutating action is recorded
+ * in the admin audit trail (NATS KV).
+ *
+ * Endpoints:
+ * - POST /admin/drops - Create and initialize a drop
+ * - PATCH /admin/drops/:id/config - Edit config before the lottery runs
+ * - POST /admin/drops/:id/lottery - Run the lottery now
+ * - POST /admin/drops/:id/promote-backup - Promote the next backup winner
+ * - POST /admin/drops/:id/cancel - Cancel the drop
+ * - POST /admin/drops/:id/close-purchase - Close the purchase window now
+ * - POST /admin/drops/:id/disqualify - Remove users before the draw
+ * - POST /admin/simulate - Monte Carlo simulation of a planned drop
+ * - GET /admin/drops/:id/inventory - Reserved, available and sold units
+ * - GET /admin/drops/:id/audit - Audit trail for a drop
+ * - GET /admin/audit - Audit trail of actions not tied to a drop
+ * - GET /admin/blocklist - List the global blocklist
+ * - POST /admin/blocklist - Add blocklist entries
+ * - DELETE /admin/blocklist - Remove blocklist entries
+ * - GET /admin/models - Model registry versions, state and shadow stats
+ * - POST /admin/models - Upload a model version
+ * - POST /admin/models/shadow - Set or clear the shadow model
+ * - POST /admin/models/promote - Make a model version active
+ */
+
+import crypto from "node:crypto";
+import { Hono, type Context } from "hono";
+import {
+  requireAdmin,
+  type AdminAuthVariables,
+  type AdminScope,
+} from "../middleware/admin-auth.js";
+import { callRestate, RestateError } from "../../lib/restate-client.js";
+import {
+  addBlocklistEntries,
+  appendAdminAudit,
+  hashIpForQueue,
+  listAdminAudit,
+  getModelManifest,
+  getModelRegistryState,
+  listBlocklist,
+  listModelManifests,
+  removeBlocklistEntries,
+  type AdminAuditEntry,
+} from "../../lib/nats-kv.js";
+import type { BlocklistKind } from "../../lib/types.js";
+import {
+  adminCancelSchema,
+  adminDisqualifySchema,
+  blocklistAddSchema,
+  blocklistRemoveSchema,
+  simulationScenarioSchema,
+  dropConfigSchema,
+  dropConfigUpdateSchema,
+  dropIdSchema,
+  formatZodError,
+  modelPromoteSchema,
+  modelShadowSchema,
+  modelUploadSchema,
+} from "../../lib/schemas.js";
+import { handleError, notFound } from "../../lib/errors.js";
+import { config } from "../../lib/config.js";
+import { createForest, getMLService } from "../../lib/ml/ml-service.js";
+import {
+  publishModel,
+  syncModelRegistry,
+  updateModelRegistryState,
+} from "../../lib/ml/model-registry.js";
+import {
+  DEFAULT_SIMULATION_ITERATIONS,
+  MAX_SIMULATION_WORK,
+  simulateDrop,
+} from "../../lib/simulation.js";
+import { createLogger } from "../../lib/logger.js";
+
+const logger = createLogger("admin");
+
+const adminRouter = new Hono<{ Variables: AdminAuthVariables }>();
+
+// Request timeout for Restate calls (ms)
+const RESTATE_TIMEOUT = 15000;
+
+/**
+ * Extract client IP from request headers
+ */
+function getClientIp(c: Context): string {
+  return (
+    c.req.header("x-forwarded-for")?.split(",")[0]?.trim() ||
+    c.req.header("x-real-ip") ||
+    "unknown"
+  );
+}
+
+/**
+ * Record an admin action in the audit trail
+ * Best-effort: a NATS outage must not mask the outcome of the action itself
+ */
+async function recordAudit(
+  c: Context<{ Variables: AdminAuthVariables }>,
+  entry: Omit<AdminAuditEntry, "id" | "timestamp" | "actor" | "ipHash">
+): Promise<void> {
+  const fullEntry: AdminAuditEntry = {
+    id: crypto.randomBytes(6).toString("hex"),
+    timestamp: Date.now(),
+    actor: c.get("adminActor"),
+    ipHash: hashIpForQueue(getClientIp(c)),
+    ...entry,
+  };
+
+  logger.info(
+    {
+      actor: fullEntry.actor,
+      action: fullEntry.action,
+      dropId: fullEntry.dropId,
+      success: fullEntry.success,
+    },
+    "Admin action"
+  );
+
+  try {
+    await appendAdminAudit(fullEntry);
+  } catch (error) {
+    logger.error({ err: error, entry: fullEntry }, "Failed to write audit entry");
+  }
+}
+
+/**
+ * Run an admin action and audit the outcome
+ * Pass undefined as dropId for actions that are not tied to a drop
+ */
+async function runAuditedAction(
+  c: Context<{ Variables: AdminAuthVariables }>,
+  action: AdminScope,
+  dropId: string | undefined,
+  call: () => Promise<unknown>,
+  details?: Record<string, unknown>
+) {
+  try {
+    const result = await call();
+    await recordAudit(c, {
+      action,
+      dropId,
+      success: true,
+      statusCode: 200,
+      details,
+    });
+    return c.json(result);
+  } catch (error) {
+    await recordAudit(c, {
+      action,
+      dropId,
+      success: false,
+      statusCode: error instanceof RestateError ? error.statusCode : 500,
+      details,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return handleError(c, error, `Admin action ${action} failed`);
+  }
+}
+
+/**
+ * Create and initialize a drop
+ */
+adminRouter.post("/drops", requireAdmin("drops.create"), async (c) => {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const validationResult = dropConfigSchema.safeParse(body);
+  if (!validationResult.success) {
+    return c.json(formatZodError(validationResult.error), 400);
+  }
+
+  const { variants, ...baseConfig } = validationResult.data;
+  if (baseConfig.registrationEnd <= baseConfig.registrationStart) {
+    return c.json(
+      { error: "registrationEnd must be after registrationStart" },
+      400
+    );
+  }
+
+  // Multi-SKU drops: total inventory is the sum of the variants
+  const inventory = variants
+    ? variants.reduce((sum, variant) => sum + variant.inventory, 0)
+    : baseConfig.inventory;
+  if (!inventory) {
+    return c.json(
+      { error: "inventory (or variants with stock) is required" },
+      400
+    );
+  }
+  const dropConfig = { ...baseConfig, inventory, variants };
+
+  return runAuditedAction(
+    c,
+    "drops.create",
+    dropConfig.dropId,
+    () =>
+      callRestate("Drop", dropConfig.dropId, "initialize", dropConfig, {
+        timeoutMs: RESTATE_TIMEOUT,
+      }),
+    {
+      inventory: dropConfig.inventory,
+      variants: variants?.length,
+      registrationStart: dropConfig.registrationStart,
+      registrationEnd: dropConfig.registrationEnd,
+    }
+  );
+});
+
+/**
+ * Edit drop configuration (inventory, registrationEnd, ticket cap, geo-fence,
+ * backup multiplier) before the lottery runs
+ */
+adminRouter.patch(
+  "/drops/:id/config",
+  requireAdmin("drops.update"),
+  async (c) => {
+    const dropIdResult = dropIdSchema.safeParse(c.req.param("id"));
+    if (!dropIdResult.success) {
+      return c.json(formatZodError(dropIdResult.error), 400);
+    }
+    const dropId = dropIdResult.data;
+
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Invalid JSON body" }, 400);
+    }
+
+    const validationResult = dropConfigUpdateSchema.safeParse(body);
+    if (!validationResult.success) {
+      return c.json(formatZodError(validationResult.error), 400);
+    }
+    const changes = validationResult.data;
+
+    return runAuditedAction(
+      c,
+      "drops.update",
+      dropId,
+      () =>
+        callRestate(
+          "Drop",
+          dropId,
+          "updateConfig",
+          { changes, changedBy: c.get("adminActor") },
+          { timeoutMs: RESTATE_TIMEOUT }
+        ),
+      { changes }
+    );
+  }
+);
+
+/**
+ * Run the lottery immediately (normally scheduled at registrationEnd)
+ */
+adminRouter.post(
+  "/drops/:id/lottery",
+  requireAdmin("drops.lottery"),
+  async (c) => {
+    const dropIdResult = dropIdSchema.safeParse(c.req.param("id"));
+    if (!dropIdResult.success) {
+      return c.json(formatZodError(dropIdResult.error), 400);
+    }
+    const dropId = dropIdResult.data;
+
+    return runAuditedAction(c, "drops.lottery", dropId, () =>
+      callRestate("Drop", dropId, "runLottery", {}, {
+        timeoutMs: RESTATE_TIMEOUT,
+      })
+    );
+  }
+);
+
+/**
+ * Promote the next backup winner
+ */
+adminRouter.post(
+  "/drops/:id/promote-backup",
+  requireAdmin("drops.promote"),
+  async (c) => {
+    const dropIdResult = dropIdSchema.safeParse(c.req.param("id"));
+    if (!dropIdResult.success) {
+      return c.json(formatZodError(dropIdResult.error), 400);
+    }
+    const dropId = dropIdResult.data;
+
+    return runAuditedAction(c, "drops.promote", dropId, () =>
+      callRestate("Drop", dropId, "promoteBackup", {}, {
+        timeoutMs: RESTATE_TIMEOUT,
+      })
+    );
+  }
+);
+
+/**
+ * Cancel a drop
+ */
+adminRouter.post(
+  "/drops/:id/cancel",
+  requireAdmin("drops.cancel"),
+  async (c) => {
+    const dropIdResult = dropIdSchema.safeParse(c.req.param("id"));
+    if (!dropIdResult.success) {
+      return c.json(formatZodError(dropIdResult.error), 400);
+    }
+    const dropId = dropIdResult.data;
+
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Invalid JSON body" }, 400);
+    }
+
+    const validationResult = adminCancelSchema.safeParse(body);
+    if (!validationResult.success) {
+      return c.json(formatZodError(validationResult.error), 400);
+    }
+    const { reason } = validationResult.data;
+
+    return runAuditedAction(
+      c,
+      "drops.cancel",
+      dropId,
+      () =>
+        callRestate(
+          "Drop",
+          dropId,
+          "cancelDrop",
+          { reason, cancelledBy: c.get("adminActor") },
+          { timeoutMs: RESTATE_TIMEOUT }
+        ),
+      { reason }
+    );
+  }
+);
+
+/**
+ * Close the purchase window immediately
+ */
+adminRouter.post(
+  "/drops/:id/close-purchase",
+  requireAdmin("drops.close"),
+  async (c) => {
+    const dropIdResult = dropIdSchema.safeParse(c.req.param("id"));
+    if (!dropIdResult.success) {
+      return c.json(formatZodError(dropIdResult.error), 400);
+    }
+    const dropId = dropIdResult.data;
+
+    return runAuditedAction(c, "drops.close", dropId, () =>
+      callRestate("Drop", dropId, "closePurchaseWindow", {}, {
+        timeoutMs: RESTATE_TIMEOUT,
+      })
+    );
+  }
+);
+
+/**
+ * Disqualify users before the draw
+ * Registered users lose their entries; the rest can't register
+ */
+adminRouter.post(
+  "/drops/:id/disqualify",
+  requireAdmin("drops.disqualify"),
+  async (c) => {
+    const dropIdResult = dropIdSchema.safeParse(c.req.param("id"));
+    if (!dropIdResult.success) {
+      return c.json(formatZodError(dropIdResult.error), 400);
+    }
+    const dropId = dropIdResult.data;
+
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: "Invalid JSON body" }, 400);
+    }
+
+    const validationResult = adminDisqualifySchema.safeParse(body);
+    if (!validationResult.success) {
+      return c.json(formatZodError(validationResult.error), 400);
+    }
+    const { userIds, reason } = validationResult.data;
+
+    return runAuditedAction(
+      c,
+      "drops.disqualify",
+      dropId,
+      () =>
+        callRestate(
+          "Drop",
+          dropId,
+          "disqualify",
+          { userIds, reason, disqualifiedBy: c.get("adminActor") },
+          { timeoutMs: RESTATE_TIMEOUT }
+        ),
+      { userIds, reason }
+    );
+  }
+);
+
+/**
+ * Simulate a planned drop (runs synchronously; participants × iterations
+ * is capped at MAX_SIMULATION_WORK). Nothing is stored, so it isn't audited.
+ */
+adminRouter.post("/simulate", requireAdmin("drops.simulate"), async (c) => {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const validationResult = simulationScenarioSchema.safeParse(body);
+  if (!validationResult.success) {
+    return c.json(formatZodError(validationResult.error), 400);
+  }
+  const scenario = validationResult.data;
+
+  const iterations = scenario.iterations ?? DEFAULT_SIMULATION_ITERATIONS;
+  if (scenario.participants * iterations > MAX_SIMULATION_WORK) {
+    return c.json(
+      {
+        error: `participants × iterations must not exceed ${MAX_SIMULATION_WORK}`,
+      },
+      400
+    );
+  }
+
+  try {
+    return c.json(simulateDrop(scenario));
+  } catch (error) {
+    return handleError(c, error, "Simulation failed");
+  }
+});
+
+/**
+ * Get inventory holds and sales for a drop
+ * Distinguishes units held for winners checking out from units sold
+ */
+adminRouter.get(
+  "/drops/:id/inventory",
+  requireAdmin("inventory.read"),
+  async (c) => {
+    const dropIdResult = dropIdSchema.safeParse(c.req.param("id"));
+    if (!dropIdResult.success) {
+      return c.json(formatZodError(dropIdResult.error), 400);
+    }
+    const dropId = dropIdResult.data;
+
+    try {
+      const inventory = await callRestate("Drop", dropId, "getInventory", {}, {
+        timeoutMs: RESTATE_TIMEOUT,
+      });
+      return c.json(inventory);
+    } catch (error) {
+      return handleError(c, error, "Failed to read inventory");
+    }
+  }
+);
+
+/**
+ * Number of audit entries to return (?limit=, 1-500, default 100)
+ */
+function parseAuditLimit(c: Context): number {
+  return Math.min(
+    500,
+    Math.max(1, Number.parseInt(c.req.query("limit") ?? "100", 10) || 100)
+  );
+}
+
+/**
+ * Get the admin audit trail for a drop (oldest first)
+ */
+adminRouter.get(
+  "/drops/:id/audit",
+  requireAdmin("audit.read"),
+  async (c) => {
+    const dropIdResult = dropIdSchema.safeParse(c.req.param("id"));
+    if (!dropIdResult.success) {
+      return c.json(formatZodError(dropIdResult.error), 400);
+    }
+    const dropId = dropIdResult.data;
+
+    try {
+      const entries = await listAdminAudit(dropId, parseAuditLimit(c));
+      return c.json({ dropId, entries });
+    } catch (error) {
+      return handleError(c, error, "Failed to read audit trail");
+    }
+  }
+);
+
+/**
+ * Get the audit trail of actions not tied to a drop (blocklist, models),
+ * oldest first
+ */
+adminRouter.get("/audit", requireAdmin("audit.read"), async (c) => {
+  try {
+    const entries = await listAdminAudit(undefined, parseAuditLimit(c));
+    return c.json({ entries });
+  } catch (error) {
+    return handleError(c, error, "Failed to read audit trail");
+  }
+});
+
+/**
+ * Blocklisted IPs are stored hashed, like queue tokens; a 64-char hex value
+ * is taken to be a hash already (e.g. copied from the audit trail)
+ */
+function blocklistValue(kind: BlocklistKind, value: string): string {
+  if (kind !== "ip" || /^[0-9a-f]{64}$/.test(value)) return value;
+  return hashIpForQueue(value);
+}
+
+/**
+ * List the global blocklist (applied to every drop when its lottery runs)
+ */
+adminRouter.get("/blocklist", requireAdmin("blocklist.read"), async (c) => {
+  try {
+    const entries = await listBlocklist();
+    return c.json({ entries });
+  } catch (error) {
+    return handleError(c, error, "Failed to read blocklist");
+  }
+});
+
+/**
+ * Add blocklist entries (existing entries are replaced)
+ */
+adminRouter.post("/blocklist", requireAdmin("blocklist.write"), async (c) => {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const validationResult = blocklistAddSchema.safeParse(body);
+  if (!validationResult.success) {
+    return c.json(formatZodError(validationResult.error), 400);
+  }
+
+  const addedAt = Date.now();
+  const entries = validationResult.data.entries.map((entry) => ({
+    kind: entry.kind,
+    value: blocklistValue(entry.kind, entry.value),
+    reason: entry.reason,
+    addedAt,
+    addedBy: c.get("adminActor"),
+  }));
+
+  return runAuditedAction(
+    c,
+    "blocklist.write",
+    undefined,
+    async () => {
+      await addBlocklistEntries(entries);
+      return { success: true, added: entries.length };
+    },
+    { added: entries.map(({ kind, value }) => ({ kind, value })) }
+  );
+});
+
+/**
+ * Remove blocklist entries
+ */
+adminRouter.delete("/blocklist", requireAdmin("blocklist.write"), async (c) => {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const validationResult = blocklistRemoveSchema.safeParse(body);
+  if (!validationResult.success) {
+    return c.json(formatZodError(validationResult.error), 400);
+  }
+
+  const entries = validationResult.data.entries.map((entry) => ({
+    kind: entry.kind,
+    value: blocklistValue(entry.kind, entry.value),
+  }));
+
+  return runAuditedAction(
+    c,
+    "blocklist.write",
+    undefined,
+    async () => {
+      await removeBlocklistEntries(entries);
+      return { success: true, removed: entries.length };
+    },
+    { removed: entries }
+  );
+});
+
+/**
+ * Apply a registry change on this server right away
+ * Other servers pick it up on their next poll (ML_REGISTRY_POLL_MS)
+ */
+async function applyModelRegistry(): Promise<void> {
+  if (!config.ml.enabled || !config.ml.registry.enabled) return;
+  try {
+    await syncModelRegistry(await getMLService());
+  } catch (error) {
+    logger.warn({ err: error }, "Failed to apply model registry change");
+  }
+}
+
+/**
+ * List model versions, the active/shadow selection and this server's
+ * shadow scoring counters
+ */
+adminRouter.get("/models", requireAdmin("models.read"), async (c) => {
+  try {
+    const [versions, registry, service] = await Promise.all([
+      listModelManifests(),
+      getModelRegistryState(),
+      getMLService(),
+    ]);
+    return c.json({
+      versions,
+      state: registry?.state ?? null,
+      server: {
+        modelLoaded: service.isEnabled(),
+        activeVersion: service.getActiveVersion(),
+        shadowVersion: service.getShadowVersion(),
+        shadowStats: service.getShadowStats(),
+      },
+    });
+  } catch (error) {
+    return handleError(c, error, "Failed to read model registry");
+  }
+});
+
+/**
+ * Upload a model version (versions are immutable)
+ */
+adminRouter.post("/models", requireAdmin("models.write"), async (c) => {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const validationResult = modelUploadSchema.safeParse(body);
+  if (!validationResult.success) {
+    return c.json(formatZodError(validationResult.error), 400);
+  }
+
+  const { version, model } = validationResult.data;
+  try {
+    createForest(model);
+  } catch (error) {
+    return c.json(
+      {
+        error: `Invalid model: ${error instanceof Error ? error.message : error}`,
+      },
+      400
+    );
+  }
+
+  try {
+    if (await getModelManifest(version)) {
+      return c.json({ error: `Model version ${version} already exists` }, 409);
+    }
+  } catch (error) {
+    return handleError(c, error, "Failed to read model registry");
+  }
+
+  return runAuditedAction(
+    c,
+    "models.write",
+    undefined,
+    async () => {
+      const manifest = await publishModel(version, model, c.get("adminActor"));
+      if (!manifest) {
+        throw new Error(`Model version ${version} already exists`);
+      }
+      return { success: true, manifest };
+    },
+    { operation: "upload", version }
+  );
+});
+
+/**
+ * Set the shadow model (scored alongside the active one, never enforced)
+ * or clear it with `{ "version": null }`
+ */
+adminRouter.post("/models/shadow", requireAdmin("models.write"), async (c) => {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const validationResult = modelShadowSchema.safeParse(body);
+  if (!validationResult.success) {
+    return c.json(formatZodError(validationResult.error), 400);
+  }
+
+  const { version } = validationResult.data;
+  try {
+    if (version && !(await getModelManifest(version))) {
+      return notFound(c, `Model version ${version}`);
+    }
+    const registry = await getModelRegistryState();
+    if (version && registry?.state.active === version) {
+      return c.json({ error: `Model version ${version} is already active` }, 400);
+    }
+  } catch (error) {
+    return handleError(c, error, "Failed to read model registry");
+  }
+
+  return runAuditedAction(
+    c,
+    "models.write",
+    undefined,
+    async () => {
+      const state = await updateModelRegistryState(
+        () => ({ shadow: version }),
+        c.get("adminActor")
+      );
+      await applyModelRegistry();
+      return { success: true, state };
+    },
+    { operation: "shadow", version }
+  );
+});
+
+/**
+ * Promote a model version to active (defaults to the current shadow)
+ * Roll back by promoting the previous version.
+ */
+adminRouter.post("/models/promote", requireAdmin("models.write"), async (c) => {
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const validationResult = modelPromoteSchema.safeParse(body);
+  if (!validationResult.success) {
+    return c.json(formatZodError(validationResult.error), 400);
+  }
+
+  let previous: { active: string | null; shadow: string | null };
+  let version: string;
+  try {
+    const registry = await getModelRegistryState();
+    previous = {
+      active: registry?.state.active ?? null,
+      shadow: registry?.state.shadow ?? null,
+    };
+
+    const target = validationResult.data.version ?? previous.shadow;
+    if (!target) {
+      return c.json({ error: "No shadow model to promote" }, 400);
+    }
+    if (!(await getModelManifest(target))) {
+      return notFound(c, `Model version ${target}`);
+    }
+    version = target;
+  } catch (error) {
+    return handleError(c, error, "Failed to read model registry");
+  }
+
+  return runAuditedAction(
+    c,
+    "models.write",
+    undefined,
+    async () => {
+      const state = await updateModelRegistryState(
+        (current) => ({
+          active: version,
+          shadow: current?.shadow === version ? null : (current?.shadow ?? null),
+        }),
+        c.get("adminActor")
+      );
+      await applyModelRegistry();
+      return { success: true, state };
+    },
+    { operation: "promote", version, previous: previous.active }
+  );
+});
+
+export default adminRouter;
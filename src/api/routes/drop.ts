@@ -1,7 +1,12 @@
 import { Hono } from "hono";
+import { stream } from "hono/streaming";
 import { botGuard } from "../middleware/bot-guard.js";
 import { queueGuard } from "../middleware/queue-guard.js";
-import { strictRateLimit } from "../middleware/rate-limit.js";
+import { getClientIp, strictRateLimit } from "../middleware/rate-limit.js";
+import {
+  hashIpForQueue,
+  incrementRegistrationCount,
+} from "../../lib/nats-kv.js";
 import {
   callRestate,
   RestateError,
@@ -11,11 +16,29 @@ import {
   registerRequestSchema,
   purchaseCompleteSchema,
   purchaseStartSchema,
+  reminderRequestSchema,
+  paymentConfirmSchema,
+  participantExportQuerySchema,
+  multiInclusionProofSchema,
   userIdSchema,
   dropIdSchema,
   formatZodError,
 } from "../../lib/schemas.js";
-import type { RegisterRequest } from "../../lib/types.js";
+import type {
+  MerkleLeafData,
+  MultiInclusionProof,
+  ParticipantIdentity,
+  ParticipantProfile,
+  RegisterRequest,
+  UserInclusionProof,
+} from "../../lib/types.js";
+import {
+  PARTICIPANT_EXPORT_CONTENT_TYPES,
+  formatParticipantExportRow,
+  participantCsvHeader,
+  pseudonymizeUserId,
+  toParticipantExportRow,
+} from "../../lib/participant-export.js";
 import { z } from "zod";
 
 // Define context variables type
@@ -25,6 +48,7 @@ type Variables = {
   queueToken: string;
   queueTokenValid: boolean;
   behaviorScore: number;
+  queueIdentity?: ParticipantIdentity;
 };
 
 const dropRouter = new Hono<{ Variables: Variables }>();
@@ -32,13 +56,29 @@ const dropRouter = new Hono<{ Variables: Variables }>();
 // Request timeout for Restate calls (ms)
 const RESTATE_TIMEOUT = 15000; // 15 seconds
 
+// Leaves fetched from Restate per call while streaming the participant export
+const EXPORT_PAGE_SIZE = 1000;
+
+type ParticipantLeavesPage = {
+  available: boolean;
+  error?: string;
+  total: number;
+  entries: {
+    leaf: MerkleLeafData;
+    leafHash: string;
+    variantPreferences?: string[];
+    profile?: ParticipantProfile;
+    cohorts?: string[];
+  }[];
+};
+
 /**
  * Helper to map error status codes to Hono-compatible types
  */
-type HttpErrorCode = 400 | 401 | 403 | 404 | 409 | 410 | 500 | 502 | 503 | 504;
+type HttpErrorCode = 400 | 401 | 402 | 403 | 404 | 409 | 410 | 500 | 502 | 503 | 504;
 
 function toHttpErrorCode(statusCode: number): HttpErrorCode {
-  const validCodes: HttpErrorCode[] = [400, 401, 403, 404, 409, 410, 500, 502, 503, 504];
+  const validCodes: HttpErrorCode[] = [400, 401, 402, 403, 404, 409, 410, 500, 502, 503, 504];
   return validCodes.includes(statusCode as HttpErrorCode)
     ? (statusCode as HttpErrorCode)
     : 500;
@@ -76,6 +116,13 @@ dropRouter.post("/:id/register", strictRateLimit, botGuard, queueGuard, async (c
       userId: validated.userId,
       tickets: validated.tickets,
       botValidation: validated.botValidation,
+      variantPreferences: validated.variantPreferences,
+      // Matched against the blocklist when the lottery runs; without a
+      // queue token, fall back to the bot-check fingerprint and request IP
+      identity: c.get("queueIdentity") ?? {
+        fingerprint: validated.botValidation.fingerprint,
+        ipHash: hashIpForQueue(getClientIp(c)),
+      },
     };
 
     // Call Restate drop service with timeout
@@ -83,6 +130,13 @@ dropRouter.post("/:id/register", strictRateLimit, botGuard, queueGuard, async (c
       timeoutMs: RESTATE_TIMEOUT,
     });
 
+    // Registration rate drives PoW difficulty; best-effort
+    try {
+      await incrementRegistrationCount(dropId);
+    } catch {
+      // Difficulty ignores load until NATS is back
+    }
+
     return c.json(result);
   } catch (error) {
     if (error instanceof RestateTimeoutError) {
@@ -100,9 +154,12 @@ dropRouter.post("/:id/register", strictRateLimit, botGuard, queueGuard, async (c
 });
 
 /**
- * Get drop status (includes ticket pricing)
+ * Confirm the entry payment for a pending registration
+ * Registrations with paid entries stay pending_payment until confirmed;
+ * a failed capture releases their tickets (402). The paymentId returned by
+ * register must be presented, so only the payer can trigger the capture.
  */
-dropRouter.get("/:id/status", async (c) => {
+dropRouter.post("/:id/payment/confirm", strictRateLimit, async (c) => {
   try {
     // Validate drop ID
     const dropIdResult = dropIdSchema.safeParse(c.req.param("id"));
@@ -111,22 +168,42 @@ dropRouter.get("/:id/status", async (c) => {
     }
     const dropId = dropIdResult.data;
 
-    const state = await callRestate("Drop", dropId, "getState", {}, {
-      timeoutMs: RESTATE_TIMEOUT,
-    });
+    // Validate request body
+    const body = await c.req.json();
+    const validationResult = paymentConfirmSchema.safeParse(body);
 
-    return c.json(state);
+    if (!validationResult.success) {
+      return c.json(formatZodError(validationResult.error), 400);
+    }
+
+    const result = await callRestate<{
+      success: boolean;
+      paymentId?: string;
+      error?: string;
+    }>(
+      "Drop",
+      dropId,
+      "confirmPayment",
+      {
+        userId: validationResult.data.userId,
+        paymentId: validationResult.data.paymentId,
+      },
+      { timeoutMs: RESTATE_TIMEOUT }
+    );
+
+    return c.json(result, result.success ? 200 : 402);
   } catch (error) {
     if (error instanceof RestateTimeoutError) {
-      return c.json({ error: "Status request timed out" }, 504);
+      return c.json({ error: "Payment confirmation timed out" }, 504);
     }
     if (error instanceof RestateError) {
       return c.json({ error: error.message }, toHttpErrorCode(error.statusCode));
     }
-    console.error("Status error:", error);
+    console.error("Payment confirm error:", error);
     return c.json(
       {
-        error: error instanceof Error ? error.message : "Failed to get status",
+        error:
+          error instanceof Error ? error.message : "Payment confirmation failed",
       },
       500
     );
@@ -134,11 +211,9 @@ dropRouter.get("/:id/status", async (c) => {
 });
 
 /**
- * Trigger lottery manually
- * NOTE: In production, this should be admin-only or removed
- * The lottery runs automatically on schedule
+ * Get drop status (includes ticket pricing)
  */
-dropRouter.post("/:id/lottery", async (c) => {
+dropRouter.get("/:id/status", async (c) => {
   try {
     // Validate drop ID
     const dropIdResult = dropIdSchema.safeParse(c.req.param("id"));
@@ -147,22 +222,22 @@ dropRouter.post("/:id/lottery", async (c) => {
     }
     const dropId = dropIdResult.data;
 
-    const result = await callRestate("Drop", dropId, "runLottery", {}, {
+    const state = await callRestate("Drop", dropId, "getState", {}, {
       timeoutMs: RESTATE_TIMEOUT,
     });
 
-    return c.json(result);
+    return c.json(state);
   } catch (error) {
     if (error instanceof RestateTimeoutError) {
-      return c.json({ error: "Lottery request timed out" }, 504);
+      return c.json({ error: "Status request timed out" }, 504);
     }
     if (error instanceof RestateError) {
       return c.json({ error: error.message }, toHttpErrorCode(error.statusCode));
     }
-    console.error("Lottery error:", error);
+    console.error("Status error:", error);
     return c.json(
       {
-        error: error instanceof Error ? error.message : "Failed to run lottery",
+        error: error instanceof Error ? error.message : "Failed to get status",
       },
       500
     );
@@ -193,7 +268,10 @@ dropRouter.post("/:id/purchase/start", async (c) => {
       "Drop",
       dropId,
       "startPurchase",
-      { userId: validationResult.data.userId },
+      {
+        userId: validationResult.data.userId,
+        quantity: validationResult.data.quantity,
+      },
       { timeoutMs: RESTATE_TIMEOUT }
     );
 
@@ -249,8 +327,9 @@ dropRouter.post("/:id/purchase", async (c) => {
       dropId,
       "completePurchase",
       {
-      userId: validated.userId,
-      purchaseToken: validated.purchaseToken,
+        userId: validated.userId,
+        purchaseToken: validated.purchaseToken,
+        quantity: validated.quantity,
       },
       { timeoutMs: RESTATE_TIMEOUT }
     );
@@ -271,6 +350,99 @@ dropRouter.post("/:id/purchase", async (c) => {
   }
 });
 
+/**
+ * Subscribe to a reminder for when an upcoming drop opens registration
+ * Delivered over SSE at /events/reminders/:userId
+ */
+dropRouter.post("/:id/reminder", strictRateLimit, async (c) => {
+  try {
+    // Validate drop ID
+    const dropIdResult = dropIdSchema.safeParse(c.req.param("id"));
+    if (!dropIdResult.success) {
+      return c.json(formatZodError(dropIdResult.error), 400);
+    }
+    const dropId = dropIdResult.data;
+
+    // Validate request body
+    const body = await c.req.json();
+    const validationResult = reminderRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return c.json(formatZodError(validationResult.error), 400);
+    }
+
+    const result = await callRestate(
+      "Drop",
+      dropId,
+      "subscribeReminder",
+      { userId: validationResult.data.userId },
+      { timeoutMs: RESTATE_TIMEOUT }
+    );
+
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof RestateTimeoutError) {
+      return c.json({ error: "Reminder request timed out" }, 504);
+    }
+    if (error instanceof RestateError) {
+      return c.json({ error: error.message }, toHttpErrorCode(error.statusCode));
+    }
+    console.error("Reminder subscribe error:", error);
+    return c.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to set reminder",
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Cancel a registration-open reminder
+ */
+dropRouter.delete("/:id/reminder/:userId", async (c) => {
+  try {
+    // Validate drop ID
+    const dropIdResult = dropIdSchema.safeParse(c.req.param("id"));
+    if (!dropIdResult.success) {
+      return c.json(formatZodError(dropIdResult.error), 400);
+    }
+    const dropId = dropIdResult.data;
+
+    // Validate user ID
+    const userIdResult = userIdSchema.safeParse(c.req.param("userId"));
+    if (!userIdResult.success) {
+      return c.json(formatZodError(userIdResult.error), 400);
+    }
+
+    const result = await callRestate(
+      "Drop",
+      dropId,
+      "unsubscribeReminder",
+      { userId: userIdResult.data },
+      { timeoutMs: RESTATE_TIMEOUT }
+    );
+
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof RestateTimeoutError) {
+      return c.json({ error: "Reminder request timed out" }, 504);
+    }
+    if (error instanceof RestateError) {
+      return c.json({ error: error.message }, toHttpErrorCode(error.statusCode));
+    }
+    console.error("Reminder unsubscribe error:", error);
+    return c.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to cancel reminder",
+      },
+      500
+    );
+  }
+});
+
 /**
  * Get user's rollover balance (cross-drop)
  */
@@ -347,6 +519,149 @@ dropRouter.get("/:id/lottery-proof", async (c) => {
   }
 });
 
+/**
+ * Get the fairness report of a drawn lottery
+ * Expected vs actual win rates per ticket count, multiplier, loyalty tier
+ * and geo zone, the Gini of effective tickets and a chi-square check
+ */
+dropRouter.get("/:id/fairness", async (c) => {
+  try {
+    // Validate drop ID
+    const dropIdResult = dropIdSchema.safeParse(c.req.param("id"));
+    if (!dropIdResult.success) {
+      return c.json(formatZodError(dropIdResult.error), 400);
+    }
+    const dropId = dropIdResult.data;
+
+    const result = await callRestate("Drop", dropId, "getFairnessReport", {}, {
+      timeoutMs: RESTATE_TIMEOUT,
+    });
+
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof RestateTimeoutError) {
+      return c.json({ error: "Fairness report request timed out" }, 504);
+    }
+    if (error instanceof RestateError) {
+      return c.json({ error: error.message }, toHttpErrorCode(error.statusCode));
+    }
+    console.error("Fairness report error:", error);
+    return c.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to get fairness report",
+      },
+      500
+    );
+  }
+});
+
+/**
+ * Export the full participant leaf set for third-party audits
+ * NDJSON (default) or CSV with pseudonymised user IDs; streamed in pages
+ * from Restate. offset/limit select a slice, otherwise everything is sent.
+ * Feed the download to `pnpm verify-lottery` to rebuild the Merkle root
+ * and replay the draw.
+ */
+dropRouter.get("/:id/lottery-proof/participants", async (c) => {
+  const dropIdResult = dropIdSchema.safeParse(c.req.param("id"));
+  if (!dropIdResult.success) {
+    return c.json(formatZodError(dropIdResult.error), 400);
+  }
+  const dropId = dropIdResult.data;
+
+  const queryResult = participantExportQuerySchema.safeParse(c.req.query());
+  if (!queryResult.success) {
+    return c.json(formatZodError(queryResult.error), 400);
+  }
+  const { format, offset, limit } = queryResult.data;
+
+  const fetchPage = (pageOffset: number, pageLimit: number) =>
+    callRestate<ParticipantLeavesPage>(
+      "Drop",
+      dropId,
+      "getParticipantLeaves",
+      { offset: pageOffset, limit: pageLimit },
+      { timeoutMs: RESTATE_TIMEOUT }
+    );
+
+  // Fetch the first page up front so errors still get a JSON status code
+  const end = (total: number) =>
+    limit === undefined ? total : Math.min(total, offset + limit);
+  let firstPage: ParticipantLeavesPage;
+  try {
+    firstPage = await fetchPage(
+      offset,
+      Math.min(EXPORT_PAGE_SIZE, limit ?? EXPORT_PAGE_SIZE)
+    );
+  } catch (error) {
+    if (error instanceof RestateTimeoutError) {
+      return c.json({ error: "Participant export request timed out" }, 504);
+    }
+    if (error instanceof RestateError) {
+      return c.json({ error: error.message }, toHttpErrorCode(error.statusCode));
+    }
+    console.error("Participant export error:", error);
+    return c.json({ error: "Failed to export participants" }, 500);
+  }
+
+  if (!firstPage.available) {
+    return c.json(
+      { error: firstPage.error ?? "Participant export not available" },
+      firstPage.error === "Drop not found" ? 404 : 409
+    );
+  }
+
+  c.header("Content-Type", PARTICIPANT_EXPORT_CONTENT_TYPES[format]);
+  c.header(
+    "Content-Disposition",
+    `attachment; filename="${dropId}-participants.${format}"`
+  );
+  c.header("X-Total-Count", String(firstPage.total));
+
+  return stream(c, async (s) => {
+    if (format === "csv") {
+      await s.write(participantCsvHeader());
+    }
+
+    let page = firstPage;
+    let position = offset;
+    const last = end(firstPage.total);
+    while (position < last && page.entries.length > 0) {
+      for (const entry of page.entries.slice(0, last - position)) {
+        await s.write(
+          formatParticipantExportRow(
+            toParticipantExportRow(
+              dropId,
+              entry.leaf,
+              entry.leafHash,
+              entry.variantPreferences,
+              entry.profile,
+              entry.cohorts
+            ),
+            format
+          )
+        );
+      }
+      position += page.entries.length;
+      if (position >= last) break;
+
+      try {
+        page = await fetchPage(
+          position,
+          Math.min(EXPORT_PAGE_SIZE, last - position)
+        );
+      } catch (error) {
+        // Headers are already sent; a truncated body fails verification
+        console.error("Participant export page error:", error);
+        break;
+      }
+    }
+  });
+});
+
 /**
  * Get Merkle inclusion proof for a specific user
  * Allows users to verify they were included in the lottery
@@ -368,7 +683,11 @@ dropRouter.get("/:id/inclusion-proof/:userId", async (c) => {
     }
     const userId = userIdResult.data;
 
-    const result = await callRestate(
+    const result = await callRestate<{
+      available: boolean;
+      proof?: UserInclusionProof;
+      error?: string;
+    }>(
       "Drop",
       dropId,
       "getInclusionProof",
@@ -376,6 +695,11 @@ dropRouter.get("/:id/inclusion-proof/:userId", async (c) => {
       { timeoutMs: RESTATE_TIMEOUT }
     );
 
+    // Lets the user find their own row in the participant export
+    if (result.proof) {
+      result.proof.pseudonym = pseudonymizeUserId(dropId, userId);
+    }
+
     return c.json(result);
   } catch (error) {
     if (error instanceof RestateTimeoutError) {
@@ -397,6 +721,59 @@ dropRouter.get("/:id/inclusion-proof/:userId", async (c) => {
   }
 });
 
+/**
+ * Get one Merkle multiproof for several users
+ * Body: { userIds: [...] } (up to 1000). Drops drawn with a v2 tree only
+ */
+dropRouter.post("/:id/inclusion-proofs", async (c) => {
+  try {
+    // Validate drop ID
+    const dropIdResult = dropIdSchema.safeParse(c.req.param("id"));
+    if (!dropIdResult.success) {
+      return c.json(formatZodError(dropIdResult.error), 400);
+    }
+    const dropId = dropIdResult.data;
+
+    // Validate request body
+    const body = await c.req.json();
+    const validationResult = multiInclusionProofSchema.safeParse(body);
+    if (!validationResult.success) {
+      return c.json(formatZodError(validationResult.error), 400);
+    }
+
+    const result = await callRestate<{
+      available: boolean;
+      proof?: MultiInclusionProof;
+      error?: string;
+    }>(
+      "Drop",
+      dropId,
+      "getMultiInclusionProof",
+      { userIds: validationResult.data.userIds },
+      { timeoutMs: RESTATE_TIMEOUT }
+    );
+
+    return c.json(result);
+  } catch (error) {
+    if (error instanceof RestateTimeoutError) {
+      return c.json({ error: "Inclusion proof request timed out" }, 504);
+    }
+    if (error instanceof RestateError) {
+      return c.json({ error: error.message }, toHttpErrorCode(error.statusCode));
+    }
+    console.error("Multiproof error:", error);
+    return c.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to get inclusion proofs",
+      },
+      500
+    );
+  }
+});
+
 /**
  * Get user's loyalty stats (cross-drop)
  */
@@ -1,5 +1,6 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { createLogger } from "../../lib/logger.js";
+import type { Phase } from "../../lib/types.js";
 import { listDropIndexIds } from "../../lib/nats-kv.js";
 import {
   callRestate,
@@ -13,11 +14,12 @@ const dropsRouter = new Hono();
 
 type DropSummary = {
   dropId: string;
-  phase: "registration" | "lottery" | "purchase" | "completed";
+  phase: Phase;
   participantCount: number;
   totalTickets: number;
   inventory: number;
   initialInventory: number;
+  registrationStart: number;
   registrationEnd: number;
   purchaseEnd?: number;
   lotteryCommitment?: string;
@@ -59,10 +61,15 @@ async function mapDropIdsToStates(dropIds: string[]): Promise<DropSummary[]> {
 }
 
 /**
- * List active drops (registration/lottery/purchase) sorted by soonest deadline.
- * Backed by the NATS KV drop index.
+ * Respond with the indexed drops matching `include`, sorted by `compare`.
+ * `label` names the list in logs and error messages.
  */
-dropsRouter.get("/active", async (c) => {
+async function listIndexedDrops(
+  c: Context,
+  label: "upcoming" | "active",
+  include: (drop: DropSummary) => boolean,
+  compare: (a: DropSummary, b: DropSummary) => number
+) {
   const startedAt = Date.now();
   try {
     const ids = await listDropIndexIds();
@@ -72,26 +79,18 @@ dropsRouter.get("/active", async (c) => {
     }
 
     const states = await mapDropIdsToStates(ids);
-
-    const active = states
-      .filter(
-        (d) =>
-          d.phase === "registration" ||
-          d.phase === "lottery" ||
-          d.phase === "purchase"
-      )
-      .sort((a, b) => deadlineMs(a) - deadlineMs(b));
+    const drops = states.filter(include).sort(compare);
 
     logger.info(
       {
         totalIndexed: ids.length,
-        active: active.length,
+        [label]: drops.length,
         ms: Date.now() - startedAt,
       },
-      "Listed active drops"
+      `Listed ${label} drops`
     );
 
-    return c.json({ drops: active, serverTime: Date.now() });
+    return c.json({ drops, serverTime: Date.now() });
   } catch (error) {
     if (error instanceof RestateTimeoutError) {
       logger.warn({ ms: Date.now() - startedAt }, "Drops list timed out");
@@ -106,10 +105,39 @@ dropsRouter.get("/active", async (c) => {
     }
     logger.error(
       { err: error, ms: Date.now() - startedAt },
-      "Failed to list active drops"
+      `Failed to list ${label} drops`
     );
-    return c.json({ error: "Failed to list active drops" }, 500);
+    return c.json({ error: `Failed to list ${label} drops` }, 500);
   }
-});
+}
+
+/**
+ * List upcoming drops (registration not yet open) sorted by soonest opening.
+ * Backed by the NATS KV drop index.
+ */
+dropsRouter.get("/upcoming", (c) =>
+  listIndexedDrops(
+    c,
+    "upcoming",
+    (d) => d.phase === "upcoming",
+    (a, b) => a.registrationStart - b.registrationStart
+  )
+);
+
+/**
+ * List active drops (registration/lottery/purchase) sorted by soonest deadline.
+ * Backed by the NATS KV drop index.
+ */
+dropsRouter.get("/active", (c) =>
+  listIndexedDrops(
+    c,
+    "active",
+    (d) =>
+      d.phase === "registration" ||
+      d.phase === "lottery" ||
+      d.phase === "purchase",
+    (a, b) => deadlineMs(a) - deadlineMs(b)
+  )
+);
 
 export default dropsRouter;
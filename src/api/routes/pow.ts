@@ -1,15 +1,31 @@
 import { Hono } from "hono";
 import { generateChallenge } from "../../lib/pow.js";
-import { rateLimit } from "../middleware/rate-limit.js";
+import { hashIpForQueue } from "../../lib/nats-kv.js";
+import { formatZodError, powChallengeQuerySchema } from "../../lib/schemas.js";
+import { getClientIp, rateLimit } from "../middleware/rate-limit.js";
 
 const powRouter = new Hono();
 
 /**
  * Get a PoW challenge
  * Rate limited to prevent challenge farming
+ * ?dropId=&fingerprint= name the registration the challenge is for: the
+ * difficulty adapts to the drop's load and the requester's history, and the
+ * solution is only accepted for that drop and fingerprint.
+ * ?schemes=scrypt,sha256 lists the hash functions the client can solve
+ * (SHA-256 if omitted)
  */
 powRouter.get("/challenge", rateLimit, async (c) => {
-  const challenge = await generateChallenge();
+  const queryResult = powChallengeQuerySchema.safeParse(c.req.query());
+  if (!queryResult.success) {
+    return c.json(formatZodError(queryResult.error), 400);
+  }
+
+  const { dropId, fingerprint, schemes } = queryResult.data;
+  const challenge = await generateChallenge(
+    { dropId, fingerprint, ipHash: hashIpForQueue(getClientIp(c)) },
+    schemes
+  );
   return c.json(challenge);
 });
 
@@ -7,6 +7,7 @@ import dropRouter from "./routes/drop.js";
 import dropsRouter from "./routes/drops.js";
 import powRouter from "./routes/pow.js";
 import queueRouter from "./routes/queue.js";
+import adminRouter from "./routes/admin.js";
 
 const app = new Hono();
 
@@ -19,8 +20,8 @@ app.use(
   "*",
   cors({
     origin: allowedOrigins,
-    allowMethods: ["GET", "POST", "OPTIONS"],
-    allowHeaders: ["Content-Type", "Accept"],
+    allowMethods: ["GET", "POST", "PATCH", "DELETE", "OPTIONS"],
+    allowHeaders: ["Content-Type", "Accept", "Authorization", "X-Admin-Key"],
     exposeHeaders: ["Content-Type"],
     credentials: true,
   })
@@ -31,6 +32,7 @@ app.route("/api/drop", dropRouter);
 app.route("/api/drops", dropsRouter);
 app.route("/api/pow", powRouter);
 app.route("/api/queue", queueRouter);
+app.route("/api/admin", adminRouter);
 
 // Health check
 app.get("/health", (c) => c.json({ status: "ok" }));
@@ -9,6 +9,8 @@ import apiApp from "./api/server.js";
 import sseApp from "./sse/server.js";
 import "./restate/server.js"; // Import to start Restate server
 import { initNatsKv } from "./lib/nats-kv.js";
+import { getMLService } from "./lib/ml/ml-service.js";
+import { startModelRegistrySync } from "./lib/ml/model-registry.js";
 import { config } from "./lib/config.js";
 import { validateStartup, printStartupBanner } from "./lib/startup.js";
 
@@ -28,6 +30,20 @@ initNatsKv()
     );
   });
 
+// Load the bot detection model up front (falls back to rule-based scoring)
+getMLService().then((service) => {
+  console.log(
+    service.isEnabled()
+      ? "ML bot detection model loaded"
+      : "ML bot detection inactive - rule-based trust scoring only"
+  );
+
+  // Hot-reload active/shadow models from the NATS KV model registry
+  if (config.ml.enabled && config.ml.registry.enabled) {
+    startModelRegistrySync(service);
+  }
+});
+
 // Start API server
 console.log(`Starting API server on port ${config.server.apiPort}...`);
 serve({
@@ -0,0 +1,49 @@
+/**
+ * Blocklist matching
+ *
+ * Pure helpers for applying the global blocklist (stored in NATS KV) to a
+ * drop's participants. Kept free of I/O so the drop object can run the match
+ * inside a journaled step and tests can exercise it directly.
+ */
+
+import type { BlocklistEntry, ParticipantIdentity } from "./types.js";
+
+/**
+ * Find participants matched by any blocklist entry
+ * Returns userId -> reason for every match (first matching entry wins)
+ */
+export function findBlockedParticipants(
+  entries: BlocklistEntry[],
+  userIds: string[],
+  identities: Record<string, ParticipantIdentity>
+): Record<string, string> {
+  const byKind = {
+    user: new Map<string, BlocklistEntry>(),
+    fingerprint: new Map<string, BlocklistEntry>(),
+    ip: new Map<string, BlocklistEntry>(),
+  };
+  for (const entry of entries) {
+    if (!byKind[entry.kind].has(entry.value)) {
+      byKind[entry.kind].set(entry.value, entry);
+    }
+  }
+
+  const blocked: Record<string, string> = {};
+  for (const userId of userIds) {
+    const identity = identities[userId] ?? {};
+    const match =
+      byKind.user.get(userId) ??
+      (identity.fingerprint
+        ? byKind.fingerprint.get(identity.fingerprint)
+        : undefined) ??
+      (identity.ipHash ? byKind.ip.get(identity.ipHash) : undefined);
+
+    if (match) {
+      blocked[userId] = match.reason
+        ? `blocklist:${match.kind}: ${match.reason}`
+        : `blocklist:${match.kind}`;
+    }
+  }
+
+  return blocked;
+}
@@ -58,6 +58,10 @@ export const nats = {
     rateLimits: "rate_limits",
     queueTokens: "queue_tokens",
     dropsIndex: "drops_index",
+    adminAudit: "admin_audit",
+    blocklist: "blocklist",
+    trustScores: "trust_scores",
+    mlModels: "ml_models",
   },
   /** KV TTLs (in milliseconds) */
   ttl: {
@@ -67,6 +71,10 @@ export const nats = {
     rateLimit: 2 * 60 * 1000,
     /** Queue token TTL - 15 minutes (slightly longer than maxQueueAge for safety) */
     queueToken: 15 * 60 * 1000,
+    /** Trust score TTL - 24 hours of history for PoW difficulty */
+    trustScore: 24 * 60 * 60 * 1000,
+    /** Admin audit TTL - 90 days, so the bucket never fills with old entries */
+    adminAudit: 90 * 24 * 60 * 60 * 1000,
   },
   /** KV max bucket sizes (in bytes) */
   maxBytes: {
@@ -74,6 +82,10 @@ export const nats = {
     rateLimits: 50 * 1024 * 1024, // 50MB
     queueTokens: 100 * 1024 * 1024, // 100MB
     dropsIndex: 10 * 1024 * 1024, // 10MB (drop metadata only)
+    adminAudit: 50 * 1024 * 1024, // 50MB (writes are rejected when full; entries expire after ttl.adminAudit)
+    blocklist: 10 * 1024 * 1024, // 10MB
+    trustScores: 20 * 1024 * 1024, // 20MB
+    mlModels: 100 * 1024 * 1024, // 100MB (compressed model versions)
   },
 } as const;
 
@@ -109,6 +121,52 @@ export const drop = {
   minPurchaseWindowSecs: 60,
   /** Max purchase window (seconds) */
   maxPurchaseWindowSecs: 86400, // 24 hours
+  /** Max users that can subscribe to a registration-open reminder per drop */
+  maxReminderSubscribers: 50000,
+  /** Default units each winner may buy */
+  defaultMaxUnitsPerWinner: 1,
+  /** Max units per winner allowed in drop config */
+  maxUnitsPerWinner: 10,
+} as const;
+
+// ============================================================
+// Payments Configuration
+// ============================================================
+
+export const payments = {
+  /** Payment provider ("fake" = in-memory, for local dev and tests) */
+  provider: envString("PAYMENT_PROVIDER", "fake"),
+  /** ISO 4217 currency for entry charges */
+  currency: envString("PAYMENT_CURRENCY", "USD"),
+  /** Minor units per ticket price unit (100 = cents) */
+  minorUnitsPerPriceUnit: 100,
+  /** Seconds a registration may wait in pending_payment before it is released */
+  confirmWindowSecs: envNumber("PAYMENT_CONFIRM_WINDOW_SECS", 300),
+} as const;
+
+// ============================================================
+// Randomness Beacon Configuration
+// ============================================================
+
+export const randomness = {
+  /**
+   * Public beacon mixed into lottery seeds
+   * "none" = disabled, "fixture" = local file/derived values, "drand" = drand HTTP API
+   */
+  source: envString("RANDOMNESS_SOURCE", "none"),
+  /** drand chain endpoint (default: League of Entropy quicknet) */
+  drandUrl: envString(
+    "DRAND_URL",
+    "https://api.drand.sh/52db9ba70e0cc0f6eaf7803dd07447a1f5477735fd3f661792ba94600c84e971"
+  ),
+  /** drand chain genesis (Unix seconds) and round period */
+  drandGenesisTime: envNumber("DRAND_GENESIS_TIME", 1692803367),
+  drandPeriodSecs: envNumber("DRAND_PERIOD_SECS", 3),
+  /** Fixture rounds file ({ "rounds": { "<round>": "<hex>" } }); unset = derived values */
+  fixtureFile: process.env.RANDOMNESS_FIXTURE_FILE,
+  fixturePeriodSecs: envNumber("RANDOMNESS_FIXTURE_PERIOD_SECS", 3),
+  /** Seconds between checks while the lottery waits for its committed round */
+  retrySecs: envNumber("RANDOMNESS_RETRY_SECS", 5),
 } as const;
 
 // ============================================================
@@ -184,8 +242,41 @@ export const rateLimit = {
 // ============================================================
 
 export const pow = {
-  /** PoW difficulty (number of leading zeros in hex) */
+  /** Base PoW difficulty (leading zero hex digits for SHA-256, bits for scrypt) */
   difficulty: envNumber("POW_DIFFICULTY", 4),
+  /** Adjust difficulty per challenge from load, requester history and trust */
+  adaptive: envBoolean("POW_ADAPTIVE", true),
+  /** Adaptive difficulty bounds (each step is 16x the work for SHA-256, 2x for scrypt) */
+  minDifficulty: envNumber("POW_MIN_DIFFICULTY", 3),
+  maxDifficulty: envNumber("POW_MAX_DIFFICULTY", 5),
+  /** Registrations per minute on a drop above which challenges get harder */
+  highRegistrationRate: envNumber("POW_HIGH_REGISTRATION_RATE", 100),
+  /** Window for the per-drop registration rate */
+  registrationRateWindowMs: 60 * 1000,
+  /** Queue tokens already issued to an IP/fingerprint before challenges get harder */
+  repeatRequesterThreshold: 2,
+  /** Prior trust score below which challenges get harder */
+  lowTrustScore: 50,
+  /** Prior trust score at or above which challenges get easier */
+  highTrustScore: 80,
+  /**
+   * Memory-hard scheme, issued to clients that advertise support
+   * (SHA-256 stays the fallback). Difficulty counts leading zero bits.
+   */
+  scrypt: {
+    enabled: envBoolean("POW_SCRYPT_ENABLED", true),
+    /** CPU/memory cost N (power of 2): 16384 * r 8 = 16MB per attempt */
+    cost: envNumber("POW_SCRYPT_COST", 16384),
+    blockSize: 8,
+    parallelization: 1,
+    keyLength: 32,
+    /**
+     * Extra leading zero hex digits (16x the work each) for clients that fall
+     * back to SHA-256 while scrypt is enabled, so leaving scrypt out of the
+     * scheme list doesn't buy cheaper, GPU-friendly challenges
+     */
+    sha256FallbackPenalty: envNumber("POW_SHA256_FALLBACK_PENALTY", 2),
+  },
   /** Challenge max age (ms) before expiration */
   maxAge: 5 * 60 * 1000, // 5 minutes
 } as const;
@@ -197,13 +288,20 @@ export const pow = {
 export const security = {
   /** IP hash salt for GDPR compliance */
   ipHashSalt: envString("IP_HASH_SALT", "rate-limit-salt-v1"),
+  /** Salt for pseudonymising user IDs in public lottery audit exports */
+  auditPseudonymSalt: envString("AUDIT_PSEUDONYM_SALT", "audit-pseudonym-salt-v1"),
   /** Secret for signing purchase tokens (generate with: openssl rand -base64 32) */
   purchaseTokenSecret: envString(
     "PURCHASE_TOKEN_SECRET",
     "dev-purchase-secret-change-in-prod"
   ),
-  /** Admin secret for protected endpoints */
+  /** Admin secret for protected endpoints (grants every admin scope) */
   adminSecret: process.env.ADMIN_SECRET,
+  /**
+   * Scoped admin API keys (comma-separated "name:key:scope|scope")
+   * e.g. "ops-bot:s3cr3t:drops.lottery|drops.promote"
+   */
+  adminApiKeys: process.env.ADMIN_API_KEYS?.split(",").filter(Boolean) || [],
   /** CORS allowed origins */
   corsOrigins: process.env.CORS_ORIGINS?.split(",") || [
     "http://localhost:3005",
@@ -224,6 +322,38 @@ export const fingerprint = {
   minTrustScore: envNumber("MIN_TRUST_SCORE", 50),
 } as const;
 
+// ============================================================
+// ML Bot Detection Configuration
+// ============================================================
+
+export const ml = {
+  /** Blend Isolation Forest scoring into the trust score */
+  enabled: envBoolean("ML_ENABLED", true),
+  /** Serialized Isolation Forest (pnpm train-model output) */
+  modelPath: envString("ML_MODEL_PATH", "./models/bot-detector.json"),
+  /**
+   * Slow-inference guard (ms): a result that took longer is discarded for
+   * rule-based scoring. Inference is synchronous, so this doesn't cap latency
+   */
+  timeoutMs: envNumber("ML_TIMEOUT_MS", 10),
+  /** Share of the trust score taken by the ML component (0-1) */
+  weight: envNumber("ML_WEIGHT", 0.15),
+  /** Anomaly score at or above which a model (active or shadow) flags a request */
+  anomalyThreshold: envNumber("ML_ANOMALY_THRESHOLD", 0.6),
+  /** Sampled feature vectors from registrations, for pnpm train-model */
+  training: {
+    enabled: envBoolean("ML_TRAINING_ENABLED", false),
+    outputPath: envString("ML_TRAINING_PATH", "./data/training.ndjson"),
+    sampleRate: envNumber("ML_TRAINING_SAMPLE_RATE", 0.1),
+  },
+  /** Model versions in the ml_models NATS KV bucket, hot-reloaded */
+  registry: {
+    enabled: envBoolean("ML_REGISTRY_ENABLED", true),
+    /** How often each API server checks for a new active/shadow model (ms) */
+    pollIntervalMs: envNumber("ML_REGISTRY_POLL_MS", 15000),
+  },
+} as const;
+
 // ============================================================
 // Geo-Fence Configuration
 // ============================================================
@@ -284,6 +414,8 @@ export const config = {
   nats,
   restate,
   drop,
+  payments,
+  randomness,
   rollover,
   backup,
   loyalty,
@@ -291,6 +423,7 @@ export const config = {
   pow,
   security,
   fingerprint,
+  ml,
   geo,
   queue,
   maintenance,
@@ -1,5 +1,8 @@
 import type { SSEEvent } from "./types.js";
-import type { QueueSSEEvent } from "../../shared/types.js";
+import type {
+  QueueSSEEvent,
+  ReminderSSEEvent,
+} from "../../shared/types.js";
 
 // Re-use SSEEvent type for consistency with client
 export type DropStateEvent = Omit<SSEEvent, "type" | "dropId"> & {
@@ -12,6 +15,8 @@ export type UserStateEvent = Omit<SSEEvent, "type" | "dropId"> & {
 
 export type QueueStateEvent = QueueSSEEvent;
 
+export type ReminderEvent = ReminderSSEEvent;
+
 export function getDropTopic(dropId: string): string {
   return `drop.${dropId}.state`;
 }
@@ -23,3 +28,7 @@ export function getUserTopic(dropId: string, userId: string): string {
 export function getQueueTopic(dropId: string, tokenId: string): string {
   return `queue.${dropId}.${tokenId}`;
 }
+
+export function getReminderTopic(userId: string): string {
+  return `reminder.${userId}`;
+}
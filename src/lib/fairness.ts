@@ -0,0 +1,365 @@
+/**
+ * Post-lottery fairness report
+ *
+ * Compares each group's primary wins with what the draw should give it:
+ * per ticket count, per combined loyalty × geo multiplier, per loyalty tier
+ * and (geo-fenced drops) inside vs outside the zone. Also reports the Gini
+ * coefficient of effective tickets and a chi-square sanity check of winners
+ * per ticket bucket.
+ *
+ * Expected win probabilities of a weighted draw without replacement have no
+ * closed form, so they are estimated by replaying the seeded Fenwick draw
+ * many times (exact for one winner and for equal weights). Only the plain
+ * weighted and uniform draws follow that model; the chi-square check is
+ * skipped for tiered, reserved-quota, cohort-quota and multi-SKU draws.
+ */
+
+import { drawWeightedOrder, getParticipantProfile } from "./lottery.js";
+import type {
+  FairnessBucket,
+  FairnessChiSquare,
+  FairnessReport,
+  LoyaltyTier,
+  ParticipantProfile,
+} from "./types.js";
+
+/** Chi-square p-values below this flag the draw for review */
+export const FAIRNESS_P_VALUE_THRESHOLD = 0.01;
+
+/** Minimum expected winners (and losers) per pooled chi-square bucket */
+const MIN_EXPECTED_PER_BUCKET = 5;
+
+/** Replayed draws per estimate, fewer for very large drops (see work budget) */
+const SIMULATION_MAX_RUNS = 200;
+const SIMULATION_MIN_RUNS = 20;
+
+/** Participants plus winners drawn, summed over all replayed draws */
+const SIMULATION_WORK_BUDGET = 20_000_000;
+
+/** Algorithms that are a single draw the expectation model describes */
+const MODELED_ALGORITHMS = new Set(["weighted-fenwick-v2", "uniform-v1"]);
+
+const LOYALTY_TIER_ORDER: LoyaltyTier[] = ["bronze", "silver", "gold"];
+
+export interface FairnessInput {
+  algorithm: string;
+  participantTickets: Record<string, number>;
+  participantMultipliers: Record<string, number>;
+  participantProfiles?: Record<string, ParticipantProfile>;
+  winners: string[]; // Primary winners at draw time
+  geoFenced: boolean;
+  partitioned: boolean; // Cohort quotas or multi-SKU allocation shaped the draw
+  generatedAt: number;
+}
+
+interface ParticipantOutcome {
+  tickets: number;
+  effectiveTickets: number;
+  multiplier: number;
+  profile: ParticipantProfile;
+  won: boolean;
+  probability: number;
+}
+
+/**
+ * Build the fairness report for a completed draw
+ */
+export function buildFairnessReport(input: FairnessInput): FairnessReport {
+  const expectationModel =
+    input.algorithm === "uniform-v1" ? "uniform" : "weighted";
+  const winners = new Set(input.winners);
+  const userIds = Object.keys(input.participantTickets).sort();
+
+  const outcomes: ParticipantOutcome[] = userIds.map((userId) => {
+    const tickets = input.participantTickets[userId];
+    const multiplier = input.participantMultipliers[userId] ?? 1.0;
+    return {
+      tickets,
+      effectiveTickets: Math.floor(tickets * multiplier),
+      multiplier,
+      profile: getParticipantProfile(input.participantProfiles, userId),
+      won: winners.has(userId),
+      probability: 0,
+    };
+  });
+
+  const probabilities = expectedWinProbabilities(
+    outcomes.map((o) => (expectationModel === "uniform" ? 1 : o.effectiveTickets)),
+    input.winners.length
+  );
+  outcomes.forEach((o, i) => {
+    o.probability = probabilities[i];
+  });
+
+  const ticketBuckets = groupOutcomes(
+    outcomes,
+    (o) => o.tickets,
+    (tickets) => `${tickets} ${tickets === 1 ? "ticket" : "tickets"}`
+  );
+
+  return {
+    generatedAt: input.generatedAt,
+    algorithm: input.algorithm,
+    expectationModel,
+    participantCount: outcomes.length,
+    winnerCount: input.winners.length,
+    totalTickets: sum(outcomes.map((o) => o.tickets)),
+    totalEffectiveTickets: sum(outcomes.map((o) => o.effectiveTickets)),
+    gini: giniCoefficient(outcomes.map((o) => o.effectiveTickets)),
+    ticketBuckets,
+    multiplierBuckets: groupOutcomes(
+      outcomes,
+      (o) => Math.round(o.multiplier * 100) / 100,
+      (multiplier) => `${multiplier.toFixed(2)}x`
+    ),
+    loyaltyBuckets: groupOutcomes(
+      outcomes,
+      (o) => LOYALTY_TIER_ORDER.indexOf(o.profile.loyaltyTier),
+      (rank) => LOYALTY_TIER_ORDER[rank]
+    ),
+    geoBuckets: input.geoFenced
+      ? groupOutcomes(
+          outcomes,
+          (o) => (o.profile.inGeoZone ? 0 : 1),
+          (outside) => (outside ? "outside zone" : "inside zone")
+        )
+      : undefined,
+    chiSquare:
+      MODELED_ALGORITHMS.has(input.algorithm) && !input.partitioned
+        ? chiSquareTest(ticketBuckets)
+        : {
+            applicable: false,
+            statistic: 0,
+            degreesOfFreedom: 0,
+            pValue: 1,
+            passed: true,
+          },
+  };
+}
+
+/**
+ * Win probability of each participant in a weighted draw of `count` winners
+ * without replacement. Exact for one winner and for equal weights; otherwise
+ * the share of replayed drawWeightedOrder draws each participant won.
+ */
+export function expectedWinProbabilities(
+  weights: number[],
+  count: number
+): number[] {
+  const probabilities = new Array<number>(weights.length).fill(0);
+  const eligible = weights
+    .map((_, i) => i)
+    .filter((i) => weights[i] > 0);
+  if (count <= 0 || eligible.length === 0) return probabilities;
+  if (count >= eligible.length) {
+    for (const i of eligible) probabilities[i] = 1;
+    return probabilities;
+  }
+
+  const totalWeight = sum(eligible.map((i) => weights[i]));
+  if (count === 1) {
+    for (const i of eligible) probabilities[i] = weights[i] / totalWeight;
+    return probabilities;
+  }
+  if (eligible.every((i) => weights[i] === weights[eligible[0]])) {
+    for (const i of eligible) probabilities[i] = count / eligible.length;
+    return probabilities;
+  }
+
+  const runs = Math.max(
+    SIMULATION_MIN_RUNS,
+    Math.min(
+      SIMULATION_MAX_RUNS,
+      Math.floor(SIMULATION_WORK_BUDGET / (eligible.length + count))
+    )
+  );
+  const entries = eligible.map((i): [string, number] => [String(i), weights[i]]);
+  const wins = new Array<number>(weights.length).fill(0);
+  for (let run = 0; run < runs; run++) {
+    for (const id of drawWeightedOrder(entries, {}, count, `fairness:${run}`)) {
+      wins[Number(id)]++;
+    }
+  }
+  for (const i of eligible) probabilities[i] = wins[i] / runs;
+
+  return probabilities;
+}
+
+/**
+ * Gini coefficient (0 = everyone holds the same, 1 = one holds everything)
+ */
+export function giniCoefficient(values: number[]): number {
+  const total = sum(values);
+  if (values.length === 0 || total === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const weighted = sorted.reduce((acc, value, i) => acc + (i + 1) * value, 0);
+  const n = sorted.length;
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+}
+
+/**
+ * Chi-square test of winners and losers per bucket against expectation
+ * Adjacent buckets are pooled until each expects enough of both outcomes
+ */
+export function chiSquareTest(buckets: FairnessBucket[]): FairnessChiSquare {
+  const pooled: Array<{ n: number; observed: number; expected: number }> = [];
+  let current = { n: 0, observed: 0, expected: 0 };
+  for (const bucket of buckets) {
+    current.n += bucket.participants;
+    current.observed += bucket.winners;
+    current.expected += bucket.expectedWinners;
+    if (
+      current.expected >= MIN_EXPECTED_PER_BUCKET &&
+      current.n - current.expected >= MIN_EXPECTED_PER_BUCKET
+    ) {
+      pooled.push(current);
+      current = { n: 0, observed: 0, expected: 0 };
+    }
+  }
+  if (current.n > 0) {
+    const last = pooled.pop();
+    pooled.push(
+      last
+        ? {
+            n: last.n + current.n,
+            observed: last.observed + current.observed,
+            expected: last.expected + current.expected,
+          }
+        : current
+    );
+  }
+
+  const degreesOfFreedom = pooled.length - 1;
+  if (degreesOfFreedom < 1) {
+    return {
+      applicable: true,
+      statistic: 0,
+      degreesOfFreedom: 0,
+      pValue: 1,
+      passed: true,
+    };
+  }
+
+  let statistic = 0;
+  for (const { n, observed, expected } of pooled) {
+    if (expected > 0) statistic += (observed - expected) ** 2 / expected;
+    if (n - expected > 0) {
+      statistic += (n - observed - (n - expected)) ** 2 / (n - expected);
+    }
+  }
+
+  const pValue = chiSquarePValue(statistic, degreesOfFreedom);
+  return {
+    applicable: true,
+    statistic,
+    degreesOfFreedom,
+    pValue,
+    passed: pValue >= FAIRNESS_P_VALUE_THRESHOLD,
+  };
+}
+
+/**
+ * Upper tail of the chi-square distribution, Q(k/2, x/2)
+ */
+export function chiSquarePValue(statistic: number, degreesOfFreedom: number): number {
+  if (statistic <= 0) return 1;
+  return 1 - regularizedLowerGamma(degreesOfFreedom / 2, statistic / 2);
+}
+
+function groupOutcomes(
+  outcomes: ParticipantOutcome[],
+  keyOf: (outcome: ParticipantOutcome) => number,
+  labelOf: (key: number) => string
+): FairnessBucket[] {
+  const groups = new Map<number, ParticipantOutcome[]>();
+  for (const outcome of outcomes) {
+    const key = keyOf(outcome);
+    const group = groups.get(key);
+    if (group) group.push(outcome);
+    else groups.set(key, [outcome]);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([key, group]) => {
+      const winners = group.filter((o) => o.won).length;
+      const expectedWinners = sum(group.map((o) => o.probability));
+      return {
+        label: labelOf(key),
+        participants: group.length,
+        tickets: sum(group.map((o) => o.tickets)),
+        effectiveTickets: sum(group.map((o) => o.effectiveTickets)),
+        winners,
+        expectedWinners,
+        expectedWinRate: expectedWinners / group.length,
+        actualWinRate: winners / group.length,
+      };
+    });
+}
+
+/**
+ * P(a, x): series expansion below a + 1, continued fraction above
+ */
+function regularizedLowerGamma(a: number, x: number): number {
+  if (x <= 0) return 0;
+  const logPrefix = -x + a * Math.log(x) - logGamma(a);
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let total = term;
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n);
+      total += term;
+      if (Math.abs(term) < Math.abs(total) * 1e-14) break;
+    }
+    return Math.min(1, total * Math.exp(logPrefix));
+  }
+
+  // Lentz's method for the continued fraction of Q(a, x)
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return Math.max(0, 1 - Math.exp(logPrefix) * h);
+}
+
+/**
+ * ln Γ(z) (Lanczos approximation, g = 7)
+ */
+function logGamma(z: number): number {
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+    771.32342877765313, -176.61502916214059, 12.507343278686905,
+    -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (z < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * z)) - logGamma(1 - z);
+  }
+  const x = z - 1;
+  let series = coefficients[0];
+  for (let i = 1; i < coefficients.length; i++) {
+    series += coefficients[i] / (x + i);
+  }
+  const t = x + 7.5;
+  return (
+    0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(series)
+  );
+}
+
+function sum(values: number[]): number {
+  return values.reduce((acc, value) => acc + value, 0);
+}
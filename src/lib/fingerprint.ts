@@ -4,6 +4,7 @@
  */
 
 import type { BotValidationRequest, BotValidationResult } from "./types.js";
+import type { MLResult } from "./ml/types.js";
 import { config } from "./config.js";
 import { createLogger } from "./logger.js";
 
@@ -94,11 +95,15 @@ export function calculateTimingScore(timingMs: number): number {
  * - Fingerprint: 40%
  * - Timing: 30%
  * - PoW: 30%
+ *
+ * An ML result from a loaded model takes `ml.weight` of the final score and
+ * the rule-based score the rest; fallback results are ignored.
  */
 export async function calculateTrustScore(
   request: BotValidationRequest,
   powVerified: boolean,
-  behaviorScore?: number
+  behaviorScore?: number,
+  ml?: { result: MLResult; weight: number }
 ): Promise<BotValidationResult> {
   const fingerprintResult = await validateFingerprint(
     request.fingerprint,
@@ -141,6 +146,23 @@ export async function calculateTrustScore(
       powScore * 0.3;
   }
 
+  const useMl = ml !== undefined && !ml.result.usedFallback;
+  if (useMl) {
+    const ruleScore = trustScore;
+    trustScore =
+      ruleScore * (1 - ml.weight) + ml.result.trustComponent * ml.weight;
+
+    logger.debug(
+      {
+        rules: ruleScore,
+        ml: ml.result.trustComponent,
+        anomalyScore: ml.result.anomalyScore,
+        total: trustScore,
+      },
+      "Trust score blended with ML"
+    );
+  }
+
   const allowed =
     trustScore >= config.fingerprint.minTrustScore &&
     fingerprintResult.valid &&
@@ -161,5 +183,6 @@ export async function calculateTrustScore(
     trustScore: Math.round(trustScore),
     allowed,
     reason,
+    anomalyScore: useMl ? ml.result.anomalyScore : undefined,
   };
 }
@@ -0,0 +1,485 @@
+/**
+ * Offline lottery verification
+ *
+ * Re-runs a published draw from its LotteryProof and the participant export,
+ * step by step: commitment → Merkle root → seed → winner order, replayed
+ * with the algorithm (and parameters) and Merkle tree format the proof names.
+ * Every step reports the first point where the recomputed value diverges
+ * from the published one, so a failed check says exactly what went wrong.
+ *
+ * The export is pseudonymised, so the draw is replayed over leaf positions
+ * (the same userId-sorted order the server draws in) and each published
+ * winner is matched to the drawn leaf by recomputing its leaf hash.
+ */
+
+import crypto from "node:crypto";
+import {
+  LOTTERY_ALGORITHMS,
+  allocateVariantWinners,
+  drawWithCohortQuotas,
+  hashCohortMemberships,
+  hashDisqualifiedUser,
+  hashParticipantProfiles,
+  variantPrimaryCount,
+  type LotteryAlgorithm,
+  type LotteryDrawInput,
+} from "./lottery.js";
+import {
+  LEGACY_MERKLE_VERSION,
+  MERKLE_VERSIONS,
+  computeMerkleRoot,
+  generateVerifiableSeedFromMerkle,
+  hashLeaf,
+  isSupportedMerkleVersion,
+} from "./merkle.js";
+import type {
+  LotteryAlgorithmId,
+  LotteryProof,
+  ParticipantExportRow,
+  ParticipantProfile,
+} from "./types.js";
+
+export type VerificationStep =
+  | "export"
+  | "commitment"
+  | "participant_count"
+  | "merkle_root"
+  | "seed"
+  | "algorithm"
+  | "profiles"
+  | "cohorts"
+  | "disqualified"
+  | "winner_order";
+
+/**
+ * Where a recomputed value first differs from the published one
+ */
+export interface VerificationDivergence {
+  position?: number; // Index into the list being compared
+  label?: string; // e.g. "winner #3", "backup #1", "leaf 12"
+  expected: string; // Recomputed value
+  actual: string; // Published value
+}
+
+export interface VerificationCheck {
+  step: VerificationStep;
+  passed: boolean;
+  detail: string;
+  divergence?: VerificationDivergence;
+}
+
+export interface LotteryVerificationReport {
+  passed: boolean;
+  checks: VerificationCheck[];
+  firstFailure?: VerificationCheck;
+}
+
+/**
+ * Verify a published lottery against its participant export
+ *
+ * Later steps still run after a failure (the seed is recomputed from the
+ * rebuilt Merkle root, the draw from the recomputed seed) so the report
+ * shows how far the damage spreads; firstFailure is the root cause.
+ */
+export function verifyLottery(
+  proof: LotteryProof,
+  participants: ParticipantExportRow[]
+): LotteryVerificationReport {
+  const checks: VerificationCheck[] = [
+    checkExport(participants),
+    checkCommitment(proof),
+    checkParticipantCount(proof, participants),
+  ];
+
+  const merkleVersion = proof.merkleVersion ?? LEGACY_MERKLE_VERSION;
+  const supportedVersion = isSupportedMerkleVersion(merkleVersion);
+  const root = computeMerkleRoot(
+    participants.map((row) => row.leafHash),
+    supportedVersion ? merkleVersion : LEGACY_MERKLE_VERSION
+  );
+  checks.push(
+    supportedVersion
+      ? compareValue(
+          "merkle_root",
+          root,
+          proof.participantMerkleRoot,
+          `Merkle root (v${merkleVersion}) rebuilt from the export`
+        )
+      : {
+          step: "merkle_root",
+          passed: false,
+          detail: `Unsupported Merkle version ${merkleVersion} (supported: ${MERKLE_VERSIONS.join(", ")})`,
+        }
+  );
+
+  const seed = generateVerifiableSeedFromMerkle(
+    proof.secret,
+    root,
+    proof.beacon?.value
+  );
+  checks.push(
+    compareValue(
+      "seed",
+      seed,
+      proof.seed,
+      proof.beacon
+        ? `Seed = SHA256(secret|merkleRoot|beacon), ${proof.beacon.source} round ${proof.beacon.round}`
+        : "Seed = SHA256(secret|merkleRoot)"
+    )
+  );
+
+  const algorithm = LOTTERY_ALGORITHMS[proof.algorithm as LotteryAlgorithmId];
+  if (!algorithm) {
+    checks.push({
+      step: "algorithm",
+      passed: false,
+      detail: `Unsupported algorithm "${proof.algorithm}" (supported: ${Object.keys(LOTTERY_ALGORITHMS).join(", ")})`,
+    });
+  } else {
+    if (algorithm.usesProfiles) {
+      checks.push(checkProfiles(proof, participants));
+    }
+    if (proof.cohortQuotas?.length) {
+      checks.push(checkCohortMemberships(proof, participants));
+    }
+    checks.push(checkWinnerOrder(proof, participants, seed, algorithm));
+  }
+  if (proof.disqualifiedUserHashes?.length) {
+    checks.push(checkDisqualified(proof));
+  }
+
+  const firstFailure = checks.find((check) => !check.passed);
+  return { passed: !firstFailure, checks, firstFailure };
+}
+
+/**
+ * The export must list every leaf in order (index = position), each
+ * pseudonym once, with whole non-negative ticket counts
+ */
+function checkExport(participants: ParticipantExportRow[]): VerificationCheck {
+  const seen = new Set<string>();
+
+  for (let i = 0; i < participants.length; i++) {
+    const row = participants[i];
+    const problem =
+      row.index !== i
+        ? `index ${row.index} should be ${i}`
+        : seen.has(row.pseudonym)
+          ? `duplicate pseudonym ${row.pseudonym}`
+          : !Number.isInteger(row.effectiveTickets) || row.effectiveTickets < 0
+            ? `invalid effectiveTickets ${row.effectiveTickets}`
+            : !/^[0-9a-f]{64}$/.test(row.leafHash)
+              ? `invalid leafHash ${row.leafHash}`
+              : undefined;
+    seen.add(row.pseudonym);
+
+    if (problem) {
+      return {
+        step: "export",
+        passed: false,
+        detail: `Participant export is malformed at row ${i}: ${problem}`,
+        divergence: {
+          position: i,
+          label: `leaf ${i}`,
+          expected: `index ${i}`,
+          actual: `index ${row.index} (${row.pseudonym})`,
+        },
+      };
+    }
+  }
+
+  return {
+    step: "export",
+    passed: true,
+    detail: `${participants.length} participants in leaf order`,
+  };
+}
+
+/**
+ * The revealed secret must hash to the commitment published before the draw
+ */
+function checkCommitment(proof: LotteryProof): VerificationCheck {
+  const computed = crypto
+    .createHash("sha256")
+    .update(proof.secret)
+    .digest("hex");
+  return compareValue(
+    "commitment",
+    computed,
+    proof.commitment,
+    "SHA256(secret) matches the pre-registration commitment"
+  );
+}
+
+function checkParticipantCount(
+  proof: LotteryProof,
+  participants: ParticipantExportRow[]
+): VerificationCheck {
+  return compareValue(
+    "participant_count",
+    String(participants.length),
+    String(proof.participantCount),
+    "Export covers every participant in the proof"
+  );
+}
+
+/**
+ * Profile-based draws: the exported tiers / first-time flags must be the
+ * ones the proof committed to
+ */
+function checkProfiles(
+  proof: LotteryProof,
+  participants: ParticipantExportRow[]
+): VerificationCheck {
+  if (!proof.participantProfilesHash) {
+    return {
+      step: "profiles",
+      passed: false,
+      detail: `Proof for ${proof.algorithm} has no participantProfilesHash`,
+    };
+  }
+  return compareValue(
+    "profiles",
+    hashParticipantProfiles(participants.map(exportedProfile)),
+    proof.participantProfilesHash,
+    "Exported participant profiles match the proof"
+  );
+}
+
+/**
+ * Cohort quotas: the exported memberships must be the ones the proof
+ * committed to
+ */
+function checkCohortMemberships(
+  proof: LotteryProof,
+  participants: ParticipantExportRow[]
+): VerificationCheck {
+  if (!proof.cohortMembershipHash || !proof.cohortResults) {
+    return {
+      step: "cohorts",
+      passed: false,
+      detail: "Proof has cohort quotas but no membership hash or results",
+    };
+  }
+  return compareValue(
+    "cohorts",
+    hashCohortMemberships(participants.map((row) => row.cohorts ?? [])),
+    proof.cohortMembershipHash,
+    `Exported memberships match the proof (${proof.cohortQuotas
+      ?.map((quota) => quota.id)
+      .join(", ")})`
+  );
+}
+
+/**
+ * Users held back before the draw can't be among the published winners
+ */
+function checkDisqualified(proof: LotteryProof): VerificationCheck {
+  const held = new Set(proof.disqualifiedUserHashes);
+  const published = [...proof.winners, ...proof.backupWinners];
+  const position = published.findIndex((userId) =>
+    held.has(hashDisqualifiedUser(proof.commitment, userId))
+  );
+  if (position !== -1) {
+    return {
+      step: "disqualified",
+      passed: false,
+      detail: `Disqualified user ${published[position]} was drawn`,
+      divergence: {
+        position,
+        label: positionLabel(position, proof.winners.length),
+        expected: "(not disqualified)",
+        actual: published[position],
+      },
+    };
+  }
+  return {
+    step: "disqualified",
+    passed: true,
+    detail: `${held.size} disqualified users held back from the draw`,
+  };
+}
+
+function exportedProfile(row: ParticipantExportRow): ParticipantProfile {
+  return {
+    loyaltyTier: row.loyaltyTier ?? "bronze",
+    firstTime: row.firstTime ?? false,
+  };
+}
+
+/**
+ * Re-run the draw with the proof's algorithm and compare it entry by entry
+ *
+ * Participants are keyed by zero-padded leaf index, which sorts the same
+ * way the server's userIds did. Single-SKU drops: winners then backups are
+ * the first N of one draw. Multi-SKU drops: the full draw order is
+ * re-allocated across the published variant slots with each participant's
+ * exported preferences. Cohort quotas: each quota's sub-lottery is replayed
+ * with the published slots ahead of the general pool.
+ */
+function checkWinnerOrder(
+  proof: LotteryProof,
+  participants: ParticipantExportRow[],
+  seed: string,
+  algorithm: LotteryAlgorithm
+): VerificationCheck {
+  const merkleVersion = proof.merkleVersion ?? LEGACY_MERKLE_VERSION;
+  const width = String(participants.length).length;
+  const keyOf = (row: ParticipantExportRow) =>
+    String(row.index).padStart(width, "0");
+  const byKey = new Map(participants.map((row) => [keyOf(row), row]));
+  const input: LotteryDrawInput = {
+    participantTickets: Object.fromEntries(
+      participants.map((row) => [keyOf(row), row.effectiveTickets])
+    ),
+    participantMultipliers: {},
+    participantProfiles: Object.fromEntries(
+      participants.map((row) => [keyOf(row), exportedProfile(row)])
+    ),
+    seed,
+  };
+  const params = proof.algorithmParams ?? {};
+  const published = [...proof.winners, ...proof.backupWinners];
+
+  let cohortMismatch: VerificationCheck | undefined;
+  const rank = (primaryCount: number): string[] => {
+    const cohortResults = proof.cohortResults;
+    if (!proof.cohortQuotas?.length || !cohortResults) {
+      return algorithm.rank(input, params, primaryCount);
+    }
+    const draw = drawWithCohortQuotas(
+      { id: algorithm.id, params },
+      input,
+      cohortResults.map(({ id, slots }) => ({ id, slots })),
+      Object.fromEntries(
+        participants
+          .filter((row) => row.cohorts?.length)
+          .map((row) => [keyOf(row), row.cohorts as string[]])
+      ),
+      primaryCount
+    );
+    const at = draw.cohorts.findIndex(
+      (result, i) =>
+        JSON.stringify(result) !== JSON.stringify(cohortResults[i])
+    );
+    if (at !== -1) {
+      cohortMismatch = {
+        step: "winner_order",
+        passed: false,
+        detail: `Cohort sub-lottery "${draw.cohorts[at].id}" diverges`,
+        divergence: {
+          position: at,
+          label: `cohort ${draw.cohorts[at].id}`,
+          expected: JSON.stringify(draw.cohorts[at]),
+          actual: JSON.stringify(cohortResults[at]),
+        },
+      };
+    }
+    return draw.order;
+  };
+
+  let recomputed: string[];
+  let variants: Record<string, string> | undefined;
+  if (proof.winnerVariants) {
+    if (!proof.variantSlots) {
+      return {
+        step: "winner_order",
+        passed: false,
+        detail:
+          "Multi-SKU proof has no variantSlots, so the allocation can't be replayed",
+      };
+    }
+    const allocation = allocateVariantWinners(
+      rank(variantPrimaryCount(proof.variantSlots, participants.length)),
+      proof.variantSlots,
+      Object.fromEntries(
+        participants
+          .filter((row) => row.variantPreferences?.length)
+          .map((row) => [keyOf(row), row.variantPreferences as string[]])
+      ),
+      proof.backupWinners.length
+    );
+    recomputed = [...allocation.winners, ...allocation.backupWinners];
+    variants = allocation.winnerVariants;
+  } else if (proof.cohortQuotas?.length) {
+    recomputed = rank(proof.winners.length).slice(0, published.length);
+  } else {
+    recomputed = algorithm.select(
+      input,
+      params,
+      published.length,
+      proof.winners.length
+    );
+  }
+  if (cohortMismatch) return cohortMismatch;
+
+  const length = Math.max(recomputed.length, published.length);
+  for (let i = 0; i < length; i++) {
+    // The drawn leaf must hash to the published user at this position
+    const row = byKey.get(recomputed[i]);
+    const userId = published[i];
+    const matches =
+      row !== undefined &&
+      userId !== undefined &&
+      hashLeaf(
+        {
+          userId,
+          effectiveTickets: row.effectiveTickets,
+          index: row.index,
+        },
+        merkleVersion
+      ) === row.leafHash;
+    if (!matches) {
+      return {
+        step: "winner_order",
+        passed: false,
+        detail: `Draw diverges at position ${i}`,
+        divergence: {
+          position: i,
+          label: positionLabel(i, proof.winners.length),
+          expected: row ? `leaf ${row.index} (${row.pseudonym})` : "(none)",
+          actual: userId ?? "(none)",
+        },
+      };
+    }
+
+    const variantId = variants?.[recomputed[i]];
+    if (variantId && variantId !== proof.winnerVariants?.[userId]) {
+      return {
+        step: "winner_order",
+        passed: false,
+        detail: `Variant allocation diverges for ${userId}`,
+        divergence: {
+          position: i,
+          label: positionLabel(i, proof.winners.length),
+          expected: variantId,
+          actual: proof.winnerVariants?.[userId] ?? "(none)",
+        },
+      };
+    }
+  }
+
+  return {
+    step: "winner_order",
+    passed: true,
+    detail: `${proof.winners.length} winners and ${proof.backupWinners.length} backups match the ${proof.algorithm} draw`,
+  };
+}
+
+function compareValue(
+  step: VerificationStep,
+  expected: string,
+  actual: string,
+  detail: string
+): VerificationCheck {
+  if (expected === actual) {
+    return { step, passed: true, detail };
+  }
+  return { step, passed: false, detail, divergence: { expected, actual } };
+}
+
+function positionLabel(position: number, winnerCount: number): string {
+  return position < winnerCount
+    ? `winner #${position + 1}`
+    : `backup #${position - winnerCount + 1}`;
+}
@@ -1,17 +1,31 @@
 import crypto from "node:crypto";
 import type {
+  CohortCriterion,
+  CohortQuota,
+  CohortQuotaResult,
   DropState,
   TicketPricing,
   LotteryProof,
+  LotteryBeacon,
+  LotteryAlgorithmConfig,
+  LotteryAlgorithmId,
+  LotteryAlgorithmParams,
+  LoyaltyTier,
   MerkleLeafData,
+  MerkleVersion,
+  ParticipantProfile,
 } from "./types.js";
-import { MerkleTree, generateVerifiableSeedFromMerkle } from "./merkle.js";
+import {
+  LEGACY_MERKLE_VERSION,
+  MerkleTree,
+  generateVerifiableSeedFromMerkle,
+} from "./merkle.js";
 
 /**
  * Seeded random number generator using LCG
  * Returns values in [0, 1)
  */
-function createSeededRNG(seed: string): () => number {
+export function createSeededRNG(seed: string): () => number {
   let hash = 0;
   for (let i = 0; i < seed.length; i++) {
     const char = seed.charCodeAt(i);
@@ -334,6 +348,21 @@ export function verifyCommitment(secret: string, commitment: string): boolean {
   return computed === commitment;
 }
 
+/**
+ * Hash a disqualified user for the lottery proof
+ * Salted with the drop's commitment so the list can't be matched across drops;
+ * anyone who knows a userId can check whether it was held back
+ */
+export function hashDisqualifiedUser(
+  commitment: string,
+  userId: string
+): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${commitment}:${userId}`)
+    .digest("hex");
+}
+
 /**
  * Create deterministic participant snapshot for seed generation
  * Sorted by userId to ensure reproducibility regardless of insertion order
@@ -382,6 +411,21 @@ export interface LotteryProofResult {
   leafHashes: string[];
 }
 
+/**
+ * Optional inputs recorded in a lottery proof
+ */
+export interface LotteryProofOptions {
+  winnerVariants?: Record<string, string>; // Multi-SKU allocation
+  variantSlots?: Record<string, number>; // Multi-SKU allocation input
+  beacon?: LotteryBeacon;
+  algorithm?: LotteryAlgorithmConfig; // Default: weighted-fenwick-v2
+  participantProfiles?: Record<string, ParticipantProfile>; // Profile-based algorithms and cohorts
+  cohortQuotas?: CohortQuota[];
+  cohortResults?: CohortQuotaResult[];
+  disqualifiedUserIds?: string[]; // Users removed before the draw (published hashed)
+  merkleVersion?: MerkleVersion; // Tree format (default: v1); must match the tree the seed was derived from
+}
+
 /**
  * Create full lottery proof for public verification using Merkle tree
  * Memory-efficient: stores only Merkle root instead of full participant list
@@ -393,16 +437,27 @@ export function createLotteryProof(
   participantTickets: Record<string, number>,
   participantMultipliers: Record<string, number>,
   winners: string[],
-  backupWinners: string[]
+  backupWinners: string[],
+  options: LotteryProofOptions = {}
 ): LotteryProofResult {
+  const { winnerVariants, variantSlots, beacon } = options;
+  const algorithmId = options.algorithm?.id ?? DEFAULT_LOTTERY_ALGORITHM;
+  const algorithm = getLotteryAlgorithm(algorithmId);
+  const merkleVersion = options.merkleVersion ?? LEGACY_MERKLE_VERSION;
+
   // Build Merkle tree from participants
   const merkleTree = MerkleTree.fromParticipants(
     participantTickets,
-    participantMultipliers
+    participantMultipliers,
+    merkleVersion
   );
 
   // Generate seed from Merkle root
-  const seed = generateVerifiableSeedFromMerkle(secret, merkleTree.root);
+  const seed = generateVerifiableSeedFromMerkle(
+    secret,
+    merkleTree.root,
+    beacon?.value
+  );
 
   const proof: LotteryProof = {
     commitment,
@@ -410,15 +465,52 @@ export function createLotteryProof(
     participantMerkleRoot: merkleTree.root,
     participantCount: merkleTree.size,
     seed,
-    algorithm: "weighted-fenwick-v2",
+    algorithm: algorithmId,
     timestamp: Date.now(),
     winners,
     backupWinners,
+    winnerVariants,
+    variantSlots,
+    beacon,
   };
 
+  const leaves = merkleTree.getLeaves();
+  if (merkleVersion !== LEGACY_MERKLE_VERSION) {
+    proof.merkleVersion = merkleVersion;
+  }
+  if (algorithmId !== DEFAULT_LOTTERY_ALGORITHM) {
+    proof.algorithmParams = resolveLotteryAlgorithmParams(options.algorithm);
+  }
+  if (algorithm.usesProfiles) {
+    proof.participantProfilesHash = hashParticipantProfiles(
+      leaves.map((leaf) =>
+        getParticipantProfile(options.participantProfiles, leaf.userId)
+      )
+    );
+  }
+  if (options.cohortQuotas?.length) {
+    const quotas = options.cohortQuotas;
+    proof.cohortQuotas = quotas;
+    proof.cohortResults = options.cohortResults;
+    proof.cohortMembershipHash = hashCohortMemberships(
+      leaves.map((leaf) =>
+        getParticipantCohorts(
+          quotas,
+          getParticipantProfile(options.participantProfiles, leaf.userId),
+          participantMultipliers[leaf.userId] ?? 1.0
+        )
+      )
+    );
+  }
+  if (options.disqualifiedUserIds?.length) {
+    proof.disqualifiedUserHashes = options.disqualifiedUserIds
+      .map((userId) => hashDisqualifiedUser(commitment, userId))
+      .sort();
+  }
+
   return {
     proof,
-    leaves: merkleTree.getLeaves(),
+    leaves,
     leafHashes: merkleTree.getLeafHashes(),
   };
 }
@@ -458,6 +550,45 @@ export function selectWinnersWithMultipliers(
     return entries.map(([userId]) => userId);
   }
 
+  return drawWeightedOrder(entries, participantMultipliers, count, seed);
+}
+
+/**
+ * Rank every participant in weighted draw order (multi-SKU allocation)
+ *
+ * Same draw as selectWinnersWithMultipliers, so the first K entries are the
+ * K winners it would pick, but it never short-circuits to userId order
+ * when everyone fits.
+ */
+export function rankParticipantsWithMultipliers(
+  participantTickets: Record<string, number>,
+  participantMultipliers: Record<string, number>,
+  seed: string
+): string[] {
+  const entries = Object.entries(participantTickets).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+
+  if (entries.length === 0) return [];
+
+  return drawWeightedOrder(
+    entries,
+    participantMultipliers,
+    entries.length,
+    seed
+  );
+}
+
+/**
+ * Weighted draw without replacement over userId-sorted entries
+ * (the fairness report replays it to estimate win probabilities)
+ */
+export function drawWeightedOrder(
+  entries: [string, number][],
+  participantMultipliers: Record<string, number>,
+  count: number,
+  seed: string
+): string[] {
   // Calculate effective weights for each participant
   const weights: number[] = [];
   const userIds: string[] = [];
@@ -496,6 +627,566 @@ export function selectWinnersWithMultipliers(
   return winners;
 }
 
+/**
+ * Result of allocating a multi-SKU drop's stock
+ */
+export interface VariantAllocation {
+  winners: string[];
+  backupWinners: string[];
+  winnerVariants: Record<string, string>; // userId -> variantId
+}
+
+/**
+ * Allocate per-variant stock to participants in draw order
+ *
+ * Each participant gets their highest-ranked preference that still has
+ * stock; participants without preferences take any variant (in config
+ * order). Those whose preferences are all taken become backups, in draw
+ * order, until backupCount is reached.
+ */
+export function allocateVariantWinners(
+  drawOrder: string[],
+  variantInventory: Record<string, number>,
+  preferences: Record<string, string[]>,
+  backupCount: number
+): VariantAllocation {
+  const remaining = { ...variantInventory };
+  const allVariants = Object.keys(remaining);
+  let unallocated = allVariants.reduce((sum, id) => sum + remaining[id], 0);
+
+  const winners: string[] = [];
+  const backupWinners: string[] = [];
+  const winnerVariants: Record<string, string> = {};
+
+  for (const userId of drawOrder) {
+    if (unallocated === 0 && backupWinners.length >= backupCount) break;
+
+    if (unallocated > 0) {
+      const ranked = preferences[userId]?.length
+        ? preferences[userId]
+        : allVariants;
+      const variantId = ranked.find((id) => (remaining[id] ?? 0) > 0);
+      if (variantId) {
+        remaining[variantId]--;
+        unallocated--;
+        winners.push(userId);
+        winnerVariants[userId] = variantId;
+        continue;
+      }
+    }
+
+    if (backupWinners.length < backupCount) {
+      backupWinners.push(userId);
+    }
+  }
+
+  return { winners, backupWinners, winnerVariants };
+}
+
+// ============================================================
+// Lottery Algorithm Registry
+// ============================================================
+
+export const DEFAULT_LOTTERY_ALGORITHM: LotteryAlgorithmId =
+  "weighted-fenwick-v2";
+
+const DEFAULT_TIER_ORDER: LoyaltyTier[] = ["gold", "silver", "bronze"];
+const DEFAULT_RESERVED_SHARE = 0.2;
+
+/**
+ * Profile assumed for participants registered without one
+ */
+const DEFAULT_PARTICIPANT_PROFILE: ParticipantProfile = {
+  loyaltyTier: "bronze",
+  firstTime: false,
+};
+
+/**
+ * Everything a lottery algorithm draws from
+ * Keys are userIds on the server and zero-padded leaf indexes in offline
+ * replays; both sort the same way.
+ */
+export interface LotteryDrawInput {
+  participantTickets: Record<string, number>;
+  participantMultipliers: Record<string, number>;
+  participantProfiles?: Record<string, ParticipantProfile>;
+  seed: string;
+}
+
+/**
+ * A versioned, reproducible lottery strategy
+ *
+ * Implementations must be deterministic for a given input and must never
+ * change once published: a new behavior gets a new ID, so old proofs keep
+ * replaying against the code they were drawn with.
+ */
+export interface LotteryAlgorithm {
+  readonly id: LotteryAlgorithmId;
+  readonly description: string;
+  /** Whether the draw groups participants by profile (tier, first-time) */
+  readonly usesProfiles: boolean;
+  /** Pick `count` participants in draw order; the first primaryCount are primary winners */
+  select(
+    input: LotteryDrawInput,
+    params: LotteryAlgorithmParams,
+    count: number,
+    primaryCount: number
+  ): string[];
+  /** Rank every drawable participant (multi-SKU allocation walks this order) */
+  rank(
+    input: LotteryDrawInput,
+    params: LotteryAlgorithmParams,
+    primaryCount: number
+  ): string[];
+}
+
+/**
+ * Algorithms whose ranking is just a selection of everyone
+ */
+function orderedAlgorithm(
+  algorithm: Omit<LotteryAlgorithm, "rank">
+): LotteryAlgorithm {
+  return {
+    ...algorithm,
+    rank: (input, params, primaryCount) =>
+      algorithm.select(
+        input,
+        params,
+        Object.keys(input.participantTickets).length,
+        primaryCount
+      ),
+  };
+}
+
+function sortedEntries(
+  participantTickets: Record<string, number>
+): [string, number][] {
+  return Object.entries(participantTickets).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+}
+
+export const LOTTERY_ALGORITHMS: Record<LotteryAlgorithmId, LotteryAlgorithm> =
+  {
+    "weighted-fenwick-v2": {
+      id: "weighted-fenwick-v2",
+      description:
+        "Weighted by effective tickets (tickets x multiplier), without replacement",
+      usesProfiles: false,
+      select: (input, _params, count) =>
+        selectWinnersWithMultipliers(
+          input.participantTickets,
+          input.participantMultipliers,
+          count,
+          input.seed
+        ),
+      rank: (input) =>
+        rankParticipantsWithMultipliers(
+          input.participantTickets,
+          input.participantMultipliers,
+          input.seed
+        ),
+    },
+
+    "uniform-v1": orderedAlgorithm({
+      id: "uniform-v1",
+      description: "One entry per participant; tickets and multipliers ignored",
+      usesProfiles: false,
+      select: (input, _params, count) =>
+        drawWeightedOrder(
+          sortedEntries(input.participantTickets)
+            .filter(([, tickets]) => tickets > 0)
+            .map(([userId]): [string, number] => [userId, 1]),
+          {},
+          count,
+          input.seed
+        ),
+    }),
+
+    "tiered-priority-v1": orderedAlgorithm({
+      id: "tiered-priority-v1",
+      description:
+        "Loyalty tiers drawn in priority order (weighted within each tier); lower tiers only fill what higher tiers leave",
+      usesProfiles: true,
+      select: (input, params, count) => {
+        const entries = sortedEntries(input.participantTickets);
+        const tierOrder = params.tierOrder ?? DEFAULT_TIER_ORDER;
+        const selected: string[] = [];
+
+        for (const tier of tierOrder) {
+          if (selected.length >= count) break;
+          const group = entries.filter(
+            ([userId]) =>
+              getParticipantProfile(input.participantProfiles, userId)
+                .loyaltyTier === tier
+          );
+          selected.push(
+            ...drawWeightedOrder(
+              group,
+              input.participantMultipliers,
+              count - selected.length,
+              `${input.seed}:tier:${tier}`
+            )
+          );
+        }
+
+        return selected;
+      },
+    }),
+
+    "reserved-quota-v1": orderedAlgorithm({
+      id: "reserved-quota-v1",
+      description:
+        "A share of primary winner slots is drawn among first-time entrants first; unused slots and everyone else go to a general weighted draw",
+      usesProfiles: true,
+      select: (input, params, count, primaryCount) => {
+        const entries = sortedEntries(input.participantTickets);
+        const share = params.reservedShare ?? DEFAULT_RESERVED_SHARE;
+        const reservedSlots = Math.min(
+          Math.ceil(primaryCount * share),
+          count
+        );
+
+        const reserved = drawWeightedOrder(
+          entries.filter(
+            ([userId]) =>
+              getParticipantProfile(input.participantProfiles, userId)
+                .firstTime
+          ),
+          input.participantMultipliers,
+          reservedSlots,
+          `${input.seed}:reserved`
+        );
+
+        const picked = new Set(reserved);
+        const general = drawWeightedOrder(
+          entries.filter(([userId]) => !picked.has(userId)),
+          input.participantMultipliers,
+          count - reserved.length,
+          `${input.seed}:general`
+        );
+
+        return [...reserved, ...general];
+      },
+    }),
+  };
+
+/**
+ * Primary winner slots a multi-SKU ranking is drawn for
+ * (recomputable from the proof's variantSlots)
+ */
+export function variantPrimaryCount(
+  variantSlots: Record<string, number>,
+  participantCount: number
+): number {
+  const slots = Object.values(variantSlots).reduce((sum, n) => sum + n, 0);
+  return Math.min(slots, participantCount);
+}
+
+/**
+ * Look up an algorithm by ID
+ */
+export function getLotteryAlgorithm(id: string): LotteryAlgorithm {
+  const algorithm = LOTTERY_ALGORITHMS[id as LotteryAlgorithmId];
+  if (!algorithm) {
+    throw new Error(`Unknown lottery algorithm: ${id}`);
+  }
+  return algorithm;
+}
+
+/**
+ * Parameters with the algorithm's defaults filled in (recorded in proofs)
+ */
+export function resolveLotteryAlgorithmParams(
+  algorithm?: LotteryAlgorithmConfig
+): LotteryAlgorithmParams {
+  switch (algorithm?.id) {
+    case "tiered-priority-v1":
+      return { tierOrder: algorithm.params?.tierOrder ?? DEFAULT_TIER_ORDER };
+    case "reserved-quota-v1":
+      return {
+        reservedShare:
+          algorithm.params?.reservedShare ?? DEFAULT_RESERVED_SHARE,
+      };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Validate an algorithm selection
+ * Returns an error message, or null if valid
+ */
+export function validateLotteryAlgorithm(
+  algorithm: LotteryAlgorithmConfig
+): string | null {
+  if (!LOTTERY_ALGORITHMS[algorithm.id]) {
+    return `Unknown lottery algorithm "${algorithm.id}"`;
+  }
+
+  const { tierOrder, reservedShare } = algorithm.params ?? {};
+  if (tierOrder !== undefined) {
+    if (
+      tierOrder.length === 0 ||
+      new Set(tierOrder).size !== tierOrder.length ||
+      tierOrder.some((tier) => !DEFAULT_TIER_ORDER.includes(tier))
+    ) {
+      return "tierOrder must list distinct loyalty tiers";
+    }
+  }
+  if (reservedShare !== undefined && !(reservedShare > 0 && reservedShare < 1)) {
+    return "reservedShare must be between 0 and 1";
+  }
+
+  return null;
+}
+
+/**
+ * Run the selected algorithm (default: weighted-fenwick-v2)
+ */
+export function selectWinnersWithAlgorithm(
+  algorithm: LotteryAlgorithmConfig | undefined,
+  input: LotteryDrawInput,
+  count: number,
+  primaryCount: number
+): string[] {
+  return getLotteryAlgorithm(
+    algorithm?.id ?? DEFAULT_LOTTERY_ALGORITHM
+  ).select(
+    input,
+    resolveLotteryAlgorithmParams(algorithm),
+    count,
+    primaryCount
+  );
+}
+
+/**
+ * Rank every participant with the selected algorithm (multi-SKU drops)
+ */
+export function rankParticipantsWithAlgorithm(
+  algorithm: LotteryAlgorithmConfig | undefined,
+  input: LotteryDrawInput,
+  primaryCount: number
+): string[] {
+  return getLotteryAlgorithm(algorithm?.id ?? DEFAULT_LOTTERY_ALGORITHM).rank(
+    input,
+    resolveLotteryAlgorithmParams(algorithm),
+    primaryCount
+  );
+}
+
+/**
+ * A participant's profile, or the default for entries without one
+ */
+export function getParticipantProfile(
+  profiles: Record<string, ParticipantProfile> | undefined,
+  userId: string
+): ParticipantProfile {
+  return profiles?.[userId] ?? DEFAULT_PARTICIPANT_PROFILE;
+}
+
+/**
+ * Commit to the profiles a draw grouped by, in leaf order
+ * SHA256 over "<index>:<tier>:<0|1>" lines
+ */
+export function hashParticipantProfiles(
+  profiles: ParticipantProfile[]
+): string {
+  return crypto
+    .createHash("sha256")
+    .update(
+      profiles
+        .map(
+          (profile, index) =>
+            `${index}:${profile.loyaltyTier}:${profile.firstTime ? 1 : 0}`
+        )
+        .join("\n")
+    )
+    .digest("hex");
+}
+
+// ============================================================
+// Cohort Quotas
+// ============================================================
+
+/**
+ * Whether a participant meets a cohort's criterion
+ */
+function matchesCohort(
+  criterion: CohortCriterion,
+  profile: ParticipantProfile,
+  multiplier: number
+): boolean {
+  switch (criterion.type) {
+    case "first_time":
+      return profile.firstTime;
+    case "loyalty_tier":
+      return criterion.tiers.includes(profile.loyaltyTier);
+    case "geo_zone":
+      return profile.inGeoZone === true;
+    case "min_multiplier":
+      return multiplier >= criterion.value;
+  }
+}
+
+/**
+ * IDs of the cohorts a participant belongs to (config order)
+ */
+export function getParticipantCohorts(
+  quotas: CohortQuota[],
+  profile: ParticipantProfile,
+  multiplier: number
+): string[] {
+  return quotas
+    .filter((quota) => matchesCohort(quota.criterion, profile, multiplier))
+    .map((quota) => quota.id);
+}
+
+/**
+ * Cohort membership for every participant (only those in at least one)
+ */
+export function getCohortMembership(
+  quotas: CohortQuota[],
+  participantTickets: Record<string, number>,
+  participantMultipliers: Record<string, number>,
+  participantProfiles?: Record<string, ParticipantProfile>
+): Record<string, string[]> {
+  const membership: Record<string, string[]> = {};
+  for (const userId of Object.keys(participantTickets)) {
+    const cohorts = getParticipantCohorts(
+      quotas,
+      getParticipantProfile(participantProfiles, userId),
+      participantMultipliers[userId] ?? 1.0
+    );
+    if (cohorts.length > 0) membership[userId] = cohorts;
+  }
+  return membership;
+}
+
+/**
+ * Primary winner slots reserved per quota (rounded up, never more than
+ * the slots left after earlier quotas)
+ */
+export function getCohortSlots(
+  quotas: CohortQuota[],
+  primaryCount: number
+): { id: string; slots: number }[] {
+  let remaining = primaryCount;
+  return quotas.map((quota) => {
+    const slots = Math.min(Math.ceil(primaryCount * quota.share), remaining);
+    remaining -= slots;
+    return { id: quota.id, slots };
+  });
+}
+
+/**
+ * Result of a cohort-partitioned draw
+ */
+export interface CohortDraw {
+  order: string[]; // Cohort winners (quota order), then the general draw
+  cohorts: CohortQuotaResult[];
+}
+
+/**
+ * Rank participants with cohort sub-lotteries ahead of the general pool
+ *
+ * Each quota runs the drop's algorithm over its still-undrawn members
+ * (seeded "<seed>:cohort:<id>") and keeps up to its slots. Everyone not
+ * drawn, including cohort members who missed out, goes into the general
+ * draw, which also takes any slots a cohort couldn't fill.
+ */
+export function drawWithCohortQuotas(
+  algorithm: LotteryAlgorithmConfig | undefined,
+  input: LotteryDrawInput,
+  cohortSlots: { id: string; slots: number }[],
+  membership: Record<string, string[]>,
+  primaryCount: number
+): CohortDraw {
+  const impl = getLotteryAlgorithm(algorithm?.id ?? DEFAULT_LOTTERY_ALGORITHM);
+  const params = resolveLotteryAlgorithmParams(algorithm);
+  const drawn = new Set<string>();
+  const order: string[] = [];
+  const cohorts: CohortQuotaResult[] = [];
+
+  const undrawn = (filter: (userId: string) => boolean) =>
+    Object.fromEntries(
+      Object.entries(input.participantTickets).filter(
+        ([userId]) => !drawn.has(userId) && filter(userId)
+      )
+    );
+
+  for (const { id, slots } of cohortSlots) {
+    const eligible = undrawn((userId) => membership[userId]?.includes(id));
+    const winners =
+      slots > 0
+        ? impl
+            .rank(
+              {
+                ...input,
+                participantTickets: eligible,
+                seed: `${input.seed}:cohort:${id}`,
+              },
+              params,
+              slots
+            )
+            .slice(0, slots)
+        : [];
+
+    for (const userId of winners) drawn.add(userId);
+    order.push(...winners);
+    cohorts.push({
+      id,
+      slots,
+      eligible: Object.keys(eligible).length,
+      filled: winners.length,
+    });
+  }
+
+  order.push(
+    ...impl.rank(
+      { ...input, participantTickets: undrawn(() => true) },
+      params,
+      Math.max(0, primaryCount - order.length)
+    )
+  );
+
+  return { order, cohorts };
+}
+
+/**
+ * Commit to cohort memberships, in leaf order
+ * SHA256 over "<index>:<id>|<id>..." lines
+ */
+export function hashCohortMemberships(memberships: string[][]): string {
+  return crypto
+    .createHash("sha256")
+    .update(
+      memberships
+        .map((cohorts, index) => `${index}:${cohorts.join("|")}`)
+        .join("\n")
+    )
+    .digest("hex");
+}
+
+/**
+ * Validate cohort quotas
+ * Returns an error message, or null if valid
+ */
+export function validateCohortQuotas(quotas: CohortQuota[]): string | null {
+  const ids = new Set(quotas.map((quota) => quota.id));
+  if (ids.size !== quotas.length) {
+    return "Cohort IDs must be unique";
+  }
+  if (quotas.some((quota) => !(quota.share > 0 && quota.share <= 1))) {
+    return "Cohort shares must be between 0 and 1";
+  }
+  // Small tolerance so shares like 0.1 + 0.2 + 0.7 still pass
+  if (quotas.reduce((sum, quota) => sum + quota.share, 0) > 1 + 1e-9) {
+    return "Cohort shares cannot exceed 1 in total";
+  }
+  return null;
+}
+
 /**
  * Calculate effective tickets after applying loyalty multiplier
  */
@@ -8,9 +8,32 @@
  * Memory: O(N) during construction, O(1) for root storage
  * Proof size: O(log N) hashes per user
  * Verification: O(log N) hash operations
+ *
+ * Two tree formats, recorded as `merkleVersion` in the lottery proof:
+ * - v1 (proofs without a version): leaves are SHA256(userId:effectiveTickets:index),
+ *   parents hash their children sorted and odd nodes are paired with themselves.
+ *   Leaves and internal nodes share one hash domain and proofs don't bind
+ *   the path to a position.
+ * - v2: leaves are SHA256(0x00 || data) and parents SHA256(0x01 || left || right)
+ *   over the raw 32-byte children, kept in position order. An odd node is
+ *   carried up unchanged, so proofs are positional against the leaf count and
+ *   several leaves can share one multiproof.
  */
 
 import crypto from "node:crypto";
+import type { MerkleVersion } from "./types.js";
+
+/** Tree format for new draws */
+export const LATEST_MERKLE_VERSION: MerkleVersion = 2;
+
+/** Format assumed when a proof doesn't record one */
+export const LEGACY_MERKLE_VERSION: MerkleVersion = 1;
+
+export const MERKLE_VERSIONS: readonly MerkleVersion[] = [1, 2];
+
+// v2 domain separation prefixes
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
 
 /**
  * Hash function used throughout the Merkle tree
@@ -21,7 +44,7 @@ function sha256(data: string): string {
 }
 
 /**
- * Hash two child nodes to create parent
+ * Hash two child nodes to create parent (v1)
  * Sorts inputs to ensure consistent ordering regardless of left/right position
  */
 function hashPair(left: string, right: string): string {
@@ -30,6 +53,27 @@ function hashPair(left: string, right: string): string {
   return sha256(a + b);
 }
 
+/**
+ * Hash two child nodes to create parent (v2)
+ * Ordered, over the raw digests, with the internal-node prefix
+ */
+function hashNode(left: string, right: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(NODE_PREFIX)
+    .update(Buffer.from(left, "hex"))
+    .update(Buffer.from(right, "hex"))
+    .digest("hex");
+}
+
+function hashChildren(
+  left: string,
+  right: string,
+  version: MerkleVersion
+): string {
+  return version === 1 ? hashPair(left, right) : hashNode(left, right);
+}
+
 /**
  * Represents a leaf in the Merkle tree
  * Contains the participant's data for verification
@@ -45,9 +89,25 @@ export interface MerkleLeaf {
  * Contains the path from leaf to root
  */
 export interface MerkleProof {
+  version: MerkleVersion;
   leaf: MerkleLeaf;
   leafHash: string;
-  proof: string[]; // Sibling hashes from leaf to root
+  proof: string[]; // Sibling hashes from leaf to root (v2: levels where the node is carried up are skipped)
+  leafCount: number; // v2 proofs are checked against the tree width
+  root: string;
+}
+
+/**
+ * Batched v2 proof for several leaves
+ * Siblings shared between the paths, or computable from the other leaves,
+ * are sent once (bottom-up, left to right within a level)
+ */
+export interface MerkleMultiProof {
+  version: 2;
+  leaves: MerkleLeaf[]; // Sorted by index
+  leafHashes: string[];
+  proof: string[];
+  leafCount: number;
   root: string;
 }
 
@@ -64,22 +124,25 @@ export interface MerkleTreeResult {
  * Merkle Tree class for participant verification
  *
  * Builds a binary Merkle tree from participant data.
- * Each leaf is hash(userId:effectiveTickets:index)
+ * Each leaf commits to userId:effectiveTickets:index (see hashLeaf)
  */
 export class MerkleTree {
   private leaves: MerkleLeaf[];
   private leafHashes: string[];
   private layers: string[][];
   public readonly root: string;
+  public readonly version: MerkleVersion;
 
   private constructor(
     leaves: MerkleLeaf[],
     leafHashes: string[],
-    layers: string[][]
+    layers: string[][],
+    version: MerkleVersion
   ) {
     this.leaves = leaves;
     this.leafHashes = leafHashes;
     this.layers = layers;
+    this.version = version;
     this.root = layers[layers.length - 1]?.[0] ?? sha256("empty");
   }
 
@@ -89,10 +152,12 @@ export class MerkleTree {
    *
    * @param participantTickets - Map of userId to ticket count
    * @param participantMultipliers - Map of userId to loyalty multiplier
+   * @param version - Tree format (default: v1, for proofs that don't record one)
    */
   static fromParticipants(
     participantTickets: Record<string, number>,
-    participantMultipliers: Record<string, number>
+    participantMultipliers: Record<string, number>,
+    version: MerkleVersion = LEGACY_MERKLE_VERSION
   ): MerkleTree {
     // Sort entries by userId for deterministic ordering
     const sortedEntries = Object.entries(participantTickets).sort(([a], [b]) =>
@@ -109,12 +174,12 @@ export class MerkleTree {
     );
 
     // Hash leaves
-    const leafHashes = leaves.map((leaf) => hashLeaf(leaf));
+    const leafHashes = leaves.map((leaf) => hashLeaf(leaf, version));
 
     // Build tree layers
-    const layers = buildLayers(leafHashes);
+    const layers = buildLayers(leafHashes, version);
 
-    return new MerkleTree(leaves, leafHashes, layers);
+    return new MerkleTree(leaves, leafHashes, layers, version);
   }
 
   /**
@@ -166,6 +231,17 @@ export class MerkleTree {
   getProofByIndex(leafIndex: number): MerkleProof | null {
     if (leafIndex < 0 || leafIndex >= this.leaves.length) return null;
 
+    if (this.version === 2) {
+      return {
+        version: 2,
+        leaf: this.leaves[leafIndex],
+        leafHash: this.leafHashes[leafIndex],
+        proof: collectMultiProof(this.layers, [leafIndex]),
+        leafCount: this.leaves.length,
+        root: this.root,
+      };
+    }
+
     const proof: string[] = [];
     let currentIndex = leafIndex;
 
@@ -188,9 +264,30 @@ export class MerkleTree {
     }
 
     return {
+      version: 1,
       leaf: this.leaves[leafIndex],
       leafHash: this.leafHashes[leafIndex],
       proof,
+      leafCount: this.leaves.length,
+      root: this.root,
+    };
+  }
+
+  /**
+   * Get one v2 multiproof covering several leaves
+   * Returns null for v1 trees or if any index is out of range
+   */
+  getMultiProofByIndices(leafIndices: number[]): MerkleMultiProof | null {
+    if (this.version !== 2 || leafIndices.length === 0) return null;
+    if (leafIndices.some((i) => i < 0 || i >= this.leaves.length)) return null;
+
+    const indices = [...new Set(leafIndices)].sort((a, b) => a - b);
+    return {
+      version: 2,
+      leaves: indices.map((i) => this.leaves[i]),
+      leafHashes: indices.map((i) => this.leafHashes[i]),
+      proof: collectMultiProof(this.layers, indices),
+      leafCount: this.leaves.length,
       root: this.root,
     };
   }
@@ -198,17 +295,36 @@ export class MerkleTree {
 
 /**
  * Hash a leaf node
- * Format: SHA256(userId:effectiveTickets:index)
+ * Format: v1 SHA256(userId:effectiveTickets:index),
+ * v2 SHA256(0x00 || userId:effectiveTickets:index)
  */
-export function hashLeaf(leaf: MerkleLeaf): string {
-  return sha256(`${leaf.userId}:${leaf.effectiveTickets}:${leaf.index}`);
+export function hashLeaf(
+  leaf: MerkleLeaf,
+  version: MerkleVersion = LEGACY_MERKLE_VERSION
+): string {
+  const data = `${leaf.userId}:${leaf.effectiveTickets}:${leaf.index}`;
+  if (version === 1) return sha256(data);
+  return crypto
+    .createHash("sha256")
+    .update(LEAF_PREFIX)
+    .update(data, "utf8")
+    .digest("hex");
+}
+
+/**
+ * Check a tree format version read from a proof
+ */
+export function isSupportedMerkleVersion(
+  version: unknown
+): version is MerkleVersion {
+  return MERKLE_VERSIONS.includes(version as MerkleVersion);
 }
 
 /**
  * Build all layers of the Merkle tree from leaf hashes
  * Returns array of layers, from leaves (index 0) to root (last index)
  */
-function buildLayers(leafHashes: string[]): string[][] {
+function buildLayers(leafHashes: string[], version: MerkleVersion): string[][] {
   if (leafHashes.length === 0) {
     return [[sha256("empty")]];
   }
@@ -221,9 +337,16 @@ function buildLayers(leafHashes: string[]): string[][] {
 
     for (let i = 0; i < currentLayer.length; i += 2) {
       const left = currentLayer[i];
-      // If odd number of nodes, duplicate the last one
-      const right = currentLayer[i + 1] ?? left;
-      nextLayer.push(hashPair(left, right));
+      const right = currentLayer[i + 1];
+      if (right !== undefined) {
+        nextLayer.push(hashChildren(left, right, version));
+      } else if (version === 1) {
+        // If odd number of nodes, duplicate the last one
+        nextLayer.push(hashPair(left, left));
+      } else {
+        // v2 carries the odd node up unchanged
+        nextLayer.push(left);
+      }
     }
 
     layers.push(nextLayer);
@@ -232,6 +355,82 @@ function buildLayers(leafHashes: string[]): string[][] {
   return layers;
 }
 
+/**
+ * Sibling hashes needed to rebuild the root from the given leaves (v2)
+ * Bottom-up and left to right within each level; siblings that are
+ * themselves on a proven path, or carried-up odd nodes, are skipped
+ */
+function collectMultiProof(layers: string[][], indices: number[]): string[] {
+  const proof: string[] = [];
+  let known = indices;
+
+  for (let layer = 0; layer < layers.length - 1; layer++) {
+    const nodes = layers[layer];
+    const knownSet = new Set(known);
+    for (const index of known) {
+      const sibling = index ^ 1;
+      if (sibling < nodes.length && !knownSet.has(sibling)) {
+        proof.push(nodes[sibling]);
+      }
+    }
+    known = [...new Set(known.map((index) => index >> 1))];
+  }
+
+  return proof;
+}
+
+/**
+ * Rebuild a v2 root from known leaf hashes and a (multi)proof
+ * Returns null if the proof doesn't fit the tree shape or has hashes left over
+ */
+function computeRootFromMultiProof(
+  leafHashes: Map<number, string>,
+  leafCount: number,
+  proof: string[]
+): string | null {
+  let nodes = [...leafHashes.entries()].sort(([a], [b]) => a - b);
+  if (nodes.length === 0 || nodes[nodes.length - 1][0] >= leafCount) {
+    return null;
+  }
+
+  let width = leafCount;
+  let cursor = 0;
+  while (width > 1) {
+    const next: Array<[number, string]> = [];
+    for (let k = 0; k < nodes.length; k++) {
+      const [index, hash] = nodes[k];
+      if (index % 2 === 1) {
+        if (cursor >= proof.length) return null;
+        next.push([index >> 1, hashNode(proof[cursor++], hash)]);
+      } else if (index + 1 >= width) {
+        next.push([index >> 1, hash]); // Odd node carried up
+      } else if (nodes[k + 1]?.[0] === index + 1) {
+        next.push([index >> 1, hashNode(hash, nodes[k + 1][1])]);
+        k++;
+      } else {
+        if (cursor >= proof.length) return null;
+        next.push([index >> 1, hashNode(hash, proof[cursor++])]);
+      }
+    }
+    nodes = next;
+    width = Math.ceil(width / 2);
+  }
+
+  return cursor === proof.length ? nodes[0][1] : null;
+}
+
+/**
+ * Compute the Merkle root from leaf hashes alone (in leaf order)
+ * Lets auditors rebuild the root from a pseudonymised participant export
+ */
+export function computeMerkleRoot(
+  leafHashes: string[],
+  version: MerkleVersion = LEGACY_MERKLE_VERSION
+): string {
+  const layers = buildLayers(leafHashes, version);
+  return layers[layers.length - 1][0];
+}
+
 /**
  * Verify a Merkle proof
  * Recomputes the root from the leaf and proof, then compares to expected root
@@ -239,13 +438,27 @@ function buildLayers(leafHashes: string[]): string[][] {
  * @param leaf - The leaf data to verify
  * @param proof - Array of sibling hashes from leaf to root
  * @param expectedRoot - The expected Merkle root
+ * @param options - Tree format (default v1) and, for v2, the leaf count
  * @returns true if the proof is valid
  */
 export function verifyMerkleProof(
   leaf: MerkleLeaf,
   proof: string[],
-  expectedRoot: string
+  expectedRoot: string,
+  options: { version?: MerkleVersion; leafCount?: number } = {}
 ): boolean {
+  const version = options.version ?? LEGACY_MERKLE_VERSION;
+  if (version === 2) {
+    if (options.leafCount === undefined || leaf.index < 0) return false;
+    return (
+      computeRootFromMultiProof(
+        new Map([[leaf.index, hashLeaf(leaf, 2)]]),
+        options.leafCount,
+        proof
+      ) === expectedRoot
+    );
+  }
+
   let currentHash = hashLeaf(leaf);
   let currentIndex = leaf.index;
 
@@ -264,17 +477,43 @@ export function verifyMerkleProof(
   return currentHash === expectedRoot;
 }
 
+/**
+ * Verify a v2 multiproof for several leaves at once
+ *
+ * @param leaves - The leaf data to verify (any order, no duplicate indices)
+ * @param proof - Sibling hashes as produced by getMultiProofByIndices
+ * @param leafCount - Number of leaves in the tree
+ * @param expectedRoot - The expected Merkle root
+ */
+export function verifyMerkleMultiProof(
+  leaves: MerkleLeaf[],
+  proof: string[],
+  leafCount: number,
+  expectedRoot: string
+): boolean {
+  const leafHashes = new Map<number, string>();
+  for (const leaf of leaves) {
+    if (leaf.index < 0 || leafHashes.has(leaf.index)) return false;
+    leafHashes.set(leaf.index, hashLeaf(leaf, 2));
+  }
+  return (
+    computeRootFromMultiProof(leafHashes, leafCount, proof) === expectedRoot
+  );
+}
+
 /**
  * Build a Merkle tree and return just the root and leaves
  * More memory-efficient when you don't need to generate proofs immediately
  */
 export function buildParticipantMerkleTree(
   participantTickets: Record<string, number>,
-  participantMultipliers: Record<string, number>
+  participantMultipliers: Record<string, number>,
+  version: MerkleVersion = LEGACY_MERKLE_VERSION
 ): MerkleTreeResult {
   const tree = MerkleTree.fromParticipants(
     participantTickets,
-    participantMultipliers
+    participantMultipliers,
+    version
   );
 
   return {
@@ -286,14 +525,18 @@ export function buildParticipantMerkleTree(
 
 /**
  * Generate verifiable lottery seed using Merkle root
- * Combines server secret with Merkle root for deterministic seed generation
+ * Combines server secret with Merkle root for deterministic seed generation.
+ * When the drop committed to a public beacon round, its value is mixed in
+ * so neither the operator nor the beacon alone determines the draw.
  */
 export function generateVerifiableSeedFromMerkle(
   secret: string,
-  merkleRoot: string
+  merkleRoot: string,
+  beaconValue?: string
 ): string {
-  return crypto
-    .createHash("sha256")
-    .update(`${secret}|${merkleRoot}`)
-    .digest("hex");
+  const input =
+    beaconValue !== undefined
+      ? `${secret}|${merkleRoot}|${beaconValue}`
+      : `${secret}|${merkleRoot}`;
+  return crypto.createHash("sha256").update(input).digest("hex");
 }
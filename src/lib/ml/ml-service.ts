@@ -0,0 +1,371 @@
+/**
+ * ML Service for Bot Detection
+ *
+ * Loads a serialized Isolation Forest and scores feature vectors for the
+ * trust score calculation. Any problem (disabled, missing or invalid model,
+ * inference error, slow inference) yields a neutral fallback result so
+ * registration keeps working on rule-based scoring alone.
+ *
+ * The model registry can swap the active model at runtime and load a shadow
+ * candidate that scores every request alongside it; shadow scores are only
+ * compared and counted, never returned.
+ *
+ * Requirements: 1.2, 1.3, 3.2, 3.3, 3.4
+ */
+
+import { readFile } from "node:fs/promises";
+import { performance } from "node:perf_hooks";
+import { config } from "../config.js";
+import { createLogger } from "../logger.js";
+import { IsolationForest } from "./isolation-forest.js";
+import {
+  FEATURE_COUNT,
+  type MLResult,
+  type MLServiceConfig,
+  type SerializedModel,
+  type ShadowStats,
+} from "./types.js";
+
+const logger = createLogger("ml-service");
+
+/** Neutral anomaly score: neither clearly bot nor human */
+const NEUTRAL_ANOMALY_SCORE = 0.5;
+
+/** Neutral trust component (middle of 0-100) */
+const NEUTRAL_TRUST_COMPONENT = 50;
+
+/**
+ * Isolation Forest scoring with neutral fallback.
+ */
+export class MLService {
+  private readonly config: MLServiceConfig;
+  private forest: IsolationForest | null = null;
+  // Registry version of `forest` (null: loaded from modelPath)
+  private activeVersion: string | null = null;
+  private shadow: { forest: IsolationForest; version: string } | null = null;
+  private shadowStats: ShadowStats | null = null;
+  private initialized = false;
+  private initializationError: Error | null = null;
+
+  constructor(serviceConfig: MLServiceConfig) {
+    this.config = serviceConfig;
+  }
+
+  /**
+   * Load the model from `modelPath`.
+   *
+   * Never throws: a missing or invalid model leaves the service in fallback
+   * mode with the error kept for diagnostics.
+   *
+   * Requirement 3.3: Start in fallback mode when the model is unavailable
+   */
+  async initialize(): Promise<void> {
+    this.forest = null;
+    this.activeVersion = null;
+    this.initializationError = null;
+
+    if (this.config.enabled) {
+      try {
+        this.forest = await loadModel(this.config.modelPath);
+        logger.info(
+          {
+            modelPath: this.config.modelPath,
+            trees: this.forest.getTreeCount(),
+          },
+          "ML model loaded"
+        );
+      } catch (error) {
+        this.initializationError =
+          error instanceof Error ? error : new Error(String(error));
+        logger.warn(
+          { err: this.initializationError, modelPath: this.config.modelPath },
+          "ML model unavailable, using rule-based scoring only"
+        );
+      }
+    }
+
+    this.initialized = true;
+  }
+
+  /**
+   * Score a feature vector.
+   *
+   * Inference runs synchronously and can't be interrupted, so `timeoutMs`
+   * does not bound request latency: it is a slow-inference guard. A result
+   * that took longer is discarded in favour of the fallback (and logged), so
+   * an oversized model or a starved event loop shows up instead of silently
+   * tilting trust scores. A loaded shadow model scores the same vector after
+   * the active result is settled; its score is only recorded.
+   *
+   * @param features - Vector from extractFeatures
+   * @returns ML result (usedFallback set when the model wasn't consulted)
+   *
+   * Requirements 1.2, 3.2, 3.4: Fall back on timeout or inference error
+   */
+  async score(features: number[]): Promise<MLResult> {
+    const result = this.scoreActive(features);
+    if (this.shadow) {
+      this.scoreShadow(
+        features,
+        result.usedFallback ? null : result.anomalyScore
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Replace the active model (registry hot reload).
+   *
+   * @param model - Model to enforce
+   * @param version - Registry version, for logs and status
+   * @throws Error if the model is invalid (the current model is kept)
+   */
+  useModel(model: SerializedModel, version: string): void {
+    const forest = createForest(model);
+    this.forest = forest;
+    this.activeVersion = version;
+    logger.info(
+      { version, trees: forest.getTreeCount() },
+      "ML model activated"
+    );
+  }
+
+  /**
+   * Load or clear the shadow model. Shadow counters restart on every change.
+   *
+   * @param model - Candidate to score alongside the active model, or null
+   * @param version - Registry version of the candidate
+   * @throws Error if the model is invalid (the current shadow is kept)
+   */
+  setShadowModel(model: SerializedModel | null, version?: string): void {
+    if (!model || !version) {
+      if (this.shadow) {
+        logger.info(
+          { version: this.shadow.version, stats: this.shadowStats },
+          "ML shadow model removed"
+        );
+      }
+      this.shadow = null;
+      this.shadowStats = null;
+      return;
+    }
+
+    const forest = createForest(model);
+    this.shadow = { forest, version };
+    this.shadowStats = {
+      version,
+      since: Date.now(),
+      scored: 0,
+      shadowFlagged: 0,
+      compared: 0,
+      activeFlagged: 0,
+      disagreements: 0,
+      meanAbsoluteDelta: 0,
+    };
+    logger.info(
+      { version, trees: forest.getTreeCount() },
+      "ML shadow model loaded"
+    );
+  }
+
+  /**
+   * Registry version of the active model (null: model file or none).
+   */
+  getActiveVersion(): string | null {
+    return this.activeVersion;
+  }
+
+  getShadowVersion(): string | null {
+    return this.shadow?.version ?? null;
+  }
+
+  /**
+   * Shadow scoring counters since the shadow model was loaded.
+   */
+  getShadowStats(): ShadowStats | null {
+    return this.shadowStats ? { ...this.shadowStats } : null;
+  }
+
+  private scoreActive(features: number[]): MLResult {
+    if (!this.forest) {
+      return fallbackResult();
+    }
+
+    try {
+      const started = performance.now();
+      const anomalyScore = this.forest.score(features);
+      const elapsedMs = performance.now() - started;
+
+      if (elapsedMs > this.config.timeoutMs) {
+        logger.warn(
+          { elapsedMs, timeoutMs: this.config.timeoutMs },
+          "ML inference too slow, result discarded"
+        );
+        return fallbackResult();
+      }
+
+      if (anomalyScore >= this.config.anomalyThreshold) {
+        logger.debug(
+          { anomalyScore, threshold: this.config.anomalyThreshold },
+          "Request flagged as anomalous"
+        );
+      }
+
+      return {
+        anomalyScore,
+        trustComponent: Math.round((1 - anomalyScore) * 100),
+        usedFallback: false,
+      };
+    } catch (error) {
+      logger.error({ err: error }, "ML inference error");
+      return fallbackResult();
+    }
+  }
+
+  /**
+   * Score with the shadow model and compare against the active score.
+   * Both models flag against the configured anomalyThreshold, the same one
+   * the active model's flag log uses. Errors are logged and never affect
+   * the request.
+   */
+  private scoreShadow(features: number[], activeScore: number | null): void {
+    const shadow = this.shadow;
+    const stats = this.shadowStats;
+    if (!shadow || !stats) return;
+
+    try {
+      const shadowScore = shadow.forest.score(features);
+      const shadowFlagged = shadowScore >= this.config.anomalyThreshold;
+      stats.scored++;
+      if (shadowFlagged) stats.shadowFlagged++;
+
+      if (activeScore === null) return;
+
+      const activeFlagged = activeScore >= this.config.anomalyThreshold;
+      const delta = Math.abs(activeScore - shadowScore);
+      stats.compared++;
+      if (activeFlagged) stats.activeFlagged++;
+      stats.meanAbsoluteDelta +=
+        (delta - stats.meanAbsoluteDelta) / stats.compared;
+
+      if (activeFlagged !== shadowFlagged) {
+        stats.disagreements++;
+        logger.info(
+          {
+            activeVersion: this.activeVersion,
+            shadowVersion: shadow.version,
+            activeScore,
+            shadowScore,
+            activeFlagged,
+            shadowFlagged,
+          },
+          "ML shadow model disagreement"
+        );
+      }
+    } catch (error) {
+      logger.error(
+        { err: error, version: shadow.version },
+        "ML shadow inference error"
+      );
+    }
+  }
+
+  /**
+   * Whether scores come from a loaded model.
+   */
+  isEnabled(): boolean {
+    return this.config.enabled && this.forest !== null;
+  }
+
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  getInitializationError(): Error | null {
+    return this.initializationError;
+  }
+
+  getWeight(): number {
+    return this.config.weight;
+  }
+
+  getAnomalyThreshold(): number {
+    return this.config.anomalyThreshold;
+  }
+}
+
+/**
+ * Read and validate a serialized model.
+ *
+ * @throws Error if the file can't be read or isn't a valid model
+ */
+async function loadModel(modelPath: string): Promise<IsolationForest> {
+  let raw: string;
+  try {
+    raw = await readFile(modelPath, "utf8");
+  } catch (error) {
+    throw new Error(
+      `Failed to read model file ${modelPath}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  try {
+    return createForest(JSON.parse(raw) as SerializedModel);
+  } catch (error) {
+    throw new Error(
+      `Invalid model file ${modelPath}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+/**
+ * Build a forest from a serialized model.
+ *
+ * @throws Error if the model is malformed or built for another feature count
+ */
+export function createForest(model: SerializedModel): IsolationForest {
+  if (model?.config?.featureCount !== FEATURE_COUNT) {
+    throw new Error(
+      `expected ${FEATURE_COUNT} features, model has ${model?.config?.featureCount}`
+    );
+  }
+  return new IsolationForest({
+    trees: model.trees,
+    sampleSize: model.config.sampleSize,
+    contamination: model.config.contamination,
+    threshold: model.threshold,
+    featureCount: model.config.featureCount,
+  });
+}
+
+function fallbackResult(): MLResult {
+  return {
+    anomalyScore: NEUTRAL_ANOMALY_SCORE,
+    trustComponent: NEUTRAL_TRUST_COMPONENT,
+    usedFallback: true,
+  };
+}
+
+// ============================================================
+// Shared Instance
+// ============================================================
+
+let sharedService: MLService | null = null;
+let sharedServicePromise: Promise<MLService> | null = null;
+
+/**
+ * Get the process-wide ML service, loading the model on first use.
+ */
+export async function getMLService(): Promise<MLService> {
+  if (sharedService) return sharedService;
+  if (sharedServicePromise) return sharedServicePromise;
+
+  sharedServicePromise = (async () => {
+    const service = new MLService({ ...config.ml });
+    await service.initialize();
+    sharedService = service;
+    return service;
+  })();
+
+  return sharedServicePromise;
+}
@@ -0,0 +1,268 @@
+/**
+ * ML Model Registry
+ *
+ * Versioned Isolation Forest models live in the ml_models NATS KV bucket.
+ * A version is its gzipped SerializedModel split into chunk entries (so
+ * large forests stay under the 1MB NATS message limit) plus a manifest, and
+ * a single state entry names the active and shadow versions.
+ *
+ * Every API server polls the state and hot-loads changed versions into its
+ * MLService, so uploading, shadowing and promoting a model needs no restart.
+ */
+
+import crypto from "node:crypto";
+import { gunzipSync, gzipSync } from "node:zlib";
+import { config } from "../config.js";
+import { createLogger } from "../logger.js";
+import {
+  getModelChunks,
+  getModelManifest,
+  getModelRegistryState,
+  putModelVersion,
+  setModelRegistryState,
+} from "../nats-kv.js";
+import type { MLService } from "./ml-service.js";
+import type {
+  ModelManifest,
+  ModelRegistryState,
+  SerializedModel,
+} from "./types.js";
+
+const logger = createLogger("model-registry");
+
+/** Chunk size for stored models, well under the 1MB NATS max payload */
+export const MODEL_CHUNK_BYTES = 512 * 1024;
+
+// ============================================================
+// Encoding
+// ============================================================
+
+/**
+ * Compress a model and split it into chunks.
+ */
+export function encodeModel(
+  model: SerializedModel,
+  chunkBytes: number = MODEL_CHUNK_BYTES
+): {
+  chunks: Uint8Array[];
+  bytes: number;
+  sha256: string;
+} {
+  const compressed = gzipSync(JSON.stringify(model));
+  const chunks: Uint8Array[] = [];
+  for (let offset = 0; offset < compressed.length; offset += chunkBytes) {
+    chunks.push(compressed.subarray(offset, offset + chunkBytes));
+  }
+
+  return {
+    chunks,
+    bytes: compressed.length,
+    sha256: crypto.createHash("sha256").update(compressed).digest("hex"),
+  };
+}
+
+/**
+ * Reassemble and decompress a model.
+ *
+ * @throws Error if the chunks don't match the checksum
+ */
+export function decodeModel(
+  chunks: Uint8Array[],
+  sha256: string
+): SerializedModel {
+  const compressed = Buffer.concat(chunks);
+  const digest = crypto.createHash("sha256").update(compressed).digest("hex");
+  if (digest !== sha256) {
+    throw new Error("Model checksum mismatch");
+  }
+  return JSON.parse(gunzipSync(compressed).toString("utf8")) as SerializedModel;
+}
+
+// ============================================================
+// Registry Operations
+// ============================================================
+
+/**
+ * Store a new model version.
+ *
+ * @param version - Registry version id (must not exist yet)
+ * @param model - Trained model, already checked with createForest
+ * @param uploadedBy - Admin key id
+ * @returns The manifest, or null if the version already exists
+ */
+export async function publishModel(
+  version: string,
+  model: SerializedModel,
+  uploadedBy: string
+): Promise<ModelManifest | null> {
+  const { chunks, bytes, sha256 } = encodeModel(model);
+  const manifest: ModelManifest = {
+    version,
+    formatVersion: model.version,
+    createdAt: model.createdAt,
+    uploadedAt: Date.now(),
+    uploadedBy,
+    numTrees: model.config.numTrees,
+    sampleSize: model.config.sampleSize,
+    contamination: model.config.contamination,
+    threshold: model.threshold,
+    bytes,
+    chunks: chunks.length,
+    uploadId: crypto.randomBytes(8).toString("hex"),
+    sha256,
+  };
+
+  if (!(await putModelVersion(manifest, chunks))) {
+    logger.warn({ version, uploadedBy }, "Model version already exists");
+    return null;
+  }
+  logger.info(
+    { version, bytes, chunks: chunks.length, uploadedBy },
+    "Model version stored"
+  );
+  return manifest;
+}
+
+/**
+ * Read a stored model version.
+ *
+ * @throws Error if the version doesn't exist or is corrupt
+ */
+export async function loadModelVersion(
+  version: string
+): Promise<SerializedModel> {
+  const manifest = await getModelManifest(version);
+  if (!manifest) {
+    throw new Error(`Model version ${version} not found`);
+  }
+  return decodeModel(await getModelChunks(manifest), manifest.sha256);
+}
+
+/** Attempts before giving up on a state entry that keeps changing */
+const STATE_UPDATE_ATTEMPTS = 3;
+
+/**
+ * Change the active and/or shadow version (omitted fields are kept).
+ *
+ * The change is computed from the stored state and written only if that
+ * state is still current, retrying when another admin got there first.
+ *
+ * @param change - Fields to set, derived from the current state
+ * @throws Error if the state kept changing
+ */
+export async function updateModelRegistryState(
+  change: (
+    current: ModelRegistryState | null
+  ) => Partial<Pick<ModelRegistryState, "active" | "shadow">>,
+  updatedBy: string
+): Promise<ModelRegistryState> {
+  for (let attempt = 1; attempt <= STATE_UPDATE_ATTEMPTS; attempt++) {
+    const current = await getModelRegistryState();
+    const state: ModelRegistryState = {
+      active: current?.state.active ?? null,
+      shadow: current?.state.shadow ?? null,
+      ...change(current?.state ?? null),
+      updatedAt: Date.now(),
+      updatedBy,
+    };
+    if (await setModelRegistryState(state, current?.revision ?? null)) {
+      return state;
+    }
+    logger.info({ attempt }, "Model registry state changed concurrently");
+  }
+  throw new Error("Model registry state changed concurrently, try again");
+}
+
+// ============================================================
+// Hot Reload
+// ============================================================
+
+// Revision of the state entry this server has fully applied
+let appliedRevision: number | null = null;
+let syncInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Load the registry's active and shadow versions into the service if they
+ * changed. A version that fails to load is logged and retried on the next
+ * sync; the service keeps scoring with what it has.
+ *
+ * With no active version in the registry the service keeps its current
+ * model (the ML_MODEL_PATH file).
+ */
+export async function syncModelRegistry(service: MLService): Promise<void> {
+  const current = await getModelRegistryState();
+  if (!current || current.revision === appliedRevision) return;
+
+  const { active, shadow } = current.state;
+  let applied = true;
+
+  if (active && active !== service.getActiveVersion()) {
+    try {
+      service.useModel(await loadModelVersion(active), active);
+    } catch (error) {
+      applied = false;
+      logger.error({ err: error, version: active }, "Failed to load active model");
+    }
+  }
+
+  if (shadow !== service.getShadowVersion()) {
+    try {
+      if (shadow) {
+        service.setShadowModel(await loadModelVersion(shadow), shadow);
+      } else {
+        service.setShadowModel(null);
+      }
+    } catch (error) {
+      applied = false;
+      logger.error({ err: error, version: shadow }, "Failed to load shadow model");
+    }
+  }
+
+  if (applied) appliedRevision = current.revision;
+}
+
+/**
+ * Poll the registry for model changes
+ * Also logs the shadow counters on every poll while a shadow is loaded.
+ */
+export function startModelRegistrySync(
+  service: MLService,
+  intervalMs: number = config.ml.registry.pollIntervalMs
+): void {
+  if (syncInterval) {
+    logger.info("Model registry sync already running");
+    return;
+  }
+
+  const sync = async () => {
+    try {
+      await syncModelRegistry(service);
+    } catch (error) {
+      logger.error({ err: error }, "Model registry sync error");
+    }
+
+    const stats = service.getShadowStats();
+    if (stats) {
+      logger.info({ stats }, "ML shadow model stats");
+    }
+  };
+
+  void sync();
+  syncInterval = setInterval(sync, intervalMs);
+
+  // Don't prevent process exit
+  syncInterval.unref();
+
+  logger.info({ intervalSecs: intervalMs / 1000 }, "Started model registry sync");
+}
+
+/**
+ * Stop polling the registry
+ */
+export function stopModelRegistrySync(): void {
+  if (syncInterval) {
+    clearInterval(syncInterval);
+    syncInterval = null;
+    logger.info("Stopped model registry sync");
+  }
+}
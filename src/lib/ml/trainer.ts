@@ -0,0 +1,199 @@
+/**
+ * Isolation Forest Trainer for ML Bot Detection
+ *
+ * Fits an Isolation Forest on collected feature vectors: each tree is grown
+ * on a random subsample by splitting a random feature at a random value
+ * until samples are isolated or the height limit ceil(log2(sampleSize)) is
+ * reached. The anomaly threshold is the score quantile that flags the
+ * `contamination` share of the training data.
+ *
+ * Training is seeded, so the same data and seed give the same trees.
+ */
+
+import { createSeededRNG } from "../lottery.js";
+import { IsolationForest } from "./isolation-forest.js";
+import {
+  FEATURE_COUNT,
+  type IsolationTreeNode,
+  type SerializedModel,
+} from "./types.js";
+
+/** Serialized model format written by the trainer */
+export const MODEL_FORMAT_VERSION = "1";
+
+export interface TrainingOptions {
+  /** Trees in the forest (default 100) */
+  numTrees?: number;
+  /** Samples drawn per tree (default 256, capped at the data size) */
+  sampleSize?: number;
+  /** Expected share of anomalies, sets the threshold (default 0.1) */
+  contamination?: number;
+  /** Seed for subsampling and splits */
+  seed?: string;
+}
+
+export const DEFAULT_TRAINING_OPTIONS = {
+  numTrees: 100,
+  sampleSize: 256,
+  contamination: 0.1,
+} as const;
+
+/**
+ * Fit an Isolation Forest on feature vectors.
+ *
+ * @param samples - Feature vectors (FEATURE_COUNT values each)
+ * @param options - Forest size, subsample size, contamination and seed
+ * @returns Versioned model ready for MLService
+ * @throws Error on empty data, wrong vector length or invalid options
+ */
+export function trainIsolationForest(
+  samples: number[][],
+  options: TrainingOptions = {}
+): SerializedModel {
+  const numTrees = options.numTrees ?? DEFAULT_TRAINING_OPTIONS.numTrees;
+  const contamination =
+    options.contamination ?? DEFAULT_TRAINING_OPTIONS.contamination;
+
+  if (samples.length === 0) {
+    throw new Error("No training samples");
+  }
+  const invalid = samples.findIndex(
+    (sample) =>
+      sample.length !== FEATURE_COUNT ||
+      !sample.every((value) => Number.isFinite(value))
+  );
+  if (invalid !== -1) {
+    throw new Error(
+      `Sample ${invalid} must have ${FEATURE_COUNT} finite features`
+    );
+  }
+  if (!Number.isInteger(numTrees) || numTrees < 1) {
+    throw new Error("numTrees must be a positive integer");
+  }
+  if (!(contamination > 0 && contamination < 0.5)) {
+    throw new Error("contamination must be in (0, 0.5)");
+  }
+
+  const sampleSize = Math.min(
+    options.sampleSize ?? DEFAULT_TRAINING_OPTIONS.sampleSize,
+    samples.length
+  );
+  const heightLimit = Math.max(1, Math.ceil(Math.log2(sampleSize)));
+  const random = createSeededRNG(options.seed ?? `iforest:${Date.now()}`);
+
+  const trees: IsolationTreeNode[] = [];
+  for (let t = 0; t < numTrees; t++) {
+    const subsample = drawSubsample(samples, sampleSize, random);
+    trees.push(buildTree(subsample, 0, heightLimit, random));
+  }
+
+  // Threshold: the score above which `contamination` of the data falls
+  const forest = new IsolationForest({
+    trees,
+    sampleSize,
+    contamination,
+    threshold: 1,
+    featureCount: FEATURE_COUNT,
+  });
+  const scores = samples
+    .map((sample) => forest.score(sample))
+    .sort((a, b) => a - b);
+  const threshold =
+    scores[
+      Math.min(
+        scores.length - 1,
+        Math.floor((1 - contamination) * scores.length)
+      )
+    ];
+
+  return {
+    version: MODEL_FORMAT_VERSION,
+    createdAt: Date.now(),
+    config: {
+      numTrees,
+      sampleSize,
+      contamination,
+      featureCount: FEATURE_COUNT,
+    },
+    trees,
+    threshold,
+  };
+}
+
+/**
+ * Random subsample without replacement (partial Fisher-Yates)
+ */
+function drawSubsample(
+  samples: number[][],
+  size: number,
+  random: () => number
+): number[][] {
+  const indices = samples.map((_, i) => i);
+  for (let i = 0; i < size; i++) {
+    const j = i + randomIndex(indices.length - i, random);
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, size).map((i) => samples[i]);
+}
+
+/**
+ * Grow an isolation tree
+ * Only features that still vary within the node are eligible for a split
+ */
+function buildTree(
+  rows: number[][],
+  depth: number,
+  heightLimit: number,
+  random: () => number
+): IsolationTreeNode {
+  if (depth >= heightLimit || rows.length <= 1) {
+    return leaf(rows.length);
+  }
+
+  const ranges: Array<{ feature: number; min: number; max: number }> = [];
+  for (let feature = 0; feature < FEATURE_COUNT; feature++) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const row of rows) {
+      min = Math.min(min, row[feature]);
+      max = Math.max(max, row[feature]);
+    }
+    if (min < max) ranges.push({ feature, min, max });
+  }
+  if (ranges.length === 0) {
+    return leaf(rows.length); // Identical rows can't be separated
+  }
+
+  const { feature, min, max } = ranges[randomIndex(ranges.length, random)];
+  let splitValue = min + random() * (max - min);
+  if (splitValue <= min) splitValue = (min + max) / 2;
+
+  // Matches IsolationForest traversal: left < splitValue <= right
+  const left = rows.filter((row) => row[feature] < splitValue);
+  const right = rows.filter((row) => row[feature] >= splitValue);
+
+  return {
+    splitFeature: feature,
+    splitValue,
+    left: buildTree(left, depth + 1, heightLimit, random),
+    right: buildTree(right, depth + 1, heightLimit, random),
+    size: rows.length,
+  };
+}
+
+/**
+ * Index in [0, n) (the seeded RNG can return exactly 1)
+ */
+function randomIndex(n: number, random: () => number): number {
+  return Math.min(n - 1, Math.floor(random() * n));
+}
+
+function leaf(size: number): IsolationTreeNode {
+  return {
+    splitFeature: null,
+    splitValue: null,
+    left: null,
+    right: null,
+    size: Math.max(1, size),
+  };
+}
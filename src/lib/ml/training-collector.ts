@@ -0,0 +1,99 @@
+/**
+ * Training Data Collector for ML Bot Detection
+ *
+ * Samples registration requests and appends their feature vector, final
+ * trust score and allow decision to an NDJSON file (one TrainingRecord per
+ * line) for the offline trainer. Collection is best-effort: write errors are
+ * logged and never reach the registration path.
+ */
+
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import { config } from "../config.js";
+import { createLogger } from "../logger.js";
+import type { BotValidationResult } from "../types.js";
+import type { TrainingCollectorConfig, TrainingRecord } from "./types.js";
+
+const logger = createLogger("training-collector");
+
+/**
+ * Sampled NDJSON writer for training records.
+ */
+export class TrainingCollector {
+  private readonly config: TrainingCollectorConfig;
+  private readonly random: () => number;
+  // Appends are chained so lines from concurrent requests never interleave
+  private pending: Promise<void> = Promise.resolve();
+  private directoryReady = false;
+
+  /**
+   * @param collectorConfig - Output path and sample rate
+   * @param random - Sampling source (injectable for tests)
+   */
+  constructor(
+    collectorConfig: TrainingCollectorConfig,
+    random: () => number = Math.random
+  ) {
+    this.config = collectorConfig;
+    this.random = random;
+  }
+
+  /**
+   * Record a scored request if it falls in the sample.
+   *
+   * @param features - Vector from extractFeatures
+   * @param result - Trust score and decision from calculateTrustScore
+   * @returns Whether the request was sampled
+   */
+  record(features: number[], result: BotValidationResult): boolean {
+    if (!this.config.enabled || this.random() >= this.config.sampleRate) {
+      return false;
+    }
+
+    const record: TrainingRecord = {
+      timestamp: Date.now(),
+      features,
+      trustScore: result.trustScore,
+      anomalyScore: result.anomalyScore ?? null,
+      allowed: result.allowed,
+    };
+
+    this.pending = this.pending
+      .then(() => this.append(`${JSON.stringify(record)}\n`))
+      .catch((error) => {
+        logger.error(
+          { err: error, outputPath: this.config.outputPath },
+          "Failed to write training record"
+        );
+      });
+
+    return true;
+  }
+
+  /**
+   * Wait for queued records to be written.
+   */
+  flush(): Promise<void> {
+    return this.pending;
+  }
+
+  private async append(line: string): Promise<void> {
+    if (!this.directoryReady) {
+      await mkdir(dirname(this.config.outputPath), { recursive: true });
+      this.directoryReady = true;
+    }
+    await appendFile(this.config.outputPath, line, "utf8");
+  }
+}
+
+let sharedCollector: TrainingCollector | null = null;
+
+/**
+ * Get the process-wide collector (configured from ML_TRAINING_*).
+ */
+export function getTrainingCollector(): TrainingCollector {
+  if (!sharedCollector) {
+    sharedCollector = new TrainingCollector({ ...config.ml.training });
+  }
+  return sharedCollector;
+}
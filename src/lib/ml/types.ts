@@ -171,11 +171,15 @@ export interface MLServiceConfig {
   enabled: boolean;
   /** Path to the model file */
   modelPath: string;
-  /** Maximum inference time in milliseconds */
+  /**
+   * Slow-inference guard in milliseconds: results that took longer are
+   * discarded for the fallback (inference is synchronous, so this does not
+   * cap latency)
+   */
   timeoutMs: number;
   /** Weight of ML component in trust score (0.0-1.0) */
   weight: number;
-  /** Anomaly score threshold for bot classification */
+  /** Anomaly score at or above which a model flags a request (active and shadow) */
   anomalyThreshold: number;
 }
 
@@ -222,3 +226,74 @@ export interface TrainingRecord {
   /** Whether the request was allowed */
   allowed: boolean;
 }
+
+// ============================================================
+// Model Registry Types
+// ============================================================
+
+/**
+ * A model version stored in the registry (NATS KV).
+ * The gzipped SerializedModel is split into `chunks` entries to stay under
+ * the NATS message size limit.
+ */
+export interface ModelManifest {
+  /** Registry version id, chosen at upload */
+  version: string;
+  /** SerializedModel format version */
+  formatVersion: string;
+  /** Timestamp when the model was trained */
+  createdAt: number;
+  /** Timestamp when the model was uploaded */
+  uploadedAt: number;
+  /** Admin key id that uploaded the model */
+  uploadedBy: string;
+  numTrees: number;
+  sampleSize: number;
+  contamination: number;
+  /** Anomaly score threshold fitted by the trainer */
+  threshold: number;
+  /** Compressed size in bytes */
+  bytes: number;
+  /** Number of chunk entries */
+  chunks: number;
+  /** Random id of the upload that wrote the chunks (part of their keys) */
+  uploadId: string;
+  /** SHA-256 of the compressed model (hex) */
+  sha256: string;
+}
+
+/**
+ * Which registry versions the API servers score with.
+ */
+export interface ModelRegistryState {
+  /** Enforced model (null: the ML_MODEL_PATH file) */
+  active: string | null;
+  /** Candidate scored alongside the active model, never enforced */
+  shadow: string | null;
+  /** Timestamp of the last change */
+  updatedAt: number;
+  /** Admin key id that made the last change */
+  updatedBy: string;
+}
+
+/**
+ * Shadow scoring counters for one API server, since the shadow was loaded.
+ */
+export interface ShadowStats {
+  /** Shadow model version */
+  version: string;
+  /** Timestamp when the shadow model was loaded */
+  since: number;
+  /** Requests scored by the shadow model */
+  scored: number;
+  /** Requests the shadow model flagged as anomalous */
+  shadowFlagged: number;
+  /** Requests scored by both models */
+  compared: number;
+  /** Requests the active model flagged (of `compared`) */
+  activeFlagged: number;
+  /** Requests where exactly one of the two models reached anomalyThreshold */
+  disagreements: number;
+  /** Mean |active - shadow| anomaly score (of `compared`) */
+  meanAbsoluteDelta: number;
+}
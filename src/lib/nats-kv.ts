@@ -28,6 +28,18 @@ let queueTokenKvPromise: Promise<KV> | null = null;
 let dropsIndexKv: KV | null = null;
 let dropsIndexKvPromise: Promise<KV> | null = null;
 
+let adminAuditKv: KV | null = null;
+let adminAuditKvPromise: Promise<KV> | null = null;
+
+let blocklistKv: KV | null = null;
+let blocklistKvPromise: Promise<KV> | null = null;
+
+let trustScoreKv: KV | null = null;
+let trustScoreKvPromise: Promise<KV> | null = null;
+
+let mlModelKv: KV | null = null;
+let mlModelKvPromise: Promise<KV> | null = null;
+
 const textEncoder = new TextEncoder();
 const textDecoder = new TextDecoder();
 
@@ -65,6 +77,14 @@ async function getNatsConnection(): Promise<NatsConnection> {
         queueTokenKvPromise = null;
         dropsIndexKv = null;
         dropsIndexKvPromise = null;
+        adminAuditKv = null;
+        adminAuditKvPromise = null;
+        blocklistKv = null;
+        blocklistKvPromise = null;
+        trustScoreKv = null;
+        trustScoreKvPromise = null;
+        mlModelKv = null;
+        mlModelKvPromise = null;
       });
 
       nc = conn;
@@ -197,6 +217,192 @@ async function getDropsIndexKv(): Promise<KV> {
   return dropsIndexKvPromise;
 }
 
+/**
+ * Get or create the admin audit KV bucket (with promise-based lock)
+ * Stores one entry per admin action. KV buckets reject new writes at
+ * max_bytes rather than dropping old ones, so entries expire after
+ * ttl.adminAudit to keep room for new actions.
+ */
+async function getAdminAuditKv(): Promise<KV> {
+  if (adminAuditKv) return adminAuditKv;
+  if (adminAuditKvPromise) return adminAuditKvPromise;
+
+  adminAuditKvPromise = (async () => {
+    try {
+      const conn = await getNatsConnection();
+
+      // Verify JetStream is available
+      const jsm = await jetstreamManager(conn);
+      await jsm.getAccountInfo();
+      logger.info("JetStream verified available for admin audit bucket");
+
+      const js = jetstream(conn);
+      const kvm = new Kvm(js);
+
+      const bucketName = config.nats.buckets.adminAudit;
+      let kv: KV;
+
+      try {
+        kv = await kvm.create(bucketName, {
+          history: 1,
+          max_bytes: config.nats.maxBytes.adminAudit,
+          ttl: config.nats.ttl.adminAudit,
+        });
+        logger.info(
+          { bucket: bucketName },
+          "NATS KV: Created admin audit bucket"
+        );
+      } catch {
+        kv = await kvm.open(bucketName);
+        logger.info(
+          { bucket: bucketName },
+          "NATS KV: Opened admin audit bucket"
+        );
+      }
+
+      adminAuditKv = kv;
+      return kv;
+    } finally {
+      if (!adminAuditKv) adminAuditKvPromise = null;
+    }
+  })();
+
+  return adminAuditKvPromise;
+}
+
+/**
+ * Get or create the blocklist KV bucket (with promise-based lock)
+ * Entries are kept until removed by an admin; no TTL.
+ */
+async function getBlocklistKv(): Promise<KV> {
+  if (blocklistKv) return blocklistKv;
+  if (blocklistKvPromise) return blocklistKvPromise;
+
+  blocklistKvPromise = (async () => {
+    try {
+      const conn = await getNatsConnection();
+
+      // Verify JetStream is available
+      const jsm = await jetstreamManager(conn);
+      await jsm.getAccountInfo();
+      logger.info("JetStream verified available for blocklist bucket");
+
+      const js = jetstream(conn);
+      const kvm = new Kvm(js);
+
+      const bucketName = config.nats.buckets.blocklist;
+      let kv: KV;
+
+      try {
+        kv = await kvm.create(bucketName, {
+          history: 1,
+          max_bytes: config.nats.maxBytes.blocklist,
+        });
+        logger.info({ bucket: bucketName }, "NATS KV: Created blocklist bucket");
+      } catch {
+        kv = await kvm.open(bucketName);
+        logger.info({ bucket: bucketName }, "NATS KV: Opened blocklist bucket");
+      }
+
+      blocklistKv = kv;
+      return kv;
+    } finally {
+      if (!blocklistKv) blocklistKvPromise = null;
+    }
+  })();
+
+  return blocklistKvPromise;
+}
+
+/**
+ * Get or create the trust score KV bucket (with promise-based lock)
+ * Entries expire after a day, so old scores stop affecting PoW difficulty
+ */
+async function getTrustScoreKv(): Promise<KV> {
+  if (trustScoreKv) return trustScoreKv;
+  if (trustScoreKvPromise) return trustScoreKvPromise;
+
+  trustScoreKvPromise = (async () => {
+    try {
+      const conn = await getNatsConnection();
+
+      // Verify JetStream is available
+      const jsm = await jetstreamManager(conn);
+      await jsm.getAccountInfo();
+      logger.info("JetStream verified available for trust score bucket");
+
+      const js = jetstream(conn);
+      const kvm = new Kvm(js);
+
+      const bucketName = config.nats.buckets.trustScores;
+      let kv: KV;
+
+      try {
+        kv = await kvm.create(bucketName, {
+          ttl: config.nats.ttl.trustScore,
+          history: 1,
+          max_bytes: config.nats.maxBytes.trustScores,
+        });
+        logger.info({ bucket: bucketName }, "NATS KV: Created trust score bucket");
+      } catch {
+        kv = await kvm.open(bucketName);
+        logger.info({ bucket: bucketName }, "NATS KV: Opened trust score bucket");
+      }
+
+      trustScoreKv = kv;
+      return kv;
+    } finally {
+      if (!trustScoreKv) trustScoreKvPromise = null;
+    }
+  })();
+
+  return trustScoreKvPromise;
+}
+
+/**
+ * Get or create the ML model registry KV bucket (with promise-based lock)
+ * Model versions are kept until removed; no TTL.
+ */
+async function getMlModelKv(): Promise<KV> {
+  if (mlModelKv) return mlModelKv;
+  if (mlModelKvPromise) return mlModelKvPromise;
+
+  mlModelKvPromise = (async () => {
+    try {
+      const conn = await getNatsConnection();
+
+      // Verify JetStream is available
+      const jsm = await jetstreamManager(conn);
+      await jsm.getAccountInfo();
+      logger.info("JetStream verified available for ML model bucket");
+
+      const js = jetstream(conn);
+      const kvm = new Kvm(js);
+
+      const bucketName = config.nats.buckets.mlModels;
+      let kv: KV;
+
+      try {
+        kv = await kvm.create(bucketName, {
+          history: 1,
+          max_bytes: config.nats.maxBytes.mlModels,
+        });
+        logger.info({ bucket: bucketName }, "NATS KV: Created ML model bucket");
+      } catch {
+        kv = await kvm.open(bucketName);
+        logger.info({ bucket: bucketName }, "NATS KV: Opened ML model bucket");
+      }
+
+      mlModelKv = kv;
+      return kv;
+    } finally {
+      if (!mlModelKv) mlModelKvPromise = null;
+    }
+  })();
+
+  return mlModelKvPromise;
+}
+
 /**
  * Get or create the rate limit KV bucket (with promise-based lock)
  * Uses JetStream and the "create-first" pattern for reliable bucket initialization
@@ -342,8 +548,13 @@ async function getQueueTokenKv(): Promise<KV> {
 
 export interface StoredChallenge {
   challenge: string;
+  scheme?: PowScheme; // Absent on challenges issued before schemes: "sha256"
   difficulty: number;
+  scrypt?: ScryptParams;
   timestamp: number;
+  // Requester the challenge (and its difficulty) was issued for
+  dropId?: string;
+  fingerprintHash?: string; // sha256(fingerprint)
 }
 
 /**
@@ -484,11 +695,73 @@ export async function incrementRateLimit(
   }
 }
 
+/**
+ * Build a registration counter key for a drop
+ * Format: reg_{dropId}_{windowNumber}
+ */
+function buildRegistrationCountKey(dropId: string, windowNum: number): string {
+  return sanitizeKey(`reg_${dropId}_${windowNum}`);
+}
+
+async function readCount(kv: KV, key: string): Promise<number> {
+  try {
+    const entry = await kv.get(key);
+    if (!entry || !entry.value) {
+      return 0;
+    }
+    return JSON.parse(textDecoder.decode(entry.value));
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Count a successful registration for a drop
+ * Returns the count for the current window
+ */
+export async function incrementRegistrationCount(
+  dropId: string
+): Promise<number> {
+  const kv = await getRateLimitKv();
+  const key = buildRegistrationCountKey(
+    dropId,
+    getWindowNumber(config.pow.registrationRateWindowMs)
+  );
+
+  const count = (await readCount(kv, key)) + 1;
+  await kv.put(key, textEncoder.encode(JSON.stringify(count)));
+  return count;
+}
+
+/**
+ * Registrations per window for a drop (sliding estimate)
+ * The previous window is weighted by how much of it still overlaps,
+ * so the rate doesn't drop to zero at each window boundary
+ */
+export async function getRegistrationRate(dropId: string): Promise<number> {
+  const kv = await getRateLimitKv();
+  const windowMs = config.pow.registrationRateWindowMs;
+  const windowNum = getWindowNumber(windowMs);
+
+  const [current, previous] = await Promise.all([
+    readCount(kv, buildRegistrationCountKey(dropId, windowNum)),
+    readCount(kv, buildRegistrationCountKey(dropId, windowNum - 1)),
+  ]);
+  const elapsed = (Date.now() % windowMs) / windowMs;
+  return current + previous * (1 - elapsed);
+}
+
 // ============================================================
 // Queue Token Store Interface
 // ============================================================
 
 import type { QueueToken, QueueTokenStatus } from "../../shared/types.js";
+import type {
+  BlocklistEntry,
+  BlocklistKind,
+  PowScheme,
+  ScryptParams,
+} from "./types.js";
 
 /**
  * Generate a cryptographically secure queue token ID
@@ -851,6 +1124,26 @@ export async function upsertDropIndex(entry: DropIndexEntry): Promise<void> {
   await kv.put(entry.dropId, textEncoder.encode(JSON.stringify(entry)));
 }
 
+/**
+ * Patch an existing drop index entry (no-op if the drop isn't indexed)
+ */
+export async function updateDropIndex(
+  dropId: string,
+  patch: Partial<Omit<DropIndexEntry, "dropId">>
+): Promise<void> {
+  const kv = await getDropsIndexKv();
+  const existing = await kv.get(dropId);
+  if (!existing?.value) return;
+
+  const entry = JSON.parse(
+    textDecoder.decode(existing.value)
+  ) as DropIndexEntry;
+  await kv.put(
+    dropId,
+    textEncoder.encode(JSON.stringify({ ...entry, ...patch }))
+  );
+}
+
 export async function deleteDropIndex(dropId: string): Promise<void> {
   const kv = await getDropsIndexKv();
   try {
@@ -872,6 +1165,392 @@ export async function listDropIndexIds(): Promise<string[]> {
   return keys;
 }
 
+// ============================================================
+// Admin Audit Trail
+// ============================================================
+
+export type AdminAuditEntry = {
+  id: string;
+  timestamp: number;
+  actor: string; // Admin key name ("admin" for the master secret)
+  action: string; // e.g. "drops.lottery"
+  dropId?: string;
+  ipHash: string;
+  success: boolean;
+  statusCode: number;
+  details?: Record<string, unknown>;
+  error?: string;
+};
+
+/**
+ * Build the key prefix for a drop's audit entries, or for actions not tied
+ * to a drop. Drop IDs contain no dots, so the segment can't collide with
+ * another drop's ("foo" vs "foo_bar") or with the global entries.
+ * Format: drop.{dropId} | global
+ */
+function buildAdminAuditPrefix(dropId: string | undefined): string {
+  return dropId === undefined ? "global" : `drop.${sanitizeKey(dropId)}`;
+}
+
+/**
+ * Build an audit entry key
+ * Format: {prefix}.{timestamp}_{random} - sorts chronologically per prefix
+ */
+function buildAdminAuditKey(entry: AdminAuditEntry): string {
+  return `${buildAdminAuditPrefix(entry.dropId)}.${entry.timestamp}_${sanitizeKey(entry.id)}`;
+}
+
+/**
+ * Append an admin audit entry (write-once, never updated)
+ */
+export async function appendAdminAudit(entry: AdminAuditEntry): Promise<void> {
+  const kv = await getAdminAuditKv();
+  await kv.put(
+    buildAdminAuditKey(entry),
+    textEncoder.encode(JSON.stringify(entry))
+  );
+}
+
+/**
+ * List admin audit entries for a drop, oldest first
+ * Pass undefined to list actions that are not tied to a drop
+ */
+export async function listAdminAudit(
+  dropId: string | undefined,
+  limit = 100
+): Promise<AdminAuditEntry[]> {
+  const kv = await getAdminAuditKv();
+  const iter = await kv.keys(`${buildAdminAuditPrefix(dropId)}.*`);
+  const keys: string[] = [];
+  if (iter) {
+    for await (const k of iter) {
+      keys.push(k);
+    }
+  }
+
+  // Keep the newest `limit` keys (the last segment starts with the timestamp)
+  keys.sort();
+  const selected = keys.slice(-limit);
+
+  const entries: AdminAuditEntry[] = [];
+  for (const key of selected) {
+    try {
+      const entry = await kv.get(key);
+      if (entry?.value) {
+        entries.push(
+          JSON.parse(textDecoder.decode(entry.value)) as AdminAuditEntry
+        );
+      }
+    } catch {
+      // Entry discarded between listing and reading
+    }
+  }
+
+  return entries.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// ============================================================
+// Blocklist (known-abusive accounts, applied before every draw)
+// ============================================================
+
+/**
+ * Build a blocklist key
+ * Format: {kind}_{sha256(value)} - values may contain characters NATS rejects
+ */
+function buildBlocklistKey(kind: BlocklistKind, value: string): string {
+  const digest = crypto.createHash("sha256").update(value).digest("hex");
+  return `${kind}_${digest}`;
+}
+
+/**
+ * Add or replace blocklist entries
+ */
+export async function addBlocklistEntries(
+  entries: BlocklistEntry[]
+): Promise<void> {
+  const kv = await getBlocklistKv();
+  for (const entry of entries) {
+    await kv.put(
+      buildBlocklistKey(entry.kind, entry.value),
+      textEncoder.encode(JSON.stringify(entry))
+    );
+  }
+}
+
+/**
+ * Remove blocklist entries (missing entries are ignored)
+ */
+export async function removeBlocklistEntries(
+  entries: Array<Pick<BlocklistEntry, "kind" | "value">>
+): Promise<void> {
+  const kv = await getBlocklistKv();
+  for (const entry of entries) {
+    try {
+      await kv.delete(buildBlocklistKey(entry.kind, entry.value));
+    } catch {
+      // best-effort
+    }
+  }
+}
+
+/**
+ * List every blocklist entry, oldest first
+ */
+export async function listBlocklist(): Promise<BlocklistEntry[]> {
+  const kv = await getBlocklistKv();
+  const iter = await kv.keys();
+  const keys: string[] = [];
+  if (iter) {
+    for await (const k of iter) {
+      keys.push(k);
+    }
+  }
+
+  const entries: BlocklistEntry[] = [];
+  for (const key of keys) {
+    try {
+      const entry = await kv.get(key);
+      if (entry?.value) {
+        entries.push(
+          JSON.parse(textDecoder.decode(entry.value)) as BlocklistEntry
+        );
+      }
+    } catch {
+      // Entry removed between listing and reading
+    }
+  }
+
+  return entries.sort((a, b) => a.addedAt - b.addedAt);
+}
+
+// ============================================================
+// Trust Score History (for adaptive PoW difficulty)
+// ============================================================
+
+/**
+ * Build trust score keys for a requester
+ * Format: ip_{ipHash} and fp_{sha256(fingerprint)}
+ */
+function buildTrustScoreKeys(ipHash?: string, fingerprint?: string): string[] {
+  const keys: string[] = [];
+  if (ipHash) keys.push(sanitizeKey(`ip_${ipHash}`));
+  if (fingerprint) {
+    const digest = crypto.createHash("sha256").update(fingerprint).digest("hex");
+    keys.push(`fp_${digest}`);
+  }
+  return keys;
+}
+
+/**
+ * Record the latest trust score for an IP hash and fingerprint
+ */
+export async function recordTrustScore(
+  score: number,
+  ipHash?: string,
+  fingerprint?: string
+): Promise<void> {
+  const kv = await getTrustScoreKv();
+  for (const key of buildTrustScoreKeys(ipHash, fingerprint)) {
+    await kv.put(key, textEncoder.encode(JSON.stringify(score)));
+  }
+}
+
+/**
+ * Lowest recorded trust score for an IP hash or fingerprint
+ * Returns undefined when neither has a score in the last day
+ */
+export async function getPriorTrustScore(
+  ipHash?: string,
+  fingerprint?: string
+): Promise<number | undefined> {
+  const kv = await getTrustScoreKv();
+  const scores: number[] = [];
+  for (const key of buildTrustScoreKeys(ipHash, fingerprint)) {
+    try {
+      const entry = await kv.get(key);
+      if (entry?.value) {
+        scores.push(JSON.parse(textDecoder.decode(entry.value)));
+      }
+    } catch {
+      // Missing entry
+    }
+  }
+  return scores.length > 0 ? Math.min(...scores) : undefined;
+}
+
+// ============================================================
+// ML Model Registry (versioned Isolation Forest models)
+// ============================================================
+
+import type { ModelManifest, ModelRegistryState } from "./ml/types.js";
+
+const MODEL_REGISTRY_STATE_KEY = "state";
+
+/**
+ * Build model registry keys
+ * Format: manifest.{version} and chunk.{version}.{uploadId}.{index}
+ * (versions and upload ids contain no dots)
+ */
+function buildModelManifestKey(version: string): string {
+  return `manifest.${version}`;
+}
+
+function buildModelChunkKey(manifest: ModelManifest, index: number): string {
+  return `chunk.${manifest.version}.${manifest.uploadId}.${index}`;
+}
+
+/**
+ * Store a model version
+ * Chunks are written under the upload's own id, then the manifest is created
+ * only if the version doesn't exist yet. A concurrent upload of the same
+ * version can't overwrite the stored chunks, and a version is only listed
+ * once it can be read in full.
+ *
+ * @returns false (and removes this upload's chunks) if the version exists
+ */
+export async function putModelVersion(
+  manifest: ModelManifest,
+  chunks: Uint8Array[]
+): Promise<boolean> {
+  const kv = await getMlModelKv();
+  const manifestKey = buildModelManifestKey(manifest.version);
+  try {
+    for (let i = 0; i < chunks.length; i++) {
+      await kv.put(buildModelChunkKey(manifest, i), chunks[i]);
+    }
+    await kv.create(manifestKey, textEncoder.encode(JSON.stringify(manifest)));
+    return true;
+  } catch (error) {
+    await removeModelChunks(kv, manifest, chunks.length);
+    const existing = await kv.get(manifestKey);
+    if (existing?.value && existing.value.length > 0) return false;
+    throw error;
+  }
+}
+
+async function removeModelChunks(
+  kv: KV,
+  manifest: ModelManifest,
+  count: number
+): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    try {
+      await kv.purge(buildModelChunkKey(manifest, i));
+    } catch (error) {
+      logger.warn(
+        { err: error, version: manifest.version, chunk: i },
+        "Failed to remove model chunk"
+      );
+    }
+  }
+}
+
+/**
+ * Get a model version's manifest
+ */
+export async function getModelManifest(
+  version: string
+): Promise<ModelManifest | null> {
+  const kv = await getMlModelKv();
+  const entry = await kv.get(buildModelManifestKey(version));
+  if (!entry?.value || entry.value.length === 0) return null;
+  return JSON.parse(textDecoder.decode(entry.value)) as ModelManifest;
+}
+
+/**
+ * Read a model version's chunks in order
+ * @throws Error if a chunk is missing
+ */
+export async function getModelChunks(
+  manifest: ModelManifest
+): Promise<Uint8Array[]> {
+  const kv = await getMlModelKv();
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < manifest.chunks; i++) {
+    const entry = await kv.get(buildModelChunkKey(manifest, i));
+    if (!entry?.value || entry.value.length === 0) {
+      throw new Error(`Model ${manifest.version} is missing chunk ${i}`);
+    }
+    chunks.push(entry.value);
+  }
+  return chunks;
+}
+
+/**
+ * List every stored model version, oldest first
+ */
+export async function listModelManifests(): Promise<ModelManifest[]> {
+  const kv = await getMlModelKv();
+  const iter = await kv.keys("manifest.>");
+  const keys: string[] = [];
+  if (iter) {
+    for await (const k of iter) {
+      keys.push(k);
+    }
+  }
+
+  const manifests: ModelManifest[] = [];
+  for (const key of keys) {
+    try {
+      const entry = await kv.get(key);
+      if (entry?.value && entry.value.length > 0) {
+        manifests.push(
+          JSON.parse(textDecoder.decode(entry.value)) as ModelManifest
+        );
+      }
+    } catch {
+      // Entry removed between listing and reading
+    }
+  }
+
+  return manifests.sort((a, b) => a.uploadedAt - b.uploadedAt);
+}
+
+/**
+ * Get the active/shadow selection and its KV revision
+ * Servers compare the revision to skip reloads when nothing changed.
+ */
+export async function getModelRegistryState(): Promise<{
+  state: ModelRegistryState;
+  revision: number;
+} | null> {
+  const kv = await getMlModelKv();
+  const entry = await kv.get(MODEL_REGISTRY_STATE_KEY);
+  if (!entry?.value || entry.value.length === 0) return null;
+  return {
+    state: JSON.parse(textDecoder.decode(entry.value)) as ModelRegistryState,
+    revision: entry.revision,
+  };
+}
+
+/**
+ * Replace the active/shadow selection if it is still at `revision`
+ * (null: only if no selection has been stored yet)
+ *
+ * @returns false if another writer changed the selection first
+ */
+export async function setModelRegistryState(
+  state: ModelRegistryState,
+  revision: number | null
+): Promise<boolean> {
+  const kv = await getMlModelKv();
+  const value = textEncoder.encode(JSON.stringify(state));
+  try {
+    if (revision === null) {
+      await kv.create(MODEL_REGISTRY_STATE_KEY, value);
+    } else {
+      await kv.update(MODEL_REGISTRY_STATE_KEY, value, revision);
+    }
+    return true;
+  } catch (error) {
+    const current = await kv.get(MODEL_REGISTRY_STATE_KEY);
+    const currentRevision =
+      current?.value && current.value.length > 0 ? current.revision : null;
+    if (currentRevision !== revision) return false;
+    throw error;
+  }
+}
+
 // ============================================================
 // Monitoring (TTL handles expiry automatically)
 // ============================================================
@@ -9,9 +9,11 @@ import {
   type DropStateEvent,
   type UserStateEvent,
   type QueueStateEvent,
+  type ReminderEvent,
   getDropTopic,
   getUserTopic,
   getQueueTopic,
+  getReminderTopic,
 } from "./events.js";
 import { createLogger } from "./logger.js";
 import { config } from "./config.js";
@@ -144,6 +146,27 @@ export async function publishQueueState(
   }
 }
 
+/**
+ * Publish a registration-open reminder to a user
+ *
+ * See publishDropState for design rationale on fire-and-forget pattern.
+ */
+export async function publishReminder(
+  userId: string,
+  event: ReminderEvent
+): Promise<void> {
+  try {
+    const conn = await getNatsConnection();
+    const topic = getReminderTopic(userId);
+    conn.publish(topic, textEncoder.encode(JSON.stringify(event)));
+  } catch (error) {
+    logger.error(
+      { err: error, dropId: event.dropId, userId },
+      "Failed to publish reminder"
+    );
+  }
+}
+
 // ============================================================
 // Subscription helpers for SSE
 // ============================================================
@@ -227,6 +250,24 @@ export async function subscribeQueueState(
   }
 }
 
+/**
+ * Subscribe to registration-open reminders for a user
+ */
+export async function subscribeReminders(
+  userId: string
+): Promise<Subscription> {
+  try {
+    const conn = await getNatsConnection();
+    const topic = getReminderTopic(userId);
+    const subscription = conn.subscribe(topic);
+    logger.debug({ userId, topic }, "Subscribed to reminders");
+    return subscription;
+  } catch (error) {
+    logger.error({ err: error, userId }, "Failed to subscribe to reminders");
+    throw error;
+  }
+}
+
 /**
  * Safely unsubscribe from a subscription
  */
@@ -0,0 +1,167 @@
+/**
+ * Participant export for third-party lottery audits
+ *
+ * Serves the full Merkle leaf set as NDJSON or CSV with pseudonymised user
+ * IDs, and parses it back for the verify-lottery CLI. Pseudonyms are a
+ * salted HMAC per drop, so they can't be joined across drops or reversed
+ * without the server salt; each user learns their own from their
+ * inclusion proof.
+ */
+
+import crypto from "node:crypto";
+import { config } from "./config.js";
+import type {
+  LoyaltyTier,
+  MerkleLeafData,
+  ParticipantExportRow,
+  ParticipantProfile,
+} from "./types.js";
+
+export type ParticipantExportFormat = "ndjson" | "csv";
+
+export const PARTICIPANT_EXPORT_CONTENT_TYPES: Record<
+  ParticipantExportFormat,
+  string
+> = {
+  ndjson: "application/x-ndjson",
+  csv: "text/csv",
+};
+
+const CSV_COLUMNS = [
+  "index",
+  "pseudonym",
+  "effectiveTickets",
+  "leafHash",
+  "variantPreferences",
+  "loyaltyTier",
+  "firstTime",
+  "cohorts",
+] as const;
+
+/**
+ * Columns every CSV export has (older exports stop after variantPreferences)
+ */
+const REQUIRED_CSV_COLUMNS = CSV_COLUMNS.slice(0, 5);
+
+/**
+ * Stable per-drop pseudonym for a user
+ */
+export function pseudonymizeUserId(dropId: string, userId: string): string {
+  return crypto
+    .createHmac("sha256", config.security.auditPseudonymSalt)
+    .update(`${dropId}:${userId}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Build an export row from a stored Merkle leaf
+ * The profile is only passed for drops drawn by a profile-based algorithm,
+ * cohorts only for drops with cohort quotas
+ */
+export function toParticipantExportRow(
+  dropId: string,
+  leaf: MerkleLeafData,
+  leafHash: string,
+  variantPreferences?: string[],
+  profile?: ParticipantProfile,
+  cohorts?: string[]
+): ParticipantExportRow {
+  return {
+    index: leaf.index,
+    pseudonym: pseudonymizeUserId(dropId, leaf.userId),
+    effectiveTickets: leaf.effectiveTickets,
+    leafHash,
+    variantPreferences: variantPreferences?.length
+      ? variantPreferences
+      : undefined,
+    loyaltyTier: profile?.loyaltyTier,
+    firstTime: profile?.firstTime,
+    cohorts,
+  };
+}
+
+/**
+ * CSV header line (including trailing newline)
+ */
+export function participantCsvHeader(): string {
+  return `${CSV_COLUMNS.join(",")}\n`;
+}
+
+/**
+ * Serialize one row (including trailing newline)
+ * Variant and cohort IDs are restricted to [a-zA-Z0-9_.-], so "|" needs no escaping
+ */
+export function formatParticipantExportRow(
+  row: ParticipantExportRow,
+  format: ParticipantExportFormat
+): string {
+  if (format === "ndjson") {
+    return `${JSON.stringify(row)}\n`;
+  }
+  return `${[
+    row.index,
+    row.pseudonym,
+    row.effectiveTickets,
+    row.leafHash,
+    row.variantPreferences?.join("|") ?? "",
+    row.loyaltyTier ?? "",
+    row.firstTime === undefined ? "" : String(row.firstTime),
+    row.cohorts?.join("|") ?? "",
+  ].join(",")}\n`;
+}
+
+/**
+ * Parse an export downloaded as NDJSON, CSV or a JSON array
+ */
+export function parseParticipantExport(text: string): ParticipantExportRow[] {
+  const trimmed = text.trim();
+  if (trimmed.length === 0) return [];
+
+  if (trimmed.startsWith("[")) {
+    return JSON.parse(trimmed) as ParticipantExportRow[];
+  }
+
+  const lines = trimmed.split(/\r?\n/).filter((line) => line.trim().length > 0);
+
+  if (lines[0].startsWith("{")) {
+    return lines.map((line) => JSON.parse(line) as ParticipantExportRow);
+  }
+
+  const header = lines[0].split(",");
+  if (
+    header.length > CSV_COLUMNS.length ||
+    header.some((column, i) => column !== CSV_COLUMNS[i]) ||
+    header.length < REQUIRED_CSV_COLUMNS.length
+  ) {
+    throw new Error(
+      `Unrecognized export: expected NDJSON or CSV with header "${CSV_COLUMNS.join(",")}"`
+    );
+  }
+
+  return lines.slice(1).map((line, i) => {
+    const [
+      index,
+      pseudonym,
+      effectiveTickets,
+      leafHash,
+      preferences,
+      loyaltyTier,
+      firstTime,
+      cohorts,
+    ] = line.split(",");
+    if (leafHash === undefined) {
+      throw new Error(`Malformed CSV row ${i + 1}: ${line}`);
+    }
+    return {
+      index: Number(index),
+      pseudonym,
+      effectiveTickets: Number(effectiveTickets),
+      leafHash,
+      variantPreferences: preferences ? preferences.split("|") : undefined,
+      loyaltyTier: loyaltyTier ? (loyaltyTier as LoyaltyTier) : undefined,
+      firstTime: firstTime ? firstTime === "true" : undefined,
+      cohorts: cohorts ? cohorts.split("|") : undefined,
+    };
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * Fake Payment Provider
+ *
+ * In-memory implementation of PaymentProvider for local development and tests.
+ * Honors idempotency keys and enforces the same state transitions a real
+ * processor would, so handler logic can be exercised without moving money.
+ */
+
+import crypto from "node:crypto";
+import type {
+  AuthorizeRequest,
+  PaymentOperationRequest,
+  PaymentProvider,
+  PaymentResult,
+  PaymentStatus,
+} from "./types.js";
+
+export interface FakePaymentProviderOptions {
+  /** Decline authorizations above this amount (minor units) */
+  declineAbove?: number;
+  /** Decline authorizations for these user IDs */
+  declineUserIds?: string[];
+}
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+
+  private readonly payments = new Map<string, PaymentResult>();
+  private readonly idempotentResults = new Map<string, PaymentResult>();
+
+  constructor(private readonly options: FakePaymentProviderOptions = {}) {}
+
+  async authorize(request: AuthorizeRequest): Promise<PaymentResult> {
+    return this.once(request.idempotencyKey, () => {
+      const paymentId = `fake_${crypto.randomBytes(8).toString("hex")}`;
+      const declined =
+        (this.options.declineAbove !== undefined &&
+          request.amount > this.options.declineAbove) ||
+        this.options.declineUserIds?.includes(request.metadata.userId);
+
+      const payment: PaymentResult = {
+        paymentId,
+        status: declined ? "failed" : "authorized",
+        amount: request.amount,
+        currency: request.currency,
+        failureReason: declined ? "card_declined" : undefined,
+      };
+      this.payments.set(paymentId, payment);
+      return payment;
+    });
+  }
+
+  async capture(request: PaymentOperationRequest): Promise<PaymentResult> {
+    return this.transition(request, "authorized", "captured");
+  }
+
+  async void(request: PaymentOperationRequest): Promise<PaymentResult> {
+    return this.transition(request, "authorized", "voided");
+  }
+
+  async refund(request: PaymentOperationRequest): Promise<PaymentResult> {
+    return this.transition(request, "captured", "refunded");
+  }
+
+  /**
+   * Look up a payment (test helper)
+   */
+  getPayment(paymentId: string): PaymentResult | undefined {
+    const payment = this.payments.get(paymentId);
+    return payment ? { ...payment } : undefined;
+  }
+
+  /**
+   * Move a payment between states; rejected moves leave it unchanged
+   */
+  private transition(
+    request: PaymentOperationRequest,
+    from: PaymentStatus,
+    to: PaymentStatus
+  ): Promise<PaymentResult> {
+    return this.once(request.idempotencyKey, () => {
+      const payment = this.payments.get(request.paymentId);
+      if (!payment) {
+        return {
+          paymentId: request.paymentId,
+          status: "failed",
+          amount: 0,
+          currency: "",
+          failureReason: "payment_not_found",
+        };
+      }
+
+      if (payment.status !== from) {
+        return {
+          ...payment,
+          failureReason: `invalid_transition_${payment.status}_to_${to}`,
+        };
+      }
+
+      payment.status = to;
+      return { ...payment };
+    });
+  }
+
+  /**
+   * Run an operation at most once per idempotency key
+   */
+  private async once(
+    idempotencyKey: string,
+    operation: () => PaymentResult
+  ): Promise<PaymentResult> {
+    const previous = this.idempotentResults.get(idempotencyKey);
+    if (previous) return { ...previous };
+
+    const result = operation();
+    this.idempotentResults.set(idempotencyKey, { ...result });
+    return result;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Payment Provider Selection and Helpers
+ *
+ * Resolves the configured PaymentProvider and provides the shared helpers
+ * Restate handlers use to price entries and derive idempotency keys.
+ */
+
+import { config } from "../config.js";
+import { createLogger } from "../logger.js";
+import { calculateUpgradeCost } from "../lottery.js";
+import { FakePaymentProvider } from "./fake-provider.js";
+import type { PaymentProvider } from "./types.js";
+
+const logger = createLogger("payments");
+
+let provider: PaymentProvider | null = null;
+
+/**
+ * Get the configured payment provider (created on first use)
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (provider) return provider;
+
+  switch (config.payments.provider) {
+    case "fake":
+      provider = new FakePaymentProvider();
+      break;
+    default:
+      throw new Error(
+        `Unknown payment provider: ${config.payments.provider}`
+      );
+  }
+
+  logger.info({ provider: provider.name }, "Payment provider initialized");
+  return provider;
+}
+
+/**
+ * Replace the payment provider (tests and custom integrations)
+ */
+export function setPaymentProvider(next: PaymentProvider | null): void {
+  provider = next;
+}
+
+/**
+ * Payment operations that carry an idempotency key
+ */
+export type PaymentOperation = "authorize" | "capture" | "void" | "refund";
+
+/**
+ * Idempotency key for a participant's entry payment
+ * One payment per participant per drop, so dropId:userId identifies it.
+ * Retries after a failed payment get a new attempt number (and a new payment).
+ */
+export function paymentIdempotencyKey(
+  dropId: string,
+  userId: string,
+  operation: PaymentOperation,
+  attempt = 1
+): string {
+  const key = `${dropId}:${userId}:${operation}`;
+  return attempt > 1 ? `${key}:${attempt}` : key;
+}
+
+/**
+ * Cost of paid entries in minor units
+ * The first ticket is free, so n paid entries cost the same as n + 1 tickets
+ */
+export function paidEntriesAmount(
+  paidEntries: number,
+  priceUnit: number
+): number {
+  if (paidEntries <= 0) return 0;
+  const cost = calculateUpgradeCost(paidEntries + 1, priceUnit);
+  return Math.round(cost * config.payments.minorUnitsPerPriceUnit);
+}
@@ -0,0 +1,85 @@
+/**
+ * Payment Provider Types
+ * Defines the pluggable interface used to charge for paid lottery entries
+ */
+
+// ============================================================
+// Payment Status
+// ============================================================
+
+/**
+ * Lifecycle of a single payment:
+ * authorized → captured → refunded, or authorized → voided.
+ * A declined authorization is "failed" and never moves again.
+ */
+export type PaymentStatus =
+  | "authorized"
+  | "captured"
+  | "voided"
+  | "refunded"
+  | "failed";
+
+// ============================================================
+// Requests
+// ============================================================
+
+/**
+ * Place a hold on the buyer's funds for paid entries
+ */
+export interface AuthorizeRequest {
+  /** Same key always returns the same payment (retries are safe) */
+  idempotencyKey: string;
+  /** Amount in minor units (e.g. cents) */
+  amount: number;
+  /** ISO 4217 currency code */
+  currency: string;
+  /** Provider-side metadata for reconciliation */
+  metadata: { dropId: string; userId: string; paidEntries: number };
+}
+
+/**
+ * Follow-up operation on an existing payment (capture, void, refund)
+ */
+export interface PaymentOperationRequest {
+  /** Same key always returns the same result (retries are safe) */
+  idempotencyKey: string;
+  /** Payment returned by authorize */
+  paymentId: string;
+}
+
+// ============================================================
+// Results
+// ============================================================
+
+/**
+ * Result of any provider operation
+ */
+export interface PaymentResult {
+  paymentId: string;
+  status: PaymentStatus;
+  /** Amount in minor units */
+  amount: number;
+  currency: string;
+  /** Provider reason when status is "failed" or an operation was rejected */
+  failureReason?: string;
+}
+
+// ============================================================
+// Provider Interface
+// ============================================================
+
+/**
+ * A payment processor integration
+ *
+ * Implementations must be idempotent per idempotencyKey: Restate may replay
+ * a side effect after a crash, and the provider must not double-charge.
+ * Declines are reported as a result with status "failed"; thrown errors are
+ * treated as transient and retried by Restate.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  authorize(request: AuthorizeRequest): Promise<PaymentResult>;
+  capture(request: PaymentOperationRequest): Promise<PaymentResult>;
+  void(request: PaymentOperationRequest): Promise<PaymentResult>;
+  refund(request: PaymentOperationRequest): Promise<PaymentResult>;
+}
@@ -1,52 +1,321 @@
 /**
  * Proof-of-Work challenge generation and verification
  * Uses shared config for settings
+ *
+ * Difficulty is chosen per challenge: it rises with the drop's registration
+ * rate, with queue tokens already issued to the requester's IP/fingerprint
+ * and with a low prior trust score, and drops for requesters who scored well.
+ * The issued difficulty is stored with the challenge and checked on verify,
+ * and the challenge is bound to the drop and fingerprint it was issued for,
+ * so it can't be requested under one identity and spent under another.
+ *
+ * Two schemes, negotiated per challenge: memory-hard scrypt for clients that
+ * advertise it (GPU/ASIC farms gain little over a browser), and plain SHA-256
+ * as the fallback. Both search for a nonce; see PowScheme for the hashing.
  */
 
 import crypto from "node:crypto";
-import type { PowChallenge } from "./types.js";
-import { storeChallenge, getAndDeleteChallenge } from "./nats-kv.js";
+import { promisify } from "node:util";
+import type { PowChallenge, PowScheme, ScryptParams } from "./types.js";
+import {
+  type StoredChallenge,
+  storeChallenge,
+  getAndDeleteChallenge,
+  getRegistrationRate,
+  getIpCount,
+  getFingerprintCount,
+  getPriorTrustScore,
+} from "./nats-kv.js";
 import { config } from "./config.js";
 import { createLogger } from "./logger.js";
 
 const logger = createLogger("pow");
 
+const scryptAsync = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+/**
+ * Who is asking for a challenge (all optional; missing signals are neutral)
+ */
+export interface PowRequester {
+  dropId?: string;
+  ipHash?: string; // hashIpForQueue(ip)
+  fingerprint?: string;
+}
+
+/**
+ * Registration a solution is presented for (checked against the challenge)
+ */
+export interface PowBinding {
+  dropId?: string;
+  fingerprint?: string;
+}
+
+/**
+ * Inputs to the difficulty choice
+ */
+export interface PowDifficultySignals {
+  registrationRate: number; // Registrations per window on the drop
+  ipTokens: number; // Queue tokens already issued to the IP for the drop
+  fingerprintTokens: number; // Queue tokens already issued to the fingerprint
+  priorTrustScore?: number; // Lowest score recorded in the last day
+}
+
+/**
+ * Choose a PoW difficulty from load, requester history and trust
+ * Each signal moves the base difficulty by at most 2; the result is clamped
+ */
+export function chooseDifficulty(signals: PowDifficultySignals): number {
+  const {
+    difficulty,
+    minDifficulty,
+    maxDifficulty,
+    highRegistrationRate,
+    repeatRequesterThreshold,
+    lowTrustScore,
+    highTrustScore,
+  } = config.pow;
+  let chosen = difficulty;
+
+  if (signals.registrationRate >= highRegistrationRate * 4) chosen += 2;
+  else if (signals.registrationRate >= highRegistrationRate) chosen += 1;
+
+  const tokens = Math.max(signals.ipTokens, signals.fingerprintTokens);
+  if (tokens >= repeatRequesterThreshold * 3) chosen += 2;
+  else if (tokens >= repeatRequesterThreshold) chosen += 1;
+
+  if (signals.priorTrustScore !== undefined) {
+    if (signals.priorTrustScore < lowTrustScore) chosen += 1;
+    else if (signals.priorTrustScore >= highTrustScore) chosen -= 1;
+  }
+
+  return Math.min(maxDifficulty, Math.max(minDifficulty, chosen));
+}
+
+/**
+ * Look up the difficulty signals for a requester
+ * Fails open to neutral signals (base difficulty) if NATS KV is unavailable
+ */
+async function getDifficultySignals(
+  requester: PowRequester
+): Promise<PowDifficultySignals> {
+  const { dropId, ipHash, fingerprint } = requester;
+  try {
+    const [registrationRate, ipTokens, fingerprintTokens, priorTrustScore] =
+      await Promise.all([
+        dropId ? getRegistrationRate(dropId) : 0,
+        dropId && ipHash ? getIpCount(dropId, ipHash) : 0,
+        dropId && fingerprint ? getFingerprintCount(dropId, fingerprint) : 0,
+        ipHash || fingerprint
+          ? getPriorTrustScore(ipHash, fingerprint)
+          : undefined,
+      ]);
+    return { registrationRate, ipTokens, fingerprintTokens, priorTrustScore };
+  } catch (error) {
+    logger.warn({ err: error }, "Failed to read PoW difficulty signals");
+    return { registrationRate: 0, ipTokens: 0, fingerprintTokens: 0 };
+  }
+}
+
+/**
+ * Pick the scheme for a challenge from the ones the client supports
+ * scrypt when enabled and supported, SHA-256 otherwise
+ */
+export function choosePowScheme(clientSchemes: readonly string[] = []): PowScheme {
+  return config.pow.scrypt.enabled && clientSchemes.includes("scrypt")
+    ? "scrypt"
+    : "sha256";
+}
+
+/**
+ * Difficulty to issue for a scheme
+ * SHA-256 carries the fallback penalty while scrypt is on offer
+ */
+export function schemeDifficulty(scheme: PowScheme, difficulty: number): number {
+  if (scheme === "sha256" && config.pow.scrypt.enabled) {
+    return difficulty + config.pow.scrypt.sha256FallbackPenalty;
+  }
+  return difficulty;
+}
+
 /**
  * Generate a proof-of-work challenge
- * Challenges are stored in NATS KV with auto-expiry
+ * Challenges are stored in NATS KV with auto-expiry, along with the
+ * scheme and difficulty they were issued at
  */
-export async function generateChallenge(): Promise<PowChallenge> {
+export async function generateChallenge(
+  requester: PowRequester = {},
+  clientSchemes: readonly string[] = []
+): Promise<PowChallenge> {
   const timestamp = Date.now();
   const random = crypto.randomBytes(16).toString("hex");
   const challenge = `${timestamp}:${random}`;
 
+  let difficulty = config.pow.difficulty;
+  if (config.pow.adaptive) {
+    const signals = await getDifficultySignals(requester);
+    difficulty = chooseDifficulty(signals);
+    if (difficulty !== config.pow.difficulty) {
+      logger.debug(
+        { dropId: requester.dropId, difficulty, signals },
+        "Adjusted PoW difficulty"
+      );
+    }
+  }
+
+  const scheme = choosePowScheme(clientSchemes);
   const powChallenge: PowChallenge = {
     challenge,
-    difficulty: config.pow.difficulty,
+    scheme,
+    difficulty: schemeDifficulty(scheme, difficulty),
     timestamp,
   };
+  if (scheme === "scrypt") {
+    const { cost, blockSize, parallelization, keyLength } = config.pow.scrypt;
+    powChallenge.scrypt = {
+      N: cost,
+      r: blockSize,
+      p: parallelization,
+      keyLength,
+    };
+  }
 
   // Store challenge in NATS KV (auto-expires based on config)
-  await storeChallenge(powChallenge);
+  await storeChallenge(bindChallenge(powChallenge, requester));
 
   return powChallenge;
 }
 
 /**
- * Verify a SHA-256 proof-of-work solution
+ * Stored form of an issued challenge, bound to the requester its
+ * difficulty was chosen for
+ */
+export function bindChallenge(
+  powChallenge: PowChallenge,
+  requester: PowRequester
+): StoredChallenge {
+  return {
+    ...powChallenge,
+    dropId: requester.dropId,
+    fingerprintHash: hashFingerprint(requester.fingerprint),
+  };
+}
+
+function hashFingerprint(fingerprint?: string): string | undefined {
+  return fingerprint
+    ? crypto.createHash("sha256").update(fingerprint).digest("hex")
+    : undefined;
+}
+
+/**
+ * Whether a challenge was issued for this drop and fingerprint
+ */
+export function challengeMatchesBinding(
+  stored: StoredChallenge,
+  binding: PowBinding
+): boolean {
+  return (
+    stored.dropId === binding.dropId &&
+    stored.fingerprintHash === hashFingerprint(binding.fingerprint)
+  );
+}
+
+/**
+ * Whether a buffer starts with at least `bits` zero bits
+ */
+function hasLeadingZeroBits(hash: Uint8Array, bits: number): boolean {
+  const fullBytes = Math.floor(bits / 8);
+  if (hash.length < Math.ceil(bits / 8)) return false;
+  for (let i = 0; i < fullBytes; i++) {
+    if (hash[i] !== 0) return false;
+  }
+  const rest = bits % 8;
+  return rest === 0 || hash[fullBytes] >> (8 - rest) === 0;
+}
+
+/**
+ * scrypt(challenge + nonce, challenge) with the challenge's parameters
+ */
+export function scryptPowHash(
+  challenge: string,
+  solution: string,
+  params: ScryptParams
+): Promise<Buffer> {
+  return scryptAsync(challenge + solution, challenge, params.keyLength, {
+    N: params.N,
+    r: params.r,
+    p: params.p,
+    maxmem: 256 * params.N * params.r,
+  });
+}
+
+/**
+ * Check a solution against a stored challenge (no one-time-use bookkeeping)
  * Must match the client-side algorithm exactly
+ */
+export async function checkPowSolution(
+  stored: StoredChallenge,
+  solution: string
+): Promise<boolean> {
+  const scheme = stored.scheme ?? "sha256";
+
+  if (scheme === "scrypt") {
+    if (!stored.scrypt) return false;
+    const hash = await scryptPowHash(stored.challenge, solution, stored.scrypt);
+    return hasLeadingZeroBits(hash, stored.difficulty);
+  }
+
+  // 1. Concatenate challenge + nonce as string
+  // 2. SHA-256 hash
+  // 3. Check if hex hash starts with N zeros
+  const data = stored.challenge + solution;
+  const hash = crypto.createHash("sha256").update(data).digest("hex");
+
+  const prefix = "0".repeat(stored.difficulty);
+  return hash.startsWith(prefix);
+}
+
+/**
+ * Shape of issued challenges ({timestamp}:{32 hex}) and client nonces
+ */
+const CHALLENGE_PATTERN = /^\d{13}:[0-9a-f]{32}$/;
+const SOLUTION_PATTERN = /^\d{1,16}$/;
+
+/**
+ * Cheap format check, run before the challenge lookup and any hashing
+ */
+export function isWellFormedSolution(challenge: string, solution: string): boolean {
+  return CHALLENGE_PATTERN.test(challenge) && SOLUTION_PATTERN.test(solution);
+}
+
+/**
+ * Verify a proof-of-work solution
  *
  * Note: Challenge expiry is handled by KV TTL - if the challenge exists,
  * it's still valid. We only need to verify the solution and ensure one-time use.
+ * The solution is checked with the scheme and difficulty the challenge was
+ * issued at, and only for the drop and fingerprint it was issued for.
+ * A scrypt check costs 16MB and tens of milliseconds, so malformed input is
+ * rejected before the lookup, the binding is checked before hashing, and the
+ * register route runs this behind strictRateLimit.
  */
 export async function verifyPow(
   challenge: string,
   solution: string,
-  difficulty: number = config.pow.difficulty
+  binding: PowBinding
 ): Promise<boolean> {
+  if (!isWellFormedSolution(challenge, solution)) {
+    return false;
+  }
+
   try {
     // Get and delete challenge from NATS KV (one-time use)
     // If challenge doesn't exist, it either expired (TTL) or was already used
+    // Deleting before hashing also caps scrypt work at one hash per challenge
     const storedChallenge = await getAndDeleteChallenge(challenge);
 
     if (!storedChallenge) {
@@ -54,15 +323,15 @@ export async function verifyPow(
       return false;
     }
 
-    // Match client algorithm exactly:
-    // 1. Concatenate challenge + nonce as string
-    // 2. SHA-256 hash
-    // 3. Check if hex hash starts with N zeros
-    const data = challenge + solution;
-    const hash = crypto.createHash("sha256").update(data).digest("hex");
+    if (!challengeMatchesBinding(storedChallenge, binding)) {
+      logger.warn(
+        { challenge, dropId: binding.dropId },
+        "Challenge issued for a different drop or fingerprint"
+      );
+      return false;
+    }
 
-    const prefix = "0".repeat(difficulty);
-    return hash.startsWith(prefix);
+    return await checkPowSolution(storedChallenge, solution);
   } catch (error) {
     logger.error({ err: error }, "PoW verification error");
     return false;
@@ -0,0 +1,60 @@
+/**
+ * drand Randomness Source
+ *
+ * Reads rounds from a drand HTTP relay (GET <chain url>/public/<round>).
+ * The BLS signature is recorded with the value so auditors can check it
+ * against the chain's public key; it is not verified here.
+ */
+
+import { RoundClock } from "./round-clock.js";
+import type { BeaconValue, RandomnessSource } from "./types.js";
+
+export interface DrandRandomnessSourceOptions {
+  /** Chain endpoint, e.g. https://api.drand.sh/<chain hash> */
+  url: string;
+  /** Chain genesis (Unix seconds) */
+  genesisTime: number;
+  periodSecs: number;
+}
+
+export class DrandRandomnessSource implements RandomnessSource {
+  readonly name = "drand";
+
+  private readonly clock: RoundClock;
+
+  constructor(private readonly options: DrandRandomnessSourceOptions) {
+    this.clock = new RoundClock(
+      options.genesisTime * 1000,
+      options.periodSecs * 1000
+    );
+  }
+
+  roundAt(timestampMs: number): number {
+    return this.clock.roundAt(timestampMs);
+  }
+
+  roundTime(round: number): number {
+    return this.clock.roundTime(round);
+  }
+
+  async getRound(round: number): Promise<BeaconValue | null> {
+    // Relays reject future rounds; don't ask before it can exist
+    if (Date.now() < this.roundTime(round)) return null;
+
+    const response = await fetch(`${this.options.url}/public/${round}`);
+    if (response.status === 404 || response.status === 425) return null;
+    if (!response.ok) {
+      throw new Error(`drand request failed: ${response.status}`);
+    }
+
+    const body = (await response.json()) as {
+      round: number;
+      randomness: string;
+      signature?: string;
+    };
+    if (body.round !== round) {
+      throw new Error(`drand returned round ${body.round}, expected ${round}`);
+    }
+    return { round, value: body.randomness, signature: body.signature };
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Fixture Randomness Source
+ *
+ * Local stand-in for a public beacon, for development and tests. Rounds
+ * follow the same schedule as a real beacon and are only returned once
+ * their publish time has passed. Values come from a fixture file when one
+ * lists the round, otherwise they are derived as SHA256("fixture-beacon:<round>").
+ */
+
+import crypto from "node:crypto";
+import { readFileSync } from "node:fs";
+import { RoundClock } from "./round-clock.js";
+import type { BeaconValue, RandomnessSource } from "./types.js";
+
+export interface FixtureRandomnessSourceOptions {
+  /** Unix ms of round 1 (default: 0, so past rounds are always published) */
+  genesisTime?: number;
+  periodSecs?: number;
+  /** Round number -> hex value */
+  rounds?: Record<string, string>;
+  /** Clock override (tests) */
+  now?: () => number;
+}
+
+export class FixtureRandomnessSource implements RandomnessSource {
+  readonly name = "fixture";
+
+  private readonly clock: RoundClock;
+  private readonly now: () => number;
+
+  constructor(private readonly options: FixtureRandomnessSourceOptions = {}) {
+    this.clock = new RoundClock(
+      options.genesisTime ?? 0,
+      (options.periodSecs ?? 3) * 1000
+    );
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Load rounds from a JSON fixture file
+   * ({ "genesisTime"?: ms, "periodSecs"?: n, "rounds": { "<round>": "<hex>" } })
+   */
+  static fromFile(path: string, periodSecs?: number): FixtureRandomnessSource {
+    const fixture = JSON.parse(
+      readFileSync(path, "utf8")
+    ) as FixtureRandomnessSourceOptions;
+    return new FixtureRandomnessSource({
+      ...fixture,
+      periodSecs: fixture.periodSecs ?? periodSecs,
+    });
+  }
+
+  roundAt(timestampMs: number): number {
+    return this.clock.roundAt(timestampMs);
+  }
+
+  roundTime(round: number): number {
+    return this.clock.roundTime(round);
+  }
+
+  async getRound(round: number): Promise<BeaconValue | null> {
+    if (this.now() < this.roundTime(round)) return null;
+
+    const value =
+      this.options.rounds?.[String(round)] ??
+      crypto.createHash("sha256").update(`fixture-beacon:${round}`).digest("hex");
+    return { round, value };
+  }
+}
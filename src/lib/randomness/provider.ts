@@ -0,0 +1,76 @@
+/**
+ * Randomness Source Selection
+ *
+ * Resolves the configured public beacon. Drops created while a source is
+ * configured commit to one of its rounds; "none" keeps the seed as
+ * SHA256(secret|merkleRoot).
+ */
+
+import { config } from "../config.js";
+import { createLogger } from "../logger.js";
+import { DrandRandomnessSource } from "./drand-source.js";
+import { FixtureRandomnessSource } from "./fixture-source.js";
+import type { RandomnessSource } from "./types.js";
+
+const logger = createLogger("randomness");
+
+let source: RandomnessSource | null | undefined;
+
+/**
+ * Get the configured randomness source (created on first use)
+ * Returns null when no beacon is configured
+ */
+export function getRandomnessSource(): RandomnessSource | null {
+  if (source !== undefined) return source;
+
+  switch (config.randomness.source) {
+    case "none":
+      source = null;
+      return source;
+    case "fixture":
+      source = config.randomness.fixtureFile
+        ? FixtureRandomnessSource.fromFile(
+            config.randomness.fixtureFile,
+            config.randomness.fixturePeriodSecs
+          )
+        : new FixtureRandomnessSource({
+            periodSecs: config.randomness.fixturePeriodSecs,
+          });
+      break;
+    case "drand":
+      source = new DrandRandomnessSource({
+        url: config.randomness.drandUrl,
+        genesisTime: config.randomness.drandGenesisTime,
+        periodSecs: config.randomness.drandPeriodSecs,
+      });
+      break;
+    default:
+      throw new Error(
+        `Unknown randomness source: ${config.randomness.source}`
+      );
+  }
+
+  logger.info({ source: source.name }, "Randomness source initialized");
+  return source;
+}
+
+/**
+ * Replace the randomness source (tests and custom integrations)
+ */
+export function setRandomnessSource(next: RandomnessSource | null): void {
+  source = next;
+}
+
+/**
+ * Resolve the source a drop committed to
+ * Fails if the deployment no longer runs that source
+ */
+export function getCommittedRandomnessSource(name: string): RandomnessSource {
+  const current = getRandomnessSource();
+  if (!current || current.name !== name) {
+    throw new Error(
+      `Drop committed to randomness source "${name}" but "${current?.name ?? "none"}" is configured`
+    );
+  }
+  return current;
+}
@@ -0,0 +1,25 @@
+/**
+ * Round schedule for drand-style beacons
+ * Round 1 is published at genesis and one round follows every period.
+ */
+export class RoundClock {
+  constructor(
+    private readonly genesisTimeMs: number,
+    private readonly periodMs: number
+  ) {}
+
+  /**
+   * First round published at or after the given time
+   */
+  roundAt(timestampMs: number): number {
+    if (timestampMs <= this.genesisTimeMs) return 1;
+    return Math.ceil((timestampMs - this.genesisTimeMs) / this.periodMs) + 1;
+  }
+
+  /**
+   * When a round is published
+   */
+  roundTime(round: number): number {
+    return this.genesisTimeMs + (round - 1) * this.periodMs;
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Randomness Source Types
+ * Defines the pluggable public beacon mixed into lottery seeds
+ */
+
+/**
+ * A published beacon round
+ */
+export interface BeaconValue {
+  round: number;
+  /** Hex-encoded randomness for the round */
+  value: string;
+  /** Beacon signature, when the source publishes one (e.g. drand BLS) */
+  signature?: string;
+}
+
+/**
+ * A public randomness beacon (drand-style numbered rounds)
+ *
+ * Drops commit to a round number at initialize time, before its value
+ * exists, so the operator can't pick participant sets against a known value.
+ * getRound returns null until the round is published; thrown errors are
+ * treated as transient and retried by Restate.
+ */
+export interface RandomnessSource {
+  readonly name: string;
+  /** First round published at or after the given time (Unix ms) */
+  roundAt(timestampMs: number): number;
+  /** When a round is (or will be) published (Unix ms) */
+  roundTime(round: number): number;
+  /** Published value for a round, or null if it isn't out yet */
+  getRound(round: number): Promise<BeaconValue | null>;
+}
@@ -59,6 +59,34 @@ export const botValidationSchema = z.object({
 
 export type BotValidation = z.infer<typeof botValidationSchema>;
 
+/**
+ * PoW challenge query schema
+ * dropId and fingerprint name the registration the challenge is bound to
+ * (and let the difficulty adapt to it); schemes negotiates the hash function
+ */
+export const powChallengeQuerySchema = z.object({
+  dropId: dropIdSchema,
+  fingerprint: z
+    .string()
+    .min(1, "Fingerprint is required")
+    .max(500, "Fingerprint too long"),
+  /** Comma-separated PoW schemes the client can solve, e.g. "scrypt,sha256" */
+  schemes: z
+    .string()
+    .max(100, "Too many schemes")
+    .transform((value) => value.split(",").map((scheme) => scheme.trim()))
+    .optional(),
+});
+
+/**
+ * Variant ID validation (multi-SKU drops, e.g. "us-10")
+ */
+export const variantIdSchema = z
+  .string()
+  .min(1, "Variant ID is required")
+  .max(50, "Variant ID too long")
+  .regex(/^[a-zA-Z0-9_.-]+$/, "Invalid variant ID format");
+
 // ============================================================
 // Registration Schemas
 // ============================================================
@@ -75,10 +103,45 @@ export const registerRequestSchema = z.object({
     .max(10, "Maximum 10 tickets allowed")
     .default(1),
   botValidation: botValidationSchema,
+  variantPreferences: z
+    .array(variantIdSchema)
+    .max(20, "Too many variant preferences")
+    .optional(),
 });
 
 export type RegisterRequest = z.infer<typeof registerRequestSchema>;
 
+// ============================================================
+// Reminder Schemas
+// ============================================================
+
+/**
+ * Registration-open reminder subscription request schema
+ */
+export const reminderRequestSchema = z.object({
+  userId: userIdSchema,
+});
+
+export type ReminderRequest = z.infer<typeof reminderRequestSchema>;
+
+// ============================================================
+// Payment Schemas
+// ============================================================
+
+/**
+ * Entry payment confirmation request schema
+ * paymentId is the one returned by register: only the payer has it
+ */
+export const paymentConfirmSchema = z.object({
+  userId: userIdSchema,
+  paymentId: z
+    .string()
+    .min(1, "Payment ID is required")
+    .max(200, "Payment ID too long"),
+});
+
+export type PaymentConfirmRequest = z.infer<typeof paymentConfirmSchema>;
+
 // ============================================================
 // Purchase Schemas
 // ============================================================
@@ -88,6 +151,12 @@ export type RegisterRequest = z.infer<typeof registerRequestSchema>;
  */
 export const purchaseStartSchema = z.object({
   userId: userIdSchema,
+  quantity: z
+    .number()
+    .int("Quantity must be an integer")
+    .min(1, "Must buy at least 1 unit")
+    .max(10, "Maximum 10 units")
+    .optional(),
 });
 
 export type PurchaseStartRequest = z.infer<typeof purchaseStartSchema>;
@@ -101,16 +170,154 @@ export const purchaseCompleteSchema = z.object({
     .string()
     .min(1, "Purchase token is required")
     .max(500, "Purchase token too long"),
+  quantity: z
+    .number()
+    .int("Quantity must be an integer")
+    .min(1, "Must buy at least 1 unit")
+    .max(10, "Maximum 10 units")
+    .optional(),
 });
 
 export type PurchaseCompleteRequest = z.infer<typeof purchaseCompleteSchema>;
 
+// ============================================================
+// Lottery Audit Schemas
+// ============================================================
+
+/**
+ * Participant export query schema
+ * Without a limit the whole export is streamed from offset
+ */
+export const participantExportQuerySchema = z.object({
+  format: z.enum(["ndjson", "csv"]).default("ndjson"),
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(10000).optional(),
+});
+
+export type ParticipantExportQuery = z.infer<
+  typeof participantExportQuerySchema
+>;
+
+/**
+ * Multiproof request schema (batched Merkle inclusion proofs)
+ */
+export const multiInclusionProofSchema = z.object({
+  userIds: z
+    .array(userIdSchema)
+    .min(1, "At least one user ID is required")
+    .max(1000, "Too many user IDs"),
+});
+
+export type MultiInclusionProofRequest = z.infer<
+  typeof multiInclusionProofSchema
+>;
+
 // ============================================================
 // Drop Configuration Schemas
 // ============================================================
 
+/**
+ * Geo coordinates schema
+ */
+export const geoCoordinatesSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+/**
+ * Geo-fence schema (radius or polygon)
+ * Radius bounds are enforced by validateGeoFence in the Drop object
+ */
+export const geoFenceSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("radius"),
+    center: geoCoordinatesSchema,
+    radiusMeters: z.number().positive(),
+    name: z.string().max(100).optional(),
+  }),
+  z.object({
+    type: z.literal("polygon"),
+    vertices: z.array(geoCoordinatesSchema).min(3).max(1000),
+    name: z.string().max(100).optional(),
+  }),
+]);
+
+/**
+ * Drop variant schema (one size/color with its own inventory)
+ */
+export const dropVariantSchema = z.object({
+  id: variantIdSchema,
+  label: z.string().min(1, "Variant label is required").max(100),
+  inventory: z
+    .number()
+    .int("Inventory must be an integer")
+    .min(0)
+    .max(10000, "Maximum 10000 items"),
+});
+
+/**
+ * Lottery algorithm selection schema
+ * Params are checked against the algorithm again in the Drop object
+ */
+export const lotteryAlgorithmSchema = z.object({
+  id: z.enum([
+    "weighted-fenwick-v2",
+    "uniform-v1",
+    "tiered-priority-v1",
+    "reserved-quota-v1",
+  ]),
+  params: z
+    .object({
+      tierOrder: z
+        .array(z.enum(["bronze", "silver", "gold"]))
+        .min(1)
+        .max(3)
+        .optional(),
+      reservedShare: z.number().gt(0).lt(1).optional(),
+    })
+    .strict()
+    .optional(),
+});
+
+/**
+ * Cohort quota schema (share of primary winner slots for a cohort)
+ */
+export const cohortQuotaSchema = z.object({
+  id: z
+    .string()
+    .min(1)
+    .max(32)
+    .regex(/^[a-zA-Z0-9_-]+$/, "Cohort ID contains invalid characters"),
+  criterion: z.discriminatedUnion("type", [
+    z.object({ type: z.literal("first_time") }),
+    z.object({
+      type: z.literal("loyalty_tier"),
+      tiers: z.array(z.enum(["bronze", "silver", "gold"])).min(1).max(3),
+    }),
+    z.object({ type: z.literal("geo_zone") }),
+    z.object({
+      type: z.literal("min_multiplier"),
+      value: z.number().gt(0).max(10),
+    }),
+  ]),
+  share: z.number().gt(0).max(1),
+});
+
+export const cohortQuotasSchema = z
+  .array(cohortQuotaSchema)
+  .max(10, "Maximum 10 cohort quotas")
+  .refine(
+    (quotas) => new Set(quotas.map((q) => q.id)).size === quotas.length,
+    { message: "Cohort IDs must be unique" }
+  )
+  .refine(
+    (quotas) => quotas.reduce((sum, q) => sum + q.share, 0) <= 1 + 1e-9,
+    { message: "Cohort shares cannot exceed 1 in total" }
+  );
+
 /**
  * Drop initialization schema
+ * Multi-SKU drops set variants; inventory is then their total
  */
 export const dropConfigSchema = z.object({
   dropId: dropIdSchema,
@@ -118,7 +325,8 @@ export const dropConfigSchema = z.object({
     .number()
     .int("Inventory must be an integer")
     .min(1, "Must have at least 1 item")
-    .max(10000, "Maximum 10000 items"),
+    .max(10000, "Maximum 10000 items")
+    .optional(),
   registrationStart: z
     .number()
     .int()
@@ -132,6 +340,12 @@ export const dropConfigSchema = z.object({
     .int()
     .min(60, "Purchase window must be at least 60 seconds")
     .max(86400, "Purchase window cannot exceed 24 hours"),
+  checkoutWindow: z
+    .number()
+    .int()
+    .min(60, "Checkout window must be at least 60 seconds")
+    .max(86400, "Checkout window cannot exceed 24 hours")
+    .optional(),
   ticketPriceUnit: z.number().min(0).optional(),
   maxTicketsPerUser: z
     .number()
@@ -139,10 +353,213 @@ export const dropConfigSchema = z.object({
     .min(1)
     .max(100)
     .optional(),
+  backupMultiplier: z.number().min(1).max(3).optional(),
+  geoFence: geoFenceSchema.optional(),
+  geoFenceMode: z.enum(["exclusive", "bonus"]).optional(),
+  geoFenceBonusMultiplier: z.number().min(1).max(5).optional(),
+  maxUnitsPerWinner: z.number().int().min(1).max(10).optional(),
+  expectedUnitsPerWinner: z.number().min(1).max(10).optional(),
+  lotteryAlgorithm: lotteryAlgorithmSchema.optional(),
+  cohortQuotas: cohortQuotasSchema.optional(),
+  variants: z
+    .array(dropVariantSchema)
+    .min(1, "At least one variant is required")
+    .max(100, "Maximum 100 variants")
+    .refine(
+      (variants) => new Set(variants.map((v) => v.id)).size === variants.length,
+      { message: "Variant IDs must be unique" }
+    )
+    .optional(),
 });
 
 export type DropConfig = z.infer<typeof dropConfigSchema>;
 
+/**
+ * Drop config update schema (fields editable before the lottery runs)
+ */
+export const dropConfigUpdateSchema = z
+  .object({
+    inventory: dropConfigSchema.shape.inventory.optional(),
+    registrationEnd: z.number().int().min(0, "Invalid timestamp").optional(),
+    maxTicketsPerUser: z.number().int().min(1).max(100).optional(),
+    backupMultiplier: z.number().min(1).max(3).optional(),
+    geoFence: geoFenceSchema.optional(),
+    geoFenceMode: z.enum(["exclusive", "bonus"]).optional(),
+    geoFenceBonusMultiplier: z.number().min(1).max(5).optional(),
+    lotteryAlgorithm: lotteryAlgorithmSchema.optional(),
+    cohortQuotas: cohortQuotasSchema.optional(),
+  })
+  .strict()
+  .refine((update) => Object.keys(update).length > 0, {
+    message: "At least one field must be changed",
+  });
+
+export type DropConfigUpdate = z.infer<typeof dropConfigUpdateSchema>;
+
+// ============================================================
+// Admin Schemas
+// ============================================================
+
+/**
+ * Admin drop cancellation schema
+ */
+export const adminCancelSchema = z.object({
+  reason: z
+    .string()
+    .min(1, "Reason is required")
+    .max(500, "Reason too long"),
+});
+
+export type AdminCancelRequest = z.infer<typeof adminCancelSchema>;
+
+/**
+ * Admin disqualify request schema
+ */
+export const adminDisqualifySchema = z.object({
+  userIds: z
+    .array(userIdSchema)
+    .min(1, "At least one user ID is required")
+    .max(1000, "Too many user IDs"),
+  reason: z
+    .string()
+    .min(1, "Reason is required")
+    .max(500, "Reason too long"),
+});
+
+export type AdminDisqualifyRequest = z.infer<typeof adminDisqualifySchema>;
+
+/**
+ * Blocklist entry identity ("ip" accepts a raw IP or its hash)
+ */
+const blocklistTargetSchema = z.object({
+  kind: z.enum(["user", "fingerprint", "ip"]),
+  value: z
+    .string()
+    .min(1, "Value is required")
+    .max(256, "Value too long"),
+});
+
+/**
+ * Blocklist add request schema
+ */
+export const blocklistAddSchema = z.object({
+  entries: z
+    .array(
+      blocklistTargetSchema.extend({
+        reason: z.string().max(500, "Reason too long").optional(),
+      })
+    )
+    .min(1, "At least one entry is required")
+    .max(1000, "Too many entries"),
+});
+
+export type BlocklistAddRequest = z.infer<typeof blocklistAddSchema>;
+
+/**
+ * Blocklist remove request schema
+ */
+export const blocklistRemoveSchema = z.object({
+  entries: z
+    .array(blocklistTargetSchema)
+    .min(1, "At least one entry is required")
+    .max(1000, "Too many entries"),
+});
+
+export type BlocklistRemoveRequest = z.infer<typeof blocklistRemoveSchema>;
+
+/**
+ * Model registry version id (used as a NATS KV key token, so no dots)
+ */
+export const modelVersionSchema = z
+  .string()
+  .min(1, "Model version is required")
+  .max(64, "Model version too long")
+  .regex(/^[a-zA-Z0-9_-]+$/, "Invalid model version format");
+
+/**
+ * Model upload request schema
+ * `model` is a SerializedModel (pnpm train-model output); the trees are
+ * checked when the forest is built
+ */
+export const modelUploadSchema = z.object({
+  version: modelVersionSchema,
+  model: z.object({
+    version: z.string(),
+    createdAt: z.number(),
+    config: z.object({
+      numTrees: z.number().int().min(1),
+      sampleSize: z.number().int().min(1),
+      contamination: z.number().min(0).max(0.5),
+      featureCount: z.number().int(),
+    }),
+    trees: z.array(z.any()).min(1, "Model has no trees"),
+    threshold: z.number().min(0).max(1),
+  }),
+});
+
+export type ModelUploadRequest = z.infer<typeof modelUploadSchema>;
+
+/**
+ * Shadow model request schema (null stops shadow scoring)
+ */
+export const modelShadowSchema = z.object({
+  version: modelVersionSchema.nullable(),
+});
+
+/**
+ * Model promotion request schema (defaults to the current shadow)
+ */
+export const modelPromoteSchema = z.object({
+  version: modelVersionSchema.optional(),
+});
+
+/**
+ * Lottery simulation scenario schema
+ * Drop fields mirror dropConfigSchema; participants × iterations is capped
+ * by MAX_SIMULATION_WORK
+ */
+export const simulationScenarioSchema = z.object({
+  participants: z
+    .number()
+    .int()
+    .min(1, "At least one participant is required")
+    .max(100000, "Maximum 100000 participants"),
+  inventory: z
+    .number()
+    .int("Inventory must be an integer")
+    .min(1, "Must have at least 1 item")
+    .max(10000, "Maximum 10000 items"),
+  ticketWeights: z
+    .array(z.number().min(0))
+    .min(1, "At least one ticket weight is required")
+    .max(100)
+    .refine((weights) => weights.some((w) => w > 0), {
+      message: "At least one ticket weight must be positive",
+    }),
+  maxTicketsPerUser: dropConfigSchema.shape.maxTicketsPerUser,
+  ticketPriceUnit: dropConfigSchema.shape.ticketPriceUnit,
+  backupMultiplier: dropConfigSchema.shape.backupMultiplier,
+  expectedUnitsPerWinner: dropConfigSchema.shape.expectedUnitsPerWinner,
+  loyaltyMix: z
+    .object({
+      bronze: z.number().min(0).optional(),
+      silver: z.number().min(0).optional(),
+      gold: z.number().min(0).optional(),
+    })
+    .refine(
+      (mix) => (mix.bronze ?? 0) + (mix.silver ?? 0) + (mix.gold ?? 0) > 0,
+      { message: "At least one loyalty tier share must be positive" }
+    )
+    .optional(),
+  geoZoneShare: z.number().min(0).max(1).optional(),
+  geoFenceBonusMultiplier: dropConfigSchema.shape.geoFenceBonusMultiplier,
+  purchaseRate: z.number().min(0).max(1).optional(),
+  iterations: z.number().int().min(1).max(100000).optional(),
+  seed: z.string().min(1).max(200).optional(),
+});
+
+export type SimulationScenarioRequest = z.infer<typeof simulationScenarioSchema>;
+
 // ============================================================
 // SSE Schemas
 // ============================================================
@@ -0,0 +1,290 @@
+/**
+ * Monte Carlo lottery simulator for drop planning
+ *
+ * Draws a synthetic participant population from the expected ticket,
+ * loyalty and geo distributions, runs the production weighted draw
+ * (selectWinnersWithMultipliers, Fenwick tree) on it and plays out the
+ * purchase window: winners who don't check out are replaced by backups in
+ * order. Repeated over many iterations this estimates win probability per
+ * ticket count, backup depth consumed and entry revenue under quadratic
+ * pricing.
+ *
+ * Rollover credits and the loyalty progression between drops aren't
+ * modelled: every paid entry is charged and tiers are fixed per scenario.
+ */
+
+import { config } from "./config.js";
+import {
+  calculateUpgradeCost,
+  createSeededRNG,
+  selectWinnersWithMultipliers,
+} from "./lottery.js";
+import type { LoyaltyTier } from "./types.js";
+
+/** Upper bound on participants × iterations for a single simulation */
+export const MAX_SIMULATION_WORK = 5_000_000;
+
+/** Share of winners assumed to complete their purchase */
+const DEFAULT_PURCHASE_RATE = 0.9;
+
+/** Iterations when the scenario doesn't set them */
+export const DEFAULT_SIMULATION_ITERATIONS = 1000;
+
+const LOYALTY_TIERS: LoyaltyTier[] = ["bronze", "silver", "gold"];
+
+export interface SimulationScenario {
+  participants: number; // Expected registrations
+  inventory: number;
+  ticketWeights: number[]; // Relative share entering with 1, 2, 3... tickets
+  maxTicketsPerUser?: number; // Caps ticketWeights (default: drop default)
+  ticketPriceUnit?: number; // Default: drop default
+  backupMultiplier?: number; // Default: drop default
+  expectedUnitsPerWinner?: number; // Default: 1
+  loyaltyMix?: Partial<Record<LoyaltyTier, number>>; // Relative share per tier (default: all bronze)
+  geoZoneShare?: number; // Share inside a bonus-mode geo-fence (0-1, default 0)
+  geoFenceBonusMultiplier?: number; // Default: geo default
+  purchaseRate?: number; // Share of winners who check out (0-1)
+  iterations?: number;
+  seed?: string; // Makes runs reproducible
+}
+
+export interface SimulatedOutcome {
+  label: string; // "3 tickets", "gold", "inside zone"
+  participants: number; // Average per draw
+  winProbability: number; // Primary win
+  backupProbability: number; // Drawn as a backup
+  purchaseProbability: number; // Ended up buying (primary or promoted)
+}
+
+export interface SimulationSummary {
+  mean: number;
+  p5: number;
+  p95: number;
+  min: number;
+  max: number;
+}
+
+export interface SimulationResult {
+  iterations: number;
+  seed: string;
+  primaryWinners: number; // Per draw
+  backupWinners: number; // Per draw
+  byTickets: SimulatedOutcome[];
+  byLoyaltyTier: SimulatedOutcome[];
+  byGeoZone?: SimulatedOutcome[];
+  backupDepth: SimulationSummary & {
+    exhaustedRate: number; // Draws where backups ran out before slots were filled
+  };
+  revenue: SimulationSummary & {
+    perParticipant: number; // Mean revenue / participants
+  };
+}
+
+interface OutcomeTally {
+  participants: number;
+  winners: number;
+  backups: number;
+  purchases: number;
+}
+
+/**
+ * Run a Monte Carlo simulation of a drop
+ */
+export function simulateDrop(scenario: SimulationScenario): SimulationResult {
+  const iterations = scenario.iterations ?? DEFAULT_SIMULATION_ITERATIONS;
+  const seed = scenario.seed ?? `simulation:${Date.now()}`;
+  const maxTickets =
+    scenario.maxTicketsPerUser ?? config.drop.defaultMaxTickets;
+  const ticketWeights = scenario.ticketWeights.slice(0, maxTickets);
+  const priceUnit = scenario.ticketPriceUnit ?? config.drop.defaultPriceUnit;
+  const backupMultiplier =
+    scenario.backupMultiplier ?? config.backup.defaultMultiplier;
+  const geoBonus =
+    scenario.geoFenceBonusMultiplier ?? config.geo.defaultBonusMultiplier;
+  const geoZoneShare = scenario.geoZoneShare ?? 0;
+  const purchaseRate = scenario.purchaseRate ?? DEFAULT_PURCHASE_RATE;
+  const tierWeights = LOYALTY_TIERS.map(
+    (tier) => scenario.loyaltyMix?.[tier] ?? (tier === "bronze" ? 1 : 0)
+  );
+
+  // Same winner counts as runLottery
+  const primaryCount = Math.min(
+    Math.ceil(scenario.inventory / (scenario.expectedUnitsPerWinner ?? 1)),
+    scenario.participants
+  );
+  const totalToSelect = Math.min(
+    Math.ceil(primaryCount * backupMultiplier),
+    scenario.participants
+  );
+
+  // Zero-padded IDs sort in index order, so the draw's userId sort is cheap
+  const width = String(scenario.participants).length;
+  const userIds = Array.from(
+    { length: scenario.participants },
+    (_, i) => `p${String(i).padStart(width, "0")}`
+  );
+
+  const byTickets = new Map<number, OutcomeTally>();
+  const byTier = new Map<number, OutcomeTally>();
+  const byZone = new Map<number, OutcomeTally>();
+  const depths: number[] = [];
+  const revenues: number[] = [];
+  let exhausted = 0;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const random = createSeededRNG(`${seed}:population:${iteration}`);
+    const participantTickets: Record<string, number> = {};
+    const participantMultipliers: Record<string, number> = {};
+    const tickets: number[] = [];
+    const tiers: number[] = [];
+    const zones: number[] = [];
+    let revenue = 0;
+
+    for (let i = 0; i < userIds.length; i++) {
+      const count = pickWeighted(ticketWeights, random) + 1;
+      const tier = pickWeighted(tierWeights, random);
+      const inZone = random() < geoZoneShare ? 0 : 1;
+
+      tickets.push(count);
+      tiers.push(tier);
+      zones.push(inZone);
+      participantTickets[userIds[i]] = count;
+      participantMultipliers[userIds[i]] =
+        config.loyalty.tiers[LOYALTY_TIERS[tier]].multiplier *
+        (inZone === 0 ? geoBonus : 1);
+      revenue += calculateUpgradeCost(count, priceUnit);
+    }
+    revenues.push(revenue);
+
+    const selected = selectWinnersWithMultipliers(
+      participantTickets,
+      participantMultipliers,
+      totalToSelect,
+      `${seed}:draw:${iteration}`
+    );
+
+    // Purchase window: each missed purchase promotes the next backup
+    const purchased = new Set<string>();
+    let openSlots = 0;
+    for (const userId of selected.slice(0, primaryCount)) {
+      if (random() < purchaseRate) purchased.add(userId);
+      else openSlots++;
+    }
+    let depth = 0;
+    for (const userId of selected.slice(primaryCount)) {
+      if (openSlots === 0) break;
+      depth++;
+      if (random() < purchaseRate) {
+        purchased.add(userId);
+        openSlots--;
+      }
+    }
+    depths.push(depth);
+    if (openSlots > 0) exhausted++;
+
+    const rank = new Map(selected.map((userId, i) => [userId, i]));
+    for (let i = 0; i < userIds.length; i++) {
+      const position = rank.get(userIds[i]);
+      const outcome = {
+        won: position !== undefined && position < primaryCount,
+        backup: position !== undefined && position >= primaryCount,
+        purchased: purchased.has(userIds[i]),
+      };
+      tally(byTickets, tickets[i], outcome);
+      tally(byTier, tiers[i], outcome);
+      tally(byZone, zones[i], outcome);
+    }
+  }
+
+  const revenue = summarize(revenues);
+  return {
+    iterations,
+    seed,
+    primaryWinners: primaryCount,
+    backupWinners: totalToSelect - primaryCount,
+    byTickets: toOutcomes(byTickets, iterations, (count) =>
+      `${count} ${count === 1 ? "ticket" : "tickets"}`
+    ),
+    byLoyaltyTier: toOutcomes(byTier, iterations, (tier) => LOYALTY_TIERS[tier]),
+    byGeoZone:
+      geoZoneShare > 0
+        ? toOutcomes(byZone, iterations, (zone) =>
+            zone === 0 ? "inside zone" : "outside zone"
+          )
+        : undefined,
+    backupDepth: {
+      ...summarize(depths),
+      exhaustedRate: iterations > 0 ? exhausted / iterations : 0,
+    },
+    revenue: {
+      ...revenue,
+      perParticipant:
+        scenario.participants > 0 ? revenue.mean / scenario.participants : 0,
+    },
+  };
+}
+
+/**
+ * Index drawn with probability proportional to its weight
+ */
+function pickWeighted(weights: number[], random: () => number): number {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let target = random() * total;
+  for (let i = 0; i < weights.length; i++) {
+    target -= weights[i];
+    if (target < 0) return i;
+  }
+  // Rounding at the top end: last non-zero weight
+  for (let i = weights.length - 1; i > 0; i--) {
+    if (weights[i] > 0) return i;
+  }
+  return 0;
+}
+
+function tally(
+  groups: Map<number, OutcomeTally>,
+  key: number,
+  outcome: { won: boolean; backup: boolean; purchased: boolean }
+): void {
+  let group = groups.get(key);
+  if (!group) {
+    group = { participants: 0, winners: 0, backups: 0, purchases: 0 };
+    groups.set(key, group);
+  }
+  group.participants++;
+  if (outcome.won) group.winners++;
+  if (outcome.backup) group.backups++;
+  if (outcome.purchased) group.purchases++;
+}
+
+function toOutcomes(
+  groups: Map<number, OutcomeTally>,
+  iterations: number,
+  labelOf: (key: number) => string
+): SimulatedOutcome[] {
+  return [...groups.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([key, group]) => ({
+      label: labelOf(key),
+      participants: group.participants / iterations,
+      winProbability: group.winners / group.participants,
+      backupProbability: group.backups / group.participants,
+      purchaseProbability: group.purchases / group.participants,
+    }));
+}
+
+function summarize(values: number[]): SimulationSummary {
+  if (values.length === 0) {
+    return { mean: 0, p5: 0, p95: 0, min: 0, max: 0 };
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) =>
+    sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  return {
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    p5: at(0.05),
+    p95: at(0.95),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
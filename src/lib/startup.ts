@@ -54,6 +54,24 @@ const ENV_REQUIREMENTS: EnvRequirement[] = [
     required: false,
     description: "FingerprintJS Pro API key for enhanced bot detection",
   },
+  {
+    name: "POW_SCRYPT_COST",
+    required: false,
+    description: "scrypt PoW cost N (power of 2, 1024-1048576)",
+    validator: (v) => {
+      const n = Number(v);
+      return Number.isInteger(n) && n >= 1024 && n <= 1048576 && (n & (n - 1)) === 0;
+    },
+  },
+  {
+    name: "POW_SHA256_FALLBACK_PENALTY",
+    required: false,
+    description: "Extra hex zeros for SHA-256 fallback PoW (0-4)",
+    validator: (v) => {
+      const n = Number(v);
+      return Number.isInteger(n) && n >= 0 && n <= 4;
+    },
+  },
   // Port configuration (optional, has defaults)
   {
     name: "API_PORT",
@@ -169,7 +187,10 @@ function logConfigSummary(): void {
     natsUrl: config.nats.url,
     restateUrl: config.restate.ingressUrl,
     corsOrigins: config.security.corsOrigins.length,
-    powDifficulty: config.pow.difficulty,
+    powDifficulty: config.pow.adaptive
+      ? `${config.pow.difficulty} (adaptive ${config.pow.minDifficulty}-${config.pow.maxDifficulty})`
+      : config.pow.difficulty,
+    powScrypt: config.pow.scrypt.enabled ? `N=${config.pow.scrypt.cost}` : false,
     rateLimitMax: config.rateLimit.maxRequests,
     rateLimitWindow: `${config.rateLimit.windowMs / 1000}s`,
   }, "Configuration loaded");
@@ -1,16 +1,95 @@
-export type Phase = "registration" | "lottery" | "purchase" | "completed";
+import type { PaymentStatus } from "./payments/types.js";
+
+export type Phase =
+  | "upcoming"
+  | "registration"
+  | "lottery"
+  | "purchase"
+  | "completed"
+  | "cancelled";
 
 export type UserStatus =
   | "not_registered"
+  | "pending_payment"
   | "registered"
   | "winner"
   | "backup_winner"
   | "loser"
   | "purchased"
-  | "expired";
+  | "expired"
+  | "cancelled"
+  | "disqualified";
 
 export type LoyaltyTier = "bronze" | "silver" | "gold";
 
+// ============================================================================
+// Lottery Algorithm Types
+// ============================================================================
+
+/**
+ * Versioned lottery algorithms (see LOTTERY_ALGORITHMS in lottery.ts)
+ */
+export type LotteryAlgorithmId =
+  | "weighted-fenwick-v2" // Weighted by effective tickets, without replacement
+  | "uniform-v1" // One entry per participant, tickets ignored
+  | "tiered-priority-v1" // Whole loyalty tiers drawn in priority order
+  | "reserved-quota-v1"; // Share of winner slots held for first-time entrants
+
+/**
+ * Algorithm parameters (only the ones the chosen algorithm reads)
+ */
+export interface LotteryAlgorithmParams {
+  tierOrder?: LoyaltyTier[]; // tiered-priority: draw order of tiers (default gold, silver, bronze)
+  reservedShare?: number; // reserved-quota: fraction of primary winner slots (0-1, default 0.2)
+}
+
+/**
+ * Lottery algorithm selected for a drop
+ */
+export interface LotteryAlgorithmConfig {
+  id: LotteryAlgorithmId;
+  params?: LotteryAlgorithmParams;
+}
+
+/**
+ * Participant attributes captured at registration for algorithms that
+ * group the draw
+ */
+export interface ParticipantProfile {
+  loyaltyTier: LoyaltyTier;
+  firstTime: boolean; // No earlier drop participation at registration time
+  inGeoZone?: boolean; // Inside the geo-fence at registration
+}
+
+/**
+ * Rule deciding who belongs to a cohort
+ */
+export type CohortCriterion =
+  | { type: "first_time" }
+  | { type: "loyalty_tier"; tiers: LoyaltyTier[] }
+  | { type: "geo_zone" }
+  | { type: "min_multiplier"; value: number }; // Combined loyalty x geo multiplier
+
+/**
+ * Share of primary winner slots guaranteed to a cohort
+ * Quotas are drawn in config order; a participant wins at most one slot
+ */
+export interface CohortQuota {
+  id: string; // [a-zA-Z0-9_-], unique per drop
+  criterion: CohortCriterion;
+  share: number; // Fraction of primary winner slots (0-1]; shares sum to at most 1
+}
+
+/**
+ * How a cohort's sub-lottery went (recorded in the proof)
+ */
+export interface CohortQuotaResult {
+  id: string;
+  slots: number; // Primary slots reserved for the cohort
+  eligible: number; // Members still undrawn when the cohort's sub-lottery ran
+  filled: number; // Slots won by members; the rest overflowed to the general pool
+}
+
 // ============================================================================
 // Geo-Fence Types
 // ============================================================================
@@ -41,12 +120,44 @@ export type GeoFenceMode = "exclusive" | "bonus";
 // Drop Configuration
 // ============================================================================
 
+/**
+ * One purchasable variant of a drop (e.g. a size or color)
+ */
+export interface DropVariant {
+  id: string; // e.g. "us-10"
+  label: string; // e.g. "US 10"
+  inventory: number;
+}
+
+/**
+ * Remaining stock for one variant of a multi-SKU drop (sent to clients)
+ */
+export interface VariantStock {
+  id: string;
+  label: string;
+  inventory: number; // Remaining (unsold)
+  initialInventory: number;
+  reserved?: number; // Held for winners checking out
+}
+
+/**
+ * Inventory breakdown during the purchase window
+ * total = available + reserved + sold
+ */
+export interface InventoryCounts {
+  total: number;
+  available: number; // Neither held nor sold
+  reserved: number; // Held for winners between startPurchase and purchase/expiry
+  sold: number;
+}
+
 export interface DropConfig {
   dropId: string;
-  inventory: number;
+  inventory: number; // Total across variants when variants are set
   registrationStart: number; // Unix timestamp
   registrationEnd: number; // Unix timestamp
   purchaseWindow: number; // seconds
+  checkoutWindow?: number; // seconds each winner has from token issuance (default: rest of the purchase window)
   // Ticket pricing
   ticketPriceUnit: number; // Base price per additional ticket (default: 1.0)
   maxTicketsPerUser: number; // Maximum tickets per user (default: 10)
@@ -58,6 +169,45 @@ export interface DropConfig {
   geoFence?: GeoFence;
   geoFenceMode?: GeoFenceMode; // "exclusive" or "bonus"
   geoFenceBonusMultiplier?: number; // e.g., 1.5 for 50% more tickets in bonus mode
+  // Multi-SKU: per-variant inventory (sizes/colors)
+  variants?: DropVariant[];
+  // Multi-unit purchases
+  maxUnitsPerWinner?: number; // Units each winner may buy (default: 1)
+  expectedUnitsPerWinner?: number; // Average used to size the winner count (default: 1)
+  // Public randomness beacon (set by initialize when a source is configured)
+  beaconSource?: string; // Randomness source the drop committed to
+  beaconRound?: number; // First beacon round at or after registrationEnd
+  // Lottery algorithm (default: weighted-fenwick-v2)
+  lotteryAlgorithm?: LotteryAlgorithmConfig;
+  // Winner quotas drawn before the general pool
+  cohortQuotas?: CohortQuota[];
+}
+
+/**
+ * Config fields that can be edited before the lottery runs
+ */
+export type DropConfigUpdate = Partial<
+  Pick<
+    DropConfig,
+    | "inventory"
+    | "registrationEnd"
+    | "maxTicketsPerUser"
+    | "backupMultiplier"
+    | "geoFence"
+    | "geoFenceMode"
+    | "geoFenceBonusMultiplier"
+    | "lotteryAlgorithm"
+    | "cohortQuotas"
+  >
+>;
+
+/**
+ * One entry in a drop's config-change history
+ */
+export interface DropConfigChange {
+  changedAt: number; // Unix timestamp ms
+  changedBy?: string; // Admin key name
+  changes: Partial<Record<keyof DropConfigUpdate, { from: unknown; to: unknown }>>;
 }
 
 /**
@@ -72,14 +222,42 @@ export interface LotteryProof {
   commitment: string; // SHA256(secret) - published before registration ends
   secret: string; // Revealed after lottery
   participantMerkleRoot: string; // Merkle root of all participants (replaces full snapshot)
+  merkleVersion?: MerkleVersion; // Tree format; absent = 1
   participantCount: number; // Number of participants for context
-  seed: string; // SHA256(secret + merkleRoot)
-  algorithm: string; // "weighted-fenwick-v2"
+  seed: string; // SHA256(secret|merkleRoot), or SHA256(secret|merkleRoot|beacon.value) with a beacon
+  algorithm: string; // LotteryAlgorithmId, e.g. "weighted-fenwick-v2"
+  algorithmParams?: LotteryAlgorithmParams; // Resolved parameters (defaults filled in)
+  participantProfilesHash?: string; // Profile-based algorithms: SHA256 of the leaf-ordered profiles the draw grouped by
+  cohortQuotas?: CohortQuota[]; // Quotas the draw was partitioned by
+  cohortResults?: CohortQuotaResult[]; // Per-quota slots and fill, in draw order
+  cohortMembershipHash?: string; // SHA256 of the leaf-ordered cohort memberships
   timestamp: number; // When lottery ran
   winners: string[]; // Selected winners for verification
   backupWinners: string[]; // Backup winners
+  winnerVariants?: Record<string, string>; // Multi-SKU: userId -> allocated variantId
+  variantSlots?: Record<string, number>; // Multi-SKU: winner slots per variant (config order), the allocation input
+  beacon?: LotteryBeacon; // Public randomness mixed into the seed
+  disqualifiedUserHashes?: string[]; // Sorted SHA256(commitment:userId) of users removed before the draw
+}
+
+/**
+ * Public beacon round mixed into a lottery seed
+ * The round is committed at drop creation; the value is fetched when the lottery runs
+ */
+export interface LotteryBeacon {
+  source: string; // Randomness source name ("drand", "fixture")
+  round: number;
+  value: string; // Hex randomness published for the round
+  signature?: string; // Beacon signature, for checking against the beacon's public key
 }
 
+/**
+ * Merkle tree format
+ * 1: sorted pairs, no leaf/node domain separation (legacy proofs)
+ * 2: 0x00/0x01 leaf/node prefixes, positional proofs and multiproofs
+ */
+export type MerkleVersion = 1 | 2;
+
 /**
  * Merkle leaf data for a participant
  */
@@ -89,6 +267,22 @@ export interface MerkleLeafData {
   index: number;
 }
 
+/**
+ * One participant in a drop's lottery export (third-party audits)
+ * The userId is replaced by a per-drop pseudonym; leafHash still commits to
+ * it, so winners (whose IDs the proof publishes) can be matched to their leaf
+ */
+export interface ParticipantExportRow {
+  index: number; // Leaf position (participants sorted by userId)
+  pseudonym: string;
+  effectiveTickets: number;
+  leafHash: string; // Hash of userId:effectiveTickets:index under the proof's merkleVersion
+  variantPreferences?: string[]; // Multi-SKU: ranked preferences
+  loyaltyTier?: LoyaltyTier; // Profile-based algorithms: tier at registration
+  firstTime?: boolean; // Profile-based algorithms: first drop for this user
+  cohorts?: string[]; // Cohort quotas: IDs of the cohorts this participant belonged to
+}
+
 /**
  * Individual user's Merkle inclusion proof
  * Allows a user to independently verify they were included in the lottery
@@ -98,7 +292,80 @@ export interface UserInclusionProof {
   leafHash: string;
   proof: string[]; // Sibling hashes from leaf to root
   merkleRoot: string;
+  merkleVersion: MerkleVersion;
+  leafCount: number; // v2 proofs are positional against the tree width
+  verified: boolean; // Server-side verification result
+  pseudonym?: string; // The user's row in the participant export
+}
+
+/**
+ * Batched inclusion proof for several users (v2 trees only)
+ * One set of sibling hashes covers every listed leaf
+ */
+export interface MultiInclusionProof {
+  leaves: MerkleLeafData[]; // Sorted by index
+  leafHashes: string[];
+  proof: string[];
+  merkleRoot: string;
+  merkleVersion: 2;
+  leafCount: number;
   verified: boolean; // Server-side verification result
+  notFound: string[]; // Requested users who weren't in the lottery
+}
+
+// ============================================================================
+// Fairness Report Types
+// ============================================================================
+
+/**
+ * Expected vs actual primary wins for a group of participants
+ */
+export interface FairnessBucket {
+  label: string; // e.g. "3 tickets", "1.50x", "gold"
+  participants: number;
+  tickets: number; // Tickets entered
+  effectiveTickets: number; // After loyalty / geo multipliers
+  winners: number;
+  expectedWinners: number; // Sum of the group's win probabilities
+  expectedWinRate: number; // expectedWinners / participants
+  actualWinRate: number; // winners / participants
+}
+
+/**
+ * Chi-square goodness-of-fit of winners per ticket bucket
+ * Buckets are pooled until each expects at least 5 winners and 5 losers
+ */
+export interface FairnessChiSquare {
+  // false for tiered, reserved-quota, cohort-quota and multi-SKU draws, which
+  // deviate from the expectation model by design (not tested, passed is true)
+  applicable: boolean;
+  statistic: number;
+  degreesOfFreedom: number; // 0 when too few participants to test
+  pValue: number;
+  passed: boolean; // pValue at or above FAIRNESS_P_VALUE_THRESHOLD
+}
+
+/**
+ * Post-lottery fairness report, generated when the draw runs
+ */
+export interface FairnessReport {
+  generatedAt: number; // Unix timestamp ms
+  algorithm: string; // LotteryAlgorithmId the draw used
+  // Expected rates model a plain draw without replacement weighted by
+  // effective tickets ("weighted", estimated by replaying the draw) or one
+  // entry each ("uniform"); grouped algorithms, cohort quotas and multi-SKU
+  // allocation deviate from it by design
+  expectationModel: "weighted" | "uniform";
+  participantCount: number;
+  winnerCount: number; // Primary winners at draw time
+  totalTickets: number;
+  totalEffectiveTickets: number;
+  gini: number; // Gini coefficient of effective tickets (0 = equal)
+  ticketBuckets: FairnessBucket[]; // By tickets entered
+  multiplierBuckets: FairnessBucket[]; // By combined loyalty × geo multiplier
+  loyaltyBuckets: FairnessBucket[]; // By loyalty tier at registration
+  geoBuckets?: FairnessBucket[]; // Geo-fenced drops: inside vs outside the zone
+  chiSquare: FairnessChiSquare;
 }
 
 export interface DropState {
@@ -115,9 +382,55 @@ export interface DropState {
   // Verifiable lottery
   lotterySecret?: string; // Revealed after lottery runs
   lotteryProof?: LotteryProof; // Full audit trail
+  fairnessReport?: FairnessReport; // Expected vs actual win rates of the draw
   // Merkle tree data for inclusion proofs (stored after lottery runs)
   participantLeaves?: MerkleLeafData[]; // Sorted participant data for proof generation
   participantLeafHashes?: string[]; // Leaf hashes for proof generation
+  // Cancellation (admin)
+  cancelledAt?: number; // Unix timestamp ms
+  cancelReason?: string;
+  cancelledBy?: string; // Admin key name that cancelled the drop
+  // Users to notify when registration opens (upcoming phase only)
+  reminderSubscribers?: string[];
+  // Config edits made before the lottery (oldest first)
+  configHistory?: DropConfigChange[];
+  // Multi-SKU drops
+  variantInventory?: Record<string, number>; // variantId -> remaining (unsold)
+  participantVariants?: Record<string, string[]>; // userId -> ranked variant preferences
+  // Lottery algorithm inputs captured at registration
+  participantProfiles?: Record<string, ParticipantProfile>; // userId -> tier / first-time
+  // Identity signals matched against the blocklist before the draw
+  participantIdentities?: Record<string, ParticipantIdentity>; // userId -> fingerprint / IP hash
+  disqualified?: Record<string, Disqualification>; // userId -> why they were removed
+  winnerVariants?: Record<string, string>; // userId -> allocated variantId
+  // Inventory holds and sales during the purchase window
+  reservations?: Record<string, InventoryReservation>; // userId -> units held since startPurchase
+  purchasedUnits?: Record<string, number>; // userId -> units bought
+  // Registrations held until their entry payment is confirmed
+  pendingPayments?: Record<string, PendingPayment>; // userId -> payment
+  paymentAttempts?: Record<string, number>; // userId -> authorizations made
+}
+
+/**
+ * Units held for a winner from startPurchase until they buy or their token expires
+ */
+export interface InventoryReservation {
+  units: number;
+  variantId?: string; // Multi-SKU: variant the units are held from
+  reservedAt: number; // Unix timestamp ms
+  expiresAt: number; // Unix timestamp ms - matches the purchase token expiry
+}
+
+/**
+ * Entry payment awaiting confirmation
+ * Tickets are held in participantTickets until it is captured or released
+ */
+export interface PendingPayment {
+  paymentId: string;
+  amount: number; // Minor units
+  attempt: number; // Authorization attempt (for idempotency keys)
+  rolloverUsed: number; // Refunded if the payment fails
+  expiresAt: number; // Unix timestamp ms
 }
 
 export interface ParticipantState {
@@ -125,6 +438,7 @@ export interface ParticipantState {
   tickets?: number; // Total entries for this drop
   effectiveTickets?: number; // Tickets after loyalty multiplier applied
   rolloverUsed?: number; // How many rollover entries were consumed this drop
+  rolloverForfeited?: number; // Consumed rollover lost to a disqualification
   paidEntries?: number; // How many entries were paid (for rollover calculation)
   queuePosition?: number; // Position for winners (1, 2, 3...)
   backupPosition?: number; // Position in backup queue (1, 2, 3...)
@@ -133,6 +447,14 @@ export interface ParticipantState {
   // Loyalty info at time of registration
   loyaltyTier?: LoyaltyTier;
   loyaltyMultiplier?: number;
+  // Payment for paid entries (authorized at registration, captured on confirmation)
+  paymentId?: string;
+  paymentStatus?: PaymentStatus;
+  paymentAmount?: number; // Minor units
+  paymentAttempt?: number; // Authorization attempt (for idempotency keys)
+  // Multi-SKU: variant allocated at the lottery or on promotion
+  variantId?: string;
+  purchasedUnits?: number; // Units bought (multi-unit drops)
 }
 
 /**
@@ -160,7 +482,7 @@ export interface BotValidationRequest {
   fingerprint: string; // FingerprintJS Pro visitorId
   fingerprintConfidence: number; // 0-100
   timingMs: number; // Time from page load to registration
-  powSolution: string; // Argon2 hash solution
+  powSolution: string; // Nonce solving the PoW challenge
   powChallenge: string; // Original challenge
 }
 
@@ -168,13 +490,11 @@ export interface BotValidationResult {
   trustScore: number; // 0-100
   allowed: boolean;
   reason?: string;
+  anomalyScore?: number; // Isolation Forest score (0-1), when the model was consulted
 }
 
-export interface PowChallenge {
-  challenge: string;
-  difficulty: number;
-  timestamp: number;
-}
+// PoW challenge types are shared with the browser solver
+export type { PowChallenge, PowScheme, ScryptParams } from "../../shared/types.js";
 
 export interface SSEEvent {
   type: "connected" | "drop" | "user";
@@ -185,7 +505,11 @@ export interface SSEEvent {
   totalEffectiveTickets?: number; // Total effective tickets in the pool (with multipliers)
   inventory?: number;
   initialInventory?: number; // Original inventory for display/metrics
+  ticketPricing?: TicketPricing; // Sent on drop events so config edits reach clients
+  variants?: VariantStock[]; // Multi-SKU: per-variant remaining stock
+  inventoryCounts?: InventoryCounts; // Held vs sold breakdown
   // Timing info (for synchronized countdown)
+  registrationStart?: number; // Unix timestamp ms - when registration opens
   registrationEnd?: number; // Unix timestamp ms
   purchaseEnd?: number; // Unix timestamp ms - when purchase window closes
   serverTime?: number; // Server's current time for clock sync
@@ -200,8 +524,12 @@ export interface SSEEvent {
   // Backup winner info
   backupPosition?: number; // Position in backup queue
   promoted?: boolean; // True when backup is promoted to winner
+  paymentError?: string; // Why a pending registration was released
+  variantId?: string; // Multi-SKU: variant allocated to a winner
   // Lottery verification
   lotteryCommitment?: string; // Published commitment hash
+  // Cancellation
+  cancelReason?: string; // Set on the terminal event of a cancelled drop
   // Geo-fence
   geoFence?: GeoFence;
   geoFenceMode?: GeoFenceMode;
@@ -216,11 +544,50 @@ export interface RegisterRequest {
   tickets: number; // Total desired entries (1-10)
   botValidation: BotValidationRequest;
   location?: GeoCoordinates; // User's location for geo-fenced drops
+  variantPreferences?: string[]; // Multi-SKU: variant IDs, most wanted first
+  identity?: ParticipantIdentity; // Set by the API, not the client
+}
+
+// ============================================================================
+// Disqualification Types
+// ============================================================================
+
+/**
+ * Device and network signals recorded at registration
+ */
+export interface ParticipantIdentity {
+  fingerprint?: string; // Queue token (or bot validation) fingerprint
+  ipHash?: string; // Salted SHA256 of the client IP (hashIpForQueue)
+}
+
+/**
+ * Why a user was removed from a drop before the draw
+ */
+export interface Disqualification {
+  reason: string;
+  source: "admin" | "blocklist";
+  disqualifiedAt: number; // Unix timestamp ms
+  disqualifiedBy?: string; // Admin key name (admin source only)
+}
+
+export type BlocklistKind = "user" | "fingerprint" | "ip";
+
+/**
+ * Global blocklist entry, applied to every drop when its lottery runs
+ * "ip" values are IP hashes as produced by hashIpForQueue
+ */
+export interface BlocklistEntry {
+  kind: BlocklistKind;
+  value: string;
+  reason?: string;
+  addedAt: number; // Unix timestamp ms
+  addedBy?: string; // Admin key name
 }
 
 export interface PurchaseRequest {
   userId: string;
   purchaseToken: string;
+  quantity?: number; // Units to buy (default: units reserved at startPurchase)
 }
 
 // Ticket pricing info returned to clients
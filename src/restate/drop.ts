@@ -2,36 +2,83 @@ import * as restate from "@restatedev/restate-sdk";
 import type {
   DropState,
   DropConfig,
+  FairnessReport,
+  DropConfigChange,
+  DropConfigUpdate,
   Phase,
   RegisterRequest,
+  PurchaseRequest,
   TicketPricing,
   LotteryProof,
+  LotteryBeacon,
   GeoFence,
   GeoFenceMode,
+  VariantStock,
+  InventoryCounts,
+  InventoryReservation,
 } from "../lib/types.js";
 import {
   selectWinnersWeighted,
-  selectWinnersWithMultipliers,
+  selectWinnersWithAlgorithm,
+  rankParticipantsWithAlgorithm,
   generateLotterySeed,
   getTotalTickets,
   getTotalEffectiveTickets,
   getTicketPricing,
   generateLotteryCommitment,
   createLotteryProof,
+  allocateVariantWinners,
+  variantPrimaryCount,
+  getParticipantProfile,
+  validateLotteryAlgorithm,
+  drawWithCohortQuotas,
+  getCohortMembership,
+  getCohortSlots,
+  getParticipantCohorts,
+  validateCohortQuotas,
+  DEFAULT_LOTTERY_ALGORITHM,
 } from "../lib/lottery.js";
 import {
+  LATEST_MERKLE_VERSION,
+  LEGACY_MERKLE_VERSION,
   MerkleTree,
   generateVerifiableSeedFromMerkle,
+  verifyMerkleMultiProof,
   verifyMerkleProof,
 } from "../lib/merkle.js";
-import type { UserInclusionProof } from "../lib/types.js";
+import type {
+  CohortQuota,
+  CohortQuotaResult,
+  Disqualification,
+  MerkleLeafData,
+  MultiInclusionProof,
+  ParticipantProfile,
+  UserInclusionProof,
+} from "../lib/types.js";
 import { isInsideGeoFence, validateGeoFence } from "../lib/geo.js";
-import { publishDropState } from "../lib/nats.js";
-import { deleteDropIndex, upsertDropIndex } from "../lib/nats-kv.js";
+import { publishDropState, publishReminder } from "../lib/nats.js";
+import {
+  deleteDropIndex,
+  listBlocklist,
+  updateDropIndex,
+  upsertDropIndex,
+} from "../lib/nats-kv.js";
+import { findBlockedParticipants } from "../lib/blocklist.js";
+import { buildFairnessReport } from "../lib/fairness.js";
 import { userRolloverObject } from "./user-rollover.js";
 import { userLoyaltyObject } from "./user-loyalty.js";
 import { participantObject } from "./participant.js";
 import { config } from "../lib/config.js";
+import {
+  getPaymentProvider,
+  paidEntriesAmount,
+  paymentIdempotencyKey,
+} from "../lib/payments/provider.js";
+import type { PaymentResult } from "../lib/payments/types.js";
+import {
+  getCommittedRandomnessSource,
+  getRandomnessSource,
+} from "../lib/randomness/provider.js";
 
 // State keys
 const STATE_KEY = "state";
@@ -40,6 +87,8 @@ const STATE_KEY = "state";
 const DEFAULT_PRICE_UNIT = config.drop.defaultPriceUnit;
 const DEFAULT_MAX_TICKETS = config.drop.defaultMaxTickets;
 const DEFAULT_BACKUP_MULTIPLIER = config.backup.defaultMultiplier;
+const MAX_REMINDER_SUBSCRIBERS = config.drop.maxReminderSubscribers;
+const DEFAULT_MAX_UNITS_PER_WINNER = config.drop.defaultMaxUnitsPerWinner;
 
 /**
  * Helper to get current time deterministically in Restate context
@@ -49,6 +98,95 @@ async function getCurrentTime(ctx: restate.ObjectContext): Promise<number> {
   return ctx.run("get_time", () => Date.now());
 }
 
+/**
+ * Per-variant remaining stock for clients (multi-SKU drops only)
+ */
+function getVariantStock(state: DropState): VariantStock[] | undefined {
+  if (!state.config.variants || !state.variantInventory) return undefined;
+  return state.config.variants.map((variant) => ({
+    id: variant.id,
+    label: variant.label,
+    inventory: state.variantInventory?.[variant.id] ?? 0,
+    initialInventory: variant.inventory,
+    reserved: getReservedUnits(state, { variantId: variant.id }),
+  }));
+}
+
+/**
+ * Units held by winners between startPurchase and completePurchase
+ * Optionally limited to one variant; never counts the given user's own hold
+ */
+function getReservedUnits(
+  state: DropState,
+  options: { variantId?: string; excludeUserId?: string } = {}
+): number {
+  return Object.entries(state.reservations ?? {}).reduce(
+    (sum, [userId, reservation]) => {
+      if (userId === options.excludeUserId) return sum;
+      if (options.variantId && reservation.variantId !== options.variantId) {
+        return sum;
+      }
+      return sum + reservation.units;
+    },
+    0
+  );
+}
+
+/**
+ * Unsold units nobody else holds (optionally within one variant)
+ * The only stock startPurchase may reserve, so holds never exceed inventory
+ */
+function getAvailableUnits(
+  state: DropState,
+  options: { variantId?: string; excludeUserId?: string } = {}
+): number {
+  let available =
+    state.inventory -
+    getReservedUnits(state, { excludeUserId: options.excludeUserId });
+  if (options.variantId) {
+    available = Math.min(
+      available,
+      (state.variantInventory?.[options.variantId] ?? 0) -
+        getReservedUnits(state, options)
+    );
+  }
+  return Math.max(0, available);
+}
+
+/**
+ * Held vs sold breakdown for the admin view and SSE stats
+ */
+function getInventoryCounts(state: DropState): InventoryCounts {
+  const total = state.initialInventory ?? state.inventory;
+  const reserved = getReservedUnits(state);
+  return {
+    total,
+    available: Math.max(0, state.inventory - reserved),
+    reserved,
+    sold: total - state.inventory,
+  };
+}
+
+/**
+ * Pick the next backup to promote in a multi-SKU drop
+ * Takes the first backup (in draw order) who will accept one of the
+ * candidate variants, falling back through their ranked preferences
+ */
+function pickBackupForVariants(
+  state: DropState,
+  candidates: string[]
+): { index: number; variantId: string } | undefined {
+  for (let index = 0; index < state.backupWinners.length; index++) {
+    const preferences =
+      state.participantVariants?.[state.backupWinners[index]];
+    const variantId = preferences?.length
+      ? preferences.find((id) => candidates.includes(id))
+      : candidates[0];
+    if (variantId) return { index, variantId };
+  }
+  return undefined;
+}
+
 /**
  * Helper to publish drop state as a side effect
  * Wrapped in ctx.run() to ensure idempotent execution during replay
@@ -69,15 +207,203 @@ async function publishDropStateEffect(
       participantCount,
       totalTickets,
       inventory: state.inventory,
+      registrationStart: state.config.registrationStart,
       registrationEnd: state.config.registrationEnd,
       purchaseEnd: extra?.purchaseEnd ?? state.purchaseEnd,
       serverTime: Date.now(),
       lotteryCommitment: state.config.lotteryCommitment,
       initialInventory: state.initialInventory,
+      variants: getVariantStock(state),
+      inventoryCounts: getInventoryCounts(state),
+      ticketPricing: getTicketPricing(
+        state.config.ticketPriceUnit,
+        state.config.maxTicketsPerUser
+      ),
+      geoFence: state.config.geoFence,
+      geoFenceMode: state.config.geoFenceMode,
+      geoFenceBonusMultiplier: state.config.geoFenceBonusMultiplier,
+      cancelReason: state.cancelReason,
     });
   });
 }
 
+/**
+ * Settle backups that were never promoted as losers
+ * Called once the drop completes; their paid entries become rollover
+ */
+function notifyUnpromotedBackups(
+  ctx: restate.ObjectContext,
+  state: DropState
+): void {
+  for (const userId of state.backupWinners) {
+    ctx
+      .objectSendClient(participantObject, `${state.config.dropId}:${userId}`)
+      .notifyResult({ isWinner: false });
+  }
+}
+
+/**
+ * Release a registration whose entry payment failed or was never confirmed
+ * Voids the authorization, frees the held tickets and refunds consumed rollover.
+ * Caller persists and publishes the updated state.
+ */
+async function releasePendingEntry(
+  ctx: restate.ObjectContext,
+  state: DropState,
+  userId: string,
+  reason: string
+): Promise<void> {
+  const pending = state.pendingPayments?.[userId];
+  if (!pending) return;
+
+  const dropId = state.config.dropId;
+  await ctx.run("payment_void", () =>
+    getPaymentProvider().void({
+      idempotencyKey: paymentIdempotencyKey(
+        dropId,
+        userId,
+        "void",
+        pending.attempt
+      ),
+      paymentId: pending.paymentId,
+    })
+  );
+
+  delete state.pendingPayments?.[userId];
+  delete state.participantTickets[userId];
+  delete state.participantMultipliers[userId];
+  delete state.participantVariants?.[userId];
+  delete state.participantProfiles?.[userId];
+  delete state.participantIdentities?.[userId];
+
+  if (pending.rolloverUsed > 0) {
+    await ctx
+      .objectClient(userRolloverObject, userId)
+      .addRollover({ amount: pending.rolloverUsed });
+  }
+
+  ctx
+    .objectSendClient(participantObject, `${dropId}:${userId}`)
+    .notifyPaymentFailed({ paymentId: pending.paymentId, reason });
+
+  console.log(
+    `[Drop ${dropId}] Released pending entry for ${userId}: ${reason}`
+  );
+}
+
+/**
+ * Expected vs actual win rates of the drop's draw
+ * Uses the primary winners recorded in the proof (promotions don't count)
+ */
+function getFairnessReportFor(
+  state: DropState,
+  generatedAt: number
+): FairnessReport {
+  return buildFairnessReport({
+    algorithm: state.lotteryProof?.algorithm ?? DEFAULT_LOTTERY_ALGORITHM,
+    participantTickets: state.participantTickets,
+    participantMultipliers: state.participantMultipliers,
+    participantProfiles: state.participantProfiles,
+    winners: state.lotteryProof?.winners ?? state.winners,
+    geoFenced: !!state.config.geoFence,
+    partitioned:
+      !!state.lotteryProof?.cohortQuotas?.length ||
+      !!state.lotteryProof?.variantSlots,
+    generatedAt,
+  });
+}
+
+/**
+ * Remove a user from the drop before the draw and record why
+ * A registered participant loses their tickets and is notified (the
+ * Participant releases their entry payment; consumed rollover is forfeited).
+ * Users who haven't registered are recorded so they can't.
+ * Caller persists and publishes the updated state.
+ */
+function disqualifyParticipant(
+  ctx: restate.ObjectContext,
+  state: DropState,
+  userId: string,
+  disqualification: Disqualification
+): void {
+  const dropId = state.config.dropId;
+  const wasParticipant = userId in state.participantTickets;
+
+  state.disqualified = { ...state.disqualified, [userId]: disqualification };
+  delete state.pendingPayments?.[userId];
+  delete state.participantTickets[userId];
+  delete state.participantMultipliers[userId];
+  delete state.participantVariants?.[userId];
+  delete state.participantProfiles?.[userId];
+  delete state.participantIdentities?.[userId];
+
+  if (wasParticipant) {
+    ctx
+      .objectSendClient(participantObject, `${dropId}:${userId}`)
+      .notifyDisqualified({ reason: disqualification.reason });
+  }
+
+  console.log(
+    `[Drop ${dropId}] Disqualified ${userId} (${disqualification.source}): ${disqualification.reason}`
+  );
+}
+
+/**
+ * Whether a scheduled lottery timer should be a no-op: registrationEnd was
+ * moved (a new timer was scheduled for the new time) or the drop was
+ * cancelled. Admin calls omit scheduledFor and are never stale.
+ */
+export function isStaleLotteryTimer(
+  state: DropState,
+  scheduledFor: number | undefined
+): boolean {
+  if (scheduledFor === undefined) return false;
+  return (
+    scheduledFor !== state.config.registrationEnd ||
+    state.phase === "cancelled"
+  );
+}
+
+/**
+ * Units each winner is expected to buy, which sizes the winner count
+ * Defaults to 1: stock a winner doesn't buy is never offered to a backup
+ * once purchases start, so drawing fewer winners than units has to be an
+ * explicit expectedUnitsPerWinner choice.
+ */
+export function getExpectedUnitsPerWinner(dropConfig: DropConfig): number {
+  return dropConfig.expectedUnitsPerWinner ?? 1;
+}
+
+/**
+ * Why a config change is refused, if it is: participants were admitted and
+ * weighted under the current geo rules and entered a draw with the current
+ * algorithm and cohort quotas, so those stay fixed once anyone registers.
+ */
+export function getLockedConfigError(
+  changes: DropConfigUpdate,
+  participantCount: number
+): string | null {
+  if (participantCount === 0) return null;
+
+  const geoChanged =
+    changes.geoFence !== undefined ||
+    changes.geoFenceMode !== undefined ||
+    changes.geoFenceBonusMultiplier !== undefined;
+  if (geoChanged) {
+    return "Geo-fence cannot change once participants have registered";
+  }
+
+  if (changes.lotteryAlgorithm !== undefined) {
+    return "Lottery algorithm cannot change once participants have registered";
+  }
+
+  if (changes.cohortQuotas !== undefined) {
+    return "Cohort quotas cannot change once participants have registered";
+  }
+
+  return null;
+}
+
 // Define the Drop virtual object
 export const dropObject = restate.object({
   name: "Drop",
@@ -85,6 +411,7 @@ export const dropObject = restate.object({
     /**
      * Initialize a new drop with configuration
      * Generates lottery commitment for verifiable randomness
+     * Drops starting in the future begin "upcoming" with a timer to open registration
      * Automatically schedules lottery to run when registration ends
      */
     initialize: async (
@@ -94,6 +421,7 @@ export const dropObject = restate.object({
       success: boolean;
       dropId: string;
       lotteryCommitment?: string;
+      beaconRound?: number;
     }> => {
       const existing = await ctx.get<DropState>(STATE_KEY);
 
@@ -102,6 +430,7 @@ export const dropObject = restate.object({
           success: true,
           dropId: dropConfig.dropId,
           lotteryCommitment: existing.config.lotteryCommitment,
+          beaconRound: existing.config.beaconRound,
         };
       }
 
@@ -119,30 +448,99 @@ export const dropObject = restate.object({
         }
       }
 
+      // Multi-SKU drops: total inventory is the sum of the variants
+      let inventory = dropConfig.inventory;
+      if (dropConfig.variants) {
+        const ids = new Set(dropConfig.variants.map((variant) => variant.id));
+        if (
+          dropConfig.variants.length === 0 ||
+          ids.size !== dropConfig.variants.length
+        ) {
+          throw new restate.TerminalError(
+            "Variants must be non-empty with unique IDs",
+            { errorCode: 400 }
+          );
+        }
+        inventory = dropConfig.variants.reduce(
+          (sum, variant) => sum + variant.inventory,
+          0
+        );
+        if (inventory <= 0) {
+          throw new restate.TerminalError("Variants have no inventory", {
+            errorCode: 400,
+          });
+        }
+      }
+
+      if (dropConfig.lotteryAlgorithm) {
+        const algorithmError = validateLotteryAlgorithm(
+          dropConfig.lotteryAlgorithm
+        );
+        if (algorithmError) {
+          throw new restate.TerminalError(
+            `Invalid lottery algorithm: ${algorithmError}`,
+            { errorCode: 400 }
+          );
+        }
+      }
+
+      if (dropConfig.cohortQuotas) {
+        const quotaError = validateCohortQuotas(dropConfig.cohortQuotas);
+        if (quotaError) {
+          throw new restate.TerminalError(
+            `Invalid cohort quotas: ${quotaError}`,
+            { errorCode: 400 }
+          );
+        }
+      }
+
+      const maxUnitsPerWinner =
+        dropConfig.maxUnitsPerWinner ?? DEFAULT_MAX_UNITS_PER_WINNER;
+      if (
+        dropConfig.expectedUnitsPerWinner !== undefined &&
+        dropConfig.expectedUnitsPerWinner > maxUnitsPerWinner
+      ) {
+        throw new restate.TerminalError(
+          "expectedUnitsPerWinner cannot exceed maxUnitsPerWinner",
+          { errorCode: 400 }
+        );
+      }
+
       // Generate lottery commitment for verifiable randomness
       // Secret is stored, commitment is published
       const { secret, commitment } = await ctx.run("generate_commitment", () =>
         generateLotteryCommitment()
       );
 
+      // Commit to the first beacon round published after registration closes;
+      // its value is unknown now and mixed into the seed at lottery time
+      const randomnessSource = getRandomnessSource();
+
       // Apply defaults for ticket pricing, backup, and geo-fence
       const fullConfig: DropConfig = {
         ...dropConfig,
+        inventory,
         ticketPriceUnit: dropConfig.ticketPriceUnit ?? DEFAULT_PRICE_UNIT,
         maxTicketsPerUser: dropConfig.maxTicketsPerUser ?? DEFAULT_MAX_TICKETS,
         backupMultiplier:
           dropConfig.backupMultiplier ?? DEFAULT_BACKUP_MULTIPLIER,
+        maxUnitsPerWinner,
         lotteryCommitment: commitment,
+        beaconSource: randomnessSource?.name,
+        beaconRound: randomnessSource?.roundAt(dropConfig.registrationEnd),
         // Geo-fence defaults
         geoFenceBonusMultiplier:
           dropConfig.geoFenceBonusMultiplier ??
           config.geo.defaultBonusMultiplier,
       };
 
+      const now = await getCurrentTime(ctx);
+      const opensLater = fullConfig.registrationStart > now;
+
       const state: DropState = {
-        phase: "registration",
-        inventory: dropConfig.inventory,
-        initialInventory: dropConfig.inventory,
+        phase: opensLater ? "upcoming" : "registration",
+        inventory,
+        initialInventory: inventory,
         participantTickets: {},
         participantMultipliers: {},
         winners: [],
@@ -150,6 +548,14 @@ export const dropObject = restate.object({
         expiredWinners: [],
         config: fullConfig,
         lotterySecret: secret,
+        variantInventory: fullConfig.variants
+          ? Object.fromEntries(
+              fullConfig.variants.map((variant) => [
+                variant.id,
+                variant.inventory,
+              ])
+            )
+          : undefined,
       };
 
       await ctx.set(STATE_KEY, state);
@@ -168,15 +574,31 @@ export const dropObject = restate.object({
       // Publish initial drop state so active drops SSE updates immediately
       await publishDropStateEffect(ctx, fullConfig.dropId, state);
 
+      // Schedule registration to open at registrationStart
+      if (opensLater) {
+        const openDelayMs = fullConfig.registrationStart - now;
+        ctx
+          .objectSendClient(dropObject, dropConfig.dropId, {
+            delay: openDelayMs,
+          })
+          .openRegistration({});
+
+        console.log(
+          `[Drop ${dropConfig.dropId}] Registration opens in ${Math.round(
+            openDelayMs / 1000
+          )}s`
+        );
+      }
+
       // Schedule the lottery to run automatically when registration ends
-      const now = await getCurrentTime(ctx);
       const delayMs = Math.max(0, fullConfig.registrationEnd - now);
 
       if (delayMs > 0) {
         // Schedule lottery using delayed send (fire-and-forget)
+        // scheduledFor lets runLottery ignore this timer if registrationEnd moves
         ctx
           .objectSendClient(dropObject, dropConfig.dropId, { delay: delayMs })
-          .runLottery({});
+          .runLottery({ scheduledFor: fullConfig.registrationEnd });
 
         console.log(
           `[Drop ${dropConfig.dropId}] Lottery scheduled in ${Math.round(
@@ -189,7 +611,309 @@ export const dropObject = restate.object({
         success: true,
         dropId: dropConfig.dropId,
         lotteryCommitment: commitment,
+        beaconRound: fullConfig.beaconRound,
+      };
+    },
+
+    /**
+     * Open registration for an upcoming drop (called by the timer set in initialize)
+     * Notifies everyone who subscribed to a reminder
+     */
+    openRegistration: async (
+      ctx: restate.ObjectContext,
+      _input: Record<string, never>
+    ): Promise<{ success: boolean; phase: Phase; reminded: number }> => {
+      const state = await ctx.get<DropState>(STATE_KEY);
+
+      if (!state) {
+        throw new restate.TerminalError("Drop not initialized", {
+          errorCode: 404,
+        });
+      }
+
+      // Already open, cancelled, or further along
+      if (state.phase !== "upcoming") {
+        return { success: true, phase: state.phase, reminded: 0 };
+      }
+
+      state.phase = "registration";
+      const subscribers = state.reminderSubscribers ?? [];
+      state.reminderSubscribers = undefined;
+      await ctx.set(STATE_KEY, state);
+
+      // Publish update to NATS (wrapped in side effect)
+      await publishDropStateEffect(ctx, state.config.dropId, state);
+
+      if (subscribers.length > 0) {
+        const dropId = state.config.dropId;
+        const registrationEnd = state.config.registrationEnd;
+        await ctx.run("publish_reminders", async () => {
+          const serverTime = Date.now();
+          for (const userId of subscribers) {
+            publishReminder(userId, {
+              type: "registration_open",
+              dropId,
+              registrationEnd,
+              serverTime,
+            });
+          }
+        });
+      }
+
+      console.log(
+        `[Drop ${state.config.dropId}] Registration open, reminded ${subscribers.length} users`
+      );
+
+      return { success: true, phase: state.phase, reminded: subscribers.length };
+    },
+
+    /**
+     * Subscribe a user to be notified when registration opens
+     * Only available while the drop is upcoming
+     */
+    subscribeReminder: async (
+      ctx: restate.ObjectContext,
+      input: { userId: string }
+    ): Promise<{ subscribed: boolean; registrationStart: number }> => {
+      const state = await ctx.get<DropState>(STATE_KEY);
+
+      if (!state) {
+        throw new restate.TerminalError("Drop not initialized", {
+          errorCode: 404,
+        });
+      }
+
+      if (state.phase !== "upcoming") {
+        throw new restate.TerminalError(
+          `Reminders unavailable - drop is in ${state.phase} phase`,
+          { errorCode: 409 }
+        );
+      }
+
+      const subscribers = state.reminderSubscribers ?? [];
+      if (!subscribers.includes(input.userId)) {
+        if (subscribers.length >= MAX_REMINDER_SUBSCRIBERS) {
+          throw new restate.TerminalError("Reminder list is full", {
+            errorCode: 409,
+          });
+        }
+        subscribers.push(input.userId);
+        state.reminderSubscribers = subscribers;
+        await ctx.set(STATE_KEY, state);
+      }
+
+      return {
+        subscribed: true,
+        registrationStart: state.config.registrationStart,
+      };
+    },
+
+    /**
+     * Remove a user's registration-open reminder
+     */
+    unsubscribeReminder: async (
+      ctx: restate.ObjectContext,
+      input: { userId: string }
+    ): Promise<{ subscribed: boolean }> => {
+      const state = await ctx.get<DropState>(STATE_KEY);
+
+      if (state?.reminderSubscribers?.includes(input.userId)) {
+        state.reminderSubscribers = state.reminderSubscribers.filter(
+          (id) => id !== input.userId
+        );
+        await ctx.set(STATE_KEY, state);
+      }
+
+      return { subscribed: false };
+    },
+
+    /**
+     * Update drop configuration before the lottery runs (admin use)
+     * Validates each change against the current phase and existing entries,
+     * reschedules the lottery when registrationEnd moves, and records history
+     */
+    updateConfig: async (
+      ctx: restate.ObjectContext,
+      input: { changes: DropConfigUpdate; changedBy?: string }
+    ): Promise<{
+      success: boolean;
+      config: DropConfig;
+      change?: DropConfigChange;
+    }> => {
+      const state = await ctx.get<DropState>(STATE_KEY);
+
+      if (!state) {
+        throw new restate.TerminalError("Drop not initialized", {
+          errorCode: 404,
+        });
+      }
+
+      if (state.phase !== "upcoming" && state.phase !== "registration") {
+        throw new restate.TerminalError(
+          `Config is frozen - drop is in ${state.phase} phase`,
+          { errorCode: 409 }
+        );
+      }
+
+      const { changes } = input;
+      const now = await getCurrentTime(ctx);
+      const participantCount = Object.keys(state.participantTickets).length;
+
+      if (changes.registrationEnd !== undefined) {
+        if (changes.registrationEnd <= now) {
+          throw new restate.TerminalError(
+            "registrationEnd must be in the future",
+            { errorCode: 400 }
+          );
+        }
+        if (changes.registrationEnd <= state.config.registrationStart) {
+          throw new restate.TerminalError(
+            "registrationEnd must be after registrationStart",
+            { errorCode: 400 }
+          );
+        }
+      }
+
+      if (changes.inventory !== undefined && state.config.variants) {
+        throw new restate.TerminalError(
+          "Inventory is set per variant for this drop",
+          { errorCode: 400 }
+        );
+      }
+
+      if (changes.maxTicketsPerUser !== undefined) {
+        const largestEntry = Object.values(state.participantTickets).reduce(
+          (max, tickets) => Math.max(max, tickets),
+          0
+        );
+        if (changes.maxTicketsPerUser < largestEntry) {
+          throw new restate.TerminalError(
+            `maxTicketsPerUser cannot be lower than an existing entry (${largestEntry} tickets)`,
+            { errorCode: 409 }
+          );
+        }
+      }
+
+      const lockedError = getLockedConfigError(changes, participantCount);
+      if (lockedError) {
+        throw new restate.TerminalError(lockedError, { errorCode: 409 });
+      }
+
+      if (changes.geoFence) {
+        const geoError = validateGeoFence(
+          changes.geoFence,
+          config.geo.minRadiusMeters,
+          config.geo.maxRadiusMeters
+        );
+        if (geoError) {
+          throw new restate.TerminalError(`Invalid geo-fence: ${geoError}`, {
+            errorCode: 400,
+          });
+        }
+      }
+
+      if (changes.lotteryAlgorithm) {
+        const algorithmError = validateLotteryAlgorithm(
+          changes.lotteryAlgorithm
+        );
+        if (algorithmError) {
+          throw new restate.TerminalError(
+            `Invalid lottery algorithm: ${algorithmError}`,
+            { errorCode: 400 }
+          );
+        }
+      }
+
+      if (changes.cohortQuotas) {
+        const quotaError = validateCohortQuotas(changes.cohortQuotas);
+        if (quotaError) {
+          throw new restate.TerminalError(
+            `Invalid cohort quotas: ${quotaError}`,
+            { errorCode: 400 }
+          );
+        }
+      }
+
+      // Record only fields whose value actually changes
+      const recorded: DropConfigChange["changes"] = {};
+      for (const key of Object.keys(changes) as (keyof DropConfigUpdate)[]) {
+        const from = state.config[key];
+        const to = changes[key];
+        if (to !== undefined && JSON.stringify(from) !== JSON.stringify(to)) {
+          recorded[key] = { from, to };
+        }
+      }
+
+      if (Object.keys(recorded).length === 0) {
+        return { success: true, config: state.config };
+      }
+
+      const previousRegistrationEnd = state.config.registrationEnd;
+      state.config = { ...state.config, ...changes };
+
+      // The beacon round follows registrationEnd; the new round is still in
+      // the future, so the value stays unknown when participants are final
+      if (
+        state.config.registrationEnd !== previousRegistrationEnd &&
+        state.config.beaconSource
+      ) {
+        state.config.beaconRound = getCommittedRandomnessSource(
+          state.config.beaconSource
+        ).roundAt(state.config.registrationEnd);
+      }
+
+      // No sales yet, so inventory and initial inventory move together
+      if (changes.inventory !== undefined) {
+        state.inventory = changes.inventory;
+        state.initialInventory = changes.inventory;
+      }
+
+      const change: DropConfigChange = {
+        changedAt: now,
+        changedBy: input.changedBy,
+        changes: recorded,
       };
+      state.configHistory = [...(state.configHistory ?? []), change];
+
+      await ctx.set(STATE_KEY, state);
+
+      // Reschedule the lottery; the old timer sees a mismatched scheduledFor
+      // and becomes a no-op
+      if (state.config.registrationEnd !== previousRegistrationEnd) {
+        const delayMs = state.config.registrationEnd - now;
+        ctx
+          .objectSendClient(dropObject, state.config.dropId, {
+            delay: delayMs,
+          })
+          .runLottery({ scheduledFor: state.config.registrationEnd });
+
+        await ctx.run("drops_index_update", async () => {
+          await updateDropIndex(state.config.dropId, {
+            registrationEnd: state.config.registrationEnd,
+          });
+        });
+
+        console.log(
+          `[Drop ${state.config.dropId}] Lottery rescheduled in ${Math.round(
+            delayMs / 1000
+          )}s${
+            state.config.beaconRound !== undefined
+              ? `, beacon round ${state.config.beaconRound}`
+              : ""
+          }`
+        );
+      }
+
+      // Publish update to NATS (wrapped in side effect)
+      await publishDropStateEffect(ctx, state.config.dropId, state);
+
+      console.log(
+        `[Drop ${state.config.dropId}] Config updated by ${
+          input.changedBy ?? "unknown"
+        }: ${Object.keys(recorded).join(", ")}`
+      );
+
+      return { success: true, config: state.config, change };
     },
 
     /**
@@ -213,6 +937,10 @@ export const dropObject = restate.object({
       loyaltyMultiplier: number;
       geoBonus: number;
       inGeoZone: boolean;
+      paymentPending: boolean;
+      paymentId?: string;
+      paymentAmount?: number;
+      paymentExpiresAt?: number;
     }> => {
       const state = await ctx.get<DropState>(STATE_KEY);
 
@@ -222,6 +950,15 @@ export const dropObject = restate.object({
         });
       }
 
+      if (state.phase === "upcoming") {
+        throw new restate.TerminalError(
+          `Registration not open yet - opens at ${new Date(
+            state.config.registrationStart
+          ).toISOString()}`,
+          { errorCode: 409 }
+        );
+      }
+
       if (state.phase !== "registration") {
         throw new restate.TerminalError(
           `Registration closed - drop is in ${state.phase} phase`,
@@ -239,6 +976,12 @@ export const dropObject = restate.object({
         });
       }
 
+      if (state.disqualified?.[request.userId]) {
+        throw new restate.TerminalError("You are not eligible for this drop", {
+          errorCode: 403,
+        });
+      }
+
       // Validate ticket count
       const maxTickets = state.config.maxTicketsPerUser ?? DEFAULT_MAX_TICKETS;
       const desiredTickets = Math.max(
@@ -256,6 +999,24 @@ export const dropObject = restate.object({
         });
       }
 
+      // Variant preferences (multi-SKU drops); none means any variant
+      const variantPreferences = [...new Set(request.variantPreferences ?? [])];
+      if (variantPreferences.length > 0) {
+        if (!state.variantInventory) {
+          throw new restate.TerminalError("This drop has no variants", {
+            errorCode: 400,
+          });
+        }
+        const unknown = variantPreferences.find(
+          (id) => state.variantInventory?.[id] === undefined
+        );
+        if (unknown) {
+          throw new restate.TerminalError(`Unknown variant: ${unknown}`, {
+            errorCode: 400,
+          });
+        }
+      }
+
       // Geo-fence validation
       let geoBonus = 1.0;
       let inGeoZone = false;
@@ -313,6 +1074,47 @@ export const dropObject = restate.object({
       const freeEntry = remainingAfterRollover > 0 ? 1 : 0;
       const paidEntries = Math.max(0, remainingAfterRollover - freeEntry);
 
+      // Create a payment intent for paid entries before touching rollover
+      // balance; the registration is held as pending_payment until
+      // confirmPayment captures it
+      const paymentAmount = paidEntriesAmount(
+        paidEntries,
+        state.config.ticketPriceUnit
+      );
+      const paymentAttempt =
+        (state.paymentAttempts?.[request.userId] ?? 0) + 1;
+      let payment: PaymentResult | undefined;
+      if (paymentAmount > 0) {
+        const dropId = state.config.dropId;
+        payment = await ctx.run("payment_authorize", () =>
+          getPaymentProvider().authorize({
+            idempotencyKey: paymentIdempotencyKey(
+              dropId,
+              request.userId,
+              "authorize",
+              paymentAttempt
+            ),
+            amount: paymentAmount,
+            currency: config.payments.currency,
+            metadata: { dropId, userId: request.userId, paidEntries },
+          })
+        );
+
+        // Retries need a fresh idempotency key, even after a decline
+        state.paymentAttempts = {
+          ...state.paymentAttempts,
+          [request.userId]: paymentAttempt,
+        };
+        await ctx.set(STATE_KEY, state);
+
+        if (payment.status !== "authorized") {
+          throw new restate.TerminalError(
+            `Payment declined: ${payment.failureReason ?? "unknown reason"}`,
+            { errorCode: 402 }
+          );
+        }
+      }
+
       // Consume rollover entries from global balance
       let rolloverUsed = 0;
       if (rolloverToUse > 0) {
@@ -330,8 +1132,56 @@ export const dropObject = restate.object({
 
       state.participantTickets[request.userId] = actualTickets;
       state.participantMultipliers[request.userId] = combinedMultiplier;
+      state.participantProfiles = {
+        ...state.participantProfiles,
+        [request.userId]: {
+          loyaltyTier: loyaltyInfo.tier,
+          firstTime: loyaltyInfo.dropsParticipated === 0,
+          inGeoZone,
+        },
+      };
+      if (request.identity) {
+        state.participantIdentities = {
+          ...state.participantIdentities,
+          [request.userId]: request.identity,
+        };
+      }
+      if (variantPreferences.length > 0) {
+        state.participantVariants = {
+          ...state.participantVariants,
+          [request.userId]: variantPreferences,
+        };
+      }
+
+      // Hold the tickets until the payment is confirmed
+      let paymentExpiresAt: number | undefined;
+      if (payment) {
+        paymentExpiresAt = now + config.payments.confirmWindowSecs * 1000;
+        state.pendingPayments = {
+          ...state.pendingPayments,
+          [request.userId]: {
+            paymentId: payment.paymentId,
+            amount: payment.amount,
+            attempt: paymentAttempt,
+            rolloverUsed,
+            expiresAt: paymentExpiresAt,
+          },
+        };
+      }
       await ctx.set(STATE_KEY, state);
 
+      // Release the tickets if the payment is never confirmed
+      if (payment) {
+        ctx
+          .objectSendClient(dropObject, state.config.dropId, {
+            delay: config.payments.confirmWindowSecs * 1000,
+          })
+          .expirePendingPayment({
+            userId: request.userId,
+            paymentId: payment.paymentId,
+          });
+      }
+
       // Update participant state with entry breakdown and loyalty info
       const participantCount = Object.keys(state.participantTickets).length;
       ctx
@@ -347,6 +1197,9 @@ export const dropObject = restate.object({
           paidEntries,
           loyaltyTier: loyaltyInfo.tier,
           loyaltyMultiplier: loyaltyInfo.multiplier,
+          paymentId: payment?.paymentId,
+          paymentAmount: payment?.amount,
+          paymentAttempt: payment ? paymentAttempt : undefined,
         });
 
       // Publish update to NATS (wrapped in side effect)
@@ -358,7 +1211,9 @@ export const dropObject = restate.object({
           request.userId
         } registered: ${actualTickets} tickets × ${combinedMultiplier.toFixed(
           2
-        )}x (${loyaltyInfo.tier}${geoInfo}) = ${effectiveTickets} effective`
+        )}x (${loyaltyInfo.tier}${geoInfo}) = ${effectiveTickets} effective${
+          payment ? " (pending payment)" : ""
+        }`
       );
 
       return {
@@ -374,6 +1229,174 @@ export const dropObject = restate.object({
         loyaltyMultiplier: loyaltyInfo.multiplier,
         geoBonus,
         inGeoZone,
+        paymentPending: payment !== undefined,
+        paymentId: payment?.paymentId,
+        paymentAmount: payment?.amount,
+        paymentExpiresAt,
+      };
+    },
+
+    /**
+     * Confirm a pending entry payment
+     * Captures the authorized amount; on success the registration becomes
+     * active, on failure its tickets are released from the draw.
+     * The caller must present the paymentId register returned to the payer.
+     */
+    confirmPayment: async (
+      ctx: restate.ObjectContext,
+      input: { userId: string; paymentId: string }
+    ): Promise<{ success: boolean; paymentId?: string; error?: string }> => {
+      const state = await ctx.get<DropState>(STATE_KEY);
+
+      if (!state) {
+        throw new restate.TerminalError("Drop not initialized", {
+          errorCode: 404,
+        });
+      }
+
+      const pending = state.pendingPayments?.[input.userId];
+      if (!pending) {
+        // Already confirmed (retry) - registration is active
+        if (state.participantTickets[input.userId]) {
+          return { success: true };
+        }
+        throw new restate.TerminalError("No pending payment for this user", {
+          errorCode: 404,
+        });
+      }
+
+      if (pending.paymentId !== input.paymentId) {
+        throw new restate.TerminalError(
+          "Payment does not match this registration",
+          { errorCode: 403 }
+        );
+      }
+
+      const now = await getCurrentTime(ctx);
+      if (now >= pending.expiresAt) {
+        await releasePendingEntry(ctx, state, input.userId, "payment_timeout");
+        await ctx.set(STATE_KEY, state);
+        await publishDropStateEffect(ctx, state.config.dropId, state);
+        return {
+          success: false,
+          paymentId: pending.paymentId,
+          error: "Payment window expired",
+        };
+      }
+
+      const dropId = state.config.dropId;
+      const result = await ctx.run("payment_capture", () =>
+        getPaymentProvider().capture({
+          idempotencyKey: paymentIdempotencyKey(
+            dropId,
+            input.userId,
+            "capture",
+            pending.attempt
+          ),
+          paymentId: pending.paymentId,
+        })
+      );
+
+      if (result.status !== "captured") {
+        await releasePendingEntry(
+          ctx,
+          state,
+          input.userId,
+          `payment_failed: ${result.failureReason ?? "unknown"}`
+        );
+        await ctx.set(STATE_KEY, state);
+        await publishDropStateEffect(ctx, dropId, state);
+        return {
+          success: false,
+          paymentId: pending.paymentId,
+          error: `Payment failed: ${result.failureReason ?? "unknown reason"}`,
+        };
+      }
+
+      delete state.pendingPayments?.[input.userId];
+      await ctx.set(STATE_KEY, state);
+
+      ctx
+        .objectSendClient(participantObject, `${dropId}:${input.userId}`)
+        .confirmPayment({ paymentId: pending.paymentId });
+
+      console.log(
+        `[Drop ${dropId}] Payment ${pending.paymentId} confirmed for ${input.userId}`
+      );
+
+      return { success: true, paymentId: pending.paymentId };
+    },
+
+    /**
+     * Release a registration still waiting on its payment
+     * Scheduled by register; no-op once the payment is confirmed or released
+     */
+    expirePendingPayment: async (
+      ctx: restate.ObjectContext,
+      input: { userId: string; paymentId: string }
+    ): Promise<{ released: boolean }> => {
+      const state = await ctx.get<DropState>(STATE_KEY);
+      const pending = state?.pendingPayments?.[input.userId];
+
+      if (!state || !pending || pending.paymentId !== input.paymentId) {
+        return { released: false };
+      }
+
+      await releasePendingEntry(ctx, state, input.userId, "payment_timeout");
+      await ctx.set(STATE_KEY, state);
+      await publishDropStateEffect(ctx, state.config.dropId, state);
+
+      return { released: true };
+    },
+
+    /**
+     * Disqualify users before the draw (known-abusive accounts)
+     * Registered users are removed from the draw and notified; others are
+     * barred from registering. The lottery proof lists them as hashes.
+     */
+    disqualify: async (
+      ctx: restate.ObjectContext,
+      input: { userIds: string[]; reason: string; disqualifiedBy?: string }
+    ): Promise<{
+      success: boolean;
+      disqualified: string[];
+      participantCount: number;
+    }> => {
+      const state = await ctx.get<DropState>(STATE_KEY);
+
+      if (!state) {
+        throw new restate.TerminalError("Drop not initialized", {
+          errorCode: 404,
+        });
+      }
+
+      if (state.phase !== "upcoming" && state.phase !== "registration") {
+        throw new restate.TerminalError(
+          `Cannot disqualify users - drop is in ${state.phase} phase`,
+          { errorCode: 409 }
+        );
+      }
+
+      const now = await getCurrentTime(ctx);
+      const disqualified: string[] = [];
+      for (const userId of new Set(input.userIds)) {
+        if (state.disqualified?.[userId]) continue;
+        disqualifyParticipant(ctx, state, userId, {
+          reason: input.reason,
+          source: "admin",
+          disqualifiedAt: now,
+          disqualifiedBy: input.disqualifiedBy,
+        });
+        disqualified.push(userId);
+      }
+
+      await ctx.set(STATE_KEY, state);
+      await publishDropStateEffect(ctx, state.config.dropId, state);
+
+      return {
+        success: true,
+        disqualified,
+        participantCount: Object.keys(state.participantTickets).length,
       };
     },
 
@@ -384,7 +1407,7 @@ export const dropObject = restate.object({
      */
     runLottery: async (
       ctx: restate.ObjectContext,
-      _input: Record<string, never>
+      input: { scheduledFor?: number }
     ): Promise<{
       success: boolean;
       winners: string[];
@@ -401,13 +1424,40 @@ export const dropObject = restate.object({
         });
       }
 
-      const participantCount = Object.keys(state.participantTickets).length;
-      const totalTickets = getTotalTickets(state.participantTickets);
-      const totalEffectiveTickets = getTotalEffectiveTickets(
+      let participantCount = Object.keys(state.participantTickets).length;
+      let totalTickets = getTotalTickets(state.participantTickets);
+      let totalEffectiveTickets = getTotalEffectiveTickets(
         state.participantTickets,
         state.participantMultipliers
       );
 
+      if (isStaleLotteryTimer(state, input?.scheduledFor)) {
+        console.log(
+          `[Drop ${state.config.dropId}] Ignoring stale lottery timer for ${input.scheduledFor} (phase: ${state.phase})`
+        );
+        return {
+          success: false,
+          winners: [],
+          backupWinners: [],
+          participantCount,
+          totalTickets,
+          totalEffectiveTickets,
+        };
+      }
+
+      // Admin run after the drop was cancelled
+      if (state.phase === "cancelled") {
+        throw new restate.TerminalError("Drop has been cancelled", {
+          errorCode: 409,
+        });
+      }
+
+      if (state.phase === "upcoming") {
+        throw new restate.TerminalError("Registration has not opened yet", {
+          errorCode: 409,
+        });
+      }
+
       if (state.phase !== "registration") {
         // Already ran lottery
         return {
@@ -420,10 +1470,98 @@ export const dropObject = restate.object({
         };
       }
 
+      // Wait for the committed beacon round before drawing
+      let beacon: LotteryBeacon | undefined;
+      if (state.config.beaconSource && state.config.beaconRound !== undefined) {
+        const source = getCommittedRandomnessSource(state.config.beaconSource);
+        const round = state.config.beaconRound;
+        const published = await ctx.run("fetch_beacon_round", () =>
+          source.getRound(round)
+        );
+
+        if (!published) {
+          const now = await getCurrentTime(ctx);
+          const delayMs = Math.max(
+            source.roundTime(round) - now,
+            config.randomness.retrySecs * 1000
+          );
+          ctx
+            .objectSendClient(dropObject, state.config.dropId, {
+              delay: delayMs,
+            })
+            .runLottery({ scheduledFor: state.config.registrationEnd });
+
+          console.log(
+            `[Drop ${state.config.dropId}] Beacon round ${round} not published yet, retrying lottery in ${Math.round(
+              delayMs / 1000
+            )}s`
+          );
+          return {
+            success: false,
+            winners: [],
+            backupWinners: [],
+            participantCount,
+            totalTickets,
+            totalEffectiveTickets,
+          };
+        }
+
+        beacon = {
+          source: source.name,
+          round,
+          value: published.value,
+          signature: published.signature,
+        };
+      }
+
+      // Entries still awaiting payment don't make it into the draw
+      const unpaid = Object.keys(state.pendingPayments ?? {});
+      if (unpaid.length > 0) {
+        for (const userId of unpaid) {
+          await releasePendingEntry(ctx, state, userId, "lottery_started");
+        }
+      }
+
+      // Known-abusive accounts are held back before the Merkle tree is built
+      const participantIds = Object.keys(state.participantTickets);
+      const identities = state.participantIdentities ?? {};
+      const blocked = await ctx.run("match_blocklist", async () =>
+        findBlockedParticipants(
+          await listBlocklist(),
+          participantIds,
+          identities
+        )
+      );
+      const blockedIds = Object.keys(blocked);
+      if (blockedIds.length > 0) {
+        const now = await getCurrentTime(ctx);
+        for (const userId of blockedIds) {
+          disqualifyParticipant(ctx, state, userId, {
+            reason: blocked[userId],
+            source: "blocklist",
+            disqualifiedAt: now,
+          });
+        }
+      }
+
+      if (unpaid.length > 0 || blockedIds.length > 0) {
+        participantCount = Object.keys(state.participantTickets).length;
+        totalTickets = getTotalTickets(state.participantTickets);
+        totalEffectiveTickets = getTotalEffectiveTickets(
+          state.participantTickets,
+          state.participantMultipliers
+        );
+      }
+
       state.phase = "lottery";
 
       // Calculate how many winners + backups to select
-      const primaryWinnerCount = Math.min(state.inventory, participantCount);
+      // Multi-unit drops may opt into fewer winners (expectedUnitsPerWinner)
+      const unitsPerWinner = getExpectedUnitsPerWinner(state.config);
+      const primaryWinnerCount = Math.min(
+        Math.ceil(state.inventory / unitsPerWinner),
+        participantCount
+      );
       const backupMultiplier =
         state.config.backupMultiplier ?? DEFAULT_BACKUP_MULTIPLIER;
       const totalToSelect = Math.min(
@@ -434,7 +1572,8 @@ export const dropObject = restate.object({
       // Build Merkle tree and generate seed from Merkle root
       const merkleTree = MerkleTree.fromParticipants(
         state.participantTickets,
-        state.participantMultipliers
+        state.participantMultipliers,
+        LATEST_MERKLE_VERSION
       );
       if (!state.lotterySecret) {
         throw new restate.TerminalError("Lottery secret missing", {
@@ -448,20 +1587,92 @@ export const dropObject = restate.object({
       }
       const seed = generateVerifiableSeedFromMerkle(
         state.lotterySecret,
-        merkleTree.root
+        merkleTree.root,
+        beacon?.value
       );
 
-      // Select all winners at once using multipliers
-      const allSelected = selectWinnersWithMultipliers(
-        state.participantTickets,
-        state.participantMultipliers,
-        totalToSelect,
-        seed
-      );
+      const drawInput = {
+        participantTickets: state.participantTickets,
+        participantMultipliers: state.participantMultipliers,
+        participantProfiles: state.participantProfiles,
+        seed,
+      };
+
+      // Cohort quotas: sub-lotteries for each cohort's slots run ahead of
+      // the general pool, using the same algorithm
+      const cohortQuotas = state.config.cohortQuotas?.length
+        ? state.config.cohortQuotas
+        : undefined;
+      let cohortResults: CohortQuotaResult[] | undefined;
+      const rankWithQuotas = (
+        quotas: CohortQuota[],
+        primaryCount: number
+      ): string[] => {
+        const draw = drawWithCohortQuotas(
+          state.config.lotteryAlgorithm,
+          drawInput,
+          getCohortSlots(quotas, primaryCount),
+          getCohortMembership(
+            quotas,
+            state.participantTickets,
+            state.participantMultipliers,
+            state.participantProfiles
+          ),
+          primaryCount
+        );
+        cohortResults = draw.cohorts;
+        return draw.order;
+      };
+
+      let winners: string[];
+      let backupWinners: string[];
+      let variantSlots: Record<string, number> | undefined;
+      if (state.variantInventory) {
+        // Multi-SKU: walk the full draw order, giving each participant
+        // their best available variant
+        variantSlots = Object.fromEntries(
+          Object.entries(state.variantInventory).map(([id, units]) => [
+            id,
+            Math.ceil(units / unitsPerWinner),
+          ])
+        );
+        const variantPrimary = variantPrimaryCount(
+          variantSlots,
+          participantCount
+        );
+        const allocation = allocateVariantWinners(
+          cohortQuotas
+            ? rankWithQuotas(cohortQuotas, variantPrimary)
+            : rankParticipantsWithAlgorithm(
+                state.config.lotteryAlgorithm,
+                drawInput,
+                variantPrimary
+              ),
+          variantSlots,
+          state.participantVariants ?? {},
+          totalToSelect - primaryWinnerCount
+        );
+        winners = allocation.winners;
+        backupWinners = allocation.backupWinners;
+        state.winnerVariants = allocation.winnerVariants;
+      } else {
+        // Select all winners at once with the drop's algorithm
+        const allSelected = cohortQuotas
+          ? rankWithQuotas(cohortQuotas, primaryWinnerCount).slice(
+              0,
+              totalToSelect
+            )
+          : selectWinnersWithAlgorithm(
+              state.config.lotteryAlgorithm,
+              drawInput,
+              totalToSelect,
+              primaryWinnerCount
+            );
 
-      // Split into primary winners and backups
-      const winners = allSelected.slice(0, primaryWinnerCount);
-      const backupWinners = allSelected.slice(primaryWinnerCount);
+        // Split into primary winners and backups
+        winners = allSelected.slice(0, primaryWinnerCount);
+        backupWinners = allSelected.slice(primaryWinnerCount);
+      }
 
       state.winners = winners;
       state.backupWinners = backupWinners;
@@ -475,7 +1686,18 @@ export const dropObject = restate.object({
         state.participantTickets,
         state.participantMultipliers,
         winners,
-        backupWinners
+        backupWinners,
+        {
+          winnerVariants: state.winnerVariants,
+          variantSlots,
+          beacon,
+          algorithm: state.config.lotteryAlgorithm,
+          participantProfiles: state.participantProfiles,
+          cohortQuotas,
+          cohortResults,
+          disqualifiedUserIds: Object.keys(state.disqualified ?? {}),
+          merkleVersion: LATEST_MERKLE_VERSION,
+        }
       );
       state.lotteryProof = proofResult.proof;
       // Store leaves and hashes for inclusion proof generation
@@ -485,6 +1707,7 @@ export const dropObject = restate.object({
       // Calculate purchase window end time
       const now = await getCurrentTime(ctx);
       state.purchaseEnd = now + state.config.purchaseWindow * 1000;
+      state.fairnessReport = getFairnessReportFor(state, now);
       await ctx.set(STATE_KEY, state);
 
       // Publish update to NATS (wrapped in side effect)
@@ -501,6 +1724,7 @@ export const dropObject = restate.object({
           .notifyResult({
             isWinner: true,
             position: i + 1,
+            variantId: state.winnerVariants?.[userId],
           });
       }
 
@@ -519,7 +1743,7 @@ export const dropObject = restate.object({
       }
 
       // Notify losers (not selected at all)
-      const selectedSet = new Set(allSelected);
+      const selectedSet = new Set([...winners, ...backupWinners]);
       for (const userId of Object.keys(state.participantTickets)) {
         if (!selectedSet.has(userId)) {
           ctx
@@ -544,7 +1768,7 @@ export const dropObject = restate.object({
         .objectSendClient(dropObject, state.config.dropId, {
           delay: purchaseWindowMs,
         })
-        .closePurchaseWindow({});
+        .closePurchaseWindow({ scheduledFor: state.purchaseEnd });
 
       console.log(
         `[Drop ${state.config.dropId}] Lottery complete: ${winners.length} winners, ${backupWinners.length} backups. Purchase window closes in ${state.config.purchaseWindow}s`
@@ -562,15 +1786,17 @@ export const dropObject = restate.object({
 
     /**
      * Start purchase phase for a winner (generates secure token)
+     * Reserves the requested units (capped by what's left) until the token expires
      * Schedules expiry check for auto-promotion of backups
      */
     startPurchase: async (
       ctx: restate.ObjectContext,
-      input: { userId: string }
+      input: { userId: string; quantity?: number }
     ): Promise<{
       success: boolean;
       purchaseToken: string;
       expiresAt: number;
+      quantity: number;
     }> => {
       const state = await ctx.get<DropState>(STATE_KEY);
 
@@ -593,16 +1819,68 @@ export const dropObject = restate.object({
         });
       }
 
-      if (state.inventory <= 0) {
-        throw new restate.TerminalError("No inventory available", {
-          errorCode: 410,
+      if (state.purchasedUnits?.[input.userId]) {
+        throw new restate.TerminalError("Already purchased", {
+          errorCode: 409,
         });
       }
 
+      const maxUnits = state.config.maxUnitsPerWinner ?? 1;
+      const requested = input.quantity ?? 1;
+      if (requested > maxUnits) {
+        throw new restate.TerminalError(
+          `Maximum ${maxUnits} units per winner`,
+          { errorCode: 400 }
+        );
+      }
+
+      // Stock not already held by other winners (a repeat call replaces
+      // this winner's own reservation)
+      const variantId = state.winnerVariants?.[input.userId];
+      const available = getAvailableUnits(state, {
+        variantId,
+        excludeUserId: input.userId,
+      });
+
+      if (available <= 0) {
+        throw new restate.TerminalError(
+          variantId
+            ? `Variant ${variantId} is sold out`
+            : "No inventory available",
+          { errorCode: 410 }
+        );
+      }
+
       const now = await getCurrentTime(ctx);
-      // Use remaining purchase window time (not full window for each winner)
+      // A repeat call keeps the winner's original deadline. With a
+      // checkoutWindow each winner gets their own window from token issuance;
+      // otherwise they get whatever remains of the drop's purchase window
       const expiresAt =
-        state.purchaseEnd ?? now + state.config.purchaseWindow * 1000;
+        state.reservations?.[input.userId]?.expiresAt ??
+        (state.config.checkoutWindow
+          ? now + state.config.checkoutWindow * 1000
+          : state.purchaseEnd ?? now + state.config.purchaseWindow * 1000);
+
+      // Keep the drop open until this winner's checkout window ends
+      // (late-promoted backups would otherwise be cut off by the drop window)
+      const extended = expiresAt > (state.purchaseEnd ?? 0);
+      if (extended) {
+        state.purchaseEnd = expiresAt;
+      }
+
+      // Hold the units until purchase or token expiry
+      const quantity = Math.min(requested, available);
+      const reservation: InventoryReservation = {
+        units: quantity,
+        variantId,
+        reservedAt: now,
+        expiresAt,
+      };
+      state.reservations = {
+        ...state.reservations,
+        [input.userId]: reservation,
+      };
+      await ctx.set(STATE_KEY, state);
 
       // Generate self-verifying HMAC-signed purchase token
       // Format: shortId.expiry.signature (~41 chars)
@@ -635,10 +1913,26 @@ export const dropObject = restate.object({
           .checkWinnerExpiry({ userId: input.userId });
       }
 
+      // Move the drop-level close to the new end; the earlier timer is
+      // ignored as stale
+      if (extended) {
+        ctx
+          .objectSendClient(dropObject, state.config.dropId, {
+            delay: Math.max(0, timeUntilExpiry),
+          })
+          .closePurchaseWindow({ scheduledFor: expiresAt });
+        await publishDropStateEffect(ctx, state.config.dropId, state);
+
+        console.log(
+          `[Drop ${state.config.dropId}] Purchase window extended to ${expiresAt} for ${input.userId}'s checkout`
+        );
+      }
+
       return {
         success: true,
         purchaseToken,
         expiresAt,
+        quantity,
       };
     },
 
@@ -647,8 +1941,14 @@ export const dropObject = restate.object({
      */
     completePurchase: async (
       ctx: restate.ObjectContext,
-      input: { userId: string; purchaseToken: string }
-    ): Promise<{ success: boolean; inventory: number; phase: Phase }> => {
+      input: PurchaseRequest
+    ): Promise<{
+      success: boolean;
+      inventory: number;
+      phase: Phase;
+      variantId?: string;
+      quantity: number;
+    }> => {
       const state = await ctx.get<DropState>(STATE_KEY);
 
       if (!state) {
@@ -664,10 +1964,36 @@ export const dropObject = restate.object({
         );
       }
 
-      if (state.inventory <= 0) {
-        throw new restate.TerminalError("No inventory available", {
-          errorCode: 410,
-        });
+      // Buy up to the units reserved at startPurchase; without a
+      // reservation only stock nobody else holds can be bought
+      const reserved = state.reservations?.[input.userId]?.units;
+      const quantity = input.quantity ?? reserved ?? 1;
+      const maxUnits = state.config.maxUnitsPerWinner ?? 1;
+      if (quantity > maxUnits) {
+        throw new restate.TerminalError(
+          `Maximum ${maxUnits} units per winner`,
+          { errorCode: 400 }
+        );
+      }
+      if (reserved !== undefined && quantity > reserved) {
+        throw new restate.TerminalError(
+          `Only ${reserved} units reserved - start the purchase again for more`,
+          { errorCode: 409 }
+        );
+      }
+
+      const variantId = state.winnerVariants?.[input.userId];
+      const available = getAvailableUnits(state, {
+        variantId,
+        excludeUserId: input.userId,
+      });
+      if (available < quantity) {
+        throw new restate.TerminalError(
+          variantId
+            ? `Variant ${variantId} is sold out`
+            : "No inventory available",
+          { errorCode: 410 }
+        );
       }
 
       // Verify with participant object
@@ -676,6 +2002,7 @@ export const dropObject = restate.object({
         .objectClient(participantObject, participantKey)
         .completePurchase({
           purchaseToken: input.purchaseToken,
+          quantity,
         })) as { success: boolean; error?: string };
 
       if (!participantResult.success) {
@@ -685,8 +2012,16 @@ export const dropObject = restate.object({
         );
       }
 
-      // Decrement inventory
-      state.inventory--;
+      // Decrement inventory (and the winner's variant); the hold becomes sold
+      state.inventory -= quantity;
+      if (variantId && state.variantInventory) {
+        state.variantInventory[variantId] -= quantity;
+      }
+      delete state.reservations?.[input.userId];
+      state.purchasedUnits = {
+        ...state.purchasedUnits,
+        [input.userId]: quantity,
+      };
 
       // Check if drop is complete
       if (state.inventory === 0) {
@@ -700,6 +2035,7 @@ export const dropObject = restate.object({
         await ctx.run("drops_index_delete", async () => {
           await deleteDropIndex(state.config.dropId);
         });
+        notifyUnpromotedBackups(ctx, state);
       }
 
       // Publish update to NATS (wrapped in side effect)
@@ -709,15 +2045,19 @@ export const dropObject = restate.object({
         success: true,
         inventory: state.inventory,
         phase: state.phase,
+        variantId,
+        quantity,
       };
     },
 
     /**
-     * Close the purchase window (called automatically after purchaseWindow expires)
+     * Close the purchase window (called automatically after purchaseWindow
+     * expires, or after the last winner's checkout window when that is later)
+     * Admin calls omit scheduledFor and close immediately
      */
     closePurchaseWindow: async (
       ctx: restate.ObjectContext,
-      _input: Record<string, never>
+      input: { scheduledFor?: number }
     ): Promise<{ success: boolean; phase: Phase }> => {
       const state = await ctx.get<DropState>(STATE_KEY);
 
@@ -730,8 +2070,21 @@ export const dropObject = restate.object({
         return { success: true, phase: state.phase };
       }
 
-      // Transition to completed
+      // Stale timer: a winner's checkout window extended purchaseEnd and a
+      // new timer was scheduled for the new time
+      if (
+        input?.scheduledFor !== undefined &&
+        input.scheduledFor !== state.purchaseEnd
+      ) {
+        console.log(
+          `[Drop ${state.config.dropId}] Ignoring stale purchase close timer for ${input.scheduledFor}`
+        );
+        return { success: false, phase: state.phase };
+      }
+
+      // Transition to completed; unused holds no longer matter
       state.phase = "completed";
+      state.reservations = undefined;
       await ctx.set(STATE_KEY, state);
 
       // Remove from active drop index
@@ -739,6 +2092,8 @@ export const dropObject = restate.object({
         await deleteDropIndex(state.config.dropId);
       });
 
+      notifyUnpromotedBackups(ctx, state);
+
       // Publish update to NATS (wrapped in side effect)
       await publishDropStateEffect(ctx, state.config.dropId, state);
 
@@ -752,6 +2107,73 @@ export const dropObject = restate.object({
       };
     },
 
+    /**
+     * Cancel the drop (admin use)
+     * Pending timers (lottery, purchase close, winner expiry) become no-ops
+     * because every scheduled handler checks the phase before acting.
+     * Every participant is notified; those whose entry isn't settled yet
+     * (see isSettledOnCancel) get consumed rollover and payment refunded.
+     */
+    cancelDrop: async (
+      ctx: restate.ObjectContext,
+      input: { reason: string; cancelledBy?: string }
+    ): Promise<{ success: boolean; phase: Phase }> => {
+      const state = await ctx.get<DropState>(STATE_KEY);
+
+      if (!state) {
+        throw new restate.TerminalError("Drop not initialized", {
+          errorCode: 404,
+        });
+      }
+
+      if (state.phase === "cancelled") {
+        return { success: true, phase: state.phase };
+      }
+
+      if (state.phase === "completed") {
+        throw new restate.TerminalError("Cannot cancel a completed drop", {
+          errorCode: 409,
+        });
+      }
+
+      const now = await getCurrentTime(ctx);
+      state.phase = "cancelled";
+      state.cancelledAt = now;
+      state.cancelReason = input.reason;
+      state.cancelledBy = input.cancelledBy;
+      // Participants void their own pending payments below
+      state.pendingPayments = undefined;
+      await ctx.set(STATE_KEY, state);
+
+      // Remove from active drop index
+      await ctx.run("drops_index_delete", async () => {
+        await deleteDropIndex(state.config.dropId);
+      });
+
+      // Notify every participant (fire-and-forget); each refunds its own
+      // consumed rollover since only the Participant knows how much was used
+      const participants = Object.keys(state.participantTickets);
+      for (const userId of participants) {
+        ctx
+          .objectSendClient(
+            participantObject,
+            `${state.config.dropId}:${userId}`
+          )
+          .notifyCancelled({ reason: input.reason });
+      }
+
+      // Terminal event: clients stop countdowns and show the cancel reason
+      await publishDropStateEffect(ctx, state.config.dropId, state);
+
+      console.log(
+        `[Drop ${state.config.dropId}] Cancelled by ${
+          input.cancelledBy ?? "unknown"
+        }: ${input.reason} (${participants.length} participants notified)`
+      );
+
+      return { success: true, phase: state.phase };
+    },
+
     /**
      * Check if a winner's token has expired without purchase
      * If so, move them to expired list and promote next backup
@@ -784,9 +2206,10 @@ export const dropObject = restate.object({
         return { expired: false };
       }
 
-      // Winner hasn't purchased - mark as expired
+      // Winner hasn't purchased - mark as expired and release their hold
       state.winners = state.winners.filter((id) => id !== input.userId);
       state.expiredWinners.push(input.userId);
+      delete state.reservations?.[input.userId];
 
       // Notify the expired winner
       ctx
@@ -796,10 +2219,26 @@ export const dropObject = restate.object({
         )
         .notifyExpiry({});
 
-      // Try to promote a backup
+      // Try to promote a backup if any stock is left unheld
+      // Multi-SKU: the expired winner's variant goes to the first backup
+      // who will take it
       let promotedUser: string | undefined;
-      if (state.backupWinners.length > 0 && state.inventory > 0) {
-        const next = state.backupWinners.shift();
+      let promotedVariant: string | undefined;
+      const freedVariant = state.winnerVariants?.[input.userId];
+      if (
+        state.backupWinners.length > 0 &&
+        getAvailableUnits(state, { variantId: freedVariant }) > 0
+      ) {
+        let next: string | undefined;
+        if (freedVariant) {
+          const pick = pickBackupForVariants(state, [freedVariant]);
+          if (pick) {
+            next = state.backupWinners.splice(pick.index, 1)[0];
+            promotedVariant = pick.variantId;
+          }
+        } else {
+          next = state.backupWinners.shift();
+        }
         if (!next) {
           await ctx.set(STATE_KEY, state);
           await publishDropStateEffect(ctx, state.config.dropId, state);
@@ -807,6 +2246,12 @@ export const dropObject = restate.object({
         }
         promotedUser = next;
         state.winners.push(promotedUser);
+        if (promotedVariant) {
+          state.winnerVariants = {
+            ...state.winnerVariants,
+            [promotedUser]: promotedVariant,
+          };
+        }
 
         // Notify the promoted backup
         ctx
@@ -814,7 +2259,7 @@ export const dropObject = restate.object({
             participantObject,
             `${state.config.dropId}:${promotedUser}`
           )
-          .notifyPromotion({});
+          .notifyPromotion({ variantId: promotedVariant });
 
         // Start purchase for the promoted user
         ctx
@@ -859,12 +2304,35 @@ export const dropObject = restate.object({
         return { success: false, backupsRemaining: 0 };
       }
 
-      if (state.inventory <= 0) {
+      // Stock held by winners checking out can't be promoted against
+      if (getAvailableUnits(state) <= 0) {
         return { success: false, backupsRemaining: state.backupWinners.length };
       }
 
       // Promote next backup
-      const promotedUser = state.backupWinners.shift();
+      // Multi-SKU: first backup who will take a variant still unheld
+      let promotedUser: string | undefined;
+      let promotedVariant: string | undefined;
+      if (state.variantInventory) {
+        const inStock = Object.keys(state.variantInventory).filter(
+          (id) => getAvailableUnits(state, { variantId: id }) > 0
+        );
+        const pick = pickBackupForVariants(state, inStock);
+        if (!pick) {
+          return {
+            success: false,
+            backupsRemaining: state.backupWinners.length,
+          };
+        }
+        promotedUser = state.backupWinners.splice(pick.index, 1)[0];
+        promotedVariant = pick.variantId;
+        state.winnerVariants = {
+          ...state.winnerVariants,
+          [promotedUser]: promotedVariant,
+        };
+      } else {
+        promotedUser = state.backupWinners.shift();
+      }
       if (!promotedUser) {
         return { success: false, backupsRemaining: 0 };
       }
@@ -878,7 +2346,7 @@ export const dropObject = restate.object({
           participantObject,
           `${state.config.dropId}:${promotedUser}`
         )
-        .notifyPromotion({});
+        .notifyPromotion({ variantId: promotedVariant });
 
       // Start purchase for the promoted user
       ctx
@@ -910,6 +2378,7 @@ export const dropObject = restate.object({
       available: boolean;
       proof?: LotteryProof;
       commitment?: string;
+      beaconRound?: number;
     }> => {
       const state = await ctx.get<DropState>(STATE_KEY);
 
@@ -917,11 +2386,12 @@ export const dropObject = restate.object({
         return { available: false };
       }
 
-      // Before lottery runs, only return commitment
-      if (state.phase === "registration") {
+      // Before lottery runs, only return the commitments
+      if (state.phase === "upcoming" || state.phase === "registration") {
         return {
           available: false,
           commitment: state.config.lotteryCommitment,
+          beaconRound: state.config.beaconRound,
         };
       }
 
@@ -937,6 +2407,29 @@ export const dropObject = restate.object({
       return { available: false };
     },
 
+    /**
+     * Get the fairness report of the draw
+     * Generated when the lottery runs; drops drawn before reports existed
+     * get one computed on request
+     */
+    getFairnessReport: async (
+      ctx: restate.ObjectContext,
+      _input: Record<string, never>
+    ): Promise<{ available: boolean; report?: FairnessReport }> => {
+      const state = await ctx.get<DropState>(STATE_KEY);
+
+      if (!state?.lotteryProof) {
+        return { available: false };
+      }
+
+      return {
+        available: true,
+        report:
+          state.fairnessReport ??
+          getFairnessReportFor(state, state.lotteryProof.timestamp),
+      };
+    },
+
     /**
      * Get Merkle inclusion proof for a specific user
      * Allows users to independently verify they were included in the lottery
@@ -957,7 +2450,7 @@ export const dropObject = restate.object({
       }
 
       // Before lottery runs, no proofs available
-      if (state.phase === "registration") {
+      if (state.phase === "upcoming" || state.phase === "registration") {
         return { available: false, error: "Lottery has not run yet" };
       }
 
@@ -979,11 +2472,14 @@ export const dropObject = restate.object({
         return { available: false, error: "User not found in lottery" };
       }
 
-      // Rebuild Merkle tree to generate proof
+      // Rebuild Merkle tree to generate proof, in the format the draw used
       // (We could optimize this by storing the full tree, but it's a trade-off)
+      const merkleVersion =
+        state.lotteryProof.merkleVersion ?? LEGACY_MERKLE_VERSION;
       const merkleTree = MerkleTree.fromParticipants(
         state.participantTickets,
-        state.participantMultipliers
+        state.participantMultipliers,
+        merkleVersion
       );
 
       const merkleProof = merkleTree.getProofByIndex(leafIndex);
@@ -995,7 +2491,8 @@ export const dropObject = restate.object({
       const verified = verifyMerkleProof(
         merkleProof.leaf,
         merkleProof.proof,
-        state.lotteryProof.participantMerkleRoot
+        state.lotteryProof.participantMerkleRoot,
+        { version: merkleVersion, leafCount: merkleProof.leafCount }
       );
 
       const inclusionProof: UserInclusionProof = {
@@ -1003,12 +2500,167 @@ export const dropObject = restate.object({
         leafHash: merkleProof.leafHash,
         proof: merkleProof.proof,
         merkleRoot: state.lotteryProof.participantMerkleRoot,
+        merkleVersion,
+        leafCount: merkleProof.leafCount,
         verified,
       };
 
       return { available: true, proof: inclusionProof };
     },
 
+    /**
+     * Get one Merkle multiproof covering several users
+     * Lets auditors check many inclusions (e.g. every winner) at once.
+     * Only drops drawn with a v2 tree support multiproofs
+     */
+    getMultiInclusionProof: async (
+      ctx: restate.ObjectContext,
+      input: { userIds: string[] }
+    ): Promise<{
+      available: boolean;
+      proof?: MultiInclusionProof;
+      error?: string;
+    }> => {
+      const state = await ctx.get<DropState>(STATE_KEY);
+
+      if (!state) {
+        return { available: false, error: "Drop not found" };
+      }
+
+      if (state.phase === "upcoming" || state.phase === "registration") {
+        return { available: false, error: "Lottery has not run yet" };
+      }
+
+      if (!state.participantLeaves || !state.lotteryProof) {
+        return { available: false, error: "Proof data not available" };
+      }
+
+      if ((state.lotteryProof.merkleVersion ?? LEGACY_MERKLE_VERSION) !== 2) {
+        return {
+          available: false,
+          error: "Multiproofs need a v2 Merkle tree; request proofs per user",
+        };
+      }
+
+      const leafIndexByUser = new Map(
+        state.participantLeaves.map((leaf) => [leaf.userId, leaf.index])
+      );
+      const leafIndices: number[] = [];
+      const notFound: string[] = [];
+      for (const userId of input.userIds) {
+        const leafIndex = leafIndexByUser.get(userId);
+        if (leafIndex === undefined) notFound.push(userId);
+        else leafIndices.push(leafIndex);
+      }
+
+      if (leafIndices.length === 0) {
+        return { available: false, error: "No requested users in lottery" };
+      }
+
+      const merkleTree = MerkleTree.fromParticipants(
+        state.participantTickets,
+        state.participantMultipliers,
+        2
+      );
+      const multiProof = merkleTree.getMultiProofByIndices(leafIndices);
+      if (!multiProof) {
+        return { available: false, error: "Failed to generate proof" };
+      }
+
+      const verified = verifyMerkleMultiProof(
+        multiProof.leaves,
+        multiProof.proof,
+        multiProof.leafCount,
+        state.lotteryProof.participantMerkleRoot
+      );
+
+      return {
+        available: true,
+        proof: {
+          leaves: multiProof.leaves,
+          leafHashes: multiProof.leafHashes,
+          proof: multiProof.proof,
+          merkleRoot: state.lotteryProof.participantMerkleRoot,
+          merkleVersion: 2,
+          leafCount: multiProof.leafCount,
+          verified,
+          notFound,
+        },
+      };
+    },
+
+    /**
+     * Get a page of the participant leaf set (lottery audit export)
+     * Leaves are fixed once the lottery runs, so pages are consistent
+     */
+    getParticipantLeaves: async (
+      ctx: restate.ObjectContext,
+      input: { offset: number; limit: number }
+    ): Promise<{
+      available: boolean;
+      error?: string;
+      total: number;
+      entries: {
+        leaf: MerkleLeafData;
+        leafHash: string;
+        variantPreferences?: string[];
+        profile?: ParticipantProfile;
+        cohorts?: string[];
+      }[];
+    }> => {
+      const state = await ctx.get<DropState>(STATE_KEY);
+
+      if (!state) {
+        return {
+          available: false,
+          error: "Drop not found",
+          total: 0,
+          entries: [],
+        };
+      }
+
+      if (!state.participantLeaves || !state.participantLeafHashes) {
+        return {
+          available: false,
+          error: "Lottery has not run yet",
+          total: 0,
+          entries: [],
+        };
+      }
+
+      const leafHashes = state.participantLeafHashes;
+      // Profiles are only published when the draw grouped by them
+      const withProfiles = !!state.lotteryProof?.participantProfilesHash;
+      const cohortQuotas = state.lotteryProof?.cohortQuotas;
+      const entries = state.participantLeaves
+        .slice(input.offset, input.offset + input.limit)
+        .map((leaf) => {
+          const profile = getParticipantProfile(
+            state.participantProfiles,
+            leaf.userId
+          );
+          return {
+            leaf,
+            leafHash: leafHashes[leaf.index],
+            variantPreferences: state.participantVariants?.[leaf.userId],
+            profile: withProfiles ? profile : undefined,
+            cohorts: cohortQuotas
+              ? getParticipantCohorts(
+                  cohortQuotas,
+                  profile,
+                  state.participantMultipliers[leaf.userId] ?? 1.0
+                )
+              : undefined,
+          };
+        });
+
+      return {
+        available: true,
+        total: state.participantLeaves.length,
+        entries,
+      };
+    },
+
     /**
      * Get current drop state (public)
      */
@@ -1024,6 +2676,7 @@ export const dropObject = restate.object({
       totalEffectiveTickets: number;
       winnerCount: number;
       backupWinnerCount: number;
+      registrationStart: number;
       registrationEnd: number;
       purchaseEnd?: number;
       ticketPricing: TicketPricing;
@@ -1032,6 +2685,10 @@ export const dropObject = restate.object({
       geoFence?: GeoFence;
       geoFenceMode?: GeoFenceMode;
       geoFenceBonusMultiplier?: number;
+      // Multi-SKU: per-variant remaining stock
+      variants?: VariantStock[];
+      maxUnitsPerWinner: number;
+      inventoryCounts?: InventoryCounts;
     }> => {
       const state = await ctx.get<DropState>(STATE_KEY);
 
@@ -1046,11 +2703,13 @@ export const dropObject = restate.object({
           totalEffectiveTickets: 0,
           winnerCount: 0,
           backupWinnerCount: 0,
+          registrationStart: 0,
           registrationEnd: 0,
           ticketPricing: getTicketPricing(
             DEFAULT_PRICE_UNIT,
             DEFAULT_MAX_TICKETS
           ),
+          maxUnitsPerWinner: DEFAULT_MAX_UNITS_PER_WINNER,
         };
       }
 
@@ -1066,6 +2725,7 @@ export const dropObject = restate.object({
         ),
         winnerCount: state.winners.length,
         backupWinnerCount: state.backupWinners?.length ?? 0,
+        registrationStart: state.config.registrationStart,
         registrationEnd: state.config.registrationEnd,
         purchaseEnd: state.purchaseEnd,
         ticketPricing: getTicketPricing(
@@ -1077,6 +2737,40 @@ export const dropObject = restate.object({
         geoFence: state.config.geoFence,
         geoFenceMode: state.config.geoFenceMode,
         geoFenceBonusMultiplier: state.config.geoFenceBonusMultiplier,
+        variants: getVariantStock(state),
+        maxUnitsPerWinner:
+          state.config.maxUnitsPerWinner ?? DEFAULT_MAX_UNITS_PER_WINNER,
+        inventoryCounts: getInventoryCounts(state),
+      };
+    },
+
+    /**
+     * Get inventory holds and sales (admin use)
+     */
+    getInventory: async (
+      ctx: restate.ObjectContext,
+      _input: Record<string, never>
+    ): Promise<{
+      phase: Phase;
+      counts: InventoryCounts;
+      reservations: Record<string, InventoryReservation>;
+      purchasedUnits: Record<string, number>;
+      variants?: VariantStock[];
+    }> => {
+      const state = await ctx.get<DropState>(STATE_KEY);
+
+      if (!state) {
+        throw new restate.TerminalError("Drop not initialized", {
+          errorCode: 404,
+        });
+      }
+
+      return {
+        phase: state.phase,
+        counts: getInventoryCounts(state),
+        reservations: state.reservations ?? {},
+        purchasedUnits: state.purchasedUnits ?? {},
+        variants: getVariantStock(state),
       };
     },
   },
@@ -1,9 +1,17 @@
 import * as restate from "@restatedev/restate-sdk";
-import type { ParticipantState, LoyaltyTier } from "../lib/types.js";
+import type {
+  ParticipantState,
+  LoyaltyTier,
+  UserStatus,
+} from "../lib/types.js";
 import { publishUserState } from "../lib/nats.js";
 import { userRolloverObject } from "./user-rollover.js";
 import { createLogger } from "../lib/logger.js";
 import { config } from "../lib/config.js";
+import {
+  getPaymentProvider,
+  paymentIdempotencyKey,
+} from "../lib/payments/provider.js";
 
 const logger = createLogger("participant");
 
@@ -13,6 +21,22 @@ const STATE_KEY = "state";
 // Rollover percent for expired winners
 const EXPIRED_WINNER_ROLLOVER_PERCENT = config.rollover.expiredWinnerPercent;
 
+/**
+ * Whether a drop cancellation leaves the entry as it is: buyers keep their
+ * purchase, losers and expired winners already traded their captured entry
+ * payment for rollover, and disqualified users had their payment released
+ * and rollover forfeited. Refunding them again would pay out twice.
+ */
+export function isSettledOnCancel(status: UserStatus): boolean {
+  return (
+    status === "cancelled" ||
+    status === "purchased" ||
+    status === "loser" ||
+    status === "expired" ||
+    status === "disqualified"
+  );
+}
+
 /**
  * Helper to get current time deterministically in Restate context
  */
@@ -32,11 +56,15 @@ async function publishUserStateEffect(
   extra?: {
     rolloverBalance?: number;
     promoted?: boolean;
+    paymentError?: string;
   }
 ): Promise<void> {
   // Map "not_registered" to undefined for SSE (SSE only supports registered states)
+  // A failed payment is the exception: the client must leave pending_payment
   const sseStatus =
-    state.status === "not_registered" ? undefined : state.status;
+    state.status === "not_registered" && !extra?.paymentError
+      ? undefined
+      : state.status;
 
   await ctx.run("publish_user_state", async () => {
     publishUserState(dropId, userId, {
@@ -52,6 +80,8 @@ async function publishUserStateEffect(
       // Backup winner info
       backupPosition: state.backupPosition,
       promoted: extra?.promoted,
+      paymentError: extra?.paymentError,
+      variantId: state.variantId,
       // Loyalty info
       loyaltyTier: state.loyaltyTier,
       loyaltyMultiplier: state.loyaltyMultiplier,
@@ -59,6 +89,61 @@ async function publishUserStateEffect(
   });
 }
 
+/**
+ * Release the participant's entry payment
+ * Voids a pending authorization or refunds a capture; no-op without a payment.
+ * Each provider call is journaled with an idempotency key derived from dropId:userId.
+ */
+async function releaseEntryPayment(
+  ctx: restate.ObjectContext,
+  state: ParticipantState
+): Promise<boolean> {
+  const [dropId, userId] = ctx.key.split(":");
+  const paymentId = state.paymentId;
+  if (!paymentId || !dropId || !userId) return true;
+
+  let operation: "void" | "refund";
+  if (state.paymentStatus === "authorized") {
+    operation = "void";
+  } else if (state.paymentStatus === "captured") {
+    operation = "refund";
+  } else {
+    return true;
+  }
+
+  const result = await ctx.run(`payment_${operation}`, () =>
+    getPaymentProvider()[operation]({
+      idempotencyKey: paymentIdempotencyKey(
+        dropId,
+        userId,
+        operation,
+        state.paymentAttempt
+      ),
+      paymentId,
+    })
+  );
+
+  if (result.failureReason) {
+    logger.error(
+      {
+        participantKey: ctx.key,
+        paymentId,
+        operation,
+        reason: result.failureReason,
+      },
+      "Entry payment operation failed"
+    );
+    return false;
+  }
+
+  state.paymentStatus = result.status;
+  logger.info(
+    { participantKey: ctx.key, paymentId, status: result.status },
+    "Entry payment released"
+  );
+  return true;
+}
+
 // Define the Participant virtual object
 export const participantObject = restate.object({
   name: "Participant",
@@ -66,10 +151,11 @@ export const participantObject = restate.object({
     /**
      * Notify participant of lottery result
      * If loser with paid entries, automatically grants rollover
+     * (the entry payment was captured at registration and is kept)
      */
     notifyResult: async (
       ctx: restate.ObjectContext,
-      input: { isWinner: boolean; position?: number }
+      input: { isWinner: boolean; position?: number; variantId?: string }
     ): Promise<{
       success: boolean;
       status: string;
@@ -86,6 +172,7 @@ export const participantObject = restate.object({
       if (input.isWinner) {
         state.status = "winner";
         state.queuePosition = input.position;
+        state.variantId = input.variantId;
       } else {
         state.status = "loser";
 
@@ -169,7 +256,7 @@ export const participantObject = restate.object({
      */
     completePurchase: async (
       ctx: restate.ObjectContext,
-      input: { purchaseToken: string }
+      input: { purchaseToken: string; quantity?: number }
     ): Promise<{ success: boolean; error?: string }> => {
       const state = await ctx.get<ParticipantState>(STATE_KEY);
       const [dropId, userId] = ctx.key.split(":");
@@ -211,6 +298,7 @@ export const participantObject = restate.object({
         tickets: 1,
       };
       updatedState.status = "purchased";
+      updatedState.purchasedUnits = input.quantity ?? 1;
       await ctx.set(STATE_KEY, updatedState);
 
       await publishUserStateEffect(ctx, dropId, userId, updatedState);
@@ -232,6 +320,9 @@ export const participantObject = restate.object({
         paidEntries: number;
         loyaltyTier?: LoyaltyTier;
         loyaltyMultiplier?: number;
+        paymentId?: string;
+        paymentAmount?: number;
+        paymentAttempt?: number;
       }
     ): Promise<{ success: boolean }> => {
       const state = (await ctx.get<ParticipantState>(STATE_KEY)) || {
@@ -239,8 +330,9 @@ export const participantObject = restate.object({
       };
 
       // Update status if not registered yet
+      // Paid entries wait in pending_payment until the Drop confirms payment
       if (state.status === "not_registered") {
-        state.status = "registered";
+        state.status = input.paymentId ? "pending_payment" : "registered";
         if (input.position) {
           state.queuePosition = input.position;
         }
@@ -256,6 +348,14 @@ export const participantObject = restate.object({
       state.loyaltyTier = input.loyaltyTier;
       state.loyaltyMultiplier = input.loyaltyMultiplier;
 
+      // Track entry payment authorized by the Drop
+      if (input.paymentId && !state.paymentId) {
+        state.paymentId = input.paymentId;
+        state.paymentAmount = input.paymentAmount;
+        state.paymentAttempt = input.paymentAttempt;
+        state.paymentStatus = "authorized";
+      }
+
       await ctx.set(STATE_KEY, state);
 
       const [dropId, userId] = ctx.key.split(":");
@@ -278,6 +378,92 @@ export const participantObject = restate.object({
       return { success: true };
     },
 
+    /**
+     * Activate a pending registration once the Drop captured its payment
+     */
+    confirmPayment: async (
+      ctx: restate.ObjectContext,
+      input: { paymentId: string }
+    ): Promise<{ success: boolean }> => {
+      const state = await ctx.get<ParticipantState>(STATE_KEY);
+
+      if (
+        !state ||
+        state.status !== "pending_payment" ||
+        state.paymentId !== input.paymentId
+      ) {
+        return { success: false };
+      }
+
+      state.status = "registered";
+      state.paymentStatus = "captured";
+      await ctx.set(STATE_KEY, state);
+
+      logger.info(
+        { participantKey: ctx.key, paymentId: input.paymentId },
+        "Entry payment confirmed"
+      );
+
+      const [dropId, userId] = ctx.key.split(":");
+      if (dropId && userId) {
+        await publishUserStateEffect(ctx, dropId, userId, state);
+      }
+
+      return { success: true };
+    },
+
+    /**
+     * Drop a pending registration whose payment failed or timed out
+     * The Drop already voided the payment and refunded consumed rollover,
+     * so the participant is free to register again
+     */
+    notifyPaymentFailed: async (
+      ctx: restate.ObjectContext,
+      input: { paymentId: string; reason: string }
+    ): Promise<{ success: boolean }> => {
+      const state = await ctx.get<ParticipantState>(STATE_KEY);
+
+      if (
+        !state ||
+        state.status !== "pending_payment" ||
+        state.paymentId !== input.paymentId
+      ) {
+        return { success: false };
+      }
+
+      const resetState: ParticipantState = { status: "not_registered" };
+      await ctx.set(STATE_KEY, resetState);
+
+      logger.info(
+        {
+          participantKey: ctx.key,
+          paymentId: input.paymentId,
+          reason: input.reason,
+        },
+        "Pending registration released"
+      );
+
+      const [dropId, userId] = ctx.key.split(":");
+
+      // Get rollover balance for SSE (consumed entries were refunded)
+      let rolloverBalance = 0;
+      if (userId) {
+        const balanceResult = await ctx
+          .objectClient(userRolloverObject, userId)
+          .getBalance({});
+        rolloverBalance = balanceResult.balance;
+      }
+
+      if (dropId && userId) {
+        await publishUserStateEffect(ctx, dropId, userId, resetState, {
+          rolloverBalance,
+          paymentError: input.reason,
+        });
+      }
+
+      return { success: true };
+    },
+
     /**
      * Get participant state
      */
@@ -348,7 +534,7 @@ export const participantObject = restate.object({
      */
     notifyPromotion: async (
       ctx: restate.ObjectContext,
-      _input: Record<string, never>
+      input: { variantId?: string }
     ): Promise<{ success: boolean }> => {
       const state = await ctx.get<ParticipantState>(STATE_KEY);
 
@@ -359,6 +545,7 @@ export const participantObject = restate.object({
       state.status = "winner";
       // Clear backup position since they're now a real winner
       state.backupPosition = undefined;
+      state.variantId = input.variantId;
 
       await ctx.set(STATE_KEY, state);
 
@@ -439,5 +626,100 @@ export const participantObject = restate.object({
 
       return { success: true, rolloverGranted };
     },
+
+    /**
+     * Notify participant the drop was cancelled
+     * Refunds consumed rollover entries and releases the entry payment
+     * (settled entries are left alone, see isSettledOnCancel)
+     */
+    notifyCancelled: async (
+      ctx: restate.ObjectContext,
+      input: { reason: string }
+    ): Promise<{ success: boolean; rolloverRefunded: number }> => {
+      const state = await ctx.get<ParticipantState>(STATE_KEY);
+
+      if (!state || isSettledOnCancel(state.status)) {
+        return { success: false, rolloverRefunded: 0 };
+      }
+
+      state.status = "cancelled";
+      await releaseEntryPayment(ctx, state);
+      await ctx.set(STATE_KEY, state);
+
+      const [dropId, userId] = ctx.key.split(":");
+      let rolloverRefunded = 0;
+
+      const rolloverUsed = state.rolloverUsed || 0;
+      if (rolloverUsed > 0 && userId) {
+        const result = await ctx
+          .objectClient(userRolloverObject, userId)
+          .addRollover({ amount: rolloverUsed });
+
+        rolloverRefunded = rolloverUsed;
+        logger.info(
+          {
+            participantKey: ctx.key,
+            rolloverRefunded,
+            newBalance: result.newBalance,
+            reason: input.reason,
+          },
+          "Refunded rollover for cancelled drop"
+        );
+      }
+
+      // Get updated rollover balance for SSE
+      let rolloverBalance = 0;
+      if (userId) {
+        const balanceResult = await ctx
+          .objectClient(userRolloverObject, userId)
+          .getBalance({});
+        rolloverBalance = balanceResult.balance;
+      }
+
+      if (dropId && userId) {
+        await publishUserStateEffect(ctx, dropId, userId, state, {
+          rolloverBalance,
+        });
+      }
+
+      return { success: true, rolloverRefunded };
+    },
+
+    /**
+     * Notify participant they were removed from the drop before the draw
+     * Releases the entry payment; consumed rollover entries are forfeited
+     * and the amount is kept on the participant state
+     */
+    notifyDisqualified: async (
+      ctx: restate.ObjectContext,
+      input: { reason: string }
+    ): Promise<{ success: boolean; rolloverForfeited?: number }> => {
+      const state = await ctx.get<ParticipantState>(STATE_KEY);
+
+      if (
+        !state ||
+        (state.status !== "registered" && state.status !== "pending_payment")
+      ) {
+        return { success: false };
+      }
+
+      const rolloverForfeited = state.rolloverUsed ?? 0;
+      state.status = "disqualified";
+      state.rolloverForfeited = rolloverForfeited;
+      await releaseEntryPayment(ctx, state);
+      await ctx.set(STATE_KEY, state);
+
+      logger.info(
+        { participantKey: ctx.key, reason: input.reason, rolloverForfeited },
+        "Participant disqualified"
+      );
+
+      const [dropId, userId] = ctx.key.split(":");
+      if (dropId && userId) {
+        await publishUserStateEffect(ctx, dropId, userId, state);
+      }
+
+      return { success: true, rolloverForfeited };
+    },
   },
 });
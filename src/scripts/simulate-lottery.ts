@@ -0,0 +1,117 @@
+#!/usr/bin/env tsx
+/**
+ * Simulate a planned drop before launching it
+ * Usage: npx tsx src/scripts/simulate-lottery.ts <scenario.json> [--iterations N] [--seed S] [--json]
+ *
+ * scenario.json: same body as POST /api/admin/simulate, e.g.
+ *   { "participants": 5000, "inventory": 200, "ticketWeights": [60, 25, 10, 5],
+ *     "loyaltyMix": { "bronze": 70, "silver": 20, "gold": 10 }, "purchaseRate": 0.85 }
+ *
+ * Runs locally without the participants × iterations cap the endpoint applies.
+ * Exits 0 on success, 2 on bad input.
+ */
+import { readFile } from "node:fs/promises";
+import { simulationScenarioSchema } from "../lib/schemas.js";
+import {
+  simulateDrop,
+  type SimulatedOutcome,
+  type SimulationSummary,
+} from "../lib/simulation.js";
+
+function parseArgs(argv: string[]): {
+  path?: string;
+  overrides: { iterations?: number; seed?: string };
+  json: boolean;
+} {
+  const overrides: { iterations?: number; seed?: string } = {};
+  let path: string | undefined;
+  let json = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--iterations") overrides.iterations = Number(argv[++i]);
+    else if (arg === "--seed") overrides.seed = argv[++i];
+    else if (arg === "--json") json = true;
+    else path = arg;
+  }
+
+  return { path, overrides, json };
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(2)}%`.padStart(8);
+}
+
+function printOutcomes(title: string, outcomes: SimulatedOutcome[]): void {
+  console.log(`\n${title}`);
+  console.log(
+    `  ${"".padEnd(14)} ${"avg n".padStart(9)} ${"win".padStart(8)} ${"backup".padStart(8)} ${"bought".padStart(8)}`
+  );
+  for (const outcome of outcomes) {
+    console.log(
+      `  ${outcome.label.padEnd(14)} ${outcome.participants.toFixed(1).padStart(9)} ${percent(outcome.winProbability)} ${percent(outcome.backupProbability)} ${percent(outcome.purchaseProbability)}`
+    );
+  }
+}
+
+function formatSummary(summary: SimulationSummary, digits = 0): string {
+  return `mean ${summary.mean.toFixed(digits)} (p5 ${summary.p5.toFixed(digits)}, p95 ${summary.p95.toFixed(digits)}, max ${summary.max.toFixed(digits)})`;
+}
+
+async function main() {
+  const { path, overrides, json } = parseArgs(process.argv.slice(2));
+  if (!path) {
+    console.error(
+      "Usage: npx tsx src/scripts/simulate-lottery.ts <scenario.json> [--iterations N] [--seed S] [--json]"
+    );
+    process.exit(2);
+  }
+
+  let scenario;
+  try {
+    const raw = JSON.parse(await readFile(path, "utf8"));
+    const result = simulationScenarioSchema.safeParse({ ...raw, ...overrides });
+    if (!result.success) {
+      throw new Error(
+        result.error.issues
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join("; ")
+      );
+    }
+    scenario = result.data;
+  } catch (error) {
+    console.error(
+      `Failed to read scenario: ${error instanceof Error ? error.message : error}`
+    );
+    process.exit(2);
+  }
+
+  const result = simulateDrop(scenario);
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  console.log(
+    `\nLottery simulation: ${result.iterations} draws of ${scenario.participants} participants (seed ${result.seed})`
+  );
+  console.log(
+    `  ${result.primaryWinners} winners + ${result.backupWinners} backups per draw`
+  );
+
+  printOutcomes("Win probability by tickets", result.byTickets);
+  printOutcomes("By loyalty tier", result.byLoyaltyTier);
+  if (result.byGeoZone) printOutcomes("By geo zone", result.byGeoZone);
+
+  console.log("\nBackups promoted");
+  console.log(`  ${formatSummary(result.backupDepth)}`);
+  console.log(
+    `  backups ran out in ${percent(result.backupDepth.exhaustedRate).trim()} of draws`
+  );
+
+  console.log("\nEntry revenue (quadratic pricing)");
+  console.log(`  ${formatSummary(result.revenue, 2)}`);
+  console.log(`  ${result.revenue.perParticipant.toFixed(2)} per participant`);
+}
+
+main();
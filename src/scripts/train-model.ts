@@ -0,0 +1,143 @@
+#!/usr/bin/env tsx
+/**
+ * Train the bot detection model from collected registrations
+ * Usage: npx tsx src/scripts/train-model.ts <training.ndjson> [--out models/bot-detector.json]
+ *          [--trees N] [--sample-size N] [--contamination C] [--seed S] [--allowed-only]
+ *
+ * training.ndjson: TrainingRecords written by the collector (ML_TRAINING_ENABLED=true)
+ * --allowed-only: fit on requests the rules let through, so the forest
+ *   learns what accepted traffic looks like
+ *
+ * Writes a SerializedModel for ML_MODEL_PATH (default: the configured path).
+ * Exits 0 on success, 2 on bad input.
+ */
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { config } from "../lib/config.js";
+import { IsolationForest } from "../lib/ml/isolation-forest.js";
+import { trainIsolationForest, type TrainingOptions } from "../lib/ml/trainer.js";
+import { FEATURE_COUNT, type TrainingRecord } from "../lib/ml/types.js";
+
+function parseArgs(argv: string[]): {
+  path?: string;
+  out: string;
+  options: TrainingOptions;
+  allowedOnly: boolean;
+} {
+  const options: TrainingOptions = {};
+  let path: string | undefined;
+  let out: string = config.ml.modelPath;
+  let allowedOnly = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--out") out = argv[++i];
+    else if (arg === "--trees") options.numTrees = Number(argv[++i]);
+    else if (arg === "--sample-size") options.sampleSize = Number(argv[++i]);
+    else if (arg === "--contamination") options.contamination = Number(argv[++i]);
+    else if (arg === "--seed") options.seed = argv[++i];
+    else if (arg === "--allowed-only") allowedOnly = true;
+    else path = arg;
+  }
+
+  return { path, out, options, allowedOnly };
+}
+
+/**
+ * Parse NDJSON training records, skipping lines that aren't valid records
+ */
+function parseRecords(text: string): { records: TrainingRecord[]; skipped: number } {
+  const records: TrainingRecord[] = [];
+  let skipped = 0;
+
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as TrainingRecord;
+      if (
+        Array.isArray(record.features) &&
+        record.features.length === FEATURE_COUNT &&
+        record.features.every((value) => Number.isFinite(value))
+      ) {
+        records.push(record);
+        continue;
+      }
+    } catch {
+      // Truncated line (e.g. written during a crash)
+    }
+    skipped++;
+  }
+
+  return { records, skipped };
+}
+
+function mean(values: number[]): string {
+  if (values.length === 0) return "-";
+  return (values.reduce((sum, value) => sum + value, 0) / values.length).toFixed(3);
+}
+
+async function main() {
+  const { path, out, options, allowedOnly } = parseArgs(process.argv.slice(2));
+  if (!path) {
+    console.error(
+      "Usage: npx tsx src/scripts/train-model.ts <training.ndjson> [--out path] [--trees N] [--sample-size N] [--contamination C] [--seed S] [--allowed-only]"
+    );
+    process.exit(2);
+  }
+
+  let records: TrainingRecord[];
+  let model;
+  try {
+    const parsed = parseRecords(await readFile(path, "utf8"));
+    records = parsed.records;
+    if (parsed.skipped > 0) {
+      console.warn(`Skipped ${parsed.skipped} invalid line(s)`);
+    }
+
+    const training = allowedOnly
+      ? records.filter((record) => record.allowed)
+      : records;
+    model = trainIsolationForest(
+      training.map((record) => record.features),
+      options
+    );
+  } catch (error) {
+    console.error(
+      `Failed to train model: ${error instanceof Error ? error.message : error}`
+    );
+    process.exit(2);
+  }
+
+  await mkdir(dirname(out), { recursive: true });
+  await writeFile(out, JSON.stringify(model));
+
+  // Report how the new model scores the collected traffic
+  const forest = new IsolationForest({
+    trees: model.trees,
+    sampleSize: model.config.sampleSize,
+    contamination: model.config.contamination,
+    threshold: model.threshold,
+    featureCount: model.config.featureCount,
+  });
+  const allowed = records.filter((record) => record.allowed);
+  const rejected = records.filter((record) => !record.allowed);
+  const flagged = records.filter((record) => forest.isAnomaly(record.features));
+
+  console.log(`\nTrained Isolation Forest (format v${model.version})`);
+  console.log(
+    `  ${records.length} records (${allowed.length} allowed, ${rejected.length} rejected)${allowedOnly ? ", fitted on allowed only" : ""}`
+  );
+  console.log(
+    `  ${model.config.numTrees} trees × ${model.config.sampleSize} samples, contamination ${model.config.contamination}`
+  );
+  console.log(`  threshold ${model.threshold.toFixed(4)}`);
+  console.log(
+    `  flagged ${flagged.length} (${((flagged.length / records.length) * 100).toFixed(1)}%)`
+  );
+  console.log(
+    `  mean anomaly score: allowed ${mean(allowed.map((r) => forest.score(r.features)))}, rejected ${mean(rejected.map((r) => forest.score(r.features)))}`
+  );
+  console.log(`\nWrote ${out}`);
+}
+
+main();
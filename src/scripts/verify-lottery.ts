@@ -0,0 +1,82 @@
+#!/usr/bin/env tsx
+/**
+ * Verify a drop's lottery offline
+ * Usage: npx tsx src/scripts/verify-lottery.ts <proof.json> <participants.ndjson|csv>
+ *
+ * proof.json: the LotteryProof (or the whole GET /api/drop/:id/lottery-proof response)
+ * participants: GET /api/drop/:id/lottery-proof/participants (NDJSON or CSV)
+ *
+ * Exits 0 when every check passes, 1 on the first divergence, 2 on bad input.
+ */
+import { readFile } from "node:fs/promises";
+import { verifyLottery } from "../lib/lottery-verifier.js";
+import { parseParticipantExport } from "../lib/participant-export.js";
+import type { LotteryProof, ParticipantExportRow } from "../lib/types.js";
+
+async function loadProof(path: string): Promise<LotteryProof> {
+  const parsed = JSON.parse(await readFile(path, "utf8"));
+  // Accept the API response ({ available, proof }) as well as a bare proof
+  const proof = parsed.proof ?? parsed;
+  if (!proof.commitment || !proof.secret || !Array.isArray(proof.winners)) {
+    throw new Error(`${path} is not a revealed lottery proof`);
+  }
+  return proof as LotteryProof;
+}
+
+async function loadParticipants(path: string): Promise<ParticipantExportRow[]> {
+  return parseParticipantExport(await readFile(path, "utf8"));
+}
+
+async function main() {
+  const [proofPath, participantsPath] = process.argv.slice(2);
+  if (!proofPath || !participantsPath) {
+    console.error(
+      "Usage: npx tsx src/scripts/verify-lottery.ts <proof.json> <participants.ndjson|csv>"
+    );
+    process.exit(2);
+  }
+
+  let proof: LotteryProof;
+  let participants: ParticipantExportRow[];
+  try {
+    proof = await loadProof(proofPath);
+    participants = await loadParticipants(participantsPath);
+  } catch (error) {
+    console.error(
+      `Failed to read input: ${error instanceof Error ? error.message : error}`
+    );
+    process.exit(2);
+  }
+
+  const report = verifyLottery(proof, participants);
+
+  console.log(`\nLottery verification (${proof.algorithm})\n`);
+  for (const check of report.checks) {
+    console.log(`${check.passed ? "✅" : "❌"} ${check.step}: ${check.detail}`);
+  }
+
+  if (report.firstFailure) {
+    const { step, divergence } = report.firstFailure;
+    console.log(`\nFAIL - first divergence at step "${step}"`);
+    if (divergence) {
+      if (divergence.label) console.log(`  at:       ${divergence.label}`);
+      console.log(`  expected: ${divergence.expected}`);
+      console.log(`  actual:   ${divergence.actual}`);
+    }
+    process.exit(1);
+  }
+
+  // The beacon value is taken from the proof; check it against the public beacon
+  if (proof.beacon) {
+    console.log(
+      `\nBeacon: ${proof.beacon.source} round ${proof.beacon.round} = ${proof.beacon.value}` +
+        "\n  compare this with the value the beacon published for that round"
+    );
+  }
+
+  console.log(
+    `\nPASS - ${proof.winners.length} winners and ${proof.backupWinners.length} backups reproduced from ${participants.length} participants`
+  );
+}
+
+main();
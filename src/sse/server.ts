@@ -10,6 +10,7 @@ import {
   subscribeDropState,
   subscribeUserState,
   subscribeQueueState,
+  subscribeReminders,
   decodeMessage,
 } from "../lib/nats.js";
 import { callRestateSafe } from "../lib/restate-client.js";
@@ -20,8 +21,14 @@ import type {
   SSEEvent,
   ParticipantState,
   TicketPricing,
+  VariantStock,
+  InventoryCounts,
 } from "../lib/types.js";
-import type { QueueSSEEvent, QueueStatusResponse } from "../../shared/types.js";
+import type {
+  QueueSSEEvent,
+  QueueStatusResponse,
+  ReminderSSEEvent,
+} from "../../shared/types.js";
 
 const sseApp = new Hono();
 const logger = createLogger("sse");
@@ -47,6 +54,7 @@ interface DropStateResponse {
   totalTickets: number;
   inventory: number;
   winnerCount: number;
+  registrationStart?: number;
   registrationEnd: number;
   purchaseEnd?: number;
   ticketPricing: TicketPricing;
@@ -57,8 +65,52 @@ interface DropStateResponse {
   geoFence?: unknown;
   geoFenceMode?: unknown;
   geoFenceBonusMultiplier?: number;
+  // Multi-SKU: per-variant remaining stock
+  variants?: VariantStock[];
+  inventoryCounts?: InventoryCounts;
 }
 
+/**
+ * SSE endpoint for registration-open reminders
+ * Registered before /events/:dropId/:userId so "reminders" isn't taken as a dropId
+ */
+sseApp.get("/events/reminders/:userId", async (c) => {
+  const userId = c.req.param("userId");
+
+  return streamSSE(c, async (stream) => {
+    const reminderSub = await subscribeReminders(userId);
+
+    const forwardReminders = async () => {
+      for await (const msg of reminderSub) {
+        try {
+          const data = decodeMessage(msg.data) as ReminderSSEEvent;
+          await stream.writeSSE({
+            data: JSON.stringify(data),
+            event: data.type,
+          });
+        } catch (err) {
+          console.error("Error forwarding reminder event:", err);
+        }
+      }
+    };
+
+    // Start forwarding in background
+    forwardReminders().catch((err) => {
+      console.error("Reminder SSE forwarding error:", err);
+    });
+
+    c.req.raw.signal.addEventListener("abort", () => {
+      logger.info({ userId }, "Reminder client disconnected");
+      reminderSub.unsubscribe();
+    });
+
+    // Keep connection open
+    while (!c.req.raw.signal.aborted) {
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+  });
+});
+
 /**
  * SSE endpoint for real-time updates
  * Uses NATS for event subscriptions instead of polling Restate
@@ -88,6 +140,7 @@ sseApp.get("/events/:dropId/:userId", async (c) => {
           participantCount: dropState.participantCount,
           totalTickets: dropState.totalTickets,
           inventory: dropState.inventory,
+          registrationStart: dropState.registrationStart,
           registrationEnd: dropState.registrationEnd,
           purchaseEnd: dropState.purchaseEnd,
           serverTime: Date.now(),
@@ -97,6 +150,8 @@ sseApp.get("/events/:dropId/:userId", async (c) => {
           geoFence: dropState.geoFence as SSEEvent["geoFence"],
           geoFenceMode: dropState.geoFenceMode as SSEEvent["geoFenceMode"],
           geoFenceBonusMultiplier: dropState.geoFenceBonusMultiplier,
+          variants: dropState.variants,
+          inventoryCounts: dropState.inventoryCounts,
         };
 
         await stream.writeSSE({
@@ -126,6 +181,7 @@ sseApp.get("/events/:dropId/:userId", async (c) => {
           // Rollover info
           rolloverUsed: participantState.rolloverUsed,
           rolloverBalance: participantState.rolloverBalance,
+          variantId: participantState.variantId,
         };
 
         await stream.writeSSE({
@@ -196,8 +252,9 @@ sseApp.get("/events/:dropId/:userId", async (c) => {
 
 /**
  * SSE endpoint for active drops list
- * Sends a full snapshot (active-only, sorted by soonest deadline) initially and
- * then whenever any drop.*.state event is observed.
+ * Sends a full snapshot (active sorted by soonest deadline, plus upcoming
+ * sorted by soonest opening) initially and then whenever any drop.*.state
+ * event is observed.
  */
 sseApp.get("/events/drops", async (c) => {
   return streamSSE(c, async (stream) => {
@@ -206,7 +263,11 @@ sseApp.get("/events/drops", async (c) => {
       if (!ids.length) {
         await stream.writeSSE({
           event: "drops",
-          data: JSON.stringify({ drops: [], serverTime: Date.now() }),
+          data: JSON.stringify({
+            drops: [],
+            upcoming: [],
+            serverTime: Date.now(),
+          }),
         });
         return;
       }
@@ -250,9 +311,20 @@ sseApp.get("/events/drops", async (c) => {
           return da - db;
         });
 
+      const upcoming = states
+        .filter(isDropListItem)
+        .filter((d) => d.phase === "upcoming")
+        .sort(
+          (a, b) => (a.registrationStart ?? 0) - (b.registrationStart ?? 0)
+        );
+
       await stream.writeSSE({
         event: "drops",
-        data: JSON.stringify({ drops: active, serverTime: Date.now() }),
+        data: JSON.stringify({
+          drops: active,
+          upcoming,
+          serverTime: Date.now(),
+        }),
       });
     };
 
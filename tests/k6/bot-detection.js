@@ -15,7 +15,7 @@
 import http from "k6/http";
 import { check, sleep } from "k6";
 import { Counter, Trend, Rate } from "k6/metrics";
-import { API_URL, RESTATE_URL, JSON_HEADERS, generateDropId } from "./lib/config.js";
+import { API_URL, RESTATE_URL, JSON_HEADERS, generateDropId, powChallengeUrl } from "./lib/config.js";
 import { solvePow } from "./lib/pow-solver.js";
 import { initializeDrop } from "./lib/restate.js";
 
@@ -110,7 +110,7 @@ export function setup() {
 export function challengeFlood(data) {
   const dropId = data?.dropId || DROP_ID;
   const start = Date.now();
-  const res = http.get(`${API_URL}/api/pow/challenge`, { timeout: "10s" });
+  const res = http.get(powChallengeUrl(dropId, `k6-flood-fp-${__VU}`), { timeout: "10s" });
   challengeTime.add(Date.now() - start);
 
   if (res.status === 200) {
@@ -143,7 +143,7 @@ export function invalidSolutions(data) {
   const userId = `k6-invalid-${__VU}-${__ITER}-${Date.now()}`;
 
   // Get a valid challenge first
-  const challengeRes = http.get(`${API_URL}/api/pow/challenge`);
+  const challengeRes = http.get(powChallengeUrl(dropId, `k6-invalid-fp-${__VU}`));
   if (challengeRes.status !== 200) {
     errorRate.add(1);
     return;
@@ -268,7 +268,7 @@ export function validFlow(data) {
   const userId = `k6-valid-${__VU}-${__ITER}-${Date.now()}`;
 
   // 1. Get fresh challenge
-  const challengeRes = http.get(`${API_URL}/api/pow/challenge`, {
+  const challengeRes = http.get(powChallengeUrl(dropId, `k6-valid-fp-${__VU}`), {
     timeout: "10s",
   });
 
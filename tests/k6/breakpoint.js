@@ -16,7 +16,7 @@
 import http from "k6/http";
 import { check, sleep } from "k6";
 import { Counter, Trend, Rate, Gauge } from "k6/metrics";
-import { API_URL, JSON_HEADERS, generateDropId } from "./lib/config.js";
+import { API_URL, JSON_HEADERS, generateDropId, powChallengeUrl } from "./lib/config.js";
 import { solvePow } from "./lib/pow-solver.js";
 import { initializeDrop } from "./lib/restate.js";
 
@@ -73,7 +73,7 @@ export default function (data) {
   currentRate.add(__ITER / Math.max(elapsed, 1));
 
   // 1. Get challenge
-  const challengeRes = http.get(`${API_URL}/api/pow/challenge`, {
+  const challengeRes = http.get(powChallengeUrl(dropId, `k6-bp-fp-${__VU}`), {
     timeout: "10s",
   });
 
@@ -26,3 +26,14 @@ export function generateDropId(prefix = "k6-test") {
   return `${prefix}-${timestamp}-${random}`;
 }
 
+
+/**
+ * PoW challenge URL for a registration
+ * Challenges are only accepted for the drop and fingerprint they were issued for
+ * @param {string} dropId - Drop the solution will register for
+ * @param {string} fingerprint - botValidation.fingerprint of the registration
+ * @returns {string} Challenge URL
+ */
+export function powChallengeUrl(dropId, fingerprint) {
+  return `${API_URL}/api/pow/challenge?dropId=${encodeURIComponent(dropId)}&fingerprint=${encodeURIComponent(fingerprint)}`;
+}
@@ -16,7 +16,7 @@
 import http from "k6/http";
 import { check, sleep } from "k6";
 import { Counter, Trend, Rate, Gauge } from "k6/metrics";
-import { API_URL, RESTATE_URL, JSON_HEADERS } from "./lib/config.js";
+import { API_URL, RESTATE_URL, JSON_HEADERS, powChallengeUrl } from "./lib/config.js";
 import { solvePow } from "./lib/pow-solver.js";
 import { runLottery, getDropState } from "./lib/restate.js";
 
@@ -142,7 +142,7 @@ function registerForDrop(dropId, successCounter, failedCounter) {
   const userId = `k6-multi-${dropId.slice(-1)}-${__VU}-${__ITER}-${Date.now()}`;
 
   // 1. Get challenge
-  const challengeRes = http.get(`${API_URL}/api/pow/challenge`, {
+  const challengeRes = http.get(powChallengeUrl(dropId, `k6-multi-fp-${__VU}`), {
     timeout: "10s",
   });
 
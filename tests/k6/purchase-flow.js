@@ -17,7 +17,7 @@ import http from "k6/http";
 import { check, sleep } from "k6";
 import { Counter, Trend, Rate } from "k6/metrics";
 import { SharedArray } from "k6/data";
-import { API_URL, RESTATE_URL, DROP_ID, JSON_HEADERS } from "./lib/config.js";
+import { API_URL, RESTATE_URL, DROP_ID, JSON_HEADERS, powChallengeUrl } from "./lib/config.js";
 import { solvePow } from "./lib/pow-solver.js";
 import { runLottery, getDropState } from "./lib/restate.js";
 
@@ -129,7 +129,7 @@ export function registerUser(data) {
   const userId = `k6-purchase-${__VU}-${__ITER}-${Date.now()}`;
 
   // 1. Get challenge
-  const challengeRes = http.get(`${API_URL}/api/pow/challenge`, {
+  const challengeRes = http.get(powChallengeUrl(TEST_DROP_ID, `k6-purchase-fp-${__VU}`), {
     timeout: "10s",
   });
 
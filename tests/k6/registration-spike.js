@@ -13,7 +13,7 @@ import http from "k6/http";
 import { check, sleep } from "k6";
 import { Counter, Trend } from "k6/metrics";
 import { solvePow } from "./lib/pow-solver.js";
-import { API_URL, generateDropId } from "./lib/config.js";
+import { API_URL, generateDropId, powChallengeUrl } from "./lib/config.js";
 import { initializeDrop } from "./lib/restate.js";
 
 // Custom metrics
@@ -50,7 +50,7 @@ export default function (data) {
   const userId = `k6-spike-${__VU}-${__ITER}-${Date.now()}`;
 
   // 1. Get challenge
-  const challengeRes = http.get(`${API_URL}/api/pow/challenge`);
+  const challengeRes = http.get(powChallengeUrl(dropId, `k6-fp-${__VU}`));
 
   if (
     !check(challengeRes, {
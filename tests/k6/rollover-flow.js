@@ -15,7 +15,7 @@
 import http from "k6/http";
 import { check, sleep } from "k6";
 import { Counter, Trend, Rate } from "k6/metrics";
-import { API_URL, RESTATE_URL, JSON_HEADERS } from "./lib/config.js";
+import { API_URL, RESTATE_URL, JSON_HEADERS, powChallengeUrl } from "./lib/config.js";
 import { solvePow } from "./lib/pow-solver.js";
 import {
   runLottery,
@@ -161,7 +161,7 @@ export function registerDrop1(data) {
   const tickets = Math.floor(Math.random() * 4) + 2;
 
   // 1. Get challenge
-  const challengeRes = http.get(`${API_URL}/api/pow/challenge`, {
+  const challengeRes = http.get(powChallengeUrl(DROP1_ID, `k6-rollover-fp-${__VU}`), {
     timeout: "10s",
   });
 
@@ -292,7 +292,7 @@ export function registerDrop2(data) {
   const rolloverBefore = balanceRes.ok ? balanceRes.json?.balance || 0 : 0;
 
   // 1. Get challenge
-  const challengeRes = http.get(`${API_URL}/api/pow/challenge`, {
+  const challengeRes = http.get(powChallengeUrl(DROP2_ID, `k6-rollover-fp-${__VU}`), {
     timeout: "10s",
   });
 
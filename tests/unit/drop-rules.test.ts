@@ -0,0 +1,149 @@
+/**
+ * Unit Tests for Drop and Participant state rules
+ *
+ * Covers:
+ * - Scheduled lottery timers become no-ops once rescheduled or cancelled
+ * - Geo, algorithm and cohort quota edits are locked once anyone registers
+ * - Cancelling after the lottery doesn't refund settled entries again
+ * - Multi-unit drops draw one winner per unit unless told otherwise
+ *
+ * Run with: npx vitest run tests/unit/drop-rules.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getExpectedUnitsPerWinner,
+  getLockedConfigError,
+  isStaleLotteryTimer,
+} from "../../src/restate/drop.js";
+import { isSettledOnCancel } from "../../src/restate/participant.js";
+import type { DropConfigUpdate, DropState, Phase } from "../../src/lib/types.js";
+
+const REGISTRATION_END = 1_700_000_000_000;
+
+function createState(phase: Phase): DropState {
+  return {
+    phase,
+    inventory: 10,
+    initialInventory: 10,
+    participantTickets: { alice: 1 },
+    participantMultipliers: { alice: 1 },
+    winners: [],
+    backupWinners: [],
+    expiredWinners: [],
+    config: {
+      dropId: "drop-1",
+      inventory: 10,
+      registrationStart: REGISTRATION_END - 60_000,
+      registrationEnd: REGISTRATION_END,
+      purchaseWindow: 300,
+      ticketPriceUnit: 1,
+      maxTicketsPerUser: 10,
+    },
+  };
+}
+
+describe("isStaleLotteryTimer", () => {
+  it("runs the timer scheduled for the current registrationEnd", () => {
+    const state = createState("registration");
+    expect(isStaleLotteryTimer(state, REGISTRATION_END)).toBe(false);
+  });
+
+  it("ignores a timer scheduled for an earlier registrationEnd", () => {
+    expect(
+      isStaleLotteryTimer(createState("registration"), REGISTRATION_END - 1)
+    ).toBe(true);
+  });
+
+  it("ignores the timer once the drop is cancelled", () => {
+    const state = createState("cancelled");
+    expect(isStaleLotteryTimer(state, REGISTRATION_END)).toBe(true);
+  });
+
+  it("never treats admin runs as stale", () => {
+    expect(isStaleLotteryTimer(createState("cancelled"), undefined)).toBe(false);
+  });
+});
+
+describe("getLockedConfigError", () => {
+  const algorithmChange: DropConfigUpdate = {
+    lotteryAlgorithm: { id: "uniform-v1" },
+  };
+  const quotaChange: DropConfigUpdate = {
+    cohortQuotas: [{ id: "new", criterion: { type: "first_time" }, share: 0.2 }],
+  };
+
+  it("allows any edit before the first registration", () => {
+    expect(getLockedConfigError(algorithmChange, 0)).toBeNull();
+    expect(getLockedConfigError(quotaChange, 0)).toBeNull();
+    expect(getLockedConfigError({ geoFenceMode: "bonus" }, 0)).toBeNull();
+  });
+
+  it("locks the lottery algorithm once participants registered", () => {
+    expect(getLockedConfigError(algorithmChange, 1)).toMatch(
+      /Lottery algorithm cannot change/
+    );
+  });
+
+  it("locks cohort quotas once participants registered", () => {
+    expect(getLockedConfigError(quotaChange, 1)).toMatch(
+      /Cohort quotas cannot change/
+    );
+  });
+
+  it("locks the geo-fence once participants registered", () => {
+    expect(getLockedConfigError({ geoFenceMode: "bonus" }, 1)).toMatch(
+      /Geo-fence cannot change/
+    );
+  });
+
+  it("still allows other edits once participants registered", () => {
+    expect(
+      getLockedConfigError({ inventory: 20, maxTicketsPerUser: 20 }, 3)
+    ).toBeNull();
+  });
+});
+
+describe("isSettledOnCancel", () => {
+  it("refunds entries still waiting on the draw or the purchase", () => {
+    for (const status of [
+      "pending_payment",
+      "registered",
+      "winner",
+      "backup_winner",
+    ] as const) {
+      expect(isSettledOnCancel(status)).toBe(false);
+    }
+  });
+
+  it("leaves losers and expired winners of a cancel after the lottery alone", () => {
+    // They already received rollover for the captured entry payment
+    expect(isSettledOnCancel("loser")).toBe(true);
+    expect(isSettledOnCancel("expired")).toBe(true);
+  });
+
+  it("leaves buyers, disqualified and already cancelled entries alone", () => {
+    for (const status of ["purchased", "disqualified", "cancelled"] as const) {
+      expect(isSettledOnCancel(status)).toBe(true);
+    }
+  });
+});
+
+describe("getExpectedUnitsPerWinner", () => {
+  it("draws one winner per unit even when winners may buy several", () => {
+    const { config } = createState("registration");
+    const multiUnit = { ...config, maxUnitsPerWinner: 5 };
+    expect(getExpectedUnitsPerWinner(multiUnit)).toBe(1);
+  });
+
+  it("uses expectedUnitsPerWinner when the drop sets it", () => {
+    const { config } = createState("registration");
+    expect(
+      getExpectedUnitsPerWinner({
+        ...config,
+        maxUnitsPerWinner: 5,
+        expectedUnitsPerWinner: 2.5,
+      })
+    ).toBe(2.5);
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Unit Tests for the post-lottery fairness report
+ *
+ * Covers:
+ * - Capped proportional win probabilities sum to the winner count
+ * - Gini coefficient bounds
+ * - Chi-square p-values and bucket pooling
+ * - Report buckets for a real weighted draw
+ * - Honest many-winner draws pass; tiered and quota draws skip the check
+ *
+ * Run with: npx vitest run tests/unit/fairness.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  buildFairnessReport,
+  chiSquarePValue,
+  chiSquareTest,
+  expectedWinProbabilities,
+  giniCoefficient,
+} from "../../src/lib/fairness.js";
+import { selectWinnersWithMultipliers } from "../../src/lib/lottery.js";
+import type { FairnessBucket } from "../../src/lib/types.js";
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+describe("expectedWinProbabilities", () => {
+  it("is proportional to weight when nobody is certain to win", () => {
+    const probabilities = expectedWinProbabilities([1, 2, 3, 4], 1);
+
+    [0.1, 0.2, 0.3, 0.4].forEach((expected, i) =>
+      expect(probabilities[i]).toBeCloseTo(expected)
+    );
+  });
+
+  it("replays the draw for several winners of unequal weight", () => {
+    const probabilities = expectedWinProbabilities([100, 1, 1, 1, 1], 2);
+
+    expect(probabilities[0]).toBeGreaterThan(0.95);
+    for (const p of probabilities.slice(1)) {
+      expect(p).toBeGreaterThan(0.15);
+      expect(p).toBeLessThan(0.35);
+    }
+    expect(sum(probabilities)).toBeCloseTo(2);
+  });
+
+  it("is flatter than proportional when many winners are drawn", () => {
+    // 1 and 10 tickets, half the field wins: proportional shares would be
+    // 0.09 and 0.91
+    const weights = Array.from({ length: 400 }, (_, i) => (i % 2 ? 10 : 1));
+    const probabilities = expectedWinProbabilities(weights, 200);
+
+    expect(probabilities[0]).toBeGreaterThan(0.12);
+    expect(probabilities[1]).toBeLessThan(0.89);
+    expect(sum(probabilities)).toBeCloseTo(200);
+  });
+
+  it("is exact for equal weights", () => {
+    expect(expectedWinProbabilities([2, 2, 2, 2], 3)).toEqual([
+      0.75, 0.75, 0.75, 0.75,
+    ]);
+  });
+
+  it("gives everyone a win when there are enough slots", () => {
+    expect(expectedWinProbabilities([1, 5], 3)).toEqual([1, 1]);
+  });
+});
+
+describe("giniCoefficient", () => {
+  it("is 0 for equal holdings and approaches 1 for one holder", () => {
+    expect(giniCoefficient([4, 4, 4, 4])).toBeCloseTo(0);
+    expect(giniCoefficient([0, 0, 0, 10])).toBeCloseTo(0.75);
+    expect(giniCoefficient([])).toBe(0);
+  });
+});
+
+describe("chi-square", () => {
+  it("matches known critical values", () => {
+    expect(chiSquarePValue(3.841, 1)).toBeCloseTo(0.05, 3);
+    expect(chiSquarePValue(9.21, 2)).toBeCloseTo(0.01, 3);
+    expect(chiSquarePValue(0, 4)).toBe(1);
+  });
+
+  const bucket = (
+    participants: number,
+    winners: number,
+    expectedWinners: number
+  ): FairnessBucket => ({
+    label: `${participants}`,
+    participants,
+    tickets: participants,
+    effectiveTickets: participants,
+    winners,
+    expectedWinners,
+    expectedWinRate: expectedWinners / participants,
+    actualWinRate: winners / participants,
+  });
+
+  it("passes a draw that matches expectation and flags a skewed one", () => {
+    const fair = chiSquareTest([bucket(100, 20, 20), bucket(100, 30, 30)]);
+    expect(fair.degreesOfFreedom).toBe(1);
+    expect(fair.passed).toBe(true);
+
+    const skewed = chiSquareTest([bucket(100, 0, 25), bucket(100, 50, 25)]);
+    expect(skewed.passed).toBe(false);
+  });
+
+  it("pools small buckets and skips the test without enough data", () => {
+    const pooled = chiSquareTest([
+      bucket(10, 1, 2),
+      bucket(10, 3, 2),
+      bucket(10, 2, 2),
+      bucket(100, 20, 20),
+    ]);
+    expect(pooled.degreesOfFreedom).toBe(1);
+
+    const tiny = chiSquareTest([bucket(3, 1, 1), bucket(3, 1, 1)]);
+    expect(tiny).toEqual({
+      applicable: true,
+      statistic: 0,
+      degreesOfFreedom: 0,
+      pValue: 1,
+      passed: true,
+    });
+  });
+});
+
+describe("buildFairnessReport", () => {
+  const participantTickets: Record<string, number> = {};
+  const participantMultipliers: Record<string, number> = {};
+  for (let i = 0; i < 300; i++) {
+    const userId = `user-${String(i).padStart(3, "0")}`;
+    participantTickets[userId] = (i % 3) + 1;
+    participantMultipliers[userId] = i % 5 === 0 ? 1.5 : 1.0;
+  }
+  const winners = selectWinnersWithMultipliers(
+    participantTickets,
+    participantMultipliers,
+    60,
+    "fairness-seed"
+  );
+
+  const report = buildFairnessReport({
+    algorithm: "weighted-fenwick-v2",
+    participantTickets,
+    participantMultipliers,
+    winners,
+    geoFenced: false,
+    partitioned: false,
+    generatedAt: 1,
+  });
+
+  it("accounts for every participant and winner in each grouping", () => {
+    for (const buckets of [
+      report.ticketBuckets,
+      report.multiplierBuckets,
+      report.loyaltyBuckets,
+    ]) {
+      expect(sum(buckets.map((b) => b.participants))).toBe(300);
+      expect(sum(buckets.map((b) => b.winners))).toBe(60);
+      expect(sum(buckets.map((b) => b.expectedWinners))).toBeCloseTo(60);
+    }
+    expect(report.ticketBuckets.map((b) => b.label)).toEqual([
+      "1 ticket",
+      "2 tickets",
+      "3 tickets",
+    ]);
+    expect(report.multiplierBuckets.map((b) => b.label)).toEqual([
+      "1.00x",
+      "1.50x",
+    ]);
+    expect(report.geoBuckets).toBeUndefined();
+  });
+
+  it("expects more wins for more tickets and finds the draw plausible", () => {
+    const [one, two, three] = report.ticketBuckets;
+    expect(one.expectedWinRate).toBeLessThan(two.expectedWinRate);
+    expect(two.expectedWinRate).toBeLessThan(three.expectedWinRate);
+    expect(report.gini).toBeGreaterThan(0);
+    expect(report.chiSquare.degreesOfFreedom).toBeGreaterThan(0);
+    expect(report.chiSquare.passed).toBe(true);
+  });
+
+  it("models uniform-v1 as one entry each", () => {
+    const uniform = buildFairnessReport({
+      algorithm: "uniform-v1",
+      participantTickets,
+      participantMultipliers,
+      winners,
+      geoFenced: false,
+      partitioned: false,
+      generatedAt: 1,
+    });
+
+    expect(uniform.expectationModel).toBe("uniform");
+    for (const bucket of uniform.ticketBuckets) {
+      expect(bucket.expectedWinRate).toBeCloseTo(0.2);
+    }
+  });
+
+  it("skips the chi-square check for draws the model doesn't describe", () => {
+    const tiered = buildFairnessReport({
+      algorithm: "tiered-priority-v1",
+      participantTickets,
+      participantMultipliers,
+      winners,
+      geoFenced: false,
+      partitioned: false,
+      generatedAt: 1,
+    });
+    const quotas = buildFairnessReport({
+      algorithm: "weighted-fenwick-v2",
+      participantTickets,
+      participantMultipliers,
+      winners,
+      geoFenced: false,
+      partitioned: true,
+      generatedAt: 1,
+    });
+
+    expect(report.chiSquare.applicable).toBe(true);
+    for (const { chiSquare } of [tiered, quotas]) {
+      expect(chiSquare).toMatchObject({ applicable: false, passed: true });
+    }
+  });
+});
+
+describe("buildFairnessReport for many-winner draws", () => {
+  // 2000 participants with 1-10 tickets, half of them win
+  const participantTickets: Record<string, number> = {};
+  for (let i = 0; i < 2000; i++) {
+    participantTickets[`user-${String(i).padStart(4, "0")}`] = (i % 10) + 1;
+  }
+
+  it("passes honest weighted-fenwick-v2 draws", () => {
+    for (const seed of ["a1", "b2", "c3", "d4", "e5"]) {
+      const winners = selectWinnersWithMultipliers(
+        participantTickets,
+        {},
+        1000,
+        `many-winners-${seed}`
+      );
+      const report = buildFairnessReport({
+        algorithm: "weighted-fenwick-v2",
+        participantTickets,
+        participantMultipliers: {},
+        winners,
+        geoFenced: false,
+        partitioned: false,
+        generatedAt: 1,
+      });
+
+      expect(report.chiSquare.degreesOfFreedom).toBeGreaterThan(0);
+      expect(report.chiSquare.passed).toBe(true);
+    }
+  });
+});
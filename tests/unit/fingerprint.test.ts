@@ -200,6 +200,51 @@ async function runTests() {
     assert(result.valid === true, "High confidence should still be valid");
   }
 
+  // Test 17: ML component takes its weight of the score
+  {
+    const result = await calculateTrustScore(
+      {
+        fingerprint: "valid-fingerprint-id",
+        fingerprintConfidence: 100,
+        timingMs: 2000,
+        powSolution: "ignored",
+        powChallenge: "ignored",
+      },
+      true,
+      undefined,
+      {
+        result: { anomalyScore: 0.8, trustComponent: 20, usedFallback: false },
+        weight: 0.25,
+      }
+    );
+
+    // Trust = 100*0.75 + 20*0.25 = 80
+    assert(result.trustScore === 80, "ML component should blend in at its weight");
+    assert(result.anomalyScore === 0.8, "Anomaly score should be reported");
+  }
+
+  // Test 18: ML fallback leaves the rule-based score alone
+  {
+    const result = await calculateTrustScore(
+      {
+        fingerprint: "valid-fingerprint-id",
+        fingerprintConfidence: 100,
+        timingMs: 2000,
+        powSolution: "ignored",
+        powChallenge: "ignored",
+      },
+      true,
+      undefined,
+      {
+        result: { anomalyScore: 0.5, trustComponent: 50, usedFallback: true },
+        weight: 0.25,
+      }
+    );
+
+    assert(result.trustScore === 100, "ML fallback should not change the score");
+    assert(result.anomalyScore === undefined, "No anomaly score on fallback");
+  }
+
   console.log("\n" + "=".repeat(50));
   console.log("✅ All fingerprint tests passed!\n");
 }
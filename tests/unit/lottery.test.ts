@@ -14,14 +14,43 @@ import {
   getTotalTickets,
   FenwickTree,
   createLotteryProof,
+  rankParticipantsWithMultipliers,
+  allocateVariantWinners,
+  generateLotteryCommitment,
+  hashDisqualifiedUser,
+  LOTTERY_ALGORITHMS,
+  selectWinnersWithAlgorithm,
+  validateLotteryAlgorithm,
+  drawWithCohortQuotas,
+  getCohortMembership,
+  getCohortSlots,
+  getParticipantCohorts,
+  validateCohortQuotas,
 } from "../../src/lib/lottery.js";
 import {
   MerkleTree,
   hashLeaf,
   verifyMerkleProof,
+  verifyMerkleMultiProof,
   buildParticipantMerkleTree,
+  computeMerkleRoot,
   generateVerifiableSeedFromMerkle,
 } from "../../src/lib/merkle.js";
+import { verifyLottery } from "../../src/lib/lottery-verifier.js";
+import { findBlockedParticipants } from "../../src/lib/blocklist.js";
+import {
+  formatParticipantExportRow,
+  parseParticipantExport,
+  participantCsvHeader,
+  toParticipantExportRow,
+} from "../../src/lib/participant-export.js";
+import type {
+  CohortQuota,
+  LotteryAlgorithmConfig,
+  BlocklistEntry,
+  LotteryBeacon,
+  ParticipantProfile,
+} from "../../src/lib/types.js";
 
 function assert(condition: boolean, message: string) {
   if (!condition) {
@@ -777,6 +806,651 @@ async function runTests() {
     assert(durationMs < 10000, "Should complete in under 10 seconds");
   }
 
+  // ============================================================
+  // Multi-SKU Variant Allocation Tests
+  // ============================================================
+  console.log("\n📋 allocateVariantWinners (multi-SKU):\n");
+
+  // Test 51: Full ranking matches the weighted draw prefix
+  {
+    const participantTickets = { alice: 3, bob: 1, carol: 5, dave: 2 };
+    const participantMultipliers = { alice: 1.0, bob: 1.5, carol: 1.0, dave: 1.2 };
+    const ranking = rankParticipantsWithMultipliers(
+      participantTickets,
+      participantMultipliers,
+      "variant-seed"
+    );
+    const top2 = selectWinnersWithMultipliers(
+      participantTickets,
+      participantMultipliers,
+      2,
+      "variant-seed"
+    );
+
+    assert(ranking.length === 4, "Ranking should include every participant");
+    assert(
+      ranking[0] === top2[0] && ranking[1] === top2[1],
+      "Ranking prefix should match selectWinnersWithMultipliers"
+    );
+  }
+
+  // Test 52: Falls back to secondary preferences, then to backups
+  {
+    const allocation = allocateVariantWinners(
+      ["u1", "u2", "u3", "u4", "u5"],
+      { "us-9": 1, "us-10": 1 },
+      {
+        u1: ["us-10"],
+        u2: ["us-10", "us-9"], // us-10 taken -> falls back to us-9
+        u3: ["us-10"], // both sizes it wants are gone -> backup
+      },
+      2
+    );
+
+    assert(allocation.winnerVariants.u1 === "us-10", "u1 should get first choice");
+    assert(allocation.winnerVariants.u2 === "us-9", "u2 should fall back to second choice");
+    assert(allocation.winners.length === 2, "Winners limited to total stock");
+    assert(
+      allocation.backupWinners.join(",") === "u3,u4",
+      "Unserved participants become backups in draw order"
+    );
+  }
+
+  // Test 53: No preferences means any variant with stock
+  {
+    const allocation = allocateVariantWinners(
+      ["u1", "u2", "u3"],
+      { red: 0, blue: 2 },
+      {},
+      0
+    );
+
+    assert(
+      allocation.winners.join(",") === "u1,u2",
+      "Participants without preferences should take any variant"
+    );
+    assert(
+      allocation.winnerVariants.u1 === "blue" && allocation.winnerVariants.u2 === "blue",
+      "Sold-out variants should be skipped"
+    );
+    assert(allocation.backupWinners.length === 0, "No backups when backupCount is 0");
+  }
+
+  // ============================================================
+  // Offline Verifier Tests
+  // ============================================================
+  console.log("\n📋 verifyLottery (offline verifier):\n");
+
+  const hashLeafMatches = (userId: string, row: { effectiveTickets: number; index: number; leafHash: string }) =>
+    hashLeaf({ userId, effectiveTickets: row.effectiveTickets, index: row.index }) === row.leafHash;
+
+  // Build a proof the same way runLottery does
+  const buildPublishedLottery = (beacon?: LotteryBeacon) => {
+    const participantTickets = { alice: 3, bob: 1, carol: 5, dave: 2, erin: 4 };
+    const participantMultipliers = { alice: 1.0, bob: 1.5, carol: 1.0, dave: 1.2, erin: 1.0 };
+    const { secret, commitment } = generateLotteryCommitment();
+    const tree = MerkleTree.fromParticipants(participantTickets, participantMultipliers);
+    const seed = generateVerifiableSeedFromMerkle(secret, tree.root, beacon?.value);
+    const selected = selectWinnersWithMultipliers(
+      participantTickets,
+      participantMultipliers,
+      3,
+      seed
+    );
+    const { proof, leaves, leafHashes } = createLotteryProof(
+      secret,
+      commitment,
+      participantTickets,
+      participantMultipliers,
+      selected.slice(0, 2),
+      selected.slice(2),
+      { beacon }
+    );
+    const rows = leaves.map((leaf) =>
+      toParticipantExportRow("drop-1", leaf, leafHashes[leaf.index])
+    );
+    return { proof, rows };
+  };
+
+  // Test 54: A genuine proof verifies end to end
+  {
+    const { proof, rows } = buildPublishedLottery();
+    const report = verifyLottery(proof, rows);
+
+    assert(report.passed, "Genuine lottery should verify");
+    assert(
+      report.checks.map((c) => c.step).join(",") ===
+        "export,commitment,participant_count,merkle_root,seed,winner_order",
+      "Every step should be checked"
+    );
+  }
+
+  // Test 55: Tampered winner order reports the exact position
+  {
+    const { proof, rows } = buildPublishedLottery();
+    const tampered = {
+      ...proof,
+      winners: [proof.winners[0], proof.backupWinners[0]],
+      backupWinners: [proof.winners[1]],
+    };
+    const report = verifyLottery(tampered, rows);
+
+    assert(!report.passed, "Swapped winner should fail verification");
+    assert(report.firstFailure?.step === "winner_order", "Failure should be in the draw");
+    assert(
+      report.firstFailure?.divergence?.label === "winner #2" &&
+        report.firstFailure.divergence.actual === proof.backupWinners[0],
+      "Divergence should point at winner #2 with the published user"
+    );
+  }
+
+  // Test 56: A tampered leaf breaks the Merkle root first
+  {
+    const { proof, rows } = buildPublishedLottery();
+    const altered = rows.map((row) =>
+      row.index === 1 ? { ...row, leafHash: "0".repeat(64) } : row
+    );
+    const report = verifyLottery(proof, altered);
+
+    assert(report.firstFailure?.step === "merkle_root", "Root mismatch should be the first failure");
+    assert(
+      report.checks.find((c) => c.step === "commitment")?.passed === true,
+      "Commitment check is independent of the export"
+    );
+  }
+
+  // Test 57: Inflated tickets for a pseudonymous row change the draw
+  {
+    const { proof, rows } = buildPublishedLottery();
+    const loser = rows.find(
+      (row) => row.effectiveTickets > 0 && !proof.winners.concat(proof.backupWinners).some(
+        (userId) => hashLeafMatches(userId, row)
+      )
+    );
+    const inflated = rows.map((row) =>
+      row === loser ? { ...row, effectiveTickets: 1000 } : row
+    );
+    const report = verifyLottery(proof, inflated);
+
+    assert(!report.passed, "Inflated tickets should fail verification");
+    assert(
+      report.firstFailure?.step === "winner_order",
+      "Root still matches, so the draw replay must catch it"
+    );
+  }
+
+  // Test 58: CSV export round-trips and stays pseudonymous
+  {
+    const { proof, rows } = buildPublishedLottery();
+    const csv =
+      participantCsvHeader() +
+      rows.map((row) => formatParticipantExportRow(row, "csv")).join("");
+    const parsed = parseParticipantExport(csv);
+
+    assert(
+      JSON.stringify(parsed) === JSON.stringify(rows),
+      "CSV should parse back to the same rows"
+    );
+    assert(!csv.includes("alice"), "Export should not contain raw user IDs");
+    assert(verifyLottery(proof, parsed).passed, "Parsed CSV should verify");
+  }
+
+  // Test 59: Beacon-mixed proof verifies; a swapped beacon value fails at the seed
+  {
+    const beacon = { source: "fixture", round: 42, value: "ab".repeat(32) };
+    const { proof, rows } = buildPublishedLottery(beacon);
+
+    assert(proof.beacon?.round === 42, "Proof should record the beacon round");
+    assert(verifyLottery(proof, rows).passed, "Beacon-mixed lottery should verify");
+
+    const swapped = { ...proof, beacon: { ...beacon, value: "cd".repeat(32) } };
+    assert(
+      verifyLottery(swapped, rows).firstFailure?.step === "seed",
+      "A different beacon value should break the seed"
+    );
+  }
+
+  // ==========================================
+  // Lottery Algorithm Registry Tests
+  // ==========================================
+  console.log("\n📋 Lottery Algorithms:\n");
+
+  const algorithmTickets: Record<string, number> = {};
+  const algorithmProfiles: Record<string, ParticipantProfile> = {};
+  const tiers = ["bronze", "silver", "gold"] as const;
+  for (let i = 0; i < 30; i++) {
+    const userId = `user-${String(i).padStart(2, "0")}`;
+    algorithmTickets[userId] = (i % 5) + 1;
+    algorithmProfiles[userId] = { loyaltyTier: tiers[i % 3], firstTime: i % 4 === 0 };
+  }
+  const drawInput = {
+    participantTickets: algorithmTickets,
+    participantMultipliers: {},
+    participantProfiles: algorithmProfiles,
+    seed: "algorithm-seed",
+  };
+
+  // Test 60: Default algorithm through the registry matches the legacy draw
+  {
+    assert(
+      JSON.stringify(selectWinnersWithAlgorithm(undefined, drawInput, 8, 5)) ===
+        JSON.stringify(selectWinnersWithMultipliers(algorithmTickets, {}, 8, "algorithm-seed")),
+      "weighted-fenwick-v2 should be the default and match selectWinnersWithMultipliers"
+    );
+    assert(
+      Object.keys(LOTTERY_ALGORITHMS).length === 4,
+      "Registry should list four algorithms"
+    );
+  }
+
+  // Test 61: uniform-v1 picks unique participants regardless of tickets
+  {
+    const algorithm: LotteryAlgorithmConfig = { id: "uniform-v1" };
+    const selected = selectWinnersWithAlgorithm(algorithm, drawInput, 10, 10);
+    const heavy = { ...drawInput, participantTickets: { ...algorithmTickets, "user-00": 100 } };
+
+    assert(new Set(selected).size === 10, "uniform-v1 should pick 10 unique participants");
+    assert(
+      JSON.stringify(selectWinnersWithAlgorithm(algorithm, heavy, 10, 10)) === JSON.stringify(selected),
+      "uniform-v1 should ignore ticket counts"
+    );
+  }
+
+  // Test 62: tiered-priority-v1 exhausts higher tiers first
+  {
+    const selected = selectWinnersWithAlgorithm({ id: "tiered-priority-v1" }, drawInput, 15, 10);
+    const tierOf = (userId: string) => algorithmProfiles[userId].loyaltyTier;
+
+    assert(selected.slice(0, 10).every((u) => tierOf(u) === "gold"), "Gold tier should fill the first 10 slots");
+    assert(selected.slice(10).every((u) => tierOf(u) === "silver"), "Silver tier should come next");
+
+    const reversed = selectWinnersWithAlgorithm(
+      { id: "tiered-priority-v1", params: { tierOrder: ["bronze", "silver", "gold"] } },
+      drawInput,
+      5,
+      5
+    );
+    assert(reversed.every((u) => tierOf(u) === "bronze"), "tierOrder param should change the priority");
+  }
+
+  // Test 63: reserved-quota-v1 guarantees first-time winners, overflow goes to the general pool
+  {
+    const algorithm: LotteryAlgorithmConfig = { id: "reserved-quota-v1", params: { reservedShare: 0.5 } };
+    const selected = selectWinnersWithAlgorithm(algorithm, drawInput, 12, 8);
+    const primaryFirstTimers = selected.slice(0, 8).filter((u) => algorithmProfiles[u].firstTime);
+
+    assert(primaryFirstTimers.length >= 4, "At least half of primary winners should be first-time entrants");
+    assert(new Set(selected).size === 12, "Reserved and general draws should not overlap");
+
+    const fewNew = selectWinnersWithAlgorithm(
+      { id: "reserved-quota-v1", params: { reservedShare: 0.9 } },
+      drawInput,
+      30,
+      30
+    );
+    assert(fewNew.length === 30, "Unused reserved slots should overflow to the general pool");
+  }
+
+  // Test 64: Invalid algorithm params are rejected
+  {
+    assert(
+      validateLotteryAlgorithm({ id: "reserved-quota-v1", params: { reservedShare: 1.5 } }) !== null,
+      "reservedShare above 1 should be rejected"
+    );
+    assert(
+      validateLotteryAlgorithm({ id: "tiered-priority-v1", params: { tierOrder: ["gold", "gold"] } }) !== null,
+      "Duplicate tiers should be rejected"
+    );
+    assert(validateLotteryAlgorithm({ id: "uniform-v1" }) === null, "uniform-v1 without params is valid");
+  }
+
+  // Test 65: Verification dispatches on the proof's algorithm and checks exported profiles
+  {
+    const algorithm: LotteryAlgorithmConfig = { id: "tiered-priority-v1" };
+    const { secret, commitment } = generateLotteryCommitment();
+    const tree = MerkleTree.fromParticipants(algorithmTickets, {});
+    const seed = generateVerifiableSeedFromMerkle(secret, tree.root);
+    const selected = selectWinnersWithAlgorithm(algorithm, { ...drawInput, seed }, 9, 6);
+    const { proof, leaves, leafHashes } = createLotteryProof(
+      secret,
+      commitment,
+      algorithmTickets,
+      {},
+      selected.slice(0, 6),
+      selected.slice(6),
+      { algorithm, participantProfiles: algorithmProfiles }
+    );
+    const rows = leaves.map((leaf) =>
+      toParticipantExportRow("drop-1", leaf, leafHashes[leaf.index], undefined, algorithmProfiles[leaf.userId])
+    );
+
+    assert(proof.algorithm === "tiered-priority-v1", "Proof should record the algorithm ID");
+    assert(
+      JSON.stringify(proof.algorithmParams) === JSON.stringify({ tierOrder: ["gold", "silver", "bronze"] }),
+      "Proof should record resolved params"
+    );
+    assert(verifyLottery(proof, rows).passed, "Tiered lottery should verify");
+
+    const promoted = rows.map((row) => (row.index === 0 ? { ...row, loyaltyTier: "gold" as const } : row));
+    assert(
+      verifyLottery(proof, promoted).firstFailure?.step === "profiles",
+      "An edited tier should fail the profiles check"
+    );
+  }
+
+  // ==========================================
+  // Cohort Quota Tests
+  // ==========================================
+  console.log("\n📋 Cohort Quotas:\n");
+
+  const cohortProfiles: Record<string, ParticipantProfile> = {};
+  for (const [userId, profile] of Object.entries(algorithmProfiles)) {
+    const i = Number(userId.slice(-2));
+    cohortProfiles[userId] = { ...profile, inGeoZone: i < 6 };
+  }
+  const cohortInput = { ...drawInput, participantProfiles: cohortProfiles };
+  const quotas: CohortQuota[] = [
+    { id: "local", criterion: { type: "geo_zone" }, share: 0.5 },
+    { id: "new", criterion: { type: "first_time" }, share: 0.25 },
+  ];
+  const membership = getCohortMembership(quotas, algorithmTickets, {}, cohortProfiles);
+
+  // Test 66: Quotas guarantee cohort winners ahead of the general pool
+  {
+    const draw = drawWithCohortQuotas(undefined, cohortInput, getCohortSlots(quotas, 8), membership, 8);
+    const primary = draw.order.slice(0, 8);
+
+    assert(
+      JSON.stringify(draw.cohorts.map((c) => c.slots)) === JSON.stringify([4, 2]),
+      "8 primary slots should reserve 4 local and 2 new"
+    );
+    assert(primary.slice(0, 4).every((u) => cohortProfiles[u].inGeoZone), "First 4 winners should be local");
+    assert(primary.slice(4, 6).every((u) => cohortProfiles[u].firstTime), "Next 2 winners should be first-timers");
+    assert(new Set(draw.order).size === draw.order.length, "Nobody wins twice across sub-lotteries");
+    assert(draw.order.length === 30, "The general pool ranks everyone left");
+  }
+
+  // Test 67: Unfilled cohort slots overflow to the general pool
+  {
+    const greedy: CohortQuota[] = [{ id: "local", criterion: { type: "geo_zone" }, share: 1 }];
+    const draw = drawWithCohortQuotas(
+      undefined,
+      cohortInput,
+      getCohortSlots(greedy, 20),
+      getCohortMembership(greedy, algorithmTickets, {}, cohortProfiles),
+      20
+    );
+
+    assert(draw.cohorts[0].filled === 6 && draw.cohorts[0].slots === 20, "Only 6 locals can fill 20 slots");
+    assert(draw.order.length === 30, "The other slots go to the general draw");
+    assert(
+      validateCohortQuotas([
+        { id: "a", criterion: { type: "first_time" }, share: 0.7 },
+        { id: "b", criterion: { type: "geo_zone" }, share: 0.4 },
+      ]) !== null,
+      "Shares above 1 in total should be rejected"
+    );
+    assert(
+      JSON.stringify(getParticipantCohorts(quotas, { loyaltyTier: "gold", firstTime: true, inGeoZone: true }, 1)) ===
+        JSON.stringify(["local", "new"]),
+      "Membership lists every matching cohort in config order"
+    );
+  }
+
+  // Test 68: Cohort draws verify offline; edited memberships are caught
+  {
+    const { secret, commitment } = generateLotteryCommitment();
+    const tree = MerkleTree.fromParticipants(algorithmTickets, {});
+    const seed = generateVerifiableSeedFromMerkle(secret, tree.root);
+    const draw = drawWithCohortQuotas(
+      undefined,
+      { ...cohortInput, seed },
+      getCohortSlots(quotas, 6),
+      membership,
+      6
+    );
+    const selected = draw.order.slice(0, 9);
+    const { proof, leaves, leafHashes } = createLotteryProof(
+      secret,
+      commitment,
+      algorithmTickets,
+      {},
+      selected.slice(0, 6),
+      selected.slice(6),
+      { participantProfiles: cohortProfiles, cohortQuotas: quotas, cohortResults: draw.cohorts }
+    );
+    const rows = leaves.map((leaf) =>
+      toParticipantExportRow(
+        "drop-1",
+        leaf,
+        leafHashes[leaf.index],
+        undefined,
+        undefined,
+        getParticipantCohorts(quotas, cohortProfiles[leaf.userId], 1)
+      )
+    );
+
+    const report = verifyLottery(proof, rows);
+    assert(report.passed, "Cohort lottery should verify");
+    assert(report.checks.some((c) => c.step === "cohorts"), "Memberships should be checked");
+
+    const joined = rows.map((row) =>
+      row.index === 29 ? { ...row, cohorts: ["local"] } : row
+    );
+    assert(
+      verifyLottery(proof, joined).firstFailure?.step === "cohorts",
+      "An added membership should fail the cohorts check"
+    );
+  }
+
+  // ============================================================
+  // Disqualification Tests
+  // ============================================================
+  console.log("\n📋 Disqualification and blocklist:\n");
+
+  // Test 69: Blocklist entries match by user ID, fingerprint or IP hash
+  {
+    const entries: BlocklistEntry[] = [
+      { kind: "user", value: "mallory", addedAt: 1 },
+      { kind: "fingerprint", value: "fp-bot", reason: "farm", addedAt: 2 },
+      { kind: "ip", value: "ip-bad", addedAt: 3 },
+    ];
+    const blocked = findBlockedParticipants(
+      entries,
+      ["alice", "bob", "carol", "mallory"],
+      {
+        alice: { fingerprint: "fp-alice", ipHash: "ip-home" },
+        bob: { fingerprint: "fp-bot", ipHash: "ip-home" },
+        carol: { ipHash: "ip-bad" },
+      }
+    );
+
+    assert(
+      JSON.stringify(Object.keys(blocked).sort()) ===
+        JSON.stringify(["bob", "carol", "mallory"]),
+      "Each kind of entry should match its participant"
+    );
+    assert(
+      blocked.bob === "blocklist:fingerprint: farm",
+      "Reason should name the matching entry"
+    );
+    assert(
+      Object.keys(findBlockedParticipants(entries, ["dave"], {})).length === 0,
+      "Participants without identity signals only match by user ID"
+    );
+  }
+
+  // Test 70: Disqualified users are published hashed and can't be drawn
+  {
+    const participantTickets = { alice: 2, bob: 1, carol: 3 };
+    const { secret, commitment } = generateLotteryCommitment();
+    const tree = MerkleTree.fromParticipants(participantTickets, {});
+    const seed = generateVerifiableSeedFromMerkle(secret, tree.root);
+    const selected = selectWinnersWithMultipliers(participantTickets, {}, 2, seed);
+    const { proof, leaves, leafHashes } = createLotteryProof(
+      secret,
+      commitment,
+      participantTickets,
+      {},
+      selected.slice(0, 1),
+      selected.slice(1),
+      { disqualifiedUserIds: ["mallory", "eve"] }
+    );
+    const rows = leaves.map((leaf) =>
+      toParticipantExportRow("drop-1", leaf, leafHashes[leaf.index])
+    );
+
+    assert(
+      JSON.stringify(proof.disqualifiedUserHashes) ===
+        JSON.stringify(
+          ["mallory", "eve"].map((u) => hashDisqualifiedUser(commitment, u)).sort()
+        ),
+      "Proof lists sorted, commitment-salted hashes"
+    );
+    const report = verifyLottery(proof, rows);
+    assert(report.passed, "Draw without disqualified users should verify");
+    assert(
+      report.checks.some((c) => c.step === "disqualified" && c.passed),
+      "Disqualified list should be checked"
+    );
+
+    const drawnAnyway = {
+      ...proof,
+      disqualifiedUserHashes: [hashDisqualifiedUser(commitment, selected[0])],
+    };
+    const failure = verifyLottery(drawnAnyway, rows).firstFailure;
+    assert(
+      failure?.step === "disqualified" && failure.divergence?.actual === selected[0],
+      "A drawn disqualified user should fail verification"
+    );
+  }
+
+  // Test 71: v2 leaves and nodes are domain-separated and proofs are positional
+  {
+    const participantTickets = { alice: 5, bob: 3, carol: 2, dave: 4, erin: 1 };
+    const v1 = MerkleTree.fromParticipants(participantTickets, {});
+    const v2 = MerkleTree.fromParticipants(participantTickets, {}, 2);
+    const leaf = { userId: "bob", effectiveTickets: 3, index: 1 };
+
+    assert(hashLeaf(leaf, 2) !== hashLeaf(leaf), "v2 leaf hash should differ from v1");
+    assert(v1.root !== v2.root, "v2 root should differ from v1");
+    assert(
+      computeMerkleRoot(v2.getLeafHashes(), 2) === v2.root,
+      "v2 root should rebuild from leaf hashes"
+    );
+
+    for (let index = 0; index < v2.size; index++) {
+      const proof = v2.getProofByIndex(index)!;
+      assert(
+        verifyMerkleProof(proof.leaf, proof.proof, v2.root, {
+          version: 2,
+          leafCount: proof.leafCount,
+        }),
+        `v2 proof for leaf ${index} of 5 should verify`
+      );
+    }
+
+    const bob = v2.getProof("bob")!;
+    assert(
+      !verifyMerkleProof({ ...bob.leaf, index: 0 }, bob.proof, v2.root, {
+        version: 2,
+        leafCount: 5,
+      }),
+      "v2 proof should not verify at another position"
+    );
+    assert(
+      !verifyMerkleProof(bob.leaf, bob.proof, v2.root, { version: 2 }),
+      "v2 proof needs the leaf count"
+    );
+
+    const legacy = v1.getProof("bob")!;
+    assert(
+      verifyMerkleProof(legacy.leaf, legacy.proof, v1.root),
+      "v1 proofs still verify"
+    );
+  }
+
+  // Test 72: Multiproofs share siblings and reject tampering
+  {
+    const participantTickets: Record<string, number> = {};
+    for (let i = 0; i < 37; i++) {
+      participantTickets[`user_${String(i).padStart(2, "0")}`] = (i % 4) + 1;
+    }
+    const tree = MerkleTree.fromParticipants(participantTickets, {}, 2);
+    const multi = tree.getMultiProofByIndices([36, 3, 2, 17, 3])!;
+
+    assert(
+      multi.leaves.map((l) => l.index).join(",") === "2,3,17,36",
+      "Multiproof leaves are deduplicated and sorted"
+    );
+    assert(
+      verifyMerkleMultiProof(multi.leaves, multi.proof, multi.leafCount, tree.root),
+      "Multiproof should verify"
+    );
+    const separate = [2, 3, 17, 36].reduce(
+      (sum, i) => sum + tree.getProofByIndex(i)!.proof.length,
+      0
+    );
+    assert(
+      multi.proof.length < separate,
+      `Multiproof should be smaller than separate proofs (${multi.proof.length} < ${separate})`
+    );
+    assert(
+      !verifyMerkleMultiProof(
+        multi.leaves.map((l) => (l.index === 17 ? { ...l, effectiveTickets: 9 } : l)),
+        multi.proof,
+        multi.leafCount,
+        tree.root
+      ),
+      "Tampered leaf should fail the multiproof"
+    );
+    assert(
+      !verifyMerkleMultiProof(multi.leaves.slice(1), multi.proof, multi.leafCount, tree.root),
+      "Dropping a leaf should fail the multiproof"
+    );
+    assert(
+      tree.getMultiProofByIndices([0, 37]) === null &&
+        MerkleTree.fromParticipants(participantTickets, {}).getMultiProofByIndices([0]) === null,
+      "Out-of-range indices and v1 trees have no multiproof"
+    );
+  }
+
+  // Test 73: v2 lottery proofs record their version and verify offline
+  {
+    const participantTickets = { alice: 3, bob: 1, carol: 5, dave: 2 };
+    const { secret, commitment } = generateLotteryCommitment();
+    const tree = MerkleTree.fromParticipants(participantTickets, {}, 2);
+    const seed = generateVerifiableSeedFromMerkle(secret, tree.root);
+    const selected = selectWinnersWithMultipliers(participantTickets, {}, 3, seed);
+    const { proof, leaves, leafHashes } = createLotteryProof(
+      secret,
+      commitment,
+      participantTickets,
+      {},
+      selected.slice(0, 2),
+      selected.slice(2),
+      { merkleVersion: 2 }
+    );
+    const rows = leaves.map((leaf) =>
+      toParticipantExportRow("drop-1", leaf, leafHashes[leaf.index])
+    );
+
+    assert(proof.merkleVersion === 2, "Proof should record the v2 format");
+    assert(proof.participantMerkleRoot === tree.root, "Proof root is the v2 root");
+    assert(verifyLottery(proof, rows).passed, "v2 lottery should verify offline");
+
+    const asV1 = verifyLottery({ ...proof, merkleVersion: undefined }, rows);
+    assert(
+      asV1.firstFailure?.step === "merkle_root",
+      "Reading a v2 export as v1 should fail at the root"
+    );
+    const unknown = verifyLottery({ ...proof, merkleVersion: 3 as never }, rows);
+    assert(
+      unknown.firstFailure?.detail.startsWith("Unsupported Merkle version 3") === true,
+      "Unknown Merkle versions are reported"
+    );
+  }
+
   console.log("\n" + "=".repeat(50));
   console.log("✅ All lottery tests passed!\n");
 }
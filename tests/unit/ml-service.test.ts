@@ -0,0 +1,223 @@
+/**
+ * Unit Tests for ML Service model loading and scoring
+ *
+ * Covers:
+ * - A serialized model is loaded and consulted
+ * - Invalid models leave the service in fallback mode
+ * - Inference slower than the guard is discarded for the fallback
+ * - Hot-swapped and shadow models (shadow scores are never returned)
+ *
+ * Run with: npx vitest run tests/unit/ml-service.test.ts
+ */
+
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { MLService, createForest } from "../../src/lib/ml/ml-service.js";
+import { createTestModel } from "../../src/lib/ml/isolation-forest.js";
+import type { MLServiceConfig, SerializedModel } from "../../src/lib/ml/types.js";
+
+const SAMPLE_FEATURES = [10, 5, 3, 2, 1, 5000, 0.5, 75, 500, 1000];
+
+let dir: string;
+
+async function writeModel(name: string, model: unknown): Promise<string> {
+  const path = join(dir, name);
+  await writeFile(path, JSON.stringify(model));
+  return path;
+}
+
+function serialize(
+  featureCount?: number,
+  threshold?: number,
+  numTrees?: number
+): SerializedModel {
+  const model = createTestModel({ featureCount, threshold, numTrees });
+  return {
+    version: "1",
+    createdAt: 0,
+    config: {
+      numTrees: model.trees.length,
+      sampleSize: model.sampleSize,
+      contamination: model.contamination,
+      featureCount: model.featureCount,
+    },
+    trees: model.trees,
+    threshold: model.threshold,
+  };
+}
+
+function createConfig(overrides: Partial<MLServiceConfig>): MLServiceConfig {
+  return {
+    enabled: true,
+    modelPath: "",
+    timeoutMs: 1000,
+    weight: 0.15,
+    anomalyThreshold: 0.6,
+    ...overrides,
+  };
+}
+
+describe("MLService with a model", () => {
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ml-service-"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("loads the model and scores feature vectors", async () => {
+    const service = new MLService(
+      createConfig({ modelPath: await writeModel("model.json", serialize()) })
+    );
+    await service.initialize();
+
+    expect(service.isEnabled()).toBe(true);
+    expect(service.getInitializationError()).toBeNull();
+
+    const result = await service.score(SAMPLE_FEATURES);
+    expect(result.usedFallback).toBe(false);
+    expect(result.anomalyScore).toBeGreaterThanOrEqual(0);
+    expect(result.anomalyScore).toBeLessThanOrEqual(1);
+    expect(result.trustComponent).toBe(
+      Math.round((1 - result.anomalyScore) * 100)
+    );
+  });
+
+  it("rejects models built for a different feature count", async () => {
+    const service = new MLService(
+      createConfig({ modelPath: await writeModel("short.json", serialize(4)) })
+    );
+    await service.initialize();
+
+    expect(service.isEnabled()).toBe(false);
+    expect(service.getInitializationError()?.message).toContain(
+      "Invalid model file"
+    );
+  });
+
+  it("rejects files that aren't models", async () => {
+    const service = new MLService(
+      createConfig({ modelPath: await writeModel("junk.json", { trees: [] }) })
+    );
+    await service.initialize();
+
+    expect(service.isEnabled()).toBe(false);
+    expect((await service.score(SAMPLE_FEATURES)).usedFallback).toBe(true);
+  });
+
+  it("discards results slower than the inference guard", async () => {
+    const service = new MLService(
+      createConfig({
+        modelPath: await writeModel("slow.json", serialize()),
+        timeoutMs: -1,
+      })
+    );
+    await service.initialize();
+
+    const result = await service.score(SAMPLE_FEATURES);
+    expect(result.usedFallback).toBe(true);
+    expect(result.trustComponent).toBe(50);
+  });
+
+  it("falls back on malformed feature vectors", async () => {
+    const service = new MLService(
+      createConfig({ modelPath: await writeModel("model2.json", serialize()) })
+    );
+    await service.initialize();
+
+    expect((await service.score([1, 2, 3])).usedFallback).toBe(true);
+  });
+});
+
+describe("MLService model swaps", () => {
+  it("replaces the active model at runtime", async () => {
+    const service = new MLService(createConfig({ modelPath: "/missing.json" }));
+    await service.initialize();
+    expect(service.isEnabled()).toBe(false);
+
+    service.useModel(serialize(), "v2");
+
+    expect(service.isEnabled()).toBe(true);
+    expect(service.getActiveVersion()).toBe("v2");
+    expect((await service.score(SAMPLE_FEATURES)).usedFallback).toBe(false);
+  });
+
+  it("keeps the current model when the replacement is invalid", async () => {
+    const service = new MLService(createConfig({ modelPath: "/missing.json" }));
+    await service.initialize();
+    service.useModel(serialize(), "v2");
+
+    expect(() => service.useModel(serialize(4), "v3")).toThrow("features");
+    expect(() => service.setShadowModel(serialize(4), "v3")).toThrow("features");
+    expect(service.getActiveVersion()).toBe("v2");
+    expect(service.getShadowVersion()).toBeNull();
+  });
+
+  it("counts shadow disagreements without changing the result", async () => {
+    const activeModel = serialize();
+    const shadowModel = serialize(undefined, undefined, 1);
+    const activeScore = createForest(activeModel).score(SAMPLE_FEATURES);
+    const shadowScore = createForest(shadowModel).score(SAMPLE_FEATURES);
+    expect(activeScore).toBeGreaterThan(shadowScore);
+
+    // Both models flag against the configured threshold, which sits between
+    // their scores: only the active model flags
+    const service = new MLService(
+      createConfig({
+        modelPath: "/missing.json",
+        anomalyThreshold: (activeScore + shadowScore) / 2,
+      })
+    );
+    await service.initialize();
+    service.useModel(activeModel, "active");
+    const before = await service.score(SAMPLE_FEATURES);
+
+    service.setShadowModel(shadowModel, "candidate");
+    const after = await service.score(SAMPLE_FEATURES);
+    await service.score(SAMPLE_FEATURES);
+
+    expect(after).toEqual(before);
+    const stats = service.getShadowStats();
+    expect(stats).toMatchObject({
+      version: "candidate",
+      scored: 2,
+      compared: 2,
+      activeFlagged: 2,
+      shadowFlagged: 0,
+      disagreements: 2,
+    });
+    expect(stats?.meanAbsoluteDelta).toBeCloseTo(activeScore - shadowScore);
+
+    service.setShadowModel(null);
+    expect(service.getShadowStats()).toBeNull();
+  });
+
+  it("ignores the models' fitted thresholds when flagging", async () => {
+    const service = new MLService(
+      createConfig({ modelPath: "/missing.json", anomalyThreshold: 0.99 })
+    );
+    await service.initialize();
+    // Fitted thresholds 0 and 1 would flag everything and nothing
+    service.useModel(serialize(undefined, 0), "active");
+    service.setShadowModel(serialize(undefined, 1), "candidate");
+    await service.score(SAMPLE_FEATURES);
+
+    expect(service.getShadowStats()).toMatchObject({
+      activeFlagged: 0,
+      shadowFlagged: 0,
+      disagreements: 0,
+    });
+  });
+
+  it("scores the shadow even without an active model", async () => {
+    const service = new MLService(createConfig({ modelPath: "/missing.json" }));
+    await service.initialize();
+    service.setShadowModel(serialize(), "candidate");
+
+    expect((await service.score(SAMPLE_FEATURES)).usedFallback).toBe(true);
+    expect(service.getShadowStats()).toMatchObject({ scored: 1, compared: 0 });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit Tests for ML training data collection and the Isolation Forest trainer
+ *
+ * Covers:
+ * - Sampled NDJSON training records
+ * - Seeded training is reproducible
+ * - Outliers score above the fitted data
+ * - The threshold flags about the contamination share
+ *
+ * Run with: npx vitest run tests/unit/ml-training.test.ts
+ */
+
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createSeededRNG } from "../../src/lib/lottery.js";
+import { IsolationForest } from "../../src/lib/ml/isolation-forest.js";
+import { TrainingCollector } from "../../src/lib/ml/training-collector.js";
+import { trainIsolationForest } from "../../src/lib/ml/trainer.js";
+import { FEATURE_COUNT, type SerializedModel } from "../../src/lib/ml/types.js";
+
+const HUMAN = [120, 10, 5, 2, 1, 20000, 60, 80, 3000, 3000];
+const BOT = [0, 0, 0, 0, 0, 100, 0, 100, 50, 50];
+
+/** Human-like vectors jittered around HUMAN */
+function humans(count: number, seed: string): number[][] {
+  const random = createSeededRNG(seed);
+  return Array.from({ length: count }, () =>
+    HUMAN.map((value) => value * (0.5 + random()))
+  );
+}
+
+function toForest(model: SerializedModel): IsolationForest {
+  return new IsolationForest({
+    trees: model.trees,
+    sampleSize: model.config.sampleSize,
+    contamination: model.config.contamination,
+    threshold: model.threshold,
+    featureCount: model.config.featureCount,
+  });
+}
+
+describe("TrainingCollector", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ml-training-"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("appends sampled records as NDJSON", async () => {
+    const outputPath = join(dir, "nested", "training.ndjson");
+    const collector = new TrainingCollector({
+      enabled: true,
+      outputPath,
+      sampleRate: 1,
+    });
+
+    expect(
+      collector.record(HUMAN, { trustScore: 90, allowed: true, anomalyScore: 0.4 })
+    ).toBe(true);
+    collector.record(BOT, { trustScore: 20, allowed: false });
+    await collector.flush();
+
+    const lines = (await readFile(outputPath, "utf8")).trim().split("\n");
+    expect(lines).toHaveLength(2);
+    const [first, second] = lines.map((line) => JSON.parse(line));
+    expect(first).toMatchObject({
+      features: HUMAN,
+      trustScore: 90,
+      anomalyScore: 0.4,
+      allowed: true,
+    });
+    expect(second).toMatchObject({ anomalyScore: null, allowed: false });
+  });
+
+  it("skips requests outside the sample or when disabled", async () => {
+    const outputPath = join(dir, "skipped.ndjson");
+    const result = { trustScore: 90, allowed: true };
+
+    const unsampled = new TrainingCollector(
+      { enabled: true, outputPath, sampleRate: 0.25 },
+      () => 0.5
+    );
+    const disabled = new TrainingCollector({
+      enabled: false,
+      outputPath,
+      sampleRate: 1,
+    });
+
+    expect(unsampled.record(HUMAN, result)).toBe(false);
+    expect(disabled.record(HUMAN, result)).toBe(false);
+    await expect(readFile(outputPath, "utf8")).rejects.toThrow();
+  });
+});
+
+describe("trainIsolationForest", () => {
+  const samples = humans(500, "training-data");
+
+  it("is reproducible for a fixed seed", () => {
+    const a = trainIsolationForest(samples, { numTrees: 20, seed: "seed" });
+    const b = trainIsolationForest(samples, { numTrees: 20, seed: "seed" });
+
+    expect(a.trees).toEqual(b.trees);
+    expect(a.threshold).toBe(b.threshold);
+    expect(a.version).toBe("1");
+    expect(a.config).toEqual({
+      numTrees: 20,
+      sampleSize: 256,
+      contamination: 0.1,
+      featureCount: FEATURE_COUNT,
+    });
+  });
+
+  it("scores outliers above the data it was fitted on", () => {
+    const forest = toForest(trainIsolationForest(samples, { seed: "seed" }));
+
+    expect(forest.score(BOT)).toBeGreaterThan(forest.score(HUMAN));
+    expect(forest.isAnomaly(BOT)).toBe(true);
+    expect(forest.isAnomaly(HUMAN)).toBe(false);
+  });
+
+  it("sets the threshold from the contamination share", () => {
+    const model = trainIsolationForest(samples, {
+      contamination: 0.05,
+      seed: "seed",
+    });
+    const forest = toForest(model);
+    const flagged = samples.filter((sample) => forest.isAnomaly(sample)).length;
+
+    expect(flagged / samples.length).toBeGreaterThanOrEqual(0.04);
+    expect(flagged / samples.length).toBeLessThanOrEqual(0.07);
+  });
+
+  it("rejects unusable training data", () => {
+    expect(() => trainIsolationForest([])).toThrow("No training samples");
+    expect(() => trainIsolationForest([[1, 2, 3]])).toThrow(
+      `${FEATURE_COUNT} finite features`
+    );
+    expect(() =>
+      trainIsolationForest(samples, { contamination: 0.6 })
+    ).toThrow("contamination");
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Unit Tests for ML model registry encoding
+ *
+ * Covers:
+ * - Models round-trip through gzip and chunking
+ * - Corrupt chunks are rejected
+ *
+ * Run with: npx vitest run tests/unit/model-registry.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { decodeModel, encodeModel } from "../../src/lib/ml/model-registry.js";
+import { trainIsolationForest } from "../../src/lib/ml/trainer.js";
+import { createSeededRNG } from "../../src/lib/lottery.js";
+import { FEATURE_COUNT } from "../../src/lib/ml/types.js";
+
+function samples(count: number): number[][] {
+  const random = createSeededRNG("registry");
+  return Array.from({ length: count }, () =>
+    Array.from({ length: FEATURE_COUNT }, () => random() * 1000)
+  );
+}
+
+describe("encodeModel / decodeModel", () => {
+  const model = trainIsolationForest(samples(1000), {
+    numTrees: 20,
+    seed: "registry",
+  });
+
+  it("splits models into chunks and restores them", () => {
+    const encoded = encodeModel(model, 4096);
+
+    expect(encoded.chunks.length).toBeGreaterThan(1);
+    expect(encoded.chunks.length).toBe(Math.ceil(encoded.bytes / 4096));
+    expect(encoded.chunks.every((chunk) => chunk.length <= 4096)).toBe(true);
+    expect(decodeModel(encoded.chunks, encoded.sha256)).toEqual(model);
+  });
+
+  it("rejects chunks that don't match the checksum", () => {
+    const encoded = encodeModel(model, 4096);
+    const chunks = encoded.chunks.map((chunk) => Uint8Array.from(chunk));
+    chunks[0][20] ^= 0xff;
+
+    expect(() => decodeModel(chunks, encoded.sha256)).toThrow(
+      "checksum mismatch"
+    );
+    expect(() => decodeModel(encoded.chunks.slice(1), encoded.sha256)).toThrow(
+      "checksum mismatch"
+    );
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit Tests for the Fake Payment Provider and payment helpers
+ *
+ * Covers the contract every PaymentProvider must honor:
+ * - Idempotent operations per idempotency key
+ * - Valid state transitions (authorize → capture → refund, authorize → void)
+ * - Declines reported as "failed" results rather than thrown errors
+ *
+ * Run with: npx vitest run tests/unit/payment-provider.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { FakePaymentProvider } from "../../src/lib/payments/fake-provider.js";
+import {
+  paidEntriesAmount,
+  paymentIdempotencyKey,
+} from "../../src/lib/payments/provider.js";
+import type { AuthorizeRequest } from "../../src/lib/payments/types.js";
+
+// ============================================================
+// Test Helpers
+// ============================================================
+
+function authorizeRequest(
+  overrides: Partial<AuthorizeRequest> = {}
+): AuthorizeRequest {
+  return {
+    idempotencyKey: "drop-1:user-1:authorize",
+    amount: 500,
+    currency: "USD",
+    metadata: { dropId: "drop-1", userId: "user-1", paidEntries: 2 },
+    ...overrides,
+  };
+}
+
+// ============================================================
+// Unit Tests
+// ============================================================
+
+describe("FakePaymentProvider", () => {
+  it("returns the same payment for a repeated idempotency key", async () => {
+    const provider = new FakePaymentProvider();
+
+    const first = await provider.authorize(authorizeRequest());
+    const second = await provider.authorize(authorizeRequest());
+
+    expect(first.status).toBe("authorized");
+    expect(second.paymentId).toBe(first.paymentId);
+  });
+
+  it("captures then refunds an authorized payment", async () => {
+    const provider = new FakePaymentProvider();
+    const { paymentId } = await provider.authorize(authorizeRequest());
+
+    const captured = await provider.capture({
+      idempotencyKey: "drop-1:user-1:capture",
+      paymentId,
+    });
+    expect(captured.status).toBe("captured");
+
+    const refunded = await provider.refund({
+      idempotencyKey: "drop-1:user-1:refund",
+      paymentId,
+    });
+    expect(refunded.status).toBe("refunded");
+    expect(provider.getPayment(paymentId)?.status).toBe("refunded");
+  });
+
+  it("voids an authorized payment", async () => {
+    const provider = new FakePaymentProvider();
+    const { paymentId } = await provider.authorize(authorizeRequest());
+
+    const voided = await provider.void({
+      idempotencyKey: "drop-1:user-1:void",
+      paymentId,
+    });
+
+    expect(voided.status).toBe("voided");
+    expect(voided.failureReason).toBeUndefined();
+  });
+
+  it("rejects invalid transitions without changing the payment", async () => {
+    const provider = new FakePaymentProvider();
+    const { paymentId } = await provider.authorize(authorizeRequest());
+    await provider.void({ idempotencyKey: "drop-1:user-1:void", paymentId });
+
+    const capture = await provider.capture({
+      idempotencyKey: "drop-1:user-1:capture",
+      paymentId,
+    });
+
+    expect(capture.status).toBe("voided");
+    expect(capture.failureReason).toBe(
+      "invalid_transition_voided_to_captured"
+    );
+  });
+
+  it("reports declines as failed results", async () => {
+    const provider = new FakePaymentProvider({ declineAbove: 100 });
+
+    const result = await provider.authorize(authorizeRequest({ amount: 500 }));
+
+    expect(result.status).toBe("failed");
+    expect(result.failureReason).toBe("card_declined");
+  });
+
+  it("reports unknown payments as failed", async () => {
+    const provider = new FakePaymentProvider();
+
+    const result = await provider.capture({
+      idempotencyKey: "drop-1:user-1:capture",
+      paymentId: "missing",
+    });
+
+    expect(result.status).toBe("failed");
+    expect(result.failureReason).toBe("payment_not_found");
+  });
+});
+
+describe("payment helpers", () => {
+  it("prices paid entries quadratically in minor units", () => {
+    expect(paidEntriesAmount(0, 1)).toBe(0);
+    expect(paidEntriesAmount(1, 1)).toBe(100); // 1²
+    expect(paidEntriesAmount(3, 1)).toBe(1400); // 1² + 2² + 3²
+    expect(paidEntriesAmount(2, 0.5)).toBe(250); // (1² + 2²) × 0.5
+  });
+
+  it("derives idempotency keys from dropId:userId", () => {
+    expect(paymentIdempotencyKey("drop-1", "user-1", "capture")).toBe(
+      "drop-1:user-1:capture"
+    );
+  });
+
+  it("gives retried payments a fresh idempotency key", () => {
+    expect(paymentIdempotencyKey("drop-1", "user-1", "authorize", 1)).toBe(
+      "drop-1:user-1:authorize"
+    );
+    expect(paymentIdempotencyKey("drop-1", "user-1", "authorize", 2)).toBe(
+      "drop-1:user-1:authorize:2"
+    );
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit Tests for adaptive PoW difficulty
+ *
+ * Covers:
+ * - Neutral signals issue the base difficulty
+ * - Registration rate, repeat requesters and low trust raise it
+ * - A good prior trust score lowers it
+ * - The result stays within the configured bounds
+ * - Challenges only verify for the drop and fingerprint they were issued for
+ *
+ * Run with: npx vitest run tests/unit/pow-difficulty.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { config } from "../../src/lib/config.js";
+import {
+  bindChallenge,
+  challengeMatchesBinding,
+  chooseDifficulty,
+} from "../../src/lib/pow.js";
+
+describe("chooseDifficulty", () => {
+  const neutral = { registrationRate: 0, ipTokens: 0, fingerprintTokens: 0 };
+  const base = config.pow.difficulty;
+
+  it("issues the base difficulty for neutral signals", () => {
+    expect(chooseDifficulty(neutral)).toBe(base);
+  });
+
+  it("gets harder as a drop's registration rate climbs", () => {
+    const rate = config.pow.highRegistrationRate;
+
+    expect(chooseDifficulty({ ...neutral, registrationRate: rate - 1 })).toBe(base);
+    expect(chooseDifficulty({ ...neutral, registrationRate: rate })).toBe(base + 1);
+    expect(
+      chooseDifficulty({ ...neutral, registrationRate: rate * 4 })
+    ).toBe(Math.min(base + 2, config.pow.maxDifficulty));
+  });
+
+  it("gets harder for IPs and fingerprints holding several queue tokens", () => {
+    const threshold = config.pow.repeatRequesterThreshold;
+
+    expect(chooseDifficulty({ ...neutral, ipTokens: threshold })).toBe(base + 1);
+    expect(
+      chooseDifficulty({ ...neutral, fingerprintTokens: threshold })
+    ).toBe(base + 1);
+    // The stronger of the two signals counts, not their sum
+    expect(
+      chooseDifficulty({
+        ...neutral,
+        ipTokens: threshold,
+        fingerprintTokens: threshold,
+      })
+    ).toBe(base + 1);
+  });
+
+  it("follows the prior trust score", () => {
+    expect(
+      chooseDifficulty({ ...neutral, priorTrustScore: config.pow.lowTrustScore - 1 })
+    ).toBe(base + 1);
+    expect(
+      chooseDifficulty({ ...neutral, priorTrustScore: config.pow.lowTrustScore })
+    ).toBe(base);
+    expect(
+      chooseDifficulty({ ...neutral, priorTrustScore: config.pow.highTrustScore })
+    ).toBe(Math.max(base - 1, config.pow.minDifficulty));
+  });
+
+  it("clamps to the configured bounds", () => {
+    expect(
+      chooseDifficulty({
+        registrationRate: config.pow.highRegistrationRate * 10,
+        ipTokens: 100,
+        fingerprintTokens: 100,
+        priorTrustScore: 0,
+      })
+    ).toBe(config.pow.maxDifficulty);
+    expect(
+      chooseDifficulty({ ...neutral, priorTrustScore: 100 })
+    ).toBeGreaterThanOrEqual(config.pow.minDifficulty);
+  });
+});
+
+describe("challenge binding", () => {
+  const stored = bindChallenge(
+    {
+      challenge: "1700000000000:0123456789abcdef",
+      scheme: "sha256",
+      difficulty: config.pow.minDifficulty,
+      timestamp: 1700000000000,
+    },
+    { dropId: "drop-1", fingerprint: "fp-trusted", ipHash: "ip" }
+  );
+
+  it("stores a hash of the fingerprint, not the fingerprint", () => {
+    expect(stored.dropId).toBe("drop-1");
+    expect(stored.fingerprintHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.stringify(stored)).not.toContain("fp-trusted");
+  });
+
+  it("accepts the drop and fingerprint it was issued for", () => {
+    expect(
+      challengeMatchesBinding(stored, { dropId: "drop-1", fingerprint: "fp-trusted" })
+    ).toBe(true);
+  });
+
+  it("rejects a challenge used with another fingerprint or drop", () => {
+    expect(
+      challengeMatchesBinding(stored, { dropId: "drop-1", fingerprint: "fp-bot" })
+    ).toBe(false);
+    expect(
+      challengeMatchesBinding(stored, { dropId: "drop-2", fingerprint: "fp-trusted" })
+    ).toBe(false);
+    expect(challengeMatchesBinding(stored, { dropId: "drop-1" })).toBe(false);
+  });
+
+  it("rejects challenges issued without a requester", () => {
+    const unbound = bindChallenge(
+      { challenge: "c", scheme: "sha256", difficulty: 2, timestamp: 0 },
+      {}
+    );
+    expect(
+      challengeMatchesBinding(unbound, { dropId: "drop-1", fingerprint: "fp" })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Unit Tests for PoW scheme negotiation and solution checks
+ *
+ * Covers:
+ * - scrypt is issued only to clients that advertise it
+ * - SHA-256 solutions (including challenges stored before schemes)
+ * - scrypt solutions at a leading-zero-bit difficulty
+ * - SHA-256 fallback costs extra while scrypt is enabled
+ * - Malformed input is rejected before any lookup or hashing
+ *
+ * Run with: npx vitest run tests/unit/pow-scheme.test.ts
+ */
+
+import crypto from "node:crypto";
+import { describe, it, expect } from "vitest";
+import { config } from "../../src/lib/config.js";
+import {
+  checkPowSolution,
+  choosePowScheme,
+  isWellFormedSolution,
+  schemeDifficulty,
+  scryptPowHash,
+} from "../../src/lib/pow.js";
+import type { StoredChallenge } from "../../src/lib/nats-kv.js";
+
+const challenge = "1700000000000:0123456789abcdef";
+
+function solveSha256(difficulty: number): string {
+  const prefix = "0".repeat(difficulty);
+  for (let nonce = 0; ; nonce++) {
+    const hash = crypto
+      .createHash("sha256")
+      .update(challenge + nonce)
+      .digest("hex");
+    if (hash.startsWith(prefix)) return nonce.toString();
+  }
+}
+
+describe("choosePowScheme", () => {
+  it("issues scrypt to clients that support it", () => {
+    expect(choosePowScheme(["scrypt", "sha256"])).toBe("scrypt");
+  });
+
+  it("falls back to SHA-256", () => {
+    expect(choosePowScheme()).toBe("sha256");
+    expect(choosePowScheme(["sha256"])).toBe("sha256");
+    expect(choosePowScheme(["argon2"])).toBe("sha256");
+  });
+});
+
+describe("checkPowSolution", () => {
+  it("checks SHA-256 solutions against the issued difficulty", async () => {
+    const stored: StoredChallenge = {
+      challenge,
+      scheme: "sha256",
+      difficulty: 2,
+      timestamp: 0,
+    };
+    const nonce = solveSha256(2);
+
+    expect(await checkPowSolution(stored, nonce)).toBe(true);
+    // Challenges stored before schemes existed are SHA-256
+    expect(
+      await checkPowSolution({ ...stored, scheme: undefined }, nonce)
+    ).toBe(true);
+    expect(
+      await checkPowSolution({ ...stored, difficulty: 8 }, nonce)
+    ).toBe(false);
+  });
+
+  it("checks scrypt solutions by leading zero bits", async () => {
+    const params = { N: 1024, r: 8, p: 1, keyLength: 32 };
+    const stored: StoredChallenge = {
+      challenge,
+      scheme: "scrypt",
+      difficulty: 3,
+      scrypt: params,
+      timestamp: 0,
+    };
+
+    let nonce = 0;
+    while ((await scryptPowHash(challenge, String(nonce), params))[0] >> 5 !== 0) {
+      nonce++;
+    }
+
+    expect(await checkPowSolution(stored, String(nonce))).toBe(true);
+    expect(
+      await checkPowSolution({ ...stored, difficulty: 16 }, String(nonce))
+    ).toBe((await scryptPowHash(challenge, String(nonce), params)).readUInt16BE(0) === 0);
+    expect(
+      await checkPowSolution({ ...stored, scrypt: undefined }, String(nonce))
+    ).toBe(false);
+  });
+});
+
+describe("schemeDifficulty", () => {
+  it("charges SHA-256 fallback clients extra hex digits", () => {
+    const penalty = config.pow.scrypt.sha256FallbackPenalty;
+
+    expect(config.pow.scrypt.enabled).toBe(true);
+    expect(penalty).toBeGreaterThan(0);
+    expect(schemeDifficulty("sha256", 3)).toBe(3 + penalty);
+    expect(schemeDifficulty("scrypt", 3)).toBe(3);
+  });
+});
+
+describe("isWellFormedSolution", () => {
+  const issued = `1700000000000:${"0123456789abcdef".repeat(2)}`;
+
+  it("accepts issued challenges with numeric nonces", () => {
+    expect(isWellFormedSolution(issued, "0")).toBe(true);
+    expect(isWellFormedSolution(issued, "123456789")).toBe(true);
+  });
+
+  it("rejects anything else before it reaches scrypt", () => {
+    expect(isWellFormedSolution(issued, "")).toBe(false);
+    expect(isWellFormedSolution(issued, "abc")).toBe(false);
+    expect(isWellFormedSolution(issued, "1".repeat(17))).toBe(false);
+    expect(isWellFormedSolution(challenge, "1")).toBe(false);
+    expect(isWellFormedSolution(`${issued}:extra`, "1")).toBe(false);
+  });
+});
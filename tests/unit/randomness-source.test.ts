@@ -0,0 +1,88 @@
+/**
+ * Unit Tests for the fixture randomness source and round schedule
+ *
+ * Covers the contract every RandomnessSource must honor:
+ * - roundAt/roundTime agree (the committed round is never published early)
+ * - Rounds are withheld (null) until their publish time
+ * - Values are stable per round
+ *
+ * Run with: npx vitest run tests/unit/randomness-source.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { FixtureRandomnessSource } from "../../src/lib/randomness/fixture-source.js";
+import { RoundClock } from "../../src/lib/randomness/round-clock.js";
+import { generateVerifiableSeedFromMerkle } from "../../src/lib/merkle.js";
+
+describe("RoundClock", () => {
+  const clock = new RoundClock(1_000_000, 3000);
+
+  it("publishes round 1 at genesis", () => {
+    expect(clock.roundAt(0)).toBe(1);
+    expect(clock.roundAt(1_000_000)).toBe(1);
+    expect(clock.roundTime(1)).toBe(1_000_000);
+  });
+
+  it("returns the first round at or after a timestamp", () => {
+    expect(clock.roundAt(1_000_001)).toBe(2);
+    expect(clock.roundAt(1_003_000)).toBe(2);
+    expect(clock.roundAt(1_003_001)).toBe(3);
+  });
+
+  it("never commits to a round published before the timestamp", () => {
+    for (const t of [1_000_500, 1_004_999, 1_123_456]) {
+      expect(clock.roundTime(clock.roundAt(t))).toBeGreaterThanOrEqual(t);
+    }
+  });
+});
+
+describe("FixtureRandomnessSource", () => {
+  it("withholds a round until its publish time", async () => {
+    let now = 10_000;
+    const source = new FixtureRandomnessSource({
+      genesisTime: 0,
+      periodSecs: 3,
+      now: () => now,
+    });
+    const round = source.roundAt(20_000);
+
+    expect(await source.getRound(round)).toBeNull();
+
+    now = source.roundTime(round);
+    const published = await source.getRound(round);
+    expect(published?.round).toBe(round);
+    expect(published?.value).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("derives stable, distinct values per round", async () => {
+    const source = new FixtureRandomnessSource();
+    const a1 = await source.getRound(5);
+    const a2 = await source.getRound(5);
+    const b = await source.getRound(6);
+
+    expect(a1?.value).toBe(a2?.value);
+    expect(a1?.value).not.toBe(b?.value);
+  });
+
+  it("serves values listed in the fixture", async () => {
+    const source = new FixtureRandomnessSource({ rounds: { "7": "abcd" } });
+
+    expect((await source.getRound(7))?.value).toBe("abcd");
+    expect((await source.getRound(8))?.value).not.toBe("abcd");
+  });
+});
+
+describe("beacon-mixed seed", () => {
+  it("changes the seed and keeps the legacy form without a beacon", () => {
+    const legacy = generateVerifiableSeedFromMerkle("secret", "root");
+    const mixed = generateVerifiableSeedFromMerkle("secret", "root", "beef");
+
+    expect(generateVerifiableSeedFromMerkle("secret", "root", undefined)).toBe(
+      legacy
+    );
+    expect(mixed).not.toBe(legacy);
+    expect(mixed).toBe(
+      generateVerifiableSeedFromMerkle("secret", "root", "beef")
+    );
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Unit Tests for the Monte Carlo lottery simulator
+ *
+ * Covers:
+ * - Seeded runs are reproducible
+ * - More tickets means a higher win probability
+ * - Backup depth follows the purchase rate
+ * - Revenue under quadratic pricing
+ *
+ * Run with: npx vitest run tests/unit/simulation.test.ts
+ */
+
+import { describe, it, expect } from "vitest";
+import { simulateDrop } from "../../src/lib/simulation.js";
+
+describe("simulateDrop", () => {
+  const scenario = {
+    participants: 200,
+    inventory: 20,
+    ticketWeights: [50, 30, 20],
+    backupMultiplier: 1.5,
+    iterations: 50,
+    seed: "simulation-seed",
+  };
+
+  it("is reproducible for a fixed seed", () => {
+    expect(simulateDrop(scenario)).toEqual(simulateDrop(scenario));
+  });
+
+  it("gives more tickets a higher win probability", () => {
+    const result = simulateDrop(scenario);
+    const [one, two, three] = result.byTickets;
+
+    expect(result.byTickets.map((o) => o.label)).toEqual([
+      "1 ticket",
+      "2 tickets",
+      "3 tickets",
+    ]);
+    expect(one.winProbability).toBeLessThan(two.winProbability);
+    expect(two.winProbability).toBeLessThan(three.winProbability);
+    expect(result.primaryWinners).toBe(20);
+    expect(result.backupWinners).toBe(10);
+    expect(result.byGeoZone).toBeUndefined();
+  });
+
+  it("never promotes backups when every winner buys", () => {
+    const result = simulateDrop({ ...scenario, purchaseRate: 1 });
+
+    expect(result.backupDepth.max).toBe(0);
+    expect(result.backupDepth.exhaustedRate).toBe(0);
+    for (const outcome of result.byTickets) {
+      expect(outcome.purchaseProbability).toBeCloseTo(outcome.winProbability);
+    }
+  });
+
+  it("runs out of backups when nobody buys", () => {
+    const result = simulateDrop({ ...scenario, purchaseRate: 0 });
+
+    expect(result.backupDepth.mean).toBe(10);
+    expect(result.backupDepth.exhaustedRate).toBe(1);
+  });
+
+  it("charges quadratic entry prices", () => {
+    const result = simulateDrop({
+      ...scenario,
+      ticketWeights: [0, 0, 1],
+      ticketPriceUnit: 2,
+    });
+
+    // First ticket free, then 2 × (1² + 2²) = 10 each
+    expect(result.revenue.mean).toBe(200 * 10);
+    expect(result.revenue.perParticipant).toBe(10);
+  });
+});
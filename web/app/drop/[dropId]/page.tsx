@@ -9,6 +9,7 @@ import { StatusPanel } from "@/components/status-panel";
 import { ActionButton } from "@/components/action-button";
 import { ActionStatus, type ActionStep } from "@/components/action-status";
 import { TicketSelector } from "@/components/ticket-selector";
+import { VariantPicker } from "@/components/variant-picker";
 import { RolloverCelebration } from "@/components/rollover-celebration";
 import { PurchaseCelebration } from "@/components/purchase-celebration";
 import { LotteryProofDisplay } from "@/components/lottery-proof";
@@ -21,12 +22,17 @@ import { useGeolocation, type GeoCoordinates } from "@/hooks/use-geolocation";
 import { useQueue } from "@/hooks/use-queue";
 import {
   registerForDrop,
+  confirmEntryPayment,
   getPowChallenge,
   startPurchase,
   completePurchase,
   calculateCostWithRollover,
 } from "@/lib/api";
-import { solvePow, generateFingerprint } from "@/lib/pow-solver";
+import {
+  solvePow,
+  generateFingerprint,
+  supportedPowSchemes,
+} from "@/lib/pow-solver";
 import { isInsideGeoFence } from "@/lib/geo";
 
 const PRODUCT_NAME = "ALPHA SV JACKET";
@@ -54,7 +60,13 @@ export default function DropPage() {
   };
 
   // Countdowns use server-authoritative timestamps, corrected for clock drift
-  const countdown = useCountdown(dropState.registrationEnd, clockOffset);
+  // Upcoming drops count down to registration opening instead of closing
+  const countdown = useCountdown(
+    dropState.phase === "upcoming" && dropState.registrationStart
+      ? dropState.registrationStart
+      : dropState.registrationEnd,
+    clockOffset
+  );
   const purchaseCountdown = useCountdown(
     dropState.purchaseEnd ?? null,
     clockOffset
@@ -74,6 +86,7 @@ export default function DropPage() {
 
   // Ticket selection state
   const [selectedTickets, setSelectedTickets] = useState(1);
+  const [variantPreferences, setVariantPreferences] = useState<string[]>([]);
 
   // Rollover celebration modal state
   const [showRolloverCelebration, setShowRolloverCelebration] = useState(false);
@@ -172,17 +185,21 @@ export default function DropPage() {
     setResultPosition(undefined);
 
     try {
-      const { challenge, difficulty } = await getPowChallenge();
+      // Use the same fingerprint that was used to join the queue
+      const fp = fingerprint ?? generateFingerprint();
+
+      const challenge = await getPowChallenge(
+        dropId,
+        fp,
+        supportedPowSchemes()
+      );
 
       setActionStep("solving");
-      const solution = await solvePow(challenge, difficulty, (progress) => {
+      const solution = await solvePow(challenge, (progress) => {
         setActionProgress(progress);
       });
       setActionProgress(100);
 
-      // Use the same fingerprint that was used to join the queue
-      const fp = fingerprint ?? generateFingerprint();
-
       setActionStep("registering");
       const pageLoadTime =
         typeof window !== "undefined" && "pageLoadTime" in window
@@ -197,14 +214,20 @@ export default function DropPage() {
           fingerprintConfidence: 90,
           timingMs,
           powSolution: solution,
-          powChallenge: challenge,
+          powChallenge: challenge.challenge,
         },
         selectedTickets,
         userLocation ?? undefined, // Pass location for geo-fenced drops
         queue.token ?? undefined,
-        queue.behaviorSignals
+        queue.behaviorSignals,
+        variantPreferences.length > 0 ? variantPreferences : undefined
       );
 
+      // Paid entries only count once the payment goes through
+      if (result.paymentPending && result.paymentId) {
+        await confirmEntryPayment(dropId, userId, result.paymentId);
+      }
+
       setActionStep("success");
 
       // Build descriptive message with rollover info
@@ -268,6 +291,7 @@ export default function DropPage() {
     userId,
     dropId,
     selectedTickets,
+    variantPreferences,
     userLocation,
     fingerprint,
     queueRequirementMet,
@@ -432,6 +456,12 @@ export default function DropPage() {
           disabled: true,
           action: () => {},
         };
+      case "disqualified":
+        return {
+          text: "ENTRY REMOVED",
+          disabled: true,
+          action: () => {},
+        };
       default:
         return { text: "ENTER THE DROP", disabled: true, action: () => {} };
     }
@@ -522,6 +552,8 @@ export default function DropPage() {
             totalEffectiveTickets={dropState.totalEffectiveTickets}
             inventory={dropState.inventory}
             maxInventory={dropState.initialInventory || dropState.inventory || 10}
+            variants={dropState.variants}
+            inventoryCounts={dropState.inventoryCounts}
             // User-specific for odds calculation
             userTickets={userState.tickets}
             userEffectiveTickets={userState.effectiveTickets}
@@ -580,6 +612,18 @@ export default function DropPage() {
             />
           )}
 
+          {/* Variant Picker - multi-SKU drops only */}
+          {showTicketSelector &&
+            dropState.variants &&
+            dropState.variants.length > 0 && (
+              <VariantPicker
+                variants={dropState.variants}
+                preferences={variantPreferences}
+                setPreferences={setVariantPreferences}
+                disabled={loading}
+              />
+            )}
+
           {/* Ticket Selector - use server-provided pricing */}
           {showTicketSelector && (
             <TicketSelector
@@ -14,11 +14,13 @@ import { getSseBaseUrl } from "@/lib/sse-base";
 
 type DropsEventPayload = {
   drops: DropListItem[];
+  upcoming?: DropListItem[];
   serverTime: number;
 };
 
 export default function HomePage() {
   const [drops, setDrops] = useState<DropListItem[]>([]);
+  const [upcoming, setUpcoming] = useState<DropListItem[]>([]);
   const [clockOffset, setClockOffset] = useState(0);
   const [connected, setConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -55,6 +57,7 @@ export default function HomePage() {
           return aTarget - bTarget;
         });
         setDrops(list);
+        setUpcoming(payload.upcoming ?? []);
         setClockOffset(payload.serverTime - Date.now());
         setHasSnapshot(true);
         setLastServerTime(payload.serverTime);
@@ -178,6 +181,17 @@ export default function HomePage() {
               ))}
             </div>
           )}
+
+          {upcoming.length > 0 && (
+            <section className="space-y-3">
+              <h2 className="text-sm uppercase tracking-[0.2em] text-foreground-secondary">
+                Upcoming
+              </h2>
+              {upcoming.map((d) => (
+                <DropCard key={d.dropId} drop={d} clockOffset={clockOffset} />
+              ))}
+            </section>
+          )}
         </div>
       </main>
     </div>
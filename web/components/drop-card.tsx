@@ -6,11 +6,18 @@ import { useCountdown } from "@/hooks/use-countdown";
 
 export type DropListItem = {
   dropId: string;
-  phase: "registration" | "lottery" | "purchase" | "completed" | string;
+  phase:
+    | "upcoming"
+    | "registration"
+    | "lottery"
+    | "purchase"
+    | "completed"
+    | string;
   participantCount: number;
   totalTickets: number;
   inventory: number;
   initialInventory: number;
+  registrationStart?: number;
   registrationEnd: number;
   purchaseEnd?: number;
   lotteryCommitment?: string;
@@ -24,10 +31,13 @@ type UserStatus =
   | "loser"
   | "purchased"
   | "expired"
+  | "disqualified"
   | (string & {});
 
 function phaseLabel(phase: string): string {
   switch (phase) {
+    case "upcoming":
+      return "Upcoming";
     case "registration":
       return "Registration";
     case "lottery":
@@ -36,12 +46,15 @@ function phaseLabel(phase: string): string {
       return "Purchase";
     case "completed":
       return "Completed";
+    case "cancelled":
+      return "Cancelled";
     default:
       return phase;
   }
 }
 
 function countdownLabel(phase: string): string {
+  if (phase === "upcoming") return "Opens in";
   if (phase === "purchase") return "Purchase ends in";
   return "Registration ends in";
 }
@@ -80,6 +93,11 @@ function userBadge(
       };
     case "expired":
       return { label: "Expired", className: "bg-rose-500/10 text-rose-300" };
+    case "disqualified":
+      return {
+        label: "Removed",
+        className: "bg-rose-500/10 text-rose-300",
+      };
     case "loser":
       return {
         label: "Not selected",
@@ -106,6 +124,8 @@ export function DropCard({
   const target =
     drop.phase === "purchase" && drop.purchaseEnd
       ? drop.purchaseEnd
+      : drop.phase === "upcoming" && drop.registrationStart
+      ? drop.registrationStart
       : drop.registrationEnd;
 
   const countdown = useCountdown(target || 0, clockOffset);
@@ -10,17 +10,21 @@ interface HeaderProps {
 }
 
 const phaseLabels: Record<Phase, string> = {
+  upcoming: "COMING SOON",
   registration: "REGISTRATION OPEN",
   lottery: "LOTTERY IN PROGRESS",
   purchase: "PURCHASE WINDOW",
   completed: "DROP COMPLETED",
+  cancelled: "DROP CANCELLED",
 };
 
 const phaseColors: Record<Phase, string> = {
+  upcoming: "bg-sky-500",
   registration: "bg-accent",
   lottery: "bg-amber-500",
   purchase: "bg-emerald-500",
   completed: "bg-foreground-muted",
+  cancelled: "bg-rose-500",
 };
 
 export function Header({ connected, phase, brand = "DROP" }: HeaderProps) {
@@ -36,7 +40,8 @@ export function Header({ connected, phase, brand = "DROP" }: HeaderProps) {
     ? phaseColors[phase]
     : "bg-emerald-500";
 
-  const shouldPulse = connected && phase !== "completed";
+  const shouldPulse =
+    connected && phase !== "completed" && phase !== "cancelled";
 
   return (
     <header className="fixed top-0 left-0 right-0 z-50 bg-background/80 backdrop-blur-md border-b border-border">
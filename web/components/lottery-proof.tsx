@@ -1,9 +1,21 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { clsx } from "clsx";
 import * as Dialog from "@radix-ui/react-dialog";
-import type { Phase, LotteryProof, UserInclusionProof } from "@/lib/types";
+import type {
+  Phase,
+  LotteryProof,
+  UserInclusionProof,
+  FairnessReport,
+  FairnessBucket,
+} from "@/lib/types";
+import {
+  verifyProofInBrowser,
+  type PublishedProof,
+  type VerificationStep,
+} from "@/lib/proof-verifier";
+import type { DrawReplayMessage } from "@/lib/draw-replay.worker";
 
 interface LotteryProofDisplayProps {
   phase: Phase;
@@ -15,7 +27,9 @@ interface LotteryProofDisplayProps {
 /**
  * Displays lottery provability information:
  * - Before lottery: Shows commitment hash (proves randomness was locked)
- * - After lottery: Shows verify button to view full proof
+ * - After lottery: Shows verify button to view full proof, re-checked in
+ *   the browser (commitment, seed, inclusion path; optionally the whole
+ *   draw in a Web Worker) rather than trusting the server's result
  */
 export function LotteryProofDisplay({
   phase,
@@ -25,12 +39,23 @@ export function LotteryProofDisplay({
 }: LotteryProofDisplayProps) {
   const [showProof, setShowProof] = useState(false);
   const [proof, setProof] = useState<LotteryProof | null>(null);
+  const [fairness, setFairness] = useState<FairnessReport | null>(null);
   const [inclusionProof, setInclusionProof] = useState<UserInclusionProof | null>(null);
   const [loading, setLoading] = useState(false);
   const [loadingInclusion, setLoadingInclusion] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [checks, setChecks] = useState<VerificationStep[] | null>(null);
+  const [drawReplay, setDrawReplay] = useState<VerificationStep | null>(null);
+  const replayWorker = useRef<Worker | null>(null);
+
+  useEffect(() => () => replayWorker.current?.terminate(), []);
+
+  const inclusionCheck = checks?.find((check) => check.id === "inclusion");
 
   const canVerify = phase === "purchase" || phase === "completed";
+  const participantsExportUrl = `${
+    process.env.NEXT_PUBLIC_API_URL || "http://localhost:3003"
+  }/api/drop/${dropId}/lottery-proof/participants`;
 
   const fetchProof = async () => {
     setLoading(true);
@@ -46,6 +71,10 @@ export function LotteryProofDisplay({
       const data = await response.json();
       setProof(data);
       setShowProof(true);
+      fetchFairness(apiUrl);
+      if (data.available && data.proof) {
+        runChecks(data.proof, inclusionProof);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load proof");
     } finally {
@@ -53,6 +82,69 @@ export function LotteryProofDisplay({
     }
   };
 
+  // Best-effort: the proof dialog works without the report
+  const fetchFairness = async (apiUrl: string) => {
+    try {
+      const response = await fetch(`${apiUrl}/api/drop/${dropId}/fairness`);
+      if (response.ok) {
+        setFairness(await response.json());
+      }
+    } catch (err) {
+      console.error("Failed to fetch fairness report:", err);
+    }
+  };
+
+  const runChecks = async (
+    published: PublishedProof,
+    inclusion: UserInclusionProof | null
+  ) => {
+    try {
+      setChecks(await verifyProofInBrowser(published, inclusion));
+    } catch (err) {
+      // WebCrypto needs a secure context (https or localhost)
+      console.error("Browser verification failed:", err);
+      setChecks([
+        {
+          id: "commitment",
+          label: "Browser verification",
+          status: "failed",
+          detail: "WebCrypto is unavailable on this page",
+        },
+      ]);
+    }
+  };
+
+  // Re-run the draw from the participant export off the main thread
+  const replayDraw = (published: PublishedProof) => {
+    replayWorker.current?.terminate();
+    const worker = new Worker(
+      new URL("../lib/draw-replay.worker.ts", import.meta.url)
+    );
+    replayWorker.current = worker;
+    const label = "Winners reproduce from the seed";
+    setDrawReplay({ id: "draw", label, status: "running" });
+
+    worker.onmessage = (event: MessageEvent<DrawReplayMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        setDrawReplay({ id: "draw", label, status: "running", detail: message.detail });
+        return;
+      }
+      setDrawReplay({ id: "draw", label, status: message.status, detail: message.detail });
+      worker.terminate();
+      replayWorker.current = null;
+    };
+    worker.onerror = () => {
+      setDrawReplay({ id: "draw", label, status: "failed", detail: "Replay worker crashed" });
+      worker.terminate();
+      replayWorker.current = null;
+    };
+    worker.postMessage({
+      exportUrl: `${participantsExportUrl}?format=ndjson`,
+      proof: published,
+    });
+  };
+
   const fetchInclusionProof = async () => {
     if (!userId) return;
     setLoadingInclusion(true);
@@ -67,6 +159,9 @@ export function LotteryProofDisplay({
       const data = await response.json();
       if (data.available && data.proof) {
         setInclusionProof(data.proof);
+        if (proof?.proof) {
+          runChecks(proof.proof, data.proof);
+        }
       }
     } catch (err) {
       console.error("Failed to fetch inclusion proof:", err);
@@ -323,30 +418,15 @@ export function LotteryProofDisplay({
               {/* Content */}
               {proof?.available && proof.proof ? (
                 <div className="space-y-4">
-                  {/* Verification Status */}
-                  <div className="p-3 rounded-xl bg-emerald-500/10 border border-emerald-500/20">
-                    <div className="flex items-center gap-2">
-                      <svg
-                        className="w-5 h-5 text-emerald-400"
-                        fill="none"
-                        viewBox="0 0 24 24"
-                        stroke="currentColor"
-                      >
-                        <path
-                          strokeLinecap="round"
-                          strokeLinejoin="round"
-                          strokeWidth={2}
-                          d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
-                        />
-                      </svg>
-                      <span className="text-sm font-medium text-emerald-400">
-                        Cryptographically Verified
-                      </span>
-                    </div>
-                    <p className="text-xs text-foreground-secondary mt-1">
-                      The commitment matches the revealed secret.
-                    </p>
-                  </div>
+                  {/* Verification Status (computed in this browser) */}
+                  <BrowserVerification
+                    steps={[...(checks ?? []), ...(drawReplay ? [drawReplay] : [])]}
+                    onReplay={
+                      drawReplay?.status === "running"
+                        ? undefined
+                        : () => replayDraw(proof.proof!)
+                    }
+                  />
 
                   {/* Proof Details */}
                   <div className="space-y-3">
@@ -359,7 +439,7 @@ export function LotteryProofDisplay({
                       value={proof.proof.secret}
                     />
                     <ProofField
-                      label="Participant Merkle Root"
+                      label={`Participant Merkle Root (v${proof.proof.merkleVersion ?? 1})`}
                       value={proof.proof.participantMerkleRoot}
                     />
                     <ProofField
@@ -367,12 +447,41 @@ export function LotteryProofDisplay({
                       value={proof.proof.participantCount.toLocaleString()}
                       mono={false}
                     />
+                    <p className="text-xs text-foreground-muted">
+                      Audit export (pseudonymised):{" "}
+                      <a
+                        href={`${participantsExportUrl}?format=ndjson`}
+                        className="text-accent hover:underline"
+                      >
+                        NDJSON
+                      </a>
+                      {" · "}
+                      <a
+                        href={`${participantsExportUrl}?format=csv`}
+                        className="text-accent hover:underline"
+                      >
+                        CSV
+                      </a>
+                    </p>
+                    {proof.proof.beacon && (
+                      <ProofField
+                        label={`Beacon (${proof.proof.beacon.source} round ${proof.proof.beacon.round})`}
+                        value={proof.proof.beacon.value}
+                      />
+                    )}
                     <ProofField label="Lottery Seed" value={proof.proof.seed} />
                     <ProofField
                       label="Algorithm"
                       value={proof.proof.algorithm}
                       mono={false}
                     />
+                    {proof.proof.disqualifiedUserHashes?.length ? (
+                      <ProofField
+                        label="Disqualified Before Draw"
+                        value={proof.proof.disqualifiedUserHashes.length.toLocaleString()}
+                        mono={false}
+                      />
+                    ) : null}
                     <ProofField 
                       label="Timestamp" 
                       value={new Date(proof.proof.timestamp).toLocaleString()} 
@@ -426,6 +535,11 @@ export function LotteryProofDisplay({
                     </div>
                   )}
 
+                  {/* Fairness report */}
+                  {fairness?.available && fairness.report && (
+                    <FairnessSection report={fairness.report} />
+                  )}
+
                   {/* How to verify */}
                   <div className="p-3 rounded-lg bg-accent/5 border border-accent/20">
                     <p className="text-xs text-foreground-secondary">
@@ -434,7 +548,9 @@ export function LotteryProofDisplay({
                       </span>{" "}
                       1) Compute SHA256(secret) and confirm it matches the commitment.{" "}
                       2) Verify your inclusion proof against the Merkle root.{" "}
-                      3) Re-run the weighted Fenwick Tree selection with the seed to reproduce winners.
+                      3) Re-run the weighted Fenwick Tree selection with the seed to reproduce winners.{" "}
+                      Steps 1–2 run in your browser when the proof opens; step 3 on request.
+                      Offline: <code className="font-mono">pnpm verify-lottery</code> with the audit export.
                     </p>
                   </div>
 
@@ -469,6 +585,12 @@ export function LotteryProofDisplay({
                             <code className="text-xs font-mono text-foreground-secondary">
                               {inclusionProof.leaf.userId}: {inclusionProof.leaf.effectiveTickets} effective tickets (index {inclusionProof.leaf.index})
                             </code>
+                            {inclusionProof.pseudonym && (
+                              <p className="text-[10px] text-foreground-muted mt-1">
+                                Listed in the audit export as{" "}
+                                <code className="font-mono">{inclusionProof.pseudonym}</code>
+                              </p>
+                            )}
                           </div>
                           <div className="p-2 rounded bg-background border border-border">
                             <p className="text-[10px] uppercase tracking-wider text-foreground-muted mb-1">
@@ -490,15 +612,28 @@ export function LotteryProofDisplay({
                           </div>
                           <div className={clsx(
                             "p-2 rounded border",
-                            inclusionProof.verified 
-                              ? "bg-emerald-500/10 border-emerald-500/20" 
-                              : "bg-rose-500/10 border-rose-500/20"
+                            inclusionCheck?.status === "passed"
+                              ? "bg-emerald-500/10 border-emerald-500/20"
+                              : inclusionCheck?.status === "failed"
+                                ? "bg-rose-500/10 border-rose-500/20"
+                                : "bg-background border-border"
                           )}>
                             <p className={clsx(
                               "text-xs font-medium",
-                              inclusionProof.verified ? "text-emerald-400" : "text-rose-400"
+                              inclusionCheck?.status === "passed"
+                                ? "text-emerald-400"
+                                : inclusionCheck?.status === "failed"
+                                  ? "text-rose-400"
+                                  : "text-foreground-muted"
                             )}>
-                              {inclusionProof.verified ? "✓ Proof verified" : "✗ Proof invalid"}
+                              {inclusionCheck?.status === "passed"
+                                ? "✓ Path verified in your browser"
+                                : inclusionCheck?.status === "failed"
+                                  ? "✗ Path does not lead to the published root"
+                                  : "Checking path…"}
+                            </p>
+                            <p className="text-[10px] text-foreground-muted mt-0.5">
+                              Server check: {inclusionProof.verified ? "valid" : "invalid"}
                             </p>
                           </div>
                         </div>
@@ -533,6 +668,173 @@ export function LotteryProofDisplay({
   return null;
 }
 
+const stepStyles: Record<VerificationStep["status"], { icon: string; className: string }> = {
+  pending: { icon: "○", className: "text-foreground-muted" },
+  running: { icon: "…", className: "text-accent" },
+  passed: { icon: "✓", className: "text-emerald-400" },
+  failed: { icon: "✗", className: "text-rose-400" },
+  skipped: { icon: "–", className: "text-foreground-muted" },
+};
+
+function BrowserVerification({
+  steps,
+  onReplay,
+}: {
+  steps: VerificationStep[];
+  onReplay?: () => void;
+}) {
+  const failed = steps.some((step) => step.status === "failed");
+  const running =
+    steps.length === 0 || steps.some((step) => step.status === "running");
+  const replayed = steps.some((step) => step.id === "draw");
+
+  return (
+    <div
+      className={clsx(
+        "p-3 rounded-xl border",
+        failed
+          ? "bg-rose-500/10 border-rose-500/20"
+          : "bg-emerald-500/10 border-emerald-500/20"
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span
+          className={clsx(
+            "text-sm font-medium",
+            failed ? "text-rose-400" : "text-emerald-400"
+          )}
+        >
+          {failed
+            ? "Verification Failed"
+            : running
+              ? "Verifying in your browser…"
+              : "Verified in Your Browser"}
+        </span>
+        {onReplay && (
+          <button
+            type="button"
+            onClick={onReplay}
+            className="text-[10px] text-accent hover:underline"
+          >
+            {replayed ? "Run again" : "Re-run the draw"}
+          </button>
+        )}
+      </div>
+      <ul className="mt-2 space-y-1">
+        {steps.map((step) => (
+          <li key={step.id} className="text-xs">
+            <span className={clsx("font-mono mr-1.5", stepStyles[step.status].className)}>
+              {stepStyles[step.status].icon}
+            </span>
+            <span className="text-foreground-secondary">{step.label}</span>
+            {step.detail && (
+              <span className="block pl-4 text-[10px] text-foreground-muted">
+                {step.detail}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function FairnessSection({
+  report,
+}: {
+  report: NonNullable<FairnessReport["report"]>;
+}) {
+  const { chiSquare } = report;
+
+  return (
+    <div className="p-3 rounded-lg bg-background border border-border space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-[10px] uppercase tracking-wider text-foreground-muted">
+          Fairness Report
+        </p>
+        <span
+          className={clsx(
+            "text-[10px] font-medium px-2 py-0.5 rounded",
+            chiSquare.applicable === false
+              ? "bg-foreground-muted/10 text-foreground-muted"
+              : chiSquare.passed
+                ? "bg-emerald-500/10 text-emerald-400"
+                : "bg-rose-500/10 text-rose-400"
+          )}
+        >
+          {chiSquare.applicable === false
+            ? "Not tested for this draw type"
+            : chiSquare.degreesOfFreedom === 0
+              ? "Too few entries to test"
+              : `χ² p = ${chiSquare.pValue.toFixed(3)}`}
+        </span>
+      </div>
+
+      <p className="text-xs text-foreground-secondary">
+        Gini of effective tickets:{" "}
+        <span className="font-mono text-foreground">
+          {report.gini.toFixed(3)}
+        </span>
+        {" · "}
+        {report.winnerCount} winners from {report.participantCount} entrants
+      </p>
+
+      <FairnessTable title="By tickets" buckets={report.ticketBuckets} />
+      <FairnessTable title="By multiplier" buckets={report.multiplierBuckets} />
+      <FairnessTable title="By loyalty tier" buckets={report.loyaltyBuckets} />
+      {report.geoBuckets && (
+        <FairnessTable title="By geo zone" buckets={report.geoBuckets} />
+      )}
+
+      <p className="text-[10px] text-foreground-muted">
+        Expected rates assume a{" "}
+        {report.expectationModel === "uniform"
+          ? "draw with one entry per person"
+          : "draw weighted by effective tickets"}
+        ; tiered, quota and multi-SKU draws differ by design and aren't
+        tested.
+      </p>
+    </div>
+  );
+}
+
+function FairnessTable({
+  title,
+  buckets,
+}: {
+  title: string;
+  buckets: FairnessBucket[];
+}) {
+  const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-foreground-muted text-left">
+          <th className="font-normal py-1">{title}</th>
+          <th className="font-normal py-1 text-right">Entrants</th>
+          <th className="font-normal py-1 text-right">Expected</th>
+          <th className="font-normal py-1 text-right">Actual</th>
+        </tr>
+      </thead>
+      <tbody>
+        {buckets.map((bucket) => (
+          <tr key={bucket.label} className="border-t border-border">
+            <td className="py-1 text-foreground-secondary">{bucket.label}</td>
+            <td className="py-1 text-right font-mono">{bucket.participants}</td>
+            <td className="py-1 text-right font-mono">
+              {percent(bucket.expectedWinRate)}
+            </td>
+            <td className="py-1 text-right font-mono text-foreground">
+              {percent(bucket.actualWinRate)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
 function ProofField({ 
   label, 
   value, 
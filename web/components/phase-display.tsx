@@ -18,12 +18,15 @@ interface PhaseDisplayProps {
   isRegistered: boolean;
   userStatus?:
     | "not_registered"
+    | "pending_payment"
     | "registered"
     | "winner"
     | "backup_winner"
     | "loser"
     | "purchased"
-    | "expired";
+    | "expired"
+    | "cancelled"
+    | "disqualified";
 }
 
 type PhaseVariant = "accent" | "emerald" | "amber" | "muted";
@@ -136,6 +139,18 @@ function getPhaseConfig(
   sublabel?: string;
 } {
   switch (phase) {
+    case "upcoming":
+      return {
+        badge: {
+          label: "Coming Soon",
+          variant: "accent",
+          pulsing: false,
+        },
+        countdownLabel: "REGISTRATION OPENS IN",
+        countdownData: countdown,
+        sublabel: countdown.isExpired ? "Opening registration..." : undefined,
+      };
+
     case "registration":
       return {
         badge: {
@@ -207,6 +222,20 @@ function getPhaseConfig(
           : "This drop has ended.",
       };
 
+    case "cancelled":
+      return {
+        badge: {
+          label: "Drop Cancelled",
+          variant: "muted",
+          pulsing: false,
+        },
+        countdownLabel: "",
+        countdownData: { hours: 0, minutes: 0, seconds: 0, isExpired: true },
+        sublabel: isRegistered
+          ? "Any rollover entries you used have been refunded."
+          : "This drop has been cancelled.",
+      };
+
     default:
       return {
         badge: { label: "Unknown", variant: "muted", pulsing: false },
@@ -236,9 +265,12 @@ export function PhaseDisplay({
     isRegistered
   );
 
-  // Hide countdown for lottery (show animation)
+  // Hide countdown for lottery (show animation) and cancelled drops
   // Also hide for purchased users - they don't need to see the timer anymore
-  const showCountdown = phase !== "lottery" && userStatus !== "purchased";
+  const showCountdown =
+    phase !== "lottery" &&
+    phase !== "cancelled" &&
+    userStatus !== "purchased";
 
   // Special display for purchased users
   if (userStatus === "purchased") {
@@ -1,7 +1,12 @@
 "use client";
 
 import { clsx } from "clsx";
-import type { Phase, LoyaltyTier } from "@/lib/types";
+import type {
+  Phase,
+  LoyaltyTier,
+  VariantStock,
+  InventoryCounts,
+} from "@/lib/types";
 
 interface StatsGridProps {
   phase: Phase;
@@ -10,6 +15,10 @@ interface StatsGridProps {
   totalEffectiveTickets?: number;
   inventory: number;
   maxInventory: number;
+  // Multi-SKU drops: per-variant remaining stock
+  variants?: VariantStock[];
+  // Purchase window: units held for winners checking out vs sold
+  inventoryCounts?: InventoryCounts;
   // User-specific for odds calculation
   userTickets?: number;
   userEffectiveTickets?: number;
@@ -18,17 +27,21 @@ interface StatsGridProps {
 }
 
 const phaseLabels: Record<Phase, string> = {
+  upcoming: "UPCOMING",
   registration: "REGISTRATION",
   lottery: "LOTTERY",
   purchase: "PURCHASE",
   completed: "COMPLETED",
+  cancelled: "CANCELLED",
 };
 
 const phaseColors: Record<Phase, string> = {
+  upcoming: "bg-sky-500",
   registration: "bg-accent",
   lottery: "bg-yellow-500",
   purchase: "bg-green-500",
   completed: "bg-foreground-muted",
+  cancelled: "bg-rose-500",
 };
 
 const tierColors: Record<LoyaltyTier, string> = {
@@ -67,6 +80,8 @@ export function StatsGrid({
   totalEffectiveTickets,
   inventory,
   maxInventory,
+  variants,
+  inventoryCounts,
   userTickets,
   userEffectiveTickets,
   loyaltyTier,
@@ -141,9 +156,56 @@ export function StatsGrid({
           <span className="text-foreground-muted mx-1">/</span>
           <span className="text-foreground-secondary">{maxInventory}</span>
         </div>
+        {phase === "purchase" && inventoryCounts && (
+          <p className="text-xs text-foreground-muted mt-1">
+            {inventoryCounts.reserved} held · {inventoryCounts.sold} sold
+          </p>
+        )}
       </div>
       </div>
 
+      {/* Per-variant stock (multi-SKU drops) */}
+      {variants && variants.length > 0 && (
+        <div className="bg-background-card border border-border rounded-lg p-4">
+          <p className="text-xs uppercase tracking-wider text-foreground-secondary mb-3">
+            STOCK BY VARIANT
+          </p>
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+            {variants.map((variant) => (
+              <div
+                key={variant.id}
+                className={clsx(
+                  "rounded border border-border px-3 py-2 text-center",
+                  variant.inventory === 0 && "opacity-40"
+                )}
+              >
+                <p className="text-xs text-foreground-secondary truncate">
+                  {variant.label}
+                </p>
+                <p className="font-mono text-sm tabular-nums">
+                  {variant.inventory === 0 ? (
+                    <span className="text-foreground-muted">SOLD OUT</span>
+                  ) : (
+                    <>
+                      <span className="font-medium">{variant.inventory}</span>
+                      <span className="text-foreground-muted mx-1">/</span>
+                      <span className="text-foreground-secondary">
+                        {variant.initialInventory}
+                      </span>
+                    </>
+                  )}
+                </p>
+                {variant.reserved ? (
+                  <p className="text-[10px] text-foreground-muted">
+                    {variant.reserved} held
+                  </p>
+                ) : null}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Odds Display - only shown when user is registered during registration */}
       {showOdds && (
         <div className="bg-background-card border border-border rounded-lg p-4">
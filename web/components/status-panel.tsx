@@ -31,6 +31,12 @@ const statusConfig: Record<
     description: "Enter the drop to secure your spot",
     color: "text-foreground-secondary",
   },
+  pending_payment: {
+    label: "PAYMENT PENDING",
+    description: "Confirm payment to lock in your paid entries",
+    color: "text-amber-400",
+    bgGradient: "from-amber-500/5 to-transparent",
+  },
   registered: {
     label: "REGISTERED",
     description: "You're in! Waiting for the lottery...",
@@ -67,6 +73,11 @@ const statusConfig: Record<
     color: "text-rose-400",
     bgGradient: "from-rose-500/10 to-transparent",
   },
+  cancelled: {
+    label: "DROP CANCELLED",
+    description: "Any rollover entries you used have been refunded",
+    color: "text-foreground-muted",
+  },
 };
 
 export function StatusPanel({
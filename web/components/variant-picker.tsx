@@ -0,0 +1,77 @@
+"use client";
+
+import { clsx } from "clsx";
+import type { VariantStock } from "@/lib/types";
+
+interface VariantPickerProps {
+  variants: VariantStock[];
+  preferences: string[];
+  setPreferences: (preferences: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Ranked variant preferences for multi-SKU drops
+ * Tap variants in the order you want them; winners get their highest
+ * choice still in stock. Picking none means any variant.
+ */
+export function VariantPicker({
+  variants,
+  preferences,
+  setPreferences,
+  disabled = false,
+}: VariantPickerProps) {
+  const toggle = (variantId: string) => {
+    if (disabled) return;
+    setPreferences(
+      preferences.includes(variantId)
+        ? preferences.filter((id) => id !== variantId)
+        : [...preferences, variantId]
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs uppercase tracking-wider text-foreground-secondary">
+          YOUR PICKS
+        </p>
+        <p className="text-xs text-foreground-muted">
+          {preferences.length === 0
+            ? "Any variant"
+            : "Tap in order of preference"}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+        {variants.map((variant) => {
+          const rank = preferences.indexOf(variant.id);
+          const selected = rank !== -1;
+
+          return (
+            <button
+              key={variant.id}
+              type="button"
+              onClick={() => toggle(variant.id)}
+              disabled={disabled}
+              className={clsx(
+                "relative rounded border px-3 py-2 text-sm transition-colors",
+                selected
+                  ? "border-accent bg-accent/10 text-foreground"
+                  : "border-border text-foreground-secondary hover:border-foreground-muted",
+                disabled && "opacity-50 cursor-not-allowed"
+              )}
+            >
+              {selected && (
+                <span className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-accent text-background text-[10px] font-medium flex items-center justify-center">
+                  {rank + 1}
+                </span>
+              )}
+              {variant.label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import type {
   UserState,
   SSEEvent,
   TicketPricing,
+  VariantStock,
+  InventoryCounts,
 } from "@/lib/types";
 import { getSseBaseUrl } from "@/lib/sse-base";
 
@@ -16,6 +18,7 @@ interface SSEConnectedEvent {
   participantCount?: number;
   totalTickets?: number;
   totalEffectiveTickets?: number;
+  registrationStart?: number;
   registrationEnd?: number;
   purchaseEnd?: number;
   serverTime?: number;
@@ -25,6 +28,10 @@ interface SSEConnectedEvent {
   geoFence?: DropState["geoFence"];
   geoFenceMode?: DropState["geoFenceMode"];
   geoFenceBonusMultiplier?: number;
+  // Multi-SKU: per-variant remaining stock
+  variants?: VariantStock[];
+  // Held vs sold breakdown
+  inventoryCounts?: InventoryCounts;
 }
 
 interface UseSSEOptions {
@@ -134,6 +141,7 @@ export function useSSE({
             participantCount: data.participantCount ?? prev.participantCount,
             totalTickets: data.totalTickets || 0,
             totalEffectiveTickets: data.totalEffectiveTickets || 0,
+            registrationStart: data.registrationStart,
             registrationEnd: data.registrationEnd || 0,
             purchaseEnd: data.purchaseEnd,
             ticketPricing: data.ticketPricing || prev.ticketPricing,
@@ -142,6 +150,8 @@ export function useSSE({
             geoFence: data.geoFence,
             geoFenceMode: data.geoFenceMode,
             geoFenceBonusMultiplier: data.geoFenceBonusMultiplier,
+            variants: data.variants,
+            inventoryCounts: data.inventoryCounts,
           }));
         }
       } catch (err) {
@@ -162,14 +172,20 @@ export function useSSE({
             inventory: data.inventory ?? prev.inventory,
             participantCount: data.participantCount ?? prev.participantCount,
             totalTickets: data.totalTickets || 0,
+            registrationStart:
+              data.registrationStart ?? prev.registrationStart,
             registrationEnd: data.registrationEnd ?? prev.registrationEnd,
             purchaseEnd: data.purchaseEnd ?? prev.purchaseEnd,
+            initialInventory: data.initialInventory ?? prev.initialInventory,
+            ticketPricing: data.ticketPricing ?? prev.ticketPricing,
             lotteryCommitment: data.lotteryCommitment || prev.lotteryCommitment,
-            // Preserve geo-fence from initial state (doesn't change)
+            // Geo-fence can be edited before registrations arrive
             geoFence: data.geoFence || prev.geoFence,
             geoFenceMode: data.geoFenceMode || prev.geoFenceMode,
             geoFenceBonusMultiplier:
               data.geoFenceBonusMultiplier ?? prev.geoFenceBonusMultiplier,
+            variants: data.variants ?? prev.variants,
+            inventoryCounts: data.inventoryCounts ?? prev.inventoryCounts,
           }));
         }
       } catch (err) {
@@ -193,6 +209,7 @@ export function useSSE({
             // Backup winner info
             backupPosition: data.backupPosition,
             promoted: data.promoted,
+            variantId: data.variantId ?? prev.variantId,
             // Loyalty info
             loyaltyTier: data.loyaltyTier,
             loyaltyMultiplier: data.loyaltyMultiplier,
@@ -5,6 +5,8 @@ import type {
   RegisterResult,
   RolloverBalance,
   GeoCoordinates,
+  PowChallenge,
+  PowScheme,
   QueueBehaviorSignals,
 } from "./types";
 
@@ -19,11 +21,17 @@ export async function getDropStatus(dropId: string): Promise<DropState> {
   return res.json();
 }
 
-export async function getPowChallenge(): Promise<{
-  challenge: string;
-  difficulty: number;
-}> {
-  const res = await fetch(`${API_BASE}/pow/challenge`);
+export async function getPowChallenge(
+  dropId: string,
+  fingerprint: string,
+  schemes?: PowScheme[]
+): Promise<PowChallenge> {
+  // Difficulty adapts to the drop's load and this browser's history, and the
+  // challenge only registers this fingerprint for this drop;
+  // the server picks the scheme from the ones listed
+  const params = new URLSearchParams({ dropId, fingerprint });
+  if (schemes?.length) params.set("schemes", schemes.join(","));
+  const res = await fetch(`${API_BASE}/pow/challenge?${params}`);
   if (!res.ok) throw new Error("Failed to get PoW challenge");
   return res.json();
 }
@@ -42,7 +50,8 @@ export async function registerForDrop(
   tickets = 1,
   location?: GeoCoordinates,
   queueToken?: string,
-  behaviorSignals?: QueueBehaviorSignals
+  behaviorSignals?: QueueBehaviorSignals,
+  variantPreferences?: string[]
 ): Promise<RegisterResult> {
   const res = await fetch(`${API_BASE}/drop/${dropId}/register`, {
     method: "POST",
@@ -54,6 +63,7 @@ export async function registerForDrop(
       location,
       queueToken,
       behaviorSignals,
+      variantPreferences,
     }),
   });
 
@@ -106,6 +116,55 @@ export async function completePurchase(
   return res.json();
 }
 
+/**
+ * Confirm the entry payment for a registration with paid entries
+ * Until confirmed, the registration is pending_payment and can be released.
+ * paymentId is the one returned by registerForDrop.
+ */
+export async function confirmEntryPayment(
+  dropId: string,
+  userId: string,
+  paymentId: string
+): Promise<{ success: boolean; paymentId?: string; error?: string }> {
+  const res = await fetch(`${API_BASE}/drop/${dropId}/payment/confirm`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ userId, paymentId }),
+  });
+
+  if (!res.ok) {
+    const error = await res
+      .json()
+      .catch(() => ({ error: "Payment failed" }));
+    throw new Error(error.error || "Payment failed");
+  }
+
+  return res.json();
+}
+
+/**
+ * Ask to be notified when an upcoming drop opens registration
+ */
+export async function subscribeReminder(
+  dropId: string,
+  userId: string
+): Promise<{ subscribed: boolean; registrationStart: number }> {
+  const res = await fetch(`${API_BASE}/drop/${dropId}/reminder`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ userId }),
+  });
+
+  if (!res.ok) {
+    const error = await res
+      .json()
+      .catch(() => ({ error: "Failed to set reminder" }));
+    throw new Error(error.error || "Failed to set reminder");
+  }
+
+  return res.json();
+}
+
 export async function getUserStatus(
   dropId: string,
   userId: string
@@ -0,0 +1,186 @@
+/**
+ * Web Worker: re-run a lottery draw from the participant export
+ *
+ * Downloads the pseudonymised export, rebuilds the Merkle root from its leaf
+ * hashes and replays the draw with the published seed, then matches each
+ * published winner to the drawn leaf by recomputing its leaf hash. Runs off
+ * the main thread because exports can hold 100k+ rows.
+ *
+ * The draw mirrors src/lib/lottery.ts (seeded LCG + Fenwick tree) for
+ * weighted-fenwick-v2 and uniform-v1. Profile-based, cohort and multi-SKU
+ * draws are left to `pnpm verify-lottery`.
+ */
+import { computeMerkleRoot, hashLeaf, type PublishedProof } from "./proof-verifier";
+import type { ParticipantExportRow } from "./types";
+
+export interface DrawReplayRequest {
+  exportUrl: string; // NDJSON participant export
+  proof: PublishedProof;
+}
+
+export type DrawReplayMessage =
+  | { type: "progress"; detail: string }
+  | { type: "result"; status: "passed" | "failed" | "skipped"; detail: string };
+
+const REPLAYABLE_ALGORITHMS = ["weighted-fenwick-v2", "uniform-v1"];
+
+const post = (message: DrawReplayMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<DrawReplayRequest>) => {
+  try {
+    post(await replayDraw(event.data));
+  } catch (err) {
+    post({
+      type: "result",
+      status: "failed",
+      detail: err instanceof Error ? err.message : "Replay failed",
+    });
+  }
+};
+
+async function replayDraw({
+  exportUrl,
+  proof,
+}: DrawReplayRequest): Promise<DrawReplayMessage> {
+  if (
+    !REPLAYABLE_ALGORITHMS.includes(proof.algorithm) ||
+    proof.cohortQuotas?.length ||
+    proof.winnerVariants
+  ) {
+    return {
+      type: "result",
+      status: "skipped",
+      detail: `This draw (${proof.algorithm}${proof.cohortQuotas?.length ? ", cohort quotas" : ""}${proof.winnerVariants ? ", multi-SKU" : ""}) can't be replayed in the browser; use pnpm verify-lottery`,
+    };
+  }
+
+  post({ type: "progress", detail: "Downloading participant export…" });
+  const response = await fetch(exportUrl);
+  if (!response.ok) throw new Error("Failed to download participant export");
+  const rows = (await response.text())
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as ParticipantExportRow)
+    .sort((a, b) => a.index - b.index);
+
+  if (rows.length !== proof.participantCount) {
+    return {
+      type: "result",
+      status: "failed",
+      detail: `Export has ${rows.length} entries, proof says ${proof.participantCount}`,
+    };
+  }
+
+  const version = proof.merkleVersion ?? 1;
+  post({
+    type: "progress",
+    detail: `Rebuilding Merkle root from ${rows.length.toLocaleString()} entries…`,
+  });
+  const root = await computeMerkleRoot(
+    rows.map((row) => row.leafHash),
+    version
+  );
+  if (root !== proof.participantMerkleRoot) {
+    return {
+      type: "result",
+      status: "failed",
+      detail: "Merkle root rebuilt from the export doesn't match the proof",
+    };
+  }
+
+  post({ type: "progress", detail: "Replaying the draw…" });
+  const published = [...proof.winners, ...proof.backupWinners];
+  const uniform = proof.algorithm === "uniform-v1";
+  const entries = uniform
+    ? rows.filter((row) => row.effectiveTickets > 0).map((row) => ({ row, weight: 1 }))
+    : rows.map((row) => ({ row, weight: row.effectiveTickets }));
+  // Everyone fits: the weighted draw returns participants in leaf order
+  const drawn =
+    !uniform && entries.length <= published.length
+      ? entries.map((entry) => entry.row)
+      : drawWeightedOrder(entries, published.length, proof.seed);
+
+  for (let i = 0; i < Math.max(drawn.length, published.length); i++) {
+    const row = drawn[i];
+    const userId = published[i];
+    const matches =
+      row !== undefined &&
+      userId !== undefined &&
+      (await hashLeaf(
+        { userId, effectiveTickets: row.effectiveTickets, index: row.index },
+        version
+      )) === row.leafHash;
+    if (!matches) {
+      const label =
+        i < proof.winners.length
+          ? `winner #${i + 1}`
+          : `backup #${i - proof.winners.length + 1}`;
+      return {
+        type: "result",
+        status: "failed",
+        detail: `Draw diverges at ${label}`,
+      };
+    }
+  }
+
+  return {
+    type: "result",
+    status: "passed",
+    detail: `Replayed ${published.length} picks from ${rows.length.toLocaleString()} entries`,
+  };
+}
+
+/**
+ * Seeded LCG, identical to createSeededRNG on the server
+ */
+function createSeededRNG(seed: string): () => number {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    hash = (hash << 5) - hash + seed.charCodeAt(i);
+    hash = hash & hash;
+  }
+
+  let value = hash;
+  return () => {
+    value = (value * 1664525 + 1013904223) >>> 0;
+    return value / 0xffffffff;
+  };
+}
+
+/**
+ * Weighted draw without replacement over a Fenwick tree (leaf order)
+ */
+function drawWeightedOrder(
+  entries: { row: ParticipantExportRow; weight: number }[],
+  count: number,
+  seed: string
+): ParticipantExportRow[] {
+  const n = entries.length;
+  const tree = new Array<number>(n + 1).fill(0);
+  const update = (index: number, delta: number) => {
+    for (let i = index + 1; i <= n; i += i & -i) tree[i] += delta;
+  };
+  const prefixSum = (index: number) => {
+    let sum = 0;
+    for (let i = index + 1; i > 0; i -= i & -i) sum += tree[i];
+    return sum;
+  };
+  entries.forEach((entry, i) => update(i, entry.weight));
+
+  const random = createSeededRNG(seed);
+  const drawn: ParticipantExportRow[] = [];
+  for (let k = 0; k < count && prefixSum(n - 1) > 0; k++) {
+    const target = Math.floor(random() * prefixSum(n - 1));
+    let lo = 0;
+    let hi = n - 1;
+    while (lo < hi) {
+      const mid = Math.floor((lo + hi) / 2);
+      if (prefixSum(mid) <= target) lo = mid + 1;
+      else hi = mid;
+    }
+    drawn.push(entries[lo].row);
+    const weight = lo === 0 ? prefixSum(0) : prefixSum(lo) - prefixSum(lo - 1);
+    update(lo, -weight);
+  }
+  return drawn;
+}
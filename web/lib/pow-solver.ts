@@ -1,7 +1,62 @@
+import type { PowChallenge, PowScheme } from "./types";
+import type { PowWorkerMessage } from "./pow.worker";
+
+/**
+ * PoW schemes this browser can solve, most preferred first
+ * scrypt needs a Web Worker (it's too slow and memory-hungry for the main thread)
+ */
+export function supportedPowSchemes(): PowScheme[] {
+  return typeof Worker !== "undefined" ? ["scrypt", "sha256"] : ["sha256"];
+}
+
+/**
+ * Solve a PoW challenge with the scheme the server issued
+ */
+export function solvePow(
+  challenge: PowChallenge,
+  onProgress?: (progress: number) => void
+): Promise<string> {
+  return challenge.scheme === "scrypt"
+    ? solveScryptPow(challenge, onProgress)
+    : solveSha256Pow(challenge.challenge, challenge.difficulty, onProgress);
+}
+
+/**
+ * scrypt Proof of Work solver (runs in a Web Worker)
+ */
+function solveScryptPow(
+  challenge: PowChallenge,
+  onProgress?: (progress: number) => void
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./pow.worker.ts", import.meta.url));
+    const expectedAttempts = 2 ** challenge.difficulty;
+
+    worker.onmessage = (event: MessageEvent<PowWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        // Chance a solution would have turned up by now
+        onProgress?.(
+          Math.min((1 - Math.exp(-message.attempts / expectedAttempts)) * 100, 99)
+        );
+        return;
+      }
+      worker.terminate();
+      if (message.type === "solved") resolve(message.nonce);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = () => {
+      worker.terminate();
+      reject(new Error("PoW solver failed"));
+    };
+    worker.postMessage(challenge);
+  });
+}
+
 /**
  * SHA-256 Proof of Work solver
  */
-export async function solvePow(
+async function solveSha256Pow(
   challenge: string,
   difficulty: number,
   onProgress?: (progress: number) => void
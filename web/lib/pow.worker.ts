@@ -0,0 +1,40 @@
+/**
+ * Web Worker: solve a memory-hard (scrypt) PoW challenge
+ *
+ * Each attempt allocates 128 * N * r bytes and takes ~100ms+, so the search
+ * runs off the main thread and reports every attempt.
+ */
+import { hasLeadingZeroBits, scrypt } from "./scrypt";
+import type { PowChallenge } from "./types";
+
+export type PowWorkerMessage =
+  | { type: "progress"; attempts: number }
+  | { type: "solved"; nonce: string }
+  | { type: "error"; message: string };
+
+// Bounded so a misconfigured challenge can't spin forever (~2^12 expected at 12 bits)
+const MAX_ATTEMPTS = 100000;
+
+const post = (message: PowWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<PowChallenge>) => {
+  const { challenge, difficulty, scrypt: params } = event.data;
+  try {
+    if (!params) throw new Error("Missing scrypt parameters");
+
+    for (let nonce = 0; nonce < MAX_ATTEMPTS; nonce++) {
+      const hash = await scrypt(challenge + nonce, challenge, params);
+      if (hasLeadingZeroBits(hash, difficulty)) {
+        post({ type: "solved", nonce: nonce.toString() });
+        return;
+      }
+      post({ type: "progress", attempts: nonce + 1 });
+    }
+    throw new Error("Could not solve PoW challenge");
+  } catch (err) {
+    post({
+      type: "error",
+      message: err instanceof Error ? err.message : "PoW solver failed",
+    });
+  }
+};
@@ -0,0 +1,218 @@
+/**
+ * In-browser lottery proof verification (WebCrypto)
+ *
+ * Re-checks the published proof instead of trusting the server's `verified`
+ * flag: SHA256(secret) against the commitment, the seed from the secret,
+ * Merkle root and beacon, and the user's inclusion path. Hashing mirrors
+ * src/lib/merkle.ts for both tree formats (v1 sorted pairs, v2 positional
+ * with 0x00/0x01 leaf/node prefixes).
+ */
+import type { LotteryProof, MerkleLeafData, UserInclusionProof } from "./types";
+
+export type PublishedProof = NonNullable<LotteryProof["proof"]>;
+
+export type CheckStatus = "pending" | "running" | "passed" | "failed" | "skipped";
+
+export interface VerificationStep {
+  id: "commitment" | "seed" | "inclusion" | "draw";
+  label: string;
+  status: CheckStatus;
+  detail?: string;
+}
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+export async function sha256Hex(data: string | Uint8Array): Promise<string> {
+  const bytes = typeof data === "string" ? encoder.encode(data) : data;
+  return toHex(await crypto.subtle.digest("SHA-256", bytes as BufferSource));
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Leaf hash: v1 SHA256(data), v2 SHA256(0x00 || data)
+ */
+export async function hashLeaf(
+  leaf: MerkleLeafData,
+  version: 1 | 2
+): Promise<string> {
+  const data = `${leaf.userId}:${leaf.effectiveTickets}:${leaf.index}`;
+  if (version === 1) return sha256Hex(data);
+  return sha256Hex(concatBytes(new Uint8Array([0x00]), encoder.encode(data)));
+}
+
+/**
+ * Parent hash: v1 hashes the sorted hex pair, v2 SHA256(0x01 || left || right)
+ */
+async function hashChildren(
+  left: string,
+  right: string,
+  version: 1 | 2
+): Promise<string> {
+  if (version === 1) {
+    return sha256Hex(left < right ? left + right : right + left);
+  }
+  return sha256Hex(
+    concatBytes(new Uint8Array([0x01]), hexToBytes(left), hexToBytes(right))
+  );
+}
+
+/**
+ * Rebuild the Merkle root from leaf hashes in leaf order
+ * v1 pairs an odd node with itself, v2 carries it up unchanged
+ */
+export async function computeMerkleRoot(
+  leafHashes: string[],
+  version: 1 | 2
+): Promise<string> {
+  if (leafHashes.length === 0) return sha256Hex("empty");
+
+  let layer = leafHashes;
+  while (layer.length > 1) {
+    const next: Promise<string>[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      const right = layer[i + 1];
+      if (right !== undefined) next.push(hashChildren(layer[i], right, version));
+      else if (version === 1) next.push(hashChildren(layer[i], layer[i], 1));
+      else next.push(Promise.resolve(layer[i]));
+    }
+    layer = await Promise.all(next);
+  }
+  return layer[0];
+}
+
+/**
+ * Walk an inclusion path from the leaf to the root
+ * Returns null if a v2 path doesn't fit the tree width
+ */
+async function rootFromInclusionPath(
+  inclusion: UserInclusionProof,
+  leafHash: string
+): Promise<string | null> {
+  const version = inclusion.merkleVersion ?? 1;
+  let hash = leafHash;
+  let index = inclusion.leaf.index;
+
+  if (version === 1) {
+    // Pairs are sorted before hashing, so the position doesn't matter
+    for (const sibling of inclusion.proof) {
+      hash = await hashChildren(hash, sibling, 1);
+    }
+    return hash;
+  }
+
+  let width = inclusion.leafCount;
+  let cursor = 0;
+  if (index < 0 || index >= width) return null;
+  while (width > 1) {
+    if (index % 2 === 1) {
+      if (cursor >= inclusion.proof.length) return null;
+      hash = await hashChildren(inclusion.proof[cursor++], hash, 2);
+    } else if (index + 1 < width) {
+      if (cursor >= inclusion.proof.length) return null;
+      hash = await hashChildren(hash, inclusion.proof[cursor++], 2);
+    }
+    index = Math.floor(index / 2);
+    width = Math.ceil(width / 2);
+  }
+  return cursor === inclusion.proof.length ? hash : null;
+}
+
+/**
+ * SHA256(secret|merkleRoot), with |beacon.value appended when a beacon was mixed in
+ */
+export function seedInput(proof: PublishedProof): string {
+  return proof.beacon
+    ? `${proof.secret}|${proof.participantMerkleRoot}|${proof.beacon.value}`
+    : `${proof.secret}|${proof.participantMerkleRoot}`;
+}
+
+const short = (hash: string) => `${hash.slice(0, 12)}…`;
+
+/**
+ * Run the checks that need only the proof (and the user's inclusion proof)
+ */
+export async function verifyProofInBrowser(
+  proof: PublishedProof,
+  inclusion?: UserInclusionProof | null
+): Promise<VerificationStep[]> {
+  const steps: VerificationStep[] = [];
+
+  const commitment = await sha256Hex(proof.secret);
+  steps.push({
+    id: "commitment",
+    label: "SHA256(secret) matches the commitment",
+    status: commitment === proof.commitment ? "passed" : "failed",
+    detail:
+      commitment === proof.commitment
+        ? undefined
+        : `Computed ${short(commitment)}, published ${short(proof.commitment)}`,
+  });
+
+  const seed = await sha256Hex(seedInput(proof));
+  steps.push({
+    id: "seed",
+    label: proof.beacon
+      ? "Seed = SHA256(secret|merkleRoot|beacon)"
+      : "Seed = SHA256(secret|merkleRoot)",
+    status: seed === proof.seed ? "passed" : "failed",
+    detail:
+      seed === proof.seed
+        ? undefined
+        : `Computed ${short(seed)}, published ${short(proof.seed)}`,
+  });
+
+  if (!inclusion) {
+    steps.push({
+      id: "inclusion",
+      label: "Your entry is in the Merkle tree",
+      status: "skipped",
+      detail: "Open your inclusion proof to check it",
+    });
+    return steps;
+  }
+
+  const version = inclusion.merkleVersion ?? 1;
+  const leafHash = await hashLeaf(inclusion.leaf, version);
+  const root =
+    leafHash === inclusion.leafHash
+      ? await rootFromInclusionPath(inclusion, leafHash)
+      : null;
+  steps.push({
+    id: "inclusion",
+    label: "Your entry is in the Merkle tree",
+    status: root === proof.participantMerkleRoot ? "passed" : "failed",
+    detail:
+      leafHash !== inclusion.leafHash
+        ? "Your leaf data doesn't hash to the leaf hash"
+        : root === null
+          ? "The proof path doesn't fit the tree"
+          : root === proof.participantMerkleRoot
+            ? `${inclusion.proof.length} hashes up to the v${version} root`
+            : `Path leads to ${short(root)}, not the published root`,
+  });
+
+  return steps;
+}
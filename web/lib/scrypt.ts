@@ -0,0 +1,150 @@
+/**
+ * scrypt (RFC 7914) for the browser
+ *
+ * PBKDF2-HMAC-SHA256 comes from WebCrypto; the memory-hard ROMix step is
+ * plain TypeScript over Uint32Arrays. Meant for the PoW worker: one hash
+ * allocates 128 * N * r bytes, so keep it off the main thread.
+ */
+import type { ScryptParams } from "./types";
+
+const encoder = new TextEncoder();
+
+async function pbkdf2(
+  password: Uint8Array,
+  salt: Uint8Array,
+  length: number
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    password as BufferSource,
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt: salt as BufferSource, iterations: 1, hash: "SHA-256" },
+    key,
+    length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+const rotl = (a: number, b: number) => (a << b) | (a >>> (32 - b));
+
+/**
+ * Salsa20/8 core, in place on B[offset..offset+16)
+ */
+function salsa208(B: Uint32Array, offset: number, x: Uint32Array): void {
+  for (let i = 0; i < 16; i++) x[i] = B[offset + i];
+  for (let i = 0; i < 8; i += 2) {
+    x[4] ^= rotl(x[0] + x[12], 7);  x[8] ^= rotl(x[4] + x[0], 9);
+    x[12] ^= rotl(x[8] + x[4], 13); x[0] ^= rotl(x[12] + x[8], 18);
+    x[9] ^= rotl(x[5] + x[1], 7);   x[13] ^= rotl(x[9] + x[5], 9);
+    x[1] ^= rotl(x[13] + x[9], 13); x[5] ^= rotl(x[1] + x[13], 18);
+    x[14] ^= rotl(x[10] + x[6], 7); x[2] ^= rotl(x[14] + x[10], 9);
+    x[6] ^= rotl(x[2] + x[14], 13); x[10] ^= rotl(x[6] + x[2], 18);
+    x[3] ^= rotl(x[15] + x[11], 7); x[7] ^= rotl(x[3] + x[15], 9);
+    x[11] ^= rotl(x[7] + x[3], 13); x[15] ^= rotl(x[11] + x[7], 18);
+    x[1] ^= rotl(x[0] + x[3], 7);   x[2] ^= rotl(x[1] + x[0], 9);
+    x[3] ^= rotl(x[2] + x[1], 13);  x[0] ^= rotl(x[3] + x[2], 18);
+    x[6] ^= rotl(x[5] + x[4], 7);   x[7] ^= rotl(x[6] + x[5], 9);
+    x[4] ^= rotl(x[7] + x[6], 13);  x[5] ^= rotl(x[4] + x[7], 18);
+    x[11] ^= rotl(x[10] + x[9], 7); x[8] ^= rotl(x[11] + x[10], 9);
+    x[9] ^= rotl(x[8] + x[11], 13); x[10] ^= rotl(x[9] + x[8], 18);
+    x[12] ^= rotl(x[15] + x[14], 7); x[13] ^= rotl(x[12] + x[15], 9);
+    x[14] ^= rotl(x[13] + x[12], 13); x[15] ^= rotl(x[14] + x[13], 18);
+  }
+  for (let i = 0; i < 16; i++) B[offset + i] = B[offset + i] + x[i];
+}
+
+/**
+ * BlockMix: 2r 64-byte blocks from `input` into `output`
+ * (even blocks first, then odd)
+ */
+function blockMix(
+  input: Uint32Array,
+  output: Uint32Array,
+  r: number,
+  X: Uint32Array,
+  scratch: Uint32Array
+): void {
+  X.set(input.subarray((2 * r - 1) * 16, 2 * r * 16));
+  for (let i = 0; i < 2 * r; i++) {
+    for (let k = 0; k < 16; k++) X[k] ^= input[i * 16 + k];
+    salsa208(X, 0, scratch);
+    const target = ((i & 1) * r + (i >> 1)) * 16;
+    output.set(X, target);
+  }
+}
+
+/**
+ * ROMix on one 128r-byte block (little-endian words), in place
+ */
+function roMix(block: Uint32Array, N: number, r: number): void {
+  const words = 32 * r;
+  const V = new Uint32Array(words * N);
+  let X = block.slice();
+  let Y = new Uint32Array(words);
+  const mixX = new Uint32Array(16);
+  const scratch = new Uint32Array(16);
+
+  for (let i = 0; i < N; i++) {
+    V.set(X, i * words);
+    blockMix(X, Y, r, mixX, scratch);
+    [X, Y] = [Y, X];
+  }
+  for (let i = 0; i < N; i++) {
+    const j = X[(2 * r - 1) * 16] & (N - 1);
+    for (let k = 0; k < words; k++) X[k] ^= V[j * words + k];
+    blockMix(X, Y, r, mixX, scratch);
+    [X, Y] = [Y, X];
+  }
+  block.set(X);
+}
+
+function bytesToWords(bytes: Uint8Array): Uint32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const words = new Uint32Array(bytes.length / 4);
+  for (let i = 0; i < words.length; i++) words[i] = view.getUint32(i * 4, true);
+  return words;
+}
+
+function wordsToBytes(words: Uint32Array, bytes: Uint8Array): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let i = 0; i < words.length; i++) view.setUint32(i * 4, words[i], true);
+}
+
+/**
+ * scrypt(password, salt) with the challenge's parameters
+ */
+export async function scrypt(
+  password: string,
+  salt: string,
+  { N, r, p, keyLength }: ScryptParams
+): Promise<Uint8Array> {
+  const passwordBytes = encoder.encode(password);
+  const blockBytes = 128 * r;
+  const B = await pbkdf2(passwordBytes, encoder.encode(salt), p * blockBytes);
+
+  for (let i = 0; i < p; i++) {
+    const chunk = B.subarray(i * blockBytes, (i + 1) * blockBytes);
+    const words = bytesToWords(chunk);
+    roMix(words, N, r);
+    wordsToBytes(words, chunk);
+  }
+
+  return pbkdf2(passwordBytes, B, keyLength);
+}
+
+/**
+ * Whether a hash starts with at least `bits` zero bits
+ */
+export function hasLeadingZeroBits(hash: Uint8Array, bits: number): boolean {
+  const fullBytes = Math.floor(bits / 8);
+  if (hash.length < Math.ceil(bits / 8)) return false;
+  for (let i = 0; i < fullBytes; i++) {
+    if (hash[i] !== 0) return false;
+  }
+  const rest = bits % 8;
+  return rest === 0 || hash[fullBytes] >> (8 - rest) === 0;
+}
@@ -5,6 +5,8 @@ import type {
   TicketPricing,
   GeoFence,
   GeoFenceMode,
+  VariantStock,
+  InventoryCounts,
 } from "../../shared/types";
 
 // Re-export shared types
@@ -14,6 +16,9 @@ export type {
   LoyaltyTier,
   TicketPricing,
   BotValidation,
+  PowChallenge,
+  PowScheme,
+  ScryptParams,
   SSEEvent,
   // Geo-fence types
   GeoCoordinates,
@@ -21,6 +26,8 @@ export type {
   GeoFencePolygon,
   GeoFence,
   GeoFenceMode,
+  VariantStock,
+  InventoryCounts,
   // Queue types
   QueueTokenStatus,
   QueueToken,
@@ -39,6 +46,7 @@ export interface DropState {
   totalEffectiveTickets?: number; // Total tickets with multipliers applied
   winnerCount: number;
   backupWinnerCount?: number;
+  registrationStart?: number; // When registration opens (upcoming drops)
   registrationEnd: number; // Server-authoritative timestamp
   purchaseEnd?: number; // Server-authoritative timestamp for purchase window
   ticketPricing: TicketPricing;
@@ -47,6 +55,10 @@ export interface DropState {
   geoFence?: GeoFence;
   geoFenceMode?: GeoFenceMode;
   geoFenceBonusMultiplier?: number;
+  // Multi-SKU: per-variant remaining stock
+  variants?: VariantStock[];
+  // Held vs sold units during the purchase window
+  inventoryCounts?: InventoryCounts;
 }
 
 export interface UserState {
@@ -63,6 +75,7 @@ export interface UserState {
   // Backup winner info
   backupPosition?: number; // Position in backup queue
   promoted?: boolean; // True when promoted from backup to winner
+  variantId?: string; // Multi-SKU: variant allocated to a winner
   // Loyalty info
   loyaltyTier?: LoyaltyTier;
   loyaltyMultiplier?: number;
@@ -85,6 +98,11 @@ export interface RegisterResult {
   // Geo-fence info
   geoBonus: number;
   inGeoZone: boolean;
+  // Paid entries are held until the payment is confirmed
+  paymentPending: boolean;
+  paymentId?: string;
+  paymentAmount?: number; // Minor units
+  paymentExpiresAt?: number;
 }
 
 export interface RolloverBalance {
@@ -101,16 +119,76 @@ export interface LoyaltyStats {
 export interface LotteryProof {
   available: boolean;
   commitment?: string;
+  beaconRound?: number;
   proof?: {
     commitment: string;
     secret: string;
     participantMerkleRoot: string;
+    merkleVersion?: 1 | 2; // Absent = 1
     participantCount: number;
     seed: string;
     algorithm: string;
     timestamp: number;
     winners: string[];
     backupWinners: string[];
+    beacon?: {
+      source: string;
+      round: number;
+      value: string;
+      signature?: string;
+    };
+    disqualifiedUserHashes?: string[];
+    cohortQuotas?: { id: string }[];
+    winnerVariants?: Record<string, string>;
+  };
+}
+
+/**
+ * One row of the pseudonymised participant export
+ */
+export interface ParticipantExportRow {
+  index: number;
+  pseudonym: string;
+  effectiveTickets: number;
+  leafHash: string;
+}
+
+/**
+ * Expected vs actual primary wins for a group of participants
+ */
+export interface FairnessBucket {
+  label: string;
+  participants: number;
+  tickets: number;
+  effectiveTickets: number;
+  winners: number;
+  expectedWinners: number;
+  expectedWinRate: number;
+  actualWinRate: number;
+}
+
+export interface FairnessReport {
+  available: boolean;
+  report?: {
+    generatedAt: number;
+    algorithm: string;
+    expectationModel: "weighted" | "uniform";
+    participantCount: number;
+    winnerCount: number;
+    totalTickets: number;
+    totalEffectiveTickets: number;
+    gini: number;
+    ticketBuckets: FairnessBucket[];
+    multiplierBuckets: FairnessBucket[];
+    loyaltyBuckets: FairnessBucket[];
+    geoBuckets?: FairnessBucket[];
+    chiSquare: {
+      applicable: boolean;
+      statistic: number;
+      degreesOfFreedom: number;
+      pValue: number;
+      passed: boolean;
+    };
   };
 }
 
@@ -132,5 +210,8 @@ export interface UserInclusionProof {
   leafHash: string;
   proof: string[]; // Sibling hashes from leaf to root
   merkleRoot: string;
+  merkleVersion: 1 | 2;
+  leafCount: number;
   verified: boolean;
+  pseudonym?: string; // Your row in the participant export
 }